@@ -10,11 +10,16 @@ interface ChatAreaProps {
   isStreaming: boolean
   isThinking?: boolean
   onSendMessage: (content: string) => void
+  onEditMessage?: (messageId: string, content: string) => void
+  onRegenerate?: () => void
+  onSwitchBranch?: (messageId: string) => void
 }
 
-export function ChatArea({ messages, isStreaming, isThinking, onSendMessage }: ChatAreaProps) {
+export function ChatArea({ messages, isStreaming, isThinking, onSendMessage, onEditMessage, onRegenerate, onSwitchBranch }: ChatAreaProps) {
   const scrollRef = useRef<HTMLDivElement>(null)
   const bottomRef = useRef<HTMLDivElement>(null)
+  const isBusy = isStreaming || isThinking
+  const lastMessage = messages[messages.length - 1]
 
   // Auto-scroll to bottom when messages change
   useEffect(() => {
@@ -52,7 +57,18 @@ export function ChatArea({ messages, isStreaming, isThinking, onSendMessage }: C
                 <MessageBubble
                   key={msg.id}
                   message={msg}
-                  isStreaming={msg.role === 'assistant' && isStreaming && msg.id === messages[messages.length - 1].id}
+                  isStreaming={msg.role === 'assistant' && isStreaming && msg.id === lastMessage.id}
+                  onEdit={
+                    onEditMessage && !isBusy && msg.role === 'user' && msg.metadata?.type !== 'image'
+                      ? (content) => onEditMessage(msg.id, content)
+                      : undefined
+                  }
+                  onRegenerate={
+                    onRegenerate && !isBusy && msg.role === 'assistant' && msg.id === lastMessage.id
+                      ? onRegenerate
+                      : undefined
+                  }
+                  onSwitchBranch={isBusy ? undefined : onSwitchBranch}
                 />
               ))}
 
@@ -77,7 +93,7 @@ export function ChatArea({ messages, isStreaming, isThinking, onSendMessage }: C
       {/* Input Area */}
       <div className="absolute bottom-0 left-0 right-0 p-4 bg-linear-to-t from-neutral-950 via-neutral-950 to-transparent z-20">
         <div className="max-w-3xl mx-auto w-full">
-          <ChatInput onSend={onSendMessage} isLoading={isStreaming || isThinking} />
+          <ChatInput onSend={onSendMessage} isLoading={isBusy} />
           <p className="text-xs text-center text-neutral-500 mt-2">
             AI can make mistakes. Please verify important information.
           </p>
@@ -1,17 +1,45 @@
+import { useState } from "react"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Progress } from "@/components/ui/progress"
-import { Plus, MessageSquare, Trash2, Sparkles, Settings, User, LogOut, Zap } from "lucide-react"
-import type { ChatSession } from "@/types/chat"
+import { Plus, MessageSquare, Trash2, Sparkles, Settings, User, LogOut, Zap, Pencil, Pin, PinOff, Archive, ArchiveRestore, Search, X, Loader2 } from "lucide-react"
+import type { ChatSession, ChatSearchHit } from "@/types/chat"
 import { cn } from "@/lib/utils"
 import { useNavigate } from "react-router-dom"
 
+// Render a search snippet, highlighting the parts the server wrapped in <mark></mark>
+// (as text: the snippet is not HTML-safe)
+function SearchSnippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {snippet.split(/<\/?mark>/).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-purple-500/30 text-white rounded-sm px-0.5">{part}</mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </>
+  )
+}
+
 interface ChatSidebarProps {
   sessions: ChatSession[]
   currentSessionId?: string
   onSelectSession: (id: string) => void
   onNewChat: () => void
   onDeleteChat: (id: string, e: React.MouseEvent) => void
+  onRenameChat: (id: string, title: string) => void
+  onTogglePin: (id: string) => void
+  onToggleArchive: (id: string) => void
+  showArchived: boolean
+  onToggleShowArchived: () => void
+  searchQuery: string
+  onSearchQueryChange: (query: string) => void
+  searchResults: ChatSearchHit[]
+  isSearching: boolean
+  onSelectSearchResult: (hit: ChatSearchHit) => void
   className?: string
   user?: { email: string } | null
   onLogout?: () => void
@@ -23,11 +51,38 @@ export function ChatSidebar({
   onSelectSession,
   onNewChat,
   onDeleteChat,
+  onRenameChat,
+  onTogglePin,
+  onToggleArchive,
+  showArchived,
+  onToggleShowArchived,
+  searchQuery,
+  onSearchQueryChange,
+  searchResults,
+  isSearching,
+  onSelectSearchResult,
   className,
   user,
   onLogout
 }: ChatSidebarProps) {
   const navigate = useNavigate()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState('')
+
+  const startRename = (session: ChatSession, e: React.MouseEvent) => {
+    e.stopPropagation()
+    setEditingId(session.id)
+    setEditingTitle(session.title)
+  }
+
+  const submitRename = () => {
+    const title = editingTitle.trim()
+    const session = sessions.find(s => s.id === editingId)
+    if (session && title && title !== session.title) {
+      onRenameChat(session.id, title)
+    }
+    setEditingId(null)
+  }
 
   // Mock token usage - replace with real data later
   const tokensUsed = 1250
@@ -60,61 +115,202 @@ export function ChatSidebar({
         </Button>
       </div>
 
+      {/* Search */}
+      <div className="px-4 pb-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-500" />
+          <Input
+            value={searchQuery}
+            maxLength={200}
+            onChange={(e) => onSearchQueryChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') onSearchQueryChange('')
+            }}
+            placeholder="Search chats"
+            className="h-9 pl-9 pr-8 rounded-lg bg-white/5 border-white/10 text-white text-sm placeholder:text-neutral-500"
+          />
+          {searchQuery && (
+            <button
+              onClick={() => onSearchQueryChange('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-neutral-500 hover:text-white transition-colors"
+              title="Clear search"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
       {/* Chat List */}
       <ScrollArea className="flex-1 px-4">
-        <div className="space-y-4 pb-4">
-          <div className="text-xs font-medium text-neutral-500 uppercase tracking-wider px-2">
-            Recent History
-          </div>
-
-          {sessions.length === 0 ? (
-            <div className="text-sm text-neutral-600 text-center py-8 italic">
-              No history yet
+        {searchQuery.trim() ? (
+          <div className="space-y-4 pb-4">
+            <div className="flex items-center justify-between px-2">
+              <span className="text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                Search Results
+              </span>
+              {isSearching && <Loader2 className="w-3.5 h-3.5 text-neutral-500 animate-spin" />}
             </div>
-          ) : (
-            <div className="space-y-1">
-              {sessions.map((session) => (
-                <div
-                  key={session.id}
-                  className="group relative flex items-center"
-                >
-                  <Button
-                    variant="ghost"
-                    onClick={() => onSelectSession(session.id)}
+
+            {searchResults.length === 0 ? (
+              <div className="text-sm text-neutral-600 text-center py-8 italic">
+                {isSearching ? "Searching..." : "No matches"}
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {searchResults.map((hit) => (
+                  <button
+                    key={hit.messageId ?? hit.chatId}
+                    onClick={() => onSelectSearchResult(hit)}
                     className={cn(
-                      "w-full justify-start h-auto py-3 px-3 transition-all rounded-xl",
-                      currentSessionId === session.id
+                      "w-full text-left py-2.5 px-3 rounded-xl transition-all",
+                      currentSessionId === hit.chatId
                         ? "bg-white/10 text-white"
                         : "text-neutral-400 hover:text-white hover:bg-white/5"
                     )}
                   >
-                    <MessageSquare className={cn(
-                      "w-4 h-4 mr-3 shrink-0",
-                      currentSessionId === session.id ? "text-purple-400" : "text-neutral-500"
-                    )} />
-                    <div className="flex flex-col items-start overflow-hidden w-full">
-                      <span className="truncate w-[180px] text-sm text-left font-medium">
-                        {session.title || "Untitled Chat"}
-                      </span>
-                      <span className="text-[10px] text-neutral-500 mt-0.5">
-                        {new Date(session.updatedAt).toLocaleDateString()}
+                    <div className="flex items-center gap-2 text-sm font-medium truncate">
+                      {hit.isArchived && <Archive className="w-3 h-3 shrink-0 text-neutral-500" />}
+                      <span className="truncate">
+                        {hit.messageId ? hit.chatTitle : <SearchSnippet snippet={hit.snippet} />}
                       </span>
                     </div>
-                  </Button>
+                    {hit.messageId && (
+                      <p className="text-xs text-neutral-500 mt-1 line-clamp-2 break-words">
+                        <span className="text-neutral-400">{hit.role === 'user' ? 'You: ' : 'Aura: '}</span>
+                        <SearchSnippet snippet={hit.snippet} />
+                      </p>
+                    )}
+                    <span className="text-[10px] text-neutral-500">
+                      {hit.createdAt.toLocaleDateString()}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4 pb-4">
+            <div className="flex items-center justify-between px-2">
+              <span className="text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                {showArchived ? "Archived" : "Recent History"}
+              </span>
+              <button
+                onClick={onToggleShowArchived}
+                className="text-[10px] text-neutral-500 hover:text-purple-400 transition-colors"
+              >
+                {showArchived ? "Back to chats" : "Show archived"}
+              </button>
+            </div>
 
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={(e) => onDeleteChat(session.id, e)}
-                    className="absolute right-2 top-1/2 -translate-y-1/2 w-7 h-7 opacity-0 group-hover:opacity-100 text-neutral-500 hover:text-red-400 hover:bg-red-500/10 transition-all rounded-lg"
+            {sessions.length === 0 ? (
+              <div className="text-sm text-neutral-600 text-center py-8 italic">
+                {showArchived ? "No archived chats" : "No history yet"}
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {sessions.map((session) => (
+                  <div
+                    key={session.id}
+                    className="group relative flex items-center"
                   >
-                    <Trash2 className="w-3.5 h-3.5" />
-                  </Button>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
+                    {editingId === session.id ? (
+                      <Input
+                        autoFocus
+                        value={editingTitle}
+                        maxLength={255}
+                        onChange={(e) => setEditingTitle(e.target.value)}
+                        onBlur={submitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') submitRename()
+                          if (e.key === 'Escape') setEditingId(null)
+                        }}
+                        className="h-11 rounded-xl bg-white/10 border-purple-500/40 text-white text-sm"
+                      />
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        onClick={() => onSelectSession(session.id)}
+                        className={cn(
+                          "w-full justify-start h-auto py-3 px-3 transition-all rounded-xl",
+                          currentSessionId === session.id
+                            ? "bg-white/10 text-white"
+                            : "text-neutral-400 hover:text-white hover:bg-white/5"
+                        )}
+                      >
+                        {session.isPinned ? (
+                          <Pin className="w-4 h-4 mr-3 shrink-0 text-purple-400" />
+                        ) : (
+                          <MessageSquare className={cn(
+                            "w-4 h-4 mr-3 shrink-0",
+                            currentSessionId === session.id ? "text-purple-400" : "text-neutral-500"
+                          )} />
+                        )}
+                        <div className="flex flex-col items-start overflow-hidden w-full">
+                          <span className="truncate w-[180px] text-sm text-left font-medium">
+                            {session.title || "Untitled Chat"}
+                          </span>
+                          <span className="text-[10px] text-neutral-500 mt-0.5">
+                            {new Date(session.updatedAt).toLocaleDateString()}
+                          </span>
+                        </div>
+                      </Button>
+                    )}
+
+                    {editingId !== session.id && (
+                      <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 bg-neutral-900/90 rounded-lg transition-all">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Rename"
+                          onClick={(e) => startRename(session, e)}
+                          className="w-7 h-7 text-neutral-500 hover:text-white hover:bg-white/10 rounded-lg"
+                        >
+                          <Pencil className="w-3.5 h-3.5" />
+                        </Button>
+                        {!session.isArchived && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={session.isPinned ? "Unpin" : "Pin"}
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              onTogglePin(session.id)
+                            }}
+                            className="w-7 h-7 text-neutral-500 hover:text-purple-400 hover:bg-purple-500/10 rounded-lg"
+                          >
+                            {session.isPinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={session.isArchived ? "Unarchive" : "Archive"}
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            onToggleArchive(session.id)
+                          }}
+                          className="w-7 h-7 text-neutral-500 hover:text-white hover:bg-white/10 rounded-lg"
+                        >
+                          {session.isArchived ? <ArchiveRestore className="w-3.5 h-3.5" /> : <Archive className="w-3.5 h-3.5" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete"
+                          onClick={(e) => onDeleteChat(session.id, e)}
+                          className="w-7 h-7 text-neutral-500 hover:text-red-400 hover:bg-red-500/10 rounded-lg"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </ScrollArea>
 
       {/* Footer Section */}
@@ -1,20 +1,61 @@
 import { cn } from "@/lib/utils"
-import { Sparkles, Copy, Check, Flag } from "lucide-react"
+import { Sparkles, Copy, Check, Flag, Pencil, RefreshCw, ChevronLeft, ChevronRight } from "lucide-react"
 import type { Message } from "@/types/chat"
 import ReactMarkdown from "react-markdown"
 import remarkGfm from "remark-gfm"
 import { useState } from "react"
 import { toast } from "sonner"
 import { ImageMessage } from "./ImageMessage"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
 
 interface MessageBubbleProps {
   message: Message
   isStreaming?: boolean
+  onEdit?: (content: string) => void // Only passed for editable user messages
+  onRegenerate?: () => void // Only passed for the last assistant reply
+  onSwitchBranch?: (messageId: string) => void // Omitted while a reply is streaming
 }
 
-export function MessageBubble({ message, isStreaming }: MessageBubbleProps) {
+interface BranchNavProps {
+  message: Message
+  onSwitchBranch?: (messageId: string) => void
+}
+
+// "< 2/3 >" switcher between the versions of a message
+function BranchNav({ message, onSwitchBranch }: BranchNavProps) {
+  const siblingIds = message.siblingIds ?? []
+  const index = siblingIds.indexOf(message.id)
+  if (siblingIds.length < 2 || index === -1) return null
+
+  return (
+    <div className="flex items-center text-xs text-neutral-400 select-none">
+      <button
+        onClick={() => onSwitchBranch?.(siblingIds[index - 1])}
+        disabled={!onSwitchBranch || index === 0}
+        className="p-1 hover:text-white hover:bg-white/10 rounded-md transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        title="Previous version"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+      <span className="tabular-nums">{index + 1}/{siblingIds.length}</span>
+      <button
+        onClick={() => onSwitchBranch?.(siblingIds[index + 1])}
+        disabled={!onSwitchBranch || index === siblingIds.length - 1}
+        className="p-1 hover:text-white hover:bg-white/10 rounded-md transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        title="Next version"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
+
+export function MessageBubble({ message, isStreaming, onEdit, onRegenerate, onSwitchBranch }: MessageBubbleProps) {
   const isUser = message.role === 'user'
   const [isCopied, setIsCopied] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(message.content)
   const isImageMessage = message.metadata?.type === 'image'
 
   const handleCopy = async () => {
@@ -32,6 +73,30 @@ export function MessageBubble({ message, isStreaming }: MessageBubbleProps) {
     toast.success("Response reported")
   }
 
+  const handleStartEdit = () => {
+    setDraft(message.content)
+    setIsEditing(true)
+  }
+
+  const handleSaveEdit = () => {
+    const content = draft.trim()
+    if (!content || !onEdit) return
+
+    setIsEditing(false)
+    if (content !== message.content) {
+      onEdit(content)
+    }
+  }
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      handleSaveEdit()
+    } else if (e.key === 'Escape') {
+      setIsEditing(false)
+    }
+  }
+
   // Handle image message rendering
   if (isImageMessage && message.metadata?.imageUrl) {
     return (
@@ -90,52 +155,109 @@ export function MessageBubble({ message, isStreaming }: MessageBubbleProps) {
         "max-w-[85%] space-y-1 overflow-hidden flex flex-col",
         isUser ? "items-end" : "items-start"
       )}>
-        <div className={cn(
-          "text-base leading-relaxed font-sans px-5 py-3.5",
-          isUser
-            ? "bg-neutral-800 text-white rounded-3xl rounded-tr-sm"
-            : "text-neutral-200 pl-0"
-        )}>
-          {isUser ? (
-            <div className="whitespace-pre-wrap">{message.content}</div>
-          ) : (
-            <div className="prose prose-invert prose-neutral max-w-none 
-              prose-p:leading-7 prose-p:my-3
-              prose-headings:font-semibold prose-headings:text-white prose-headings:mt-6 prose-headings:mb-3
-              prose-ul:my-3 prose-li:my-1
-              prose-code:text-purple-300 prose-code:bg-purple-500/10 prose-code:px-1.5 prose-code:py-0.5 prose-code:rounded-md prose-code:before:content-none prose-code:after:content-none prose-code:font-mono prose-code:text-sm
-              prose-pre:bg-neutral-900 prose-pre:border prose-pre:border-white/10 prose-pre:p-4 prose-pre:rounded-xl
-              prose-strong:text-white
-              prose-a:text-blue-400 prose-a:no-underline hover:prose-a:underline
-            ">
-              <ReactMarkdown
-                remarkPlugins={[remarkGfm]}
+        {isUser && isEditing ? (
+          <div className="w-full min-w-[280px] sm:min-w-[480px] space-y-2 bg-neutral-800 rounded-3xl rounded-tr-sm p-3">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              autoFocus
+              className="min-h-20 max-h-[200px] w-full resize-none bg-transparent border-0 text-white focus-visible:ring-0 px-2 py-1 text-base"
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsEditing(false)}
+                className="rounded-full text-neutral-300 hover:text-white hover:bg-white/10"
               >
-                {message.content}
-              </ReactMarkdown>
-              {isStreaming && (
-                <span className="inline-block w-2 h-4 ml-1 align-middle bg-white animate-pulse rounded-full" />
-              )}
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSaveEdit}
+                disabled={!draft.trim()}
+                className="rounded-full bg-white text-black hover:bg-neutral-200"
+              >
+                Send
+              </Button>
             </div>
-          )}
-        </div>
+          </div>
+        ) : (
+          <div className={cn(
+            "text-base leading-relaxed font-sans px-5 py-3.5",
+            isUser
+              ? "bg-neutral-800 text-white rounded-3xl rounded-tr-sm"
+              : "text-neutral-200 pl-0"
+          )}>
+            {isUser ? (
+              <div className="whitespace-pre-wrap">{message.content}</div>
+            ) : (
+              <div className="prose prose-invert prose-neutral max-w-none 
+                prose-p:leading-7 prose-p:my-3
+                prose-headings:font-semibold prose-headings:text-white prose-headings:mt-6 prose-headings:mb-3
+                prose-ul:my-3 prose-li:my-1
+                prose-code:text-purple-300 prose-code:bg-purple-500/10 prose-code:px-1.5 prose-code:py-0.5 prose-code:rounded-md prose-code:before:content-none prose-code:after:content-none prose-code:font-mono prose-code:text-sm
+                prose-pre:bg-neutral-900 prose-pre:border prose-pre:border-white/10 prose-pre:p-4 prose-pre:rounded-xl
+                prose-strong:text-white
+                prose-a:text-blue-400 prose-a:no-underline hover:prose-a:underline
+              ">
+                <ReactMarkdown
+                  remarkPlugins={[remarkGfm]}
+                >
+                  {message.content}
+                </ReactMarkdown>
+                {isStreaming && (
+                  <span className="inline-block w-2 h-4 ml-1 align-middle bg-white animate-pulse rounded-full" />
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {isUser && !isEditing && (
+          <div className="flex items-center gap-1">
+            <BranchNav message={message} onSwitchBranch={onSwitchBranch} />
+            {onEdit && (
+              <button
+                onClick={handleStartEdit}
+                className="p-1.5 text-neutral-400 hover:text-white hover:bg-white/10 rounded-md transition opacity-0 group-hover:opacity-100"
+                title="Edit message"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
 
         {!isUser && !isStreaming && (
-          <div className="flex items-center gap-1 pl-0 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-            <button
-              onClick={handleCopy}
-              className="p-1.5 text-neutral-400 hover:text-white hover:bg-white/10 rounded-md transition-colors"
-              title="Copy response"
-            >
-              {isCopied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-            </button>
-            <button
-              onClick={handleReport}
-              className="p-1.5 text-neutral-400 hover:text-red-400 hover:bg-red-500/10 rounded-md transition-colors"
-              title="Report response"
-            >
-              <Flag className="w-4 h-4" />
-            </button>
+          <div className="flex items-center gap-1 pl-0">
+            <BranchNav message={message} onSwitchBranch={onSwitchBranch} />
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+              <button
+                onClick={handleCopy}
+                className="p-1.5 text-neutral-400 hover:text-white hover:bg-white/10 rounded-md transition-colors"
+                title="Copy response"
+              >
+                {isCopied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </button>
+              <button
+                onClick={handleReport}
+                className="p-1.5 text-neutral-400 hover:text-red-400 hover:bg-red-500/10 rounded-md transition-colors"
+                title="Report response"
+              >
+                <Flag className="w-4 h-4" />
+              </button>
+              {onRegenerate && (
+                <button
+                  onClick={onRegenerate}
+                  className="p-1.5 text-neutral-400 hover:text-white hover:bg-white/10 rounded-md transition-colors"
+                  title="Regenerate response"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+              )}
+            </div>
           </div>
         )}
       </div>
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import type { User, RegisterRequest, VerifyEmailRequest, LoginRequest } from '@/types/auth';
+import type { User, RegisterRequest, VerifyEmailRequest, LoginRequest, TwoFactorChallenge, TwoFactorVerifyRequest, MagicLinkRequest, MagicLinkVerifyRequest } from '@/types/auth';
+import type { AxiosError } from 'axios';
 import { authService } from '@/services/auth.service';
+import { userService } from '@/services/user.service';
 import { toast } from 'sonner';
 
 interface AuthContextType {
@@ -9,7 +11,11 @@ interface AuthContextType {
   isLoading: boolean;
   register: (data: RegisterRequest) => Promise<void>;
   verifyEmail: (data: VerifyEmailRequest) => Promise<void>;
-  login: (data: LoginRequest) => Promise<void>;
+  login: (data: LoginRequest) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactor: (data: TwoFactorVerifyRequest) => Promise<void>;
+  requestMagicLink: (data: MagicLinkRequest) => Promise<void>;
+  verifyMagicLink: (data: MagicLinkVerifyRequest) => Promise<TwoFactorChallenge | null>;
+  completeOidcSignIn: () => Promise<void>;
   logout: () => Promise<void>;
 }
 
@@ -62,12 +68,17 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
+  // Resolves with a challenge when the account needs a second factor
   const login = async (data: LoginRequest) => {
     try {
       const response = await authService.login(data);
+      if ('two_factor_required' in response.data) {
+        return response.data;
+      }
       setUser(response.data);
       localStorage.setItem('aura_user', JSON.stringify(response.data));
       toast.success('Welcome back!');
+      return null;
     } catch (error: any) {
       const message = error.response?.data?.message || 'Login failed';
       toast.error(message);
@@ -75,6 +86,62 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
+  const verifyTwoFactor = async (data: TwoFactorVerifyRequest) => {
+    try {
+      const response = await authService.verifyTwoFactor(data);
+      setUser(response.data);
+      localStorage.setItem('aura_user', JSON.stringify(response.data));
+      toast.success('Welcome back!');
+    } catch (error) {
+      const message = (error as AxiosError<{ message?: string }>).response?.data?.message || 'Verification failed';
+      toast.error(message);
+      throw error;
+    }
+  };
+
+  const requestMagicLink = async (data: MagicLinkRequest) => {
+    try {
+      const response = await authService.requestMagicLink(data);
+      toast.success(response.message || 'Check your inbox for a sign-in link.');
+    } catch (error) {
+      const message = (error as AxiosError<{ message?: string }>).response?.data?.message || 'Failed to send sign-in link';
+      toast.error(message);
+      throw error;
+    }
+  };
+
+  // Resolves with a challenge when the account needs a second factor
+  const verifyMagicLink = async (data: MagicLinkVerifyRequest) => {
+    try {
+      const response = await authService.verifyMagicLink(data);
+      if ('two_factor_required' in response.data) {
+        return response.data;
+      }
+      setUser(response.data);
+      localStorage.setItem('aura_user', JSON.stringify(response.data));
+      toast.success('Welcome back!');
+      return null;
+    } catch (error) {
+      const message = (error as AxiosError<{ message?: string }>).response?.data?.message || 'Sign-in link is invalid or has expired';
+      toast.error(message);
+      throw error;
+    }
+  };
+
+  // The OIDC callback already set the session cookies; load the signed-in user
+  const completeOidcSignIn = async () => {
+    try {
+      const response = await userService.getProfile();
+      setUser(response.data);
+      localStorage.setItem('aura_user', JSON.stringify(response.data));
+      toast.success('Welcome back!');
+    } catch (error) {
+      const message = (error as AxiosError<{ message?: string }>).response?.data?.message || 'Sign in failed';
+      toast.error(message);
+      throw error;
+    }
+  };
+
   const logout = async () => {
     try {
       await authService.logout();
@@ -97,6 +164,10 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       register,
       verifyEmail,
       login,
+      verifyTwoFactor,
+      requestMagicLink,
+      verifyMagicLink,
+      completeOidcSignIn,
       logout
     }}>
       {children}
@@ -1,4 +1,4 @@
-import axios from 'axios';
+import axios, { AxiosError, type InternalAxiosRequestConfig } from 'axios';
 
 // Create axios instance with default config
 const api = axios.create({
@@ -9,12 +9,51 @@ const api = axios.create({
   withCredentials: true, // Important for cookies
 });
 
+// Shared in-flight refresh so concurrent 401s trigger a single rotation
+let refreshPromise: Promise<void> | null = null;
+
+/**
+ * Exchange the refresh_token cookie for a new auth_token cookie.
+ * The refresh token is rotated server-side, so only one refresh may run at a time.
+ */
+export const refreshSession = (): Promise<void> => {
+  if (!refreshPromise) {
+    refreshPromise = api
+      .post('/auth/refresh')
+      .then(() => undefined)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
 // Add a response interceptor to handle common errors
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    // You can handle global errors here (e.g., 401 Unauthorized -> redirect to login)
-    // For now, we just reject the promise so the calling component can handle it
+  async (error: AxiosError<{ code?: string }>) => {
+    const original = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+
+    // Silently refresh an expired access token and replay the request once
+    if (
+      original &&
+      !original._retry &&
+      error.response?.status === 401 &&
+      error.response.data?.code === 'TOKEN_EXPIRED' &&
+      !original.url?.includes('/auth/refresh')
+    ) {
+      original._retry = true;
+      try {
+        await refreshSession();
+        return api(original);
+      } catch (refreshError) {
+        // Refresh failed: the session is gone, drop the persisted user
+        localStorage.removeItem('aura_user');
+        return Promise.reject(refreshError);
+      }
+    }
+
+    // For everything else, reject so the calling component can handle it
     return Promise.reject(error);
   }
 );
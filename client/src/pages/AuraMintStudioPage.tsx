@@ -7,6 +7,7 @@ import { Sparkles, ArrowLeft, Zap, Image as ImageIcon, Settings2, Crown, Downloa
 import { toast } from "sonner"
 import { imageGenerationService, createBase64Reference, createUrlReference, getUserImages, type ReferenceImage as ApiReferenceImage, type ImageWithMetadata } from "@/services/imageGeneration.service"
 import { chatService } from "@/services/chat.service"
+import { userService } from "@/services/user.service"
 
 // Types
 interface GeneratedImage {
@@ -104,10 +105,13 @@ export default function AuraMintStudioPage() {
   const dragCounter = useRef(0)
   const [generationMode, setGenerationMode] = useState<"text-to-image" | "image-to-image">("text-to-image")
 
-  // Credits & rate limiting
-  const [credits, setCredits] = useState(97)
-  const [dailyGenerations, setDailyGenerations] = useState(3)
-  const [maxDailyGenerations] = useState(50)
+  // Credits & rate limiting (loaded from the server)
+  const [credits, setCredits] = useState(0)
+  const [creditCapacity, setCreditCapacity] = useState(0) // Highest recent balance, scales the credits bar
+  const [creditCost, setCreditCost] = useState(1)
+  const [dailyGenerations, setDailyGenerations] = useState(0)
+  const [maxDailyGenerations, setMaxDailyGenerations] = useState(0)
+  const [creditsLoaded, setCreditsLoaded] = useState(false)
 
   // Dropdown states
   const [showModelDropdown, setShowModelDropdown] = useState(false)
@@ -192,6 +196,28 @@ export default function AuraMintStudioPage() {
     refreshImageHistory()
   }, [refreshImageHistory])
 
+  // Reusable function to fetch credit balance and daily generations
+  const refreshCredits = useCallback(async () => {
+    if (!user) return
+
+    try {
+      const { data } = await userService.getCredits()
+      setCredits(data.balance)
+      setCreditCapacity(Math.max(data.balance, ...data.entries.map(entry => entry.balance_after)))
+      setCreditCost(data.image_generation_cost)
+      setDailyGenerations(data.daily_generations.used)
+      setMaxDailyGenerations(data.daily_generations.limit)
+      setCreditsLoaded(true)
+    } catch (error) {
+      console.error("Failed to fetch credits:", error)
+    }
+  }, [user])
+
+  // Fetch credits on mount
+  useEffect(() => {
+    refreshCredits()
+  }, [refreshCredits])
+
   // Keyboard navigation for images and fullscreen
   useEffect(() => {
     const handleKeyNavigation = (e: KeyboardEvent) => {
@@ -353,12 +379,12 @@ export default function AuraMintStudioPage() {
       return
     }
 
-    if (dailyGenerations >= maxDailyGenerations) {
+    if (creditsLoaded && dailyGenerations >= maxDailyGenerations) {
       toast.error("Daily generation limit reached")
       return
     }
 
-    if (credits < settings.numberOfImages) {
+    if (creditsLoaded && credits < settings.numberOfImages * creditCost) {
       toast.error("Not enough credits")
       return
     }
@@ -411,7 +437,7 @@ export default function AuraMintStudioPage() {
 
         setGeneratedImages(prev => [newImage, ...prev])
         setSelectedImage(newImage)
-        setCredits(prev => prev - 1)
+        setCredits(prev => prev - creditCost)
         setDailyGenerations(prev => prev + 1)
       }
 
@@ -425,6 +451,8 @@ export default function AuraMintStudioPage() {
       toast.error(error.response?.data?.error || error.message || "Failed to generate image")
     } finally {
       setIsGenerating(false)
+      // The server charged (or refunded) the credits; show its balance
+      refreshCredits()
     }
   }
 
@@ -1162,7 +1190,7 @@ export default function AuraMintStudioPage() {
               <div className="relative h-2 bg-neutral-800 rounded-full overflow-hidden">
                 <div
                   className="absolute inset-y-0 left-0 bg-linear-to-r from-purple-600 to-indigo-600 rounded-full transition-all"
-                  style={{ width: `${credits}%` }}
+                  style={{ width: `${creditCapacity ? (credits / creditCapacity) * 100 : 0}%` }}
                 />
               </div>
               <Button
@@ -1183,7 +1211,7 @@ export default function AuraMintStudioPage() {
               <div className="relative h-2 bg-neutral-800 rounded-full overflow-hidden">
                 <div
                   className="absolute inset-y-0 left-0 bg-linear-to-r from-blue-600 to-cyan-600 rounded-full transition-all"
-                  style={{ width: `${(dailyGenerations / maxDailyGenerations) * 100}%` }}
+                  style={{ width: `${maxDailyGenerations ? Math.min(100, (dailyGenerations / maxDailyGenerations) * 100) : 0}%` }}
                 />
               </div>
               <p className="text-xs text-neutral-500">
@@ -1552,7 +1580,7 @@ export default function AuraMintStudioPage() {
                   <div className="relative h-3 bg-neutral-800 rounded-full overflow-hidden">
                     <div
                       className="absolute inset-y-0 left-0 bg-linear-to-r from-purple-600 to-indigo-600 rounded-full transition-all"
-                      style={{ width: `${credits}%` }}
+                      style={{ width: `${creditCapacity ? (credits / creditCapacity) * 100 : 0}%` }}
                     />
                   </div>
                   <Button
@@ -1573,7 +1601,7 @@ export default function AuraMintStudioPage() {
                   <div className="relative h-3 bg-neutral-800 rounded-full overflow-hidden">
                     <div
                       className="absolute inset-y-0 left-0 bg-linear-to-r from-blue-600 to-cyan-600 rounded-full transition-all"
-                      style={{ width: `${(dailyGenerations / maxDailyGenerations) * 100}%` }}
+                      style={{ width: `${maxDailyGenerations ? Math.min(100, (dailyGenerations / maxDailyGenerations) * 100) : 0}%` }}
                     />
                   </div>
                   <p className="text-xs text-neutral-500">
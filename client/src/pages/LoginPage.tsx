@@ -1,13 +1,22 @@
-import { useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
-import { Sparkles, Loader2, LogIn } from "lucide-react"
-import { useNavigate, Link } from "react-router-dom"
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp"
+import { Sparkles, Loader2, LogIn, ShieldCheck, Mail } from "lucide-react"
+import { useNavigate, Link, useSearchParams } from "react-router-dom"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import * as z from "zod"
 import { useAuth } from "@/context/AuthContext"
+import { authService } from "@/services/auth.service"
+import type { OidcProvider } from "@/types/auth"
+import type { AxiosError } from "axios"
+import { toast } from "sonner"
 
 const loginSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -24,7 +33,19 @@ const FormLabel = ({ children, htmlFor }: { children: React.ReactNode, htmlFor?:
 
 export default function LoginPage() {
   const navigate = useNavigate()
-  const { login } = useAuth()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { login, verifyTwoFactor, requestMagicLink, verifyMagicLink, completeOidcSignIn } = useAuth()
+  const [step, setStep] = useState<'credentials' | 'magic-link' | 'two-factor'>('credentials')
+  const [magicEmail, setMagicEmail] = useState("")
+  const [magicLinkSent, setMagicLinkSent] = useState(false)
+  // Links are single-use: make sure the token is only submitted once
+  const magicTokenHandled = useRef(false)
+  const [oidcProviders, setOidcProviders] = useState<OidcProvider[]>([])
+  const oidcResultHandled = useRef(false)
+  const [challengeToken, setChallengeToken] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [twoFactorCode, setTwoFactorCode] = useState("")
+  const [recoveryCode, setRecoveryCode] = useState("")
   const [isLoading, setIsLoading] = useState(false)
 
   const form = useForm<LoginFormValues>({
@@ -38,7 +59,13 @@ export default function LoginPage() {
   const onSubmit = async (data: LoginFormValues) => {
     setIsLoading(true)
     try {
-      await login({ email: data.email, password: data.password })
+      const challenge = await login({ email: data.email, password: data.password })
+      if (challenge) {
+        // Password accepted, ask for the second factor
+        setChallengeToken(challenge.challenge_token)
+        setStep('two-factor')
+        return
+      }
       navigate('/auramint-studio')
     } catch (error) {
       console.error(error)
@@ -47,6 +74,114 @@ export default function LoginPage() {
     }
   }
 
+  // Arrived from an emailed sign-in link
+  useEffect(() => {
+    const token = searchParams.get('magic_token')
+    if (!token || magicTokenHandled.current) return
+    magicTokenHandled.current = true
+    setSearchParams({}, { replace: true })
+
+    setIsLoading(true)
+    verifyMagicLink({ token })
+      .then((challenge) => {
+        if (challenge) {
+          setChallengeToken(challenge.challenge_token)
+          setStep('two-factor')
+          return
+        }
+        navigate('/auramint-studio')
+      })
+      .catch((error) => console.error(error))
+      .finally(() => setIsLoading(false))
+  }, [searchParams, setSearchParams, verifyMagicLink, navigate])
+
+  useEffect(() => {
+    authService.getOidcProviders()
+      .then((response) => setOidcProviders(response.data.providers))
+      .catch((error) => console.error(error))
+  }, [])
+
+  // Returned from an OpenID Connect provider
+  useEffect(() => {
+    const result = searchParams.get('oidc')
+    const errorCode = searchParams.get('oidc_error')
+    if ((!result && !errorCode) || oidcResultHandled.current) return
+    oidcResultHandled.current = true
+    setSearchParams({}, { replace: true })
+
+    if (errorCode) {
+      toast.error(errorCode === 'ACCESS_DENIED'
+        ? 'Sign in was cancelled'
+        : errorCode === 'EMAIL_NOT_VERIFIED'
+          ? 'Your email is not verified with this provider'
+          : 'Could not sign in with this provider. Please try again.')
+      return
+    }
+
+    // The challenge is held in an httpOnly cookie; verify without a token
+    if (result === '2fa') {
+      setChallengeToken("")
+      setStep('two-factor')
+      return
+    }
+
+    setIsLoading(true)
+    completeOidcSignIn()
+      .then(() => navigate('/auramint-studio'))
+      .catch((error) => console.error(error))
+      .finally(() => setIsLoading(false))
+  }, [searchParams, setSearchParams, completeOidcSignIn, navigate])
+
+  const onMagicLinkSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!magicEmail.trim()) return
+
+    setIsLoading(true)
+    try {
+      await requestMagicLink({ email: magicEmail.trim() })
+      setMagicLinkSent(true)
+    } catch (error) {
+      console.error(error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const resetTwoFactor = () => {
+    setStep('credentials')
+    setChallengeToken("")
+    setTwoFactorCode("")
+    setRecoveryCode("")
+    setUseRecoveryCode(false)
+  }
+
+  const onTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (useRecoveryCode ? !recoveryCode.trim() : twoFactorCode.length !== 6) return
+
+    setIsLoading(true)
+    try {
+      const challenge = challengeToken ? { challenge_token: challengeToken } : {}
+      await verifyTwoFactor(
+        useRecoveryCode
+          ? { ...challenge, recovery_code: recoveryCode.trim() }
+          : { ...challenge, code: twoFactorCode }
+      )
+      navigate('/auramint-studio')
+    } catch (error) {
+      console.error(error)
+      const code = (error as AxiosError<{ code?: string }>).response?.data?.code
+      // Challenge expired or account locked: start over from the password step
+      if (code === 'INVALID_TOKEN' || code === 'ACCOUNT_LOCKED') {
+        resetTwoFactor()
+      } else {
+        setTwoFactorCode("")
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   return (
     <div className="min-h-screen bg-neutral-950 text-white flex flex-col items-center justify-center p-4 relative overflow-hidden font-sans">
       {/* Background Gradients */}
@@ -68,53 +203,182 @@ export default function LoginPage() {
       <Card className="w-full max-w-md bg-neutral-900/50 border-white/10 backdrop-blur-xl relative z-10 shadow-2xl shadow-black/50">
         <CardHeader className="space-y-1">
           <CardTitle className="text-2xl font-bold text-center text-white font-heading">
-            Welcome back
+            {step === 'credentials' ? 'Welcome back' : step === 'magic-link' ? 'Sign in with email' : 'Two-factor authentication'}
           </CardTitle>
           <CardDescription className="text-center text-neutral-400">
-            Enter your credentials to access your account
+            {step === 'credentials'
+              ? 'Enter your credentials to access your account'
+              : step === 'magic-link'
+                ? magicLinkSent
+                  ? 'Check your inbox and open the link to sign in'
+                  : "We'll email you a single-use sign-in link"
+              : useRecoveryCode
+                ? 'Enter one of your recovery codes'
+                : 'Enter the 6-digit code from your authenticator app'}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <div className="space-y-2">
-              <FormLabel htmlFor="email">Email</FormLabel>
-              <Input
-                id="email"
-                type="email"
-                placeholder="john@example.com"
-                className="bg-neutral-950/50 border-white/10 focus-visible:ring-purple-500/50 text-white placeholder:text-neutral-600"
-                {...form.register("email")}
-              />
-              {form.formState.errors.email && (
-                <p className="text-xs text-red-400">{form.formState.errors.email.message}</p>
-              )}
-            </div>
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <FormLabel htmlFor="password">Password</FormLabel>
-                <Link to="#" className="text-xs text-purple-400 hover:text-purple-300">Forgot password?</Link>
+          {step === 'credentials' ? (
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <FormLabel htmlFor="email">Email</FormLabel>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="john@example.com"
+                  className="bg-neutral-950/50 border-white/10 focus-visible:ring-purple-500/50 text-white placeholder:text-neutral-600"
+                  {...form.register("email")}
+                />
+                {form.formState.errors.email && (
+                  <p className="text-xs text-red-400">{form.formState.errors.email.message}</p>
+                )}
               </div>
-              <Input
-                id="password"
-                type="password"
-                placeholder="••••••••"
-                className="bg-neutral-950/50 border-white/10 focus-visible:ring-purple-500/50 text-white placeholder:text-neutral-600"
-                {...form.register("password")}
-              />
-              {form.formState.errors.password && (
-                <p className="text-xs text-red-400">{form.formState.errors.password.message}</p>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <FormLabel htmlFor="password">Password</FormLabel>
+                  <Link to="#" className="text-xs text-purple-400 hover:text-purple-300">Forgot password?</Link>
+                </div>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="••••••••"
+                  className="bg-neutral-950/50 border-white/10 focus-visible:ring-purple-500/50 text-white placeholder:text-neutral-600"
+                  {...form.register("password")}
+                />
+                {form.formState.errors.password && (
+                  <p className="text-xs text-red-400">{form.formState.errors.password.message}</p>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full bg-purple-600 hover:bg-purple-700 text-white mt-6 cursor-pointer"
+                disabled={isLoading}
+              >
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
+                {isLoading ? 'Signing in...' : 'Sign In'}
+              </Button>
+              <Button
+                variant="ghost"
+                className="w-full text-neutral-400 hover:text-white cursor-pointer"
+                onClick={() => {
+                  setMagicEmail(form.getValues("email"))
+                  setStep('magic-link')
+                }}
+                type="button"
+              >
+                <Mail className="mr-2 h-4 w-4" />
+                Email me a sign-in link
+              </Button>
+              {oidcProviders.map((provider) => (
+                <Button
+                  key={provider.id}
+                  variant="outline"
+                  className="w-full bg-transparent border-white/10 text-neutral-200 hover:bg-white/5 hover:text-white cursor-pointer"
+                  disabled={isLoading}
+                  onClick={() => {
+                    window.location.href = authService.getOidcAuthorizeUrl(provider.id)
+                  }}
+                  type="button"
+                >
+                  Continue with {provider.name}
+                </Button>
+              ))}
+            </form>
+          ) : step === 'magic-link' ? (
+            <form onSubmit={onMagicLinkSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <FormLabel htmlFor="magic_email">Email</FormLabel>
+                <Input
+                  id="magic_email"
+                  type="email"
+                  placeholder="john@example.com"
+                  className="bg-neutral-950/50 border-white/10 focus-visible:ring-purple-500/50 text-white placeholder:text-neutral-600"
+                  value={magicEmail}
+                  onChange={(e) => setMagicEmail(e.target.value)}
+                />
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full bg-purple-600 hover:bg-purple-700 text-white mt-6 cursor-pointer"
+                disabled={isLoading || !magicEmail.trim()}
+              >
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+                {isLoading ? 'Sending...' : magicLinkSent ? 'Send another link' : 'Send sign-in link'}
+              </Button>
+              <Button
+                variant="ghost"
+                className="w-full text-neutral-400 hover:text-white cursor-pointer"
+                onClick={() => {
+                  setMagicLinkSent(false)
+                  setStep('credentials')
+                }}
+                type="button"
+              >
+                Sign in with password
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={onTwoFactorSubmit} className="space-y-4">
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <FormLabel htmlFor="recovery_code">Recovery Code</FormLabel>
+                  <Input
+                    id="recovery_code"
+                    placeholder="xxxxx-xxxxx"
+                    autoComplete="off"
+                    className="bg-neutral-950/50 border-white/10 focus-visible:ring-purple-500/50 text-white placeholder:text-neutral-600"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2 flex flex-col items-center">
+                  <FormLabel htmlFor="code">Authentication Code</FormLabel>
+                  <InputOTP
+                    maxLength={6}
+                    value={twoFactorCode}
+                    onChange={setTwoFactorCode}
+                  >
+                    <InputOTPGroup>
+                      <InputOTPSlot index={0} className="bg-neutral-950/50 border-white/10 text-white" />
+                      <InputOTPSlot index={1} className="bg-neutral-950/50 border-white/10 text-white" />
+                      <InputOTPSlot index={2} className="bg-neutral-950/50 border-white/10 text-white" />
+                      <InputOTPSlot index={3} className="bg-neutral-950/50 border-white/10 text-white" />
+                      <InputOTPSlot index={4} className="bg-neutral-950/50 border-white/10 text-white" />
+                      <InputOTPSlot index={5} className="bg-neutral-950/50 border-white/10 text-white" />
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
               )}
-            </div>
-
-            <Button
-              type="submit"
-              className="w-full bg-purple-600 hover:bg-purple-700 text-white mt-6 cursor-pointer"
-              disabled={isLoading}
-            >
-              {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
-              {isLoading ? 'Signing in...' : 'Sign In'}
-            </Button>
-          </form>
+
+              <Button
+                type="submit"
+                className="w-full bg-purple-600 hover:bg-purple-700 text-white mt-6 cursor-pointer"
+                disabled={isLoading || (useRecoveryCode ? !recoveryCode.trim() : twoFactorCode.length !== 6)}
+              >
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+                {isLoading ? 'Verifying...' : 'Verify'}
+              </Button>
+              <Button
+                variant="ghost"
+                className="w-full text-neutral-400 hover:text-white cursor-pointer"
+                onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                type="button"
+              >
+                {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+              </Button>
+              <Button
+                variant="ghost"
+                className="w-full text-neutral-400 hover:text-white cursor-pointer"
+                onClick={resetTwoFactor}
+                type="button"
+              >
+                Back to Sign In
+              </Button>
+            </form>
+          )}
         </CardContent>
         <CardFooter className="flex justify-center border-t border-white/5 pt-6">
           <div className="text-sm text-neutral-400">
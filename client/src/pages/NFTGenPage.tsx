@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react"
 import { ChatSidebar } from "@/components/chat/ChatSidebar"
 import { ChatArea } from "@/components/chat/ChatArea"
-import type { Message, ChatSession } from "@/types/chat"
+import type { Message, ChatSession, ChatSearchHit, StreamCompleteMetadata, StreamErrorEvent } from "@/types/chat"
 import { useAuth } from "@/context/AuthContext"
 import { Sparkles } from "lucide-react"
 import { useNavigate } from "react-router-dom"
@@ -17,11 +17,15 @@ export default function NFTGenPage() {
   const [sessions, setSessions] = useState<ChatSession[]>([])
   const [messages, setMessages] = useState<Message[]>([])
   const [isLoadingHistory, setIsLoadingHistory] = useState(false)
+  const [showArchived, setShowArchived] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchResults, setSearchResults] = useState<ChatSearchHit[]>([])
+  const [isSearching, setIsSearching] = useState(false)
 
-  // Fetch chats on mount
+  // Fetch chats on mount and when switching between active and archived chats
   useEffect(() => {
     loadChats()
-  }, [])
+  }, [showArchived])
 
   // Fetch messages when session changes
   useEffect(() => {
@@ -32,9 +36,33 @@ export default function NFTGenPage() {
     }
   }, [currentSessionId])
 
+  // Search as the user types (debounced); ignore answers to outdated queries
+  useEffect(() => {
+    const query = searchQuery.trim()
+    if (!query) return
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setIsSearching(true)
+      try {
+        const results = await chatService.searchChats(query)
+        if (!cancelled) setSearchResults(results)
+      } catch {
+        if (!cancelled) toast.error("Search failed")
+      } finally {
+        if (!cancelled) setIsSearching(false)
+      }
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [searchQuery])
+
   const loadChats = async () => {
     try {
-      const fetchedSessions = await chatService.getChats()
+      const fetchedSessions = await chatService.getChats(20, 0, showArchived)
       setSessions(fetchedSessions)
 
       // If we have sessions but no current session selected, select the most recent one
@@ -46,6 +74,15 @@ export default function NFTGenPage() {
     }
   }
 
+  // Reload messages without the loading indicator (e.g. after a reply is streamed)
+  const refreshMessages = async (chatId: string) => {
+    try {
+      setMessages(await chatService.getChatHistory(chatId))
+    } catch {
+      // Keep what is shown; the next load catches up
+    }
+  }
+
   const loadChatHistory = async (chatId: string) => {
     setIsLoadingHistory(true)
     try {
@@ -58,6 +95,51 @@ export default function NFTGenPage() {
     }
   }
 
+  // Stream callbacks that fill the AI placeholder and swap in the saved message IDs
+  const streamCallbacks = (aiPlaceholderId: string, userMessageId: string) => ({
+    onChunk: (chunk: string) => {
+      console.log('Received chunk batch, length:', chunk.length)
+      setIsThinking(false)
+      setIsStreaming(false)
+      // Update only the last message (AI response placeholder)
+      setMessages(prev => {
+        const updated = [...prev]
+        const lastIndex = updated.length - 1
+        if (updated[lastIndex].id === aiPlaceholderId) {
+          updated[lastIndex] = {
+            ...updated[lastIndex],
+            content: updated[lastIndex].content + chunk
+          }
+        }
+        return updated
+      })
+    },
+    onComplete: (metadata: StreamCompleteMetadata) => {
+      console.log('Stream completed, tokens used:', metadata.tokens_used)
+      setIsStreaming(false)
+      setIsThinking(false)
+      setMessages(prev => prev.map(msg => {
+        if (msg.id === aiPlaceholderId) {
+          return { ...msg, id: metadata.message_id, tokensUsed: metadata.tokens_used }
+        }
+        // The optimistic user message gets its saved ID so it can be edited
+        if (msg.id === userMessageId) {
+          return { ...msg, id: metadata.user_message_id }
+        }
+        return msg
+      }))
+    },
+    onError: (error: StreamErrorEvent | Error) => {
+      console.error('Stream error:', error)
+      setIsThinking(false)
+      setIsStreaming(false)
+      const errorMessage = error.message || "Failed to generate response"
+      toast.error(errorMessage)
+      // Remove the placeholder if it's empty or show error state
+      setMessages(prev => prev.filter(msg => msg.id !== aiPlaceholderId || msg.content.length > 0))
+    }
+  })
+
   const handleSendMessage = async (content: string) => {
     if (!currentSessionId) {
       console.warn('No current session ID, cannot send message')
@@ -88,49 +170,22 @@ export default function NFTGenPage() {
 
     console.log('Sending message to chat:', currentSessionId)
 
+    const { onChunk, onComplete, onError } = streamCallbacks(aiPlaceholderId, tempId)
+
     try {
       await chatService.sendMessageStream(
         currentSessionId,
         content,
-        (chunk) => {
-          console.log('Received chunk batch, length:', chunk.length)
-          setIsThinking(false)
-          setIsStreaming(false)
-          // Update only the last message (AI response placeholder)
-          setMessages(prev => {
-            const updated = [...prev]
-            const lastIndex = updated.length - 1
-            if (updated[lastIndex].id === aiPlaceholderId) {
-              updated[lastIndex] = {
-                ...updated[lastIndex],
-                content: updated[lastIndex].content + chunk
-              }
-            }
-            return updated
-          })
-        },
-        (metadata) => {
-          console.log('Stream completed, tokens used:', metadata.tokens_used)
-          setIsStreaming(false)
-          setIsThinking(false)
-          setMessages(prev => prev.map(msg =>
-            msg.id === aiPlaceholderId
-              ? { ...msg, id: metadata.message_id, tokensUsed: metadata.tokens_used }
-              : msg
-          ))
-          // Refresh chat list to update timestamps/previews if needed
-          loadChats()
-        },
-        (error) => {
-          console.error('Stream error:', error)
-          setIsThinking(false)
-          setIsStreaming(false)
-          const errorMessage = error instanceof Error ? error.message : (error?.message || "Failed to generate response")
-          toast.error(errorMessage)
-          // Remove the placeholder if it's empty or show error state
-          setMessages(prev => prev.filter(msg => msg.id !== aiPlaceholderId || msg.content.length > 0))
+        onChunk,
+        onComplete,
+        onError,
+        (title) => {
+          // The server named the chat after its first exchange
+          setSessions(prev => prev.map(s => s.id === currentSessionId ? { ...s, title } : s))
         }
       )
+      // Refresh chat list to update timestamps/previews if needed
+      loadChats()
     } catch (err) {
       console.error('Unexpected error in handleSendMessage:', err)
       setIsThinking(false)
@@ -140,9 +195,68 @@ export default function NFTGenPage() {
     }
   }
 
+  const handleEditMessage = async (messageId: string, content: string) => {
+    const chatId = currentSessionId
+    const index = messages.findIndex(msg => msg.id === messageId)
+    if (!chatId || index === -1) return
+
+    // The edit becomes a new version of the message, followed by the new reply
+    const tempId = Date.now().toString()
+    const aiPlaceholderId = (Date.now() + 1).toString()
+    setMessages(prev => [
+      ...prev.slice(0, index),
+      { ...prev[index], id: tempId, content, siblingIds: undefined },
+      { id: aiPlaceholderId, role: 'assistant', content: '', timestamp: new Date() }
+    ])
+    setIsThinking(true)
+
+    const { onChunk, onComplete, onError } = streamCallbacks(aiPlaceholderId, tempId)
+
+    await chatService.editMessageStream(chatId, messageId, content, onChunk, onComplete, onError)
+    // Pick up the new version counts (or what the server kept after an error)
+    refreshMessages(chatId)
+  }
+
+  const handleRegenerate = async () => {
+    const chatId = currentSessionId
+    if (!chatId) return
+
+    // The new reply takes the place of the last one
+    const aiPlaceholderId = Date.now().toString()
+    setMessages(prev => [
+      ...(prev[prev.length - 1]?.role === 'assistant' ? prev.slice(0, -1) : prev),
+      { id: aiPlaceholderId, role: 'assistant', content: '', timestamp: new Date() }
+    ])
+    setIsThinking(true)
+
+    const { onChunk, onComplete, onError } = streamCallbacks(aiPlaceholderId, '')
+
+    await chatService.regenerateStream(chatId, onChunk, onComplete, onError)
+    // Pick up the new version counts (the previous reply is kept after an error)
+    refreshMessages(chatId)
+  }
+
+  const handleSelectSearchResult = (hit: ChatSearchHit) => {
+    setCurrentSessionId(hit.chatId)
+    setSearchQuery('')
+    setSearchResults([])
+  }
+
+  const handleSwitchBranch = async (messageId: string) => {
+    const chatId = currentSessionId
+    if (!chatId) return
+
+    try {
+      setMessages(await chatService.switchBranch(chatId, messageId))
+    } catch {
+      toast.error("Failed to switch version")
+    }
+  }
+
   const handleNewChat = async () => {
     try {
-      const newSession = await chatService.createChat("New Conversation")
+      // Created as "New Chat"; the server names it after the first reply
+      const newSession = await chatService.createChat()
       setSessions(prev => [newSession, ...prev])
       setCurrentSessionId(newSession.id)
       setMessages([]) // Start with empty messages or a welcome message
@@ -178,6 +292,52 @@ export default function NFTGenPage() {
     }
   }
 
+  const handleRenameChat = async (id: string, title: string) => {
+    try {
+      const updated = await chatService.updateChat(id, { title })
+      setSessions(prev => prev.map(s => s.id === id ? { ...s, title: updated.title } : s))
+    } catch {
+      toast.error("Failed to rename chat")
+    }
+  }
+
+  const handleTogglePin = async (id: string) => {
+    const session = sessions.find(s => s.id === id)
+    if (!session) return
+
+    try {
+      await chatService.updateChat(id, { is_pinned: !session.isPinned })
+      // Reload to get the server's order (pinned first)
+      loadChats()
+    } catch {
+      toast.error(session.isPinned ? "Failed to unpin chat" : "Failed to pin chat")
+    }
+  }
+
+  const handleToggleArchive = async (id: string) => {
+    const session = sessions.find(s => s.id === id)
+    if (!session) return
+
+    try {
+      await chatService.updateChat(id, { is_archived: !session.isArchived })
+      // The chat moves to the other list
+      const remainingSessions = sessions.filter(s => s.id !== id)
+      setSessions(remainingSessions)
+
+      if (currentSessionId === id) {
+        if (remainingSessions.length > 0) {
+          setCurrentSessionId(remainingSessions[0].id)
+        } else {
+          setCurrentSessionId('')
+          setMessages([])
+        }
+      }
+      toast.success(session.isArchived ? "Chat restored" : "Chat archived")
+    } catch {
+      toast.error(session.isArchived ? "Failed to restore chat" : "Failed to archive chat")
+    }
+  }
+
   return (
     <div className="flex h-screen bg-neutral-950 text-white font-sans overflow-hidden">
       {/* Sidebar */}
@@ -187,6 +347,16 @@ export default function NFTGenPage() {
         onSelectSession={setCurrentSessionId}
         onNewChat={handleNewChat}
         onDeleteChat={handleDeleteChat}
+        onRenameChat={handleRenameChat}
+        onTogglePin={handleTogglePin}
+        onToggleArchive={handleToggleArchive}
+        showArchived={showArchived}
+        onToggleShowArchived={() => setShowArchived(prev => !prev)}
+        searchQuery={searchQuery}
+        onSearchQueryChange={setSearchQuery}
+        searchResults={searchResults}
+        isSearching={isSearching}
+        onSelectSearchResult={handleSelectSearchResult}
         className="hidden md:flex"
         user={user}
         onLogout={() => {
@@ -216,6 +386,9 @@ export default function NFTGenPage() {
           isStreaming={isStreaming}
           isThinking={isThinking || isLoadingHistory}
           onSendMessage={handleSendMessage}
+          onEditMessage={handleEditMessage}
+          onRegenerate={handleRegenerate}
+          onSwitchBranch={handleSwitchBranch}
         />
       </div>
     </div>
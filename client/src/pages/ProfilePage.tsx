@@ -3,10 +3,14 @@ import { useNavigate } from "react-router-dom"
 import { useAuth } from "@/context/AuthContext"
 import { userService } from "@/services/user.service"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
-import { Loader2, LogOut, Mail, Shield, Calendar, ArrowLeft, Sparkles, Copy, Check } from "lucide-react"
+import { Loader2, LogOut, Mail, Shield, Calendar, ArrowLeft, Sparkles, Copy, Check, Monitor, Smartphone, X, KeyRound, Plus } from "lucide-react"
 import { toast } from "sonner"
-import type { User } from "@/types/auth"
+import type { User, UserSession, ApiKey, ApiKeyScope } from "@/types/auth"
+import type { AxiosError } from "axios"
+
+const API_KEY_SCOPES: ApiKeyScope[] = ['chat:read', 'chat:write', 'images:read', 'images:generate', 'files:read', 'files:write']
 
 export default function ProfilePage() {
   const navigate = useNavigate()
@@ -14,6 +18,14 @@ export default function ProfilePage() {
   const [user, setUser] = useState<User | null>(contextUser)
   const [isLoading, setIsLoading] = useState(true)
   const [copied, setCopied] = useState(false)
+  const [sessions, setSessions] = useState<UserSession[]>([])
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([])
+  const [newKeyName, setNewKeyName] = useState("")
+  const [newKeyScopes, setNewKeyScopes] = useState<ApiKeyScope[]>(['images:generate'])
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+  const [isCreatingKey, setIsCreatingKey] = useState(false)
+  const [deletingKeyId, setDeletingKeyId] = useState<string | null>(null)
 
   useEffect(() => {
     const fetchProfile = async () => {
@@ -28,7 +40,27 @@ export default function ProfilePage() {
       }
     }
 
+    const fetchSessions = async () => {
+      try {
+        const response = await userService.getSessions()
+        setSessions(response.data.sessions)
+      } catch (error) {
+        console.error("Failed to fetch sessions", error)
+      }
+    }
+
+    const fetchApiKeys = async () => {
+      try {
+        const response = await userService.getApiKeys()
+        setApiKeys(response.data.api_keys)
+      } catch (error) {
+        console.error("Failed to fetch API keys", error)
+      }
+    }
+
     fetchProfile()
+    fetchSessions()
+    fetchApiKeys()
   }, [])
 
   const handleLogout = async () => {
@@ -40,6 +72,71 @@ export default function ProfilePage() {
     }
   }
 
+  const handleRevokeSession = async (sessionId: string) => {
+    setRevokingId(sessionId)
+    try {
+      await userService.revokeSession(sessionId)
+      setSessions(prev => prev.filter(session => session.session_id !== sessionId))
+      toast.success("Device signed out")
+    } catch (error) {
+      console.error("Failed to revoke session", error)
+      toast.error("Failed to sign out device")
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const handleRevokeOtherSessions = async () => {
+    setRevokingId('others')
+    try {
+      const response = await userService.revokeOtherSessions()
+      setSessions(prev => prev.filter(session => session.is_current))
+      toast.success(`Signed out of ${response.data.revoked} other device${response.data.revoked === 1 ? '' : 's'}`)
+    } catch (error) {
+      console.error("Failed to revoke sessions", error)
+      toast.error("Failed to sign out other devices")
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const toggleNewKeyScope = (scope: ApiKeyScope) => {
+    setNewKeyScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope])
+  }
+
+  const handleCreateApiKey = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newKeyName.trim() || newKeyScopes.length === 0) return
+
+    setIsCreatingKey(true)
+    try {
+      const response = await userService.createApiKey({ name: newKeyName.trim(), scopes: newKeyScopes })
+      const { key, ...apiKey } = response.data
+      setApiKeys(prev => [apiKey, ...prev])
+      setCreatedKey(key)
+      setNewKeyName("")
+    } catch (error) {
+      console.error("Failed to create API key", error)
+      toast.error((error as AxiosError<{ message?: string }>).response?.data?.message || "Failed to create API key")
+    } finally {
+      setIsCreatingKey(false)
+    }
+  }
+
+  const handleDeleteApiKey = async (keyId: string) => {
+    setDeletingKeyId(keyId)
+    try {
+      await userService.deleteApiKey(keyId)
+      setApiKeys(prev => prev.filter(apiKey => apiKey.key_id !== keyId))
+      toast.success("API key deleted")
+    } catch (error) {
+      console.error("Failed to delete API key", error)
+      toast.error("Failed to delete API key")
+    } finally {
+      setDeletingKeyId(null)
+    }
+  }
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text)
     setCopied(true)
@@ -109,7 +206,7 @@ export default function ProfilePage() {
               <h1 className="text-3xl font-bold font-heading tracking-tight">{user.full_name || 'Anonymous User'}</h1>
               <div className="flex items-center justify-center gap-2 text-neutral-400">
                 <span className={`inline-block w-2 h-2 rounded-full ${user.email_verified ? 'bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.5)]' : 'bg-yellow-500'}`}></span>
-                <span className="text-sm font-medium">{user.user_type === 'merchant' ? 'Creator' : 'Collector'}</span>
+                <span className="text-sm font-medium">{user.user_type === 'admin' ? 'Admin' : user.user_type === 'merchant' ? 'Creator' : 'Collector'}</span>
               </div>
             </div>
           </div>
@@ -162,6 +259,158 @@ export default function ProfilePage() {
             </div>
           </div>
 
+          {/* Active Sessions */}
+          {sessions.length > 0 && (
+            <div className="space-y-3 pt-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-medium text-neutral-400">Active Sessions</h2>
+                {sessions.some(session => !session.is_current) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-neutral-400 hover:text-red-300 hover:bg-red-500/10 h-8"
+                    onClick={handleRevokeOtherSessions}
+                    disabled={revokingId !== null}
+                  >
+                    {revokingId === 'others' && <Loader2 className="w-3 h-3 animate-spin mr-2" />}
+                    Sign out other devices
+                  </Button>
+                )}
+              </div>
+
+              {sessions.map(session => {
+                const DeviceIcon = /iOS|Android/.test(session.device || '') ? Smartphone : Monitor
+                return (
+                  <div key={session.session_id} className="flex items-center gap-3 p-4 rounded-2xl bg-white/5 border border-white/5">
+                    <div className="p-2 rounded-lg bg-indigo-500/10 text-indigo-400">
+                      <DeviceIcon className="w-4 h-4" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-neutral-200 font-medium text-sm flex items-center gap-2">
+                        {session.device || 'Unknown device'}
+                        {session.is_current && (
+                          <span className="text-[10px] uppercase tracking-wide text-green-400 bg-green-500/10 px-1.5 py-0.5 rounded">This device</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-neutral-500 truncate">
+                        {session.ip_address || 'Unknown IP'} · Last active {new Date(session.last_seen_at).toLocaleString()}
+                      </p>
+                    </div>
+                    {!session.is_current && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-neutral-500 hover:text-red-300 hover:bg-red-500/10 h-8 w-8"
+                        onClick={() => handleRevokeSession(session.session_id)}
+                        disabled={revokingId !== null}
+                        title="Sign out this device"
+                      >
+                        {revokingId === session.session_id ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+                      </Button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          {/* API Keys */}
+          <div className="space-y-3 pt-4">
+            <h2 className="text-sm font-medium text-neutral-400">API Keys</h2>
+
+            {createdKey && (
+              <div className="p-4 rounded-2xl bg-green-500/5 border border-green-500/20 space-y-2">
+                <p className="text-xs text-green-300">Copy this key now. It will not be shown again.</p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 min-w-0 truncate text-xs text-neutral-200 bg-neutral-950/50 px-3 py-2 rounded-lg">{createdKey}</code>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-neutral-400 hover:text-white h-8 w-8"
+                    onClick={() => {
+                      navigator.clipboard.writeText(createdKey)
+                      toast.success("API key copied to clipboard")
+                    }}
+                    title="Copy key"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-neutral-400 hover:text-white h-8 w-8"
+                    onClick={() => setCreatedKey(null)}
+                    title="Dismiss"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {apiKeys.map(apiKey => (
+              <div key={apiKey.key_id} className="flex items-center gap-3 p-4 rounded-2xl bg-white/5 border border-white/5">
+                <div className="p-2 rounded-lg bg-amber-500/10 text-amber-400">
+                  <KeyRound className="w-4 h-4" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="text-neutral-200 font-medium text-sm flex items-center gap-2">
+                    {apiKey.name}
+                    <span className="text-xs text-neutral-500 font-mono">{apiKey.key_prefix}…</span>
+                  </p>
+                  <p className="text-xs text-neutral-500 truncate">
+                    {apiKey.scopes.join(', ')} · {apiKey.last_used_at ? `Last used ${new Date(apiKey.last_used_at).toLocaleString()}` : 'Never used'}
+                    {apiKey.expires_at && ` · Expires ${new Date(apiKey.expires_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-neutral-500 hover:text-red-300 hover:bg-red-500/10 h-8 w-8"
+                  onClick={() => handleDeleteApiKey(apiKey.key_id)}
+                  disabled={deletingKeyId !== null}
+                  title="Delete this key"
+                >
+                  {deletingKeyId === apiKey.key_id ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+                </Button>
+              </div>
+            ))}
+
+            <form onSubmit={handleCreateApiKey} className="p-4 rounded-2xl bg-white/5 border border-white/5 space-y-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  placeholder="Key name, e.g. Batch generator"
+                  className="bg-neutral-950/50 border-white/10 focus-visible:ring-purple-500/50 text-white placeholder:text-neutral-600"
+                  value={newKeyName}
+                  maxLength={100}
+                  onChange={(e) => setNewKeyName(e.target.value)}
+                />
+                <Button
+                  type="submit"
+                  className="bg-purple-600 hover:bg-purple-700 text-white gap-2"
+                  disabled={isCreatingKey || !newKeyName.trim() || newKeyScopes.length === 0}
+                >
+                  {isCreatingKey ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                  Create
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {API_KEY_SCOPES.map(scope => (
+                  <button
+                    key={scope}
+                    type="button"
+                    onClick={() => toggleNewKeyScope(scope)}
+                    className={`text-xs px-2 py-1 rounded-md border transition-colors ${newKeyScopes.includes(scope)
+                      ? 'bg-purple-500/20 border-purple-500/40 text-purple-200'
+                      : 'bg-transparent border-white/10 text-neutral-500 hover:text-neutral-300'}`}
+                  >
+                    {scope}
+                  </button>
+                ))}
+              </div>
+            </form>
+          </div>
+
           {/* Actions */}
           <div className="flex justify-center pt-8">
             <Button
@@ -1,5 +1,5 @@
 import api from '@/lib/axios';
-import type { RegisterRequest, VerifyEmailRequest, LoginRequest, AuthResponse } from '@/types/auth';
+import type { RegisterRequest, VerifyEmailRequest, LoginRequest, AuthResponse, LoginResponse, TwoFactorVerifyRequest, MagicLinkRequest, MagicLinkVerifyRequest, OidcProvidersResponse } from '@/types/auth';
 
 export const authService = {
   register: async (data: RegisterRequest) => {
@@ -13,10 +13,35 @@ export const authService = {
   },
 
   login: async (data: LoginRequest) => {
-    const response = await api.post<AuthResponse>('/auth/signin', data);
+    const response = await api.post<LoginResponse>('/auth/signin', data);
     return response.data;
   },
 
+  verifyTwoFactor: async (data: TwoFactorVerifyRequest) => {
+    const response = await api.post<AuthResponse>('/auth/2fa/verify', data);
+    return response.data;
+  },
+
+  requestMagicLink: async (data: MagicLinkRequest) => {
+    const response = await api.post<{ status: string; message: string }>('/auth/magic-link', data);
+    return response.data;
+  },
+
+  verifyMagicLink: async (data: MagicLinkVerifyRequest) => {
+    const response = await api.post<LoginResponse>('/auth/magic-link/verify', data);
+    return response.data;
+  },
+
+  getOidcProviders: async () => {
+    const response = await api.get<OidcProvidersResponse>('/auth/oidc/providers');
+    return response.data;
+  },
+
+  // Full-page navigation target: the server redirects on to the provider
+  getOidcAuthorizeUrl: (providerId: string) => {
+    return `${api.defaults.baseURL}/auth/oidc/${encodeURIComponent(providerId)}/authorize`;
+  },
+
   logout: async () => {
     const response = await api.post('/auth/logout');
     return response.data;
@@ -1,19 +1,28 @@
-import api from '@/lib/axios';
+import api, { refreshSession } from '@/lib/axios';
 import type { 
   ChatSession, 
   Message, 
   ChatListResponse, 
   ChatHistoryResponse, 
+  ChatSearchHit,
+  ChatSearchResponse,
   CreateChatResponse,
+  UpdateChatRequest,
+  UpdateChatResponse,
+  StreamCompleteMetadata,
+  StreamErrorEvent,
   ApiChat,
-  ApiMessage
+  ApiMessage,
+  ApiChatSearchResult
 } from '@/types/chat';
 
 // Map backend types to frontend types
 const mapChatSession = (apiChat: ApiChat): ChatSession => ({
   id: apiChat.chat_id,
   title: apiChat.title || 'Untitled Chat',
-  updatedAt: new Date(apiChat.updated_at || apiChat.created_at)
+  updatedAt: new Date(apiChat.updated_at || apiChat.created_at),
+  isPinned: apiChat.is_pinned ?? false,
+  isArchived: apiChat.is_archived ?? false
 });
 
 const mapMessage = (apiMessage: ApiMessage): Message => ({
@@ -21,14 +30,160 @@ const mapMessage = (apiMessage: ApiMessage): Message => ({
   role: apiMessage.role,
   content: apiMessage.content,
   timestamp: new Date(apiMessage.created_at),
-  tokensUsed: apiMessage.tokens_consumed
+  tokensUsed: apiMessage.tokens_consumed,
+  siblingIds: apiMessage.sibling_ids
+});
+
+// Open an SSE stream of an assistant reply (send, edit or regenerate) and dispatch its events
+// onTitle fires after onComplete when the server names a new chat
+const streamChatReply = async (
+  method: 'POST' | 'PUT',
+  path: string,
+  body: Record<string, unknown> | undefined,
+  onChunk: (chunk: string) => void, 
+  onComplete: (metadata: StreamCompleteMetadata) => void,
+  onError: (error: StreamErrorEvent | Error) => void,
+  onTitle?: (title: string) => void
+): Promise<void> => {
+  try {
+    const baseURL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+    console.log('Initiating SSE stream to:', `${baseURL}${path}`)
+    
+    const openStream = () => fetch(`${baseURL}${path}`, {
+      method,
+      headers: {
+        'Accept': 'text/event-stream',
+        'Content-Type': 'application/json',
+      },
+      body: body && JSON.stringify(body),
+      credentials: 'include', // Important for cookies
+    });
+
+    let response = await openStream()
+
+    // fetch bypasses the axios interceptor, so refresh an expired session here
+    if (response.status === 401) {
+      const errorData = await response.clone().json().catch(() => ({}))
+      if (errorData.code === 'TOKEN_EXPIRED') {
+        await refreshSession()
+        response = await openStream()
+      }
+    }
+
+    console.log('Response status:', response.status, response.statusText)
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      console.error('API error response:', errorData)
+      throw new Error(errorData.message || `HTTP ${response.status}: ${response.statusText}`)
+    }
+
+    if (!response.body) throw new Error('No response body')
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let chunkBuffer = '' // Buffer chunks for batching
+    let lastFlushTime = Date.now()
+    const BATCH_DELAY = 16 // ~60fps, flush at least this often
+    const BATCH_SIZE = 500 // Characters to batch before flushing
+
+    const flushChunks = () => {
+      if (chunkBuffer) {
+        onChunk(chunkBuffer)
+        chunkBuffer = ''
+        lastFlushTime = Date.now()
+      }
+    }
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) {
+        console.log('Stream reading complete')
+        // Flush any remaining buffered chunks
+        flushChunks()
+        break
+      }
+      
+      const chunk = decoder.decode(value, { stream: true })
+      buffer += chunk
+      
+      const lines = buffer.split('\n\n')
+      buffer = lines.pop() || '' // Keep the last incomplete chunk
+      
+      for (const line of lines) {
+        // Named event: the chat's generated title
+        if (line.startsWith('event: title\n')) {
+          try {
+            const { title } = JSON.parse(line.slice(line.indexOf('data: ') + 6))
+            if (title) onTitle?.(title)
+          } catch {
+            console.warn('Malformed title event:', line)
+          }
+          continue
+        }
+
+        if (line.startsWith('data: ')) {
+          const data = line.slice(6)
+          
+          try {
+            // Try to parse as JSON (for metadata or error)
+            const parsed = JSON.parse(data)
+            
+            if (parsed.error) {
+              console.error('Error from stream:', parsed)
+              flushChunks()
+              onError(parsed)
+              return
+            }
+            
+            if (parsed.done && parsed.tokens_used !== undefined) {
+              console.log('Stream complete with metadata:', parsed)
+              flushChunks()
+              onComplete(parsed)
+              // Keep reading: a title event may follow
+              continue
+            }
+            
+            // If it parses but isn't metadata, treat as content (edge case)
+            console.log('Parsed data as JSON but not metadata, treating as chunk')
+            chunkBuffer += data
+          } catch {
+            // Not JSON, so it's a text chunk
+            if (data.trim()) {
+              chunkBuffer += data
+            }
+          }
+          
+          // Flush chunks if buffer is large enough or enough time has passed
+          const timeSinceLastFlush = Date.now() - lastFlushTime
+          if (chunkBuffer.length >= BATCH_SIZE || timeSinceLastFlush >= BATCH_DELAY) {
+            flushChunks()
+          }
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Error streaming chat reply:', error)
+    onError(error instanceof Error ? error : new Error(String(error)))
+  }
+};
+
+const mapSearchHit = (apiResult: ApiChatSearchResult): ChatSearchHit => ({
+  chatId: apiResult.chat_id,
+  chatTitle: apiResult.chat_title || 'Untitled Chat',
+  isArchived: apiResult.is_archived,
+  messageId: apiResult.message_id,
+  role: apiResult.role,
+  snippet: apiResult.snippet,
+  createdAt: new Date(apiResult.created_at)
 });
 
 export const chatService = {
-  // Get all chats
-  getChats: async (limit = 20, offset = 0): Promise<ChatSession[]> => {
+  // Get all chats (pinned first); archived chats only when `archived` is true
+  getChats: async (limit = 20, offset = 0, archived = false): Promise<ChatSession[]> => {
     try {
-      const response = await api.get<ChatListResponse>(`/chat?limit=${limit}&offset=${offset}`);
+      const response = await api.get<ChatListResponse>(`/chat?limit=${limit}&offset=${offset}&archived=${archived}`);
       return response.data.data.chats.map(mapChatSession);
     } catch (error) {
       console.error('Error fetching chats:', error);
@@ -47,6 +202,17 @@ export const chatService = {
     }
   },
 
+  // Search chat titles and messages, best matches first
+  searchChats: async (query: string, limit = 20): Promise<ChatSearchHit[]> => {
+    try {
+      const response = await api.get<ChatSearchResponse>('/chat/search', { params: { q: query, limit } });
+      return response.data.data.results.map(mapSearchHit);
+    } catch (error) {
+      console.error('Error searching chats:', error);
+      throw error;
+    }
+  },
+
   // Get chat history
   getChatHistory: async (chatId: string, limit = 50, offset = 0): Promise<Message[]> => {
     try {
@@ -59,6 +225,28 @@ export const chatService = {
     }
   },
 
+  // Switch to the version of the conversation through a message; returns its messages
+  switchBranch: async (chatId: string, messageId: string): Promise<Message[]> => {
+    try {
+      const response = await api.post<ChatHistoryResponse>(`/chat/${chatId}/branch`, { message_id: messageId });
+      return response.data.data.messages.map(mapMessage);
+    } catch (error) {
+      console.error('Error switching branch:', error);
+      throw error;
+    }
+  },
+
+  // Rename, pin or archive a chat
+  updateChat: async (chatId: string, updates: UpdateChatRequest): Promise<ChatSession> => {
+    try {
+      const response = await api.patch<UpdateChatResponse>(`/chat/${chatId}`, updates);
+      return mapChatSession(response.data.data);
+    } catch (error) {
+      console.error('Error updating chat:', error);
+      throw error;
+    }
+  },
+
   // Delete a chat
   deleteChat: async (chatId: string): Promise<void> => {
     try {
@@ -70,111 +258,34 @@ export const chatService = {
   },
 
   // Send message with SSE streaming
-  sendMessageStream: async (
+  // onTitle fires after onComplete when the server names a new chat
+  sendMessageStream: (
     chatId: string, 
     content: string, 
     onChunk: (chunk: string) => void, 
-    onComplete: (metadata: { tokens_used: number, message_id: string }) => void,
-    onError: (error: any) => void
-  ): Promise<void> => {
-    try {
-      const baseURL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
-      console.log('Initiating SSE stream to:', `${baseURL}/chat/${chatId}/message`)
-      
-      const response = await fetch(`${baseURL}/chat/${chatId}/message`, {
-        method: 'POST',
-        headers: {
-          'Accept': 'text/event-stream',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ message: content }),
-        credentials: 'include', // Important for cookies
-      });
-
-      console.log('Response status:', response.status, response.statusText)
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        console.error('API error response:', errorData)
-        throw new Error(errorData.message || `HTTP ${response.status}: ${response.statusText}`)
-      }
+    onComplete: (metadata: StreamCompleteMetadata) => void,
+    onError: (error: StreamErrorEvent | Error) => void,
+    onTitle?: (title: string) => void
+  ): Promise<void> =>
+    streamChatReply('POST', `/chat/${chatId}/message`, { message: content }, onChunk, onComplete, onError, onTitle),
 
-      if (!response.body) throw new Error('No response body')
-
-      const reader = response.body.getReader()
-      const decoder = new TextDecoder()
-      let buffer = ''
-      let chunkBuffer = '' // Buffer chunks for batching
-      let lastFlushTime = Date.now()
-      const BATCH_DELAY = 16 // ~60fps, flush at least this often
-      const BATCH_SIZE = 500 // Characters to batch before flushing
-
-      const flushChunks = () => {
-        if (chunkBuffer) {
-          onChunk(chunkBuffer)
-          chunkBuffer = ''
-          lastFlushTime = Date.now()
-        }
-      }
+  // Edit a user message; later messages are dropped and a new reply is streamed
+  editMessageStream: (
+    chatId: string,
+    messageId: string,
+    content: string,
+    onChunk: (chunk: string) => void,
+    onComplete: (metadata: StreamCompleteMetadata) => void,
+    onError: (error: StreamErrorEvent | Error) => void
+  ): Promise<void> =>
+    streamChatReply('PUT', `/chat/${chatId}/messages/${messageId}`, { message: content }, onChunk, onComplete, onError),
 
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) {
-          console.log('Stream reading complete')
-          // Flush any remaining buffered chunks
-          flushChunks()
-          break
-        }
-        
-        const chunk = decoder.decode(value, { stream: true })
-        buffer += chunk
-        
-        const lines = buffer.split('\n\n')
-        buffer = lines.pop() || '' // Keep the last incomplete chunk
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6)
-            
-            try {
-              // Try to parse as JSON (for metadata or error)
-              const parsed = JSON.parse(data)
-              
-              if (parsed.error) {
-                console.error('Error from stream:', parsed)
-                flushChunks()
-                onError(parsed)
-                return
-              }
-              
-              if (parsed.done && parsed.tokens_used !== undefined) {
-                console.log('Stream complete with metadata:', parsed)
-                flushChunks()
-                onComplete(parsed)
-                return
-              }
-              
-              // If it parses but isn't metadata, treat as content (edge case)
-              console.log('Parsed data as JSON but not metadata, treating as chunk')
-              chunkBuffer += data
-            } catch (e) {
-              // Not JSON, so it's a text chunk
-              if (data.trim()) {
-                chunkBuffer += data
-              }
-            }
-            
-            // Flush chunks if buffer is large enough or enough time has passed
-            const timeSinceLastFlush = Date.now() - lastFlushTime
-            if (chunkBuffer.length >= BATCH_SIZE || timeSinceLastFlush >= BATCH_DELAY) {
-              flushChunks()
-            }
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error sending message:', error)
-      onError(error)
-    }
-  }
+  // Replace the last assistant reply with a newly streamed one
+  regenerateStream: (
+    chatId: string,
+    onChunk: (chunk: string) => void,
+    onComplete: (metadata: StreamCompleteMetadata) => void,
+    onError: (error: StreamErrorEvent | Error) => void
+  ): Promise<void> =>
+    streamChatReply('POST', `/chat/${chatId}/regenerate`, undefined, onChunk, onComplete, onError)
 };
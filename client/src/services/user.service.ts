@@ -1,5 +1,5 @@
 import api from '@/lib/axios';
-import type { User } from '@/types/auth';
+import type { User, UserSession, ApiKey, CreateApiKeyRequest, UserCredits } from '@/types/auth';
 
 export interface UserProfileResponse {
   status: string;
@@ -7,9 +7,70 @@ export interface UserProfileResponse {
   data: User;
 }
 
+export interface UserSessionsResponse {
+  status: string;
+  message: string;
+  data: {
+    sessions: UserSession[];
+  };
+}
+
+export interface ApiKeysResponse {
+  status: string;
+  message: string;
+  data: {
+    api_keys: ApiKey[];
+  };
+}
+
+export interface CreateApiKeyResponse {
+  status: string;
+  message: string;
+  data: ApiKey & { key: string };
+}
+
+export interface UserCreditsResponse {
+  status: string;
+  message: string;
+  data: UserCredits;
+}
+
 export const userService = {
   getProfile: async () => {
     const response = await api.get<UserProfileResponse>('/user/profile');
     return response.data;
+  },
+
+  getSessions: async () => {
+    const response = await api.get<UserSessionsResponse>('/user/sessions');
+    return response.data;
+  },
+
+  revokeSession: async (sessionId: string) => {
+    await api.delete(`/user/sessions/${sessionId}`);
+  },
+
+  revokeOtherSessions: async () => {
+    const response = await api.delete<{ data: { revoked: number } }>('/user/sessions');
+    return response.data;
+  },
+
+  getApiKeys: async () => {
+    const response = await api.get<ApiKeysResponse>('/user/api-keys');
+    return response.data;
+  },
+
+  createApiKey: async (data: CreateApiKeyRequest) => {
+    const response = await api.post<CreateApiKeyResponse>('/user/api-keys', data);
+    return response.data;
+  },
+
+  deleteApiKey: async (keyId: string) => {
+    await api.delete(`/user/api-keys/${keyId}`);
+  },
+
+  getCredits: async () => {
+    const response = await api.get<UserCreditsResponse>('/user/credits');
+    return response.data;
   }
 };
@@ -1,4 +1,4 @@
-export type UserType = 'merchant' | 'buyer';
+export type UserType = 'merchant' | 'buyer' | 'admin';
 
 export interface User {
   user_id: string;
@@ -12,7 +12,7 @@ export interface User {
 export interface RegisterRequest {
   email: string;
   password: string;
-  user_type: UserType;
+  user_type: Exclude<UserType, 'admin'>;
   full_name?: string;
 }
 
@@ -31,3 +31,102 @@ export interface AuthResponse {
   message: string;
   data: User;
 }
+
+// Returned by /auth/signin instead of a session when 2FA is enabled
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  challenge_token: string;
+  expires_in: number;
+}
+
+export interface LoginResponse {
+  status: string;
+  message: string;
+  data: User | TwoFactorChallenge;
+}
+
+export interface MagicLinkRequest {
+  email: string;
+}
+
+// Token from the emailed link (/login?magic_token=...)
+export interface MagicLinkVerifyRequest {
+  token: string;
+}
+
+export type ApiKeyScope = 'chat:read' | 'chat:write' | 'images:read' | 'images:generate' | 'files:read' | 'files:write';
+
+// A personal API key, from GET /user/api-keys (the key itself is only returned on creation)
+export interface ApiKey {
+  key_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  expires_in_days?: number;
+}
+
+export type UserPlan = 'free' | 'pro' | 'merchant';
+
+// A change to the image generation credit balance
+export interface CreditLedgerEntry {
+  entry_id: string;
+  seq: number;
+  entry_type: 'grant' | 'debit' | 'refund';
+  amount: number;
+  balance_after: number;
+  reason: string;
+  reference_id: string | null;
+  created_at: string;
+}
+
+// Credit balance and image generation limits, from GET /user/credits
+export interface UserCredits {
+  plan: UserPlan;
+  balance: number;
+  image_generation_cost: number;
+  daily_generations: {
+    used: number;
+    limit: number;
+    resets_at: string;
+  };
+  entries: CreditLedgerEntry[];
+}
+
+// An OpenID Connect provider, from GET /auth/oidc/providers
+export interface OidcProvider {
+  id: string;
+  name: string;
+}
+
+export interface OidcProvidersResponse {
+  status: string;
+  message: string;
+  data: {
+    providers: OidcProvider[];
+  };
+}
+
+export interface TwoFactorVerifyRequest {
+  challenge_token?: string; // Omitted after OIDC sign in (sent as a cookie)
+  code?: string;
+  recovery_code?: string;
+}
+
+// A signed-in device, from GET /user/sessions
+export interface UserSession {
+  session_id: string;
+  device: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  is_current: boolean;
+}
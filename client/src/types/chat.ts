@@ -4,6 +4,7 @@ export interface Message {
   content: string
   timestamp: Date
   tokensUsed?: number
+  siblingIds?: string[] // Versions of this message (edits, regenerated replies), oldest first
   metadata?: {
     type?: 'image' | 'text'
     imageUrl?: string
@@ -17,6 +18,19 @@ export interface ChatSession {
   id: string
   title: string
   updatedAt: Date
+  isPinned: boolean
+  isArchived: boolean
+}
+
+// A full-text search hit: a chat title (messageId null) or a message
+export interface ChatSearchHit {
+  chatId: string
+  chatTitle: string
+  isArchived: boolean
+  messageId: string | null
+  role: 'user' | 'assistant' | null
+  snippet: string // Matches wrapped in <mark></mark>; render as text
+  createdAt: Date
 }
 
 // Backend API Types
@@ -25,6 +39,8 @@ export interface ApiChat {
   user_id: string
   title: string
   is_active: boolean
+  is_pinned?: boolean
+  is_archived?: boolean
   created_at: string
   updated_at: string
 }
@@ -36,6 +52,9 @@ export interface ApiMessage {
   content: string
   metadata: Record<string, any>
   tokens_consumed: number
+  parent_message_id?: string | null
+  sibling_ids?: string[]
+  sibling_count?: number
   created_at: string
 }
 
@@ -60,8 +79,57 @@ export interface ChatHistoryResponse {
   }
 }
 
+export interface ApiChatSearchResult {
+  chat_id: string
+  chat_title: string
+  is_archived: boolean
+  message_id: string | null
+  role: 'user' | 'assistant' | null
+  snippet: string
+  rank: number
+  created_at: string
+}
+
+export interface ChatSearchResponse {
+  status: string
+  message: string
+  data: {
+    query: string
+    results: ApiChatSearchResult[]
+    limit: number
+    offset: number
+  }
+}
+
 export interface CreateChatResponse {
   status: string
   message: string
   data: ApiChat
 }
+
+export interface UpdateChatRequest {
+  title?: string
+  is_pinned?: boolean
+  is_archived?: boolean
+}
+
+export interface UpdateChatResponse {
+  status: string
+  message: string
+  data: ApiChat
+}
+
+
+// Final SSE event of a streamed reply
+export interface StreamCompleteMetadata {
+  tokens_used: number
+  message_id: string // The assistant reply
+  user_message_id: string // The user message it answers
+}
+
+// SSE event sent when a reply fails mid-stream
+export interface StreamErrorEvent {
+  error: true
+  message: string
+  code: string
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+-- ============================================
+-- REFRESH TOKENS TABLE
+-- ============================================
+--
+-- Server-tracked refresh tokens for cookie sessions
+-- Each sign-in starts a new token family; every refresh rotates the token
+-- and records its successor. Presenting a token that was already rotated
+-- revokes the entire family (refresh token reuse detection).
+--
+-- Only a SHA-256 hash of the token is stored, never the raw value.
+--
+-- Run this migration after 002_create_chat_system_tables.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.refresh_tokens (
+  token_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  family_id UUID NOT NULL,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  replaced_by UUID REFERENCES public.refresh_tokens(token_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Lookup by presented token
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_token_hash ON public.refresh_tokens(token_hash);
+
+-- Family revocation on reuse detection
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON public.refresh_tokens(family_id);
+
+-- Revoke all tokens for a user
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON public.refresh_tokens(user_id);
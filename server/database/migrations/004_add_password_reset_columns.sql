@@ -0,0 +1,15 @@
+-- ============================================
+-- PASSWORD RESET COLUMNS
+-- ============================================
+--
+-- Adds single-use password reset codes to the users table
+-- A code is issued by POST /auth/forgot-password and consumed
+-- (cleared) by POST /auth/reset-password. Codes expire after
+-- OTP_EXPIRATION_MINUTES.
+--
+-- Run this migration after 003_create_refresh_tokens_table.sql
+-- ============================================
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS password_reset_otp VARCHAR(6),
+  ADD COLUMN IF NOT EXISTS password_reset_otp_expires_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,30 @@
+-- ============================================
+-- ACTIVITY LOGS TABLE
+-- ============================================
+--
+-- Audit trail of security-relevant user actions
+-- (sign in, password change, profile edits, ...)
+--
+-- This enables the table that was planned (commented out) in init.sql.
+--
+-- Run this migration after 004_add_password_reset_columns.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.activity_logs (
+  activity_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  action VARCHAR(100) NOT NULL,
+  resource_type VARCHAR(100),
+  resource_id VARCHAR(100),
+  details JSONB,
+  ip_address INET,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Per-user history, newest first
+CREATE INDEX IF NOT EXISTS idx_activity_logs_user_id ON public.activity_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_activity_logs_created_at ON public.activity_logs(created_at);
+
+-- Filtering by action
+CREATE INDEX IF NOT EXISTS idx_activity_logs_action ON public.activity_logs(action);
@@ -0,0 +1,21 @@
+-- ============================================
+-- TWO-FACTOR AUTHENTICATION COLUMNS
+-- ============================================
+--
+-- Optional TOTP (RFC 6238) second factor for sign in
+--
+-- two_factor_secret is stored on enrollment but only takes effect once
+-- the user confirms a code (two_factor_enabled = TRUE).
+-- Recovery codes are single-use; only their SHA-256 hashes are stored.
+-- two_factor_last_step records the last accepted TOTP time step so a
+-- code cannot be replayed within its validity window.
+--
+-- Run this migration after 005_create_activity_logs_table.sql
+-- ============================================
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS two_factor_enabled BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS two_factor_secret VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS two_factor_recovery_codes TEXT[],
+  ADD COLUMN IF NOT EXISTS two_factor_last_step BIGINT,
+  ADD COLUMN IF NOT EXISTS two_factor_enabled_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,41 @@
+-- ============================================
+-- SIGN-IN WITH ETHEREUM (EIP-4361) TABLES
+-- ============================================
+--
+-- user_wallets: Ethereum addresses linked to a user. A user may link
+-- several wallets; at most one is primary and is carried in the JWT.
+-- Addresses are stored EIP-55 checksummed and are unique across users.
+--
+-- siwe_nonces: server-issued nonces embedded in SIWE messages. A nonce
+-- is single-use (used_at) and expires after SIWE_NONCE_TTL_MINUTES.
+--
+-- Run this migration after 006_add_two_factor_columns.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.user_wallets (
+  wallet_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  address VARCHAR(42) NOT NULL UNIQUE,
+  chain_id INTEGER NOT NULL,
+  is_primary BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+-- List a user's wallets
+CREATE INDEX IF NOT EXISTS idx_user_wallets_user_id ON public.user_wallets(user_id);
+
+-- At most one primary wallet per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_wallets_primary
+  ON public.user_wallets(user_id)
+  WHERE is_primary;
+
+CREATE TABLE IF NOT EXISTS public.siwe_nonces (
+  nonce VARCHAR(64) PRIMARY KEY,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Cleanup of expired nonces
+CREATE INDEX IF NOT EXISTS idx_siwe_nonces_expires_at ON public.siwe_nonces(expires_at);
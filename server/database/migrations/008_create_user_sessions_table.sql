@@ -0,0 +1,28 @@
+-- ============================================
+-- USER SESSIONS TABLE
+-- ============================================
+--
+-- One row per sign in (password, 2FA, wallet or email verification).
+-- session_id is the family_id of the session's refresh tokens and is
+-- carried in access tokens as the `sid` claim, so revoking a session
+-- revokes its refresh token family and rejects its access tokens.
+--
+-- last_seen_at / ip_address are updated on sign in and on every refresh.
+--
+-- Run this migration after 007_create_wallet_auth_tables.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.user_sessions (
+  session_id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  device VARCHAR(100),
+  user_agent TEXT,
+  ip_address INET,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- List a user's active sessions
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON public.user_sessions(user_id);
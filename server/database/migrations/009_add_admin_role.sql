@@ -0,0 +1,18 @@
+-- ============================================
+-- ADMIN ROLE
+-- ============================================
+--
+-- Adds 'admin' to the allowed user_type values. Admins cannot register
+-- themselves (registration only accepts merchant/buyer); promote an
+-- existing account manually or via PATCH /api/admin/users/:userId:
+--
+--   UPDATE public.users SET user_type = 'admin' WHERE email = 'you@example.com';
+--
+-- Run this migration after 008_create_user_sessions_table.sql
+-- ============================================
+
+ALTER TABLE public.users
+  DROP CONSTRAINT IF EXISTS users_user_type_check;
+
+ALTER TABLE public.users
+  ADD CONSTRAINT users_user_type_check CHECK (user_type IN ('merchant', 'buyer', 'admin'));
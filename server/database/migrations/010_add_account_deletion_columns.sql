@@ -0,0 +1,24 @@
+-- ============================================
+-- ACCOUNT DELETION COLUMNS
+-- ============================================
+--
+-- DELETE /api/user/account schedules the account for deletion after a
+-- grace period (ACCOUNT_DELETION_GRACE_DAYS). Signing in again during the
+-- grace period cancels the request.
+--
+-- The account deletion job hard-deletes accounts whose
+-- deletion_scheduled_at has passed: S3 objects (uploads and generated
+-- images), file_uploads rows, then the users row (cascades to chats,
+-- messages, sessions, tokens, wallets and activity logs).
+--
+-- Run this migration after 009_add_admin_role.sql
+-- ============================================
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS deletion_requested_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deletion_scheduled_at TIMESTAMP WITH TIME ZONE;
+
+-- Accounts due for deletion
+CREATE INDEX IF NOT EXISTS idx_users_deletion_scheduled_at
+  ON public.users(deletion_scheduled_at)
+  WHERE deletion_scheduled_at IS NOT NULL;
@@ -0,0 +1,15 @@
+-- ============================================
+-- EMAIL CHANGE COLUMNS
+-- ============================================
+--
+-- POST /api/user/email-change stores the requested address in
+-- pending_email and sends a confirmation code to it (the current address
+-- only receives a notice). Confirming the code swaps users.email.
+--
+-- Run this migration after 010_add_account_deletion_columns.sql
+-- ============================================
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS pending_email VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS email_change_otp VARCHAR(6),
+  ADD COLUMN IF NOT EXISTS email_change_otp_expires_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,24 @@
+-- ============================================
+-- MAGIC LINK TOKENS
+-- ============================================
+--
+-- Passwordless sign-in links. The link carries a signed JWT whose jti is
+-- token_id; the row makes the link single-use (used_at) and lets the
+-- server refuse it after expires_at (MAGIC_LINK_EXPIRATION_MINUTES).
+--
+-- Run this migration after 011_add_email_change_columns.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.magic_link_tokens (
+  token_id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Links issued to a user
+CREATE INDEX IF NOT EXISTS idx_magic_link_tokens_user_id ON public.magic_link_tokens(user_id);
+
+-- Cleanup of expired links
+CREATE INDEX IF NOT EXISTS idx_magic_link_tokens_expires_at ON public.magic_link_tokens(expires_at);
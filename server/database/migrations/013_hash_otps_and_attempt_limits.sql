@@ -0,0 +1,34 @@
+-- ============================================
+-- HASHED OTPs AND ATTEMPT LIMITS
+-- ============================================
+--
+-- Email verification, password reset and email change codes are now
+-- stored as HMAC-SHA256 hex digests (64 chars) instead of plaintext.
+-- Each code has a failed attempt counter; after OTP_MAX_ATTEMPTS wrong
+-- guesses the code is invalidated and a new one must be requested.
+--
+-- Codes issued before this migration were stored in plaintext and can no
+-- longer be verified, so they are cleared (users request a new code).
+--
+-- Run this migration after 012_create_magic_link_tokens_table.sql
+-- ============================================
+
+ALTER TABLE public.users
+  ALTER COLUMN email_verification_otp TYPE VARCHAR(64),
+  ALTER COLUMN password_reset_otp TYPE VARCHAR(64),
+  ALTER COLUMN email_change_otp TYPE VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS email_otp_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS password_reset_otp_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS email_change_otp_attempts INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.users
+SET
+  email_verification_otp = NULL,
+  email_otp_expires_at = NULL,
+  password_reset_otp = NULL,
+  password_reset_otp_expires_at = NULL,
+  email_change_otp = NULL,
+  email_change_otp_expires_at = NULL
+WHERE email_verification_otp IS NOT NULL
+   OR password_reset_otp IS NOT NULL
+   OR email_change_otp IS NOT NULL;
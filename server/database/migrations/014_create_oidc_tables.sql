@@ -0,0 +1,42 @@
+-- ============================================
+-- OPENID CONNECT LOGIN TABLES
+-- ============================================
+--
+-- user_identities: external OpenID Connect identities linked to a user.
+-- An identity is the (provider, subject) pair from the provider's ID
+-- token; it is unique across users. A user may link several providers.
+--
+-- oidc_auth_requests: in-flight authorization requests. The state value
+-- sent to the provider is the key; the row keeps the PKCE code_verifier
+-- and nonce for the callback. A request is single-use (used_at) and
+-- expires after OIDC_STATE_TTL_MINUTES.
+--
+-- Run this migration after 013_hash_otps_and_attempt_limits.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.user_identities (
+  identity_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  provider VARCHAR(64) NOT NULL,
+  subject VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (provider, subject)
+);
+
+-- List a user's identities
+CREATE INDEX IF NOT EXISTS idx_user_identities_user_id ON public.user_identities(user_id);
+
+CREATE TABLE IF NOT EXISTS public.oidc_auth_requests (
+  state VARCHAR(64) PRIMARY KEY,
+  provider VARCHAR(64) NOT NULL,
+  code_verifier VARCHAR(128) NOT NULL,
+  nonce VARCHAR(64) NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Cleanup of expired requests
+CREATE INDEX IF NOT EXISTS idx_oidc_auth_requests_expires_at ON public.oidc_auth_requests(expires_at);
@@ -0,0 +1,27 @@
+-- ============================================
+-- PERSONAL API KEYS
+-- ============================================
+--
+-- User-created keys for scripts, sent as `Authorization: Bearer <key>`.
+-- Only the SHA-256 hash of a key is stored; key_prefix keeps the first
+-- characters so the user can tell keys apart. scopes limit what a key may
+-- do (e.g. chat:write, images:generate, files:read). A key stops working
+-- after expires_at (NULL = never expires) or when it is deleted.
+--
+-- Run this migration after 014_create_oidc_tables.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  key_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(16) NOT NULL,
+  key_hash VARCHAR(64) NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- List a user's keys
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON public.api_keys(user_id);
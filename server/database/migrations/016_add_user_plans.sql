@@ -0,0 +1,22 @@
+-- ============================================
+-- USER PLANS
+-- ============================================
+--
+-- Adds the plan that decides a user's request quotas (see
+-- src/config/quotas.ts): requests per minute and generations per day for
+-- chat and image endpoints. Everyone starts on 'free'; existing merchant
+-- accounts are moved to the 'merchant' plan.
+--
+-- Run this migration after 015_create_api_keys_table.sql
+-- ============================================
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS plan VARCHAR(20) NOT NULL DEFAULT 'free';
+
+ALTER TABLE public.users
+  DROP CONSTRAINT IF EXISTS users_plan_check;
+
+ALTER TABLE public.users
+  ADD CONSTRAINT users_plan_check CHECK (plan IN ('free', 'pro', 'merchant'));
+
+UPDATE public.users SET plan = 'merchant' WHERE user_type = 'merchant' AND plan = 'free';
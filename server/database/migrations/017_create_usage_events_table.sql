@@ -0,0 +1,46 @@
+-- ============================================
+-- USAGE RESETS AND USAGE EVENTS
+-- ============================================
+--
+-- user_usage.total_tokens_used is now reset by the usage reset job
+-- (USAGE_RESET_JOB_INTERVAL_MINUTES) at the start of each period:
+-- reset_period 'daily' resets at 00:00 UTC, 'monthly' on the 1st of the
+-- month at 00:00 UTC. The period follows the user's plan (see
+-- src/config/quotas.ts): free is daily, pro and merchant are monthly.
+--
+-- usage_events is an append-only ledger with one row per chat exchange,
+-- used for GET /api/user/usage.
+--
+-- Run this migration after 016_add_user_plans.sql
+-- ============================================
+
+ALTER TABLE public.user_usage
+  ADD COLUMN IF NOT EXISTS reset_period VARCHAR(10) NOT NULL DEFAULT 'monthly';
+
+ALTER TABLE public.user_usage
+  DROP CONSTRAINT IF EXISTS user_usage_reset_period_check;
+
+ALTER TABLE public.user_usage
+  ADD CONSTRAINT user_usage_reset_period_check CHECK (reset_period IN ('daily', 'monthly'));
+
+UPDATE public.user_usage
+SET reset_period = 'daily'
+FROM public.users
+WHERE users.user_id = user_usage.user_id AND users.plan = 'free';
+
+CREATE INDEX IF NOT EXISTS idx_user_usage_reset ON public.user_usage(reset_period, last_reset_at);
+
+CREATE TABLE IF NOT EXISTS public.usage_events (
+  event_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  chat_id UUID REFERENCES public.chats(chat_id) ON DELETE SET NULL,
+  message_id UUID REFERENCES public.messages(message_id) ON DELETE SET NULL,
+  event_type VARCHAR(50) NOT NULL DEFAULT 'chat_message',
+  model VARCHAR(100),
+  tokens INTEGER NOT NULL DEFAULT 0,
+  details JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Per-user history, newest first
+CREATE INDEX IF NOT EXISTS idx_usage_events_user_created ON public.usage_events(user_id, created_at DESC);
@@ -0,0 +1,29 @@
+-- ============================================
+-- CREDIT LEDGER
+-- ============================================
+--
+-- Append-only ledger of image generation credits. Every change is a row:
+-- 'grant' (plan credits), 'debit' (charged before a generation) or
+-- 'refund' (a failed generation's debit given back). The balance is the
+-- balance_after of the user's latest row (highest seq).
+--
+-- Appends are atomic without locks: a writer reads the latest row and
+-- inserts seq + 1; UNIQUE (user_id, seq) makes a concurrent writer's insert
+-- fail, and it retries against the new balance. The CHECK keeps the
+-- balance from going negative.
+--
+-- Run this migration after 017_create_usage_events_table.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.credit_ledger (
+  entry_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  entry_type VARCHAR(10) NOT NULL CHECK (entry_type IN ('grant', 'debit', 'refund')),
+  amount INTEGER NOT NULL,
+  balance_after INTEGER NOT NULL CHECK (balance_after >= 0),
+  reason VARCHAR(100) NOT NULL,
+  reference_id VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, seq) -- Also serves balance and history lookups
+);
@@ -0,0 +1,70 @@
+-- ============================================
+-- BILLING: CUSTOMERS, SUBSCRIPTIONS, INVOICES
+-- ============================================
+--
+-- Paid plans are sold through a payment provider (BILLING_PROVIDER:
+-- 'stripe', or 'fake' for local testing). The provider is the source of
+-- truth; these tables mirror it from signed webhooks
+-- (POST /api/billing/webhook):
+--
+-- - billing_customers: the provider's customer for each user
+-- - subscriptions: one row per provider subscription; an active one sets
+--   users.plan, which updates user_usage.token_limit, grants credits and
+--   changes quotas
+-- - invoices: one row per provider invoice
+-- - billing_events: ids of processed webhook events, so redelivered events
+--   are ignored
+--
+-- Run this migration after 018_create_credit_ledger_table.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.billing_customers (
+  user_id UUID PRIMARY KEY REFERENCES public.users(user_id) ON DELETE CASCADE,
+  provider VARCHAR(20) NOT NULL,
+  customer_id VARCHAR(255) NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS public.subscriptions (
+  subscription_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  provider VARCHAR(20) NOT NULL,
+  provider_subscription_id VARCHAR(255) NOT NULL UNIQUE,
+  plan VARCHAR(20) NOT NULL CHECK (plan IN ('free', 'pro', 'merchant')),
+  status VARCHAR(30) NOT NULL,
+  current_period_start TIMESTAMP WITH TIME ZONE,
+  current_period_end TIMESTAMP WITH TIME ZONE,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT FALSE,
+  canceled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_user_id ON public.subscriptions(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.invoices (
+  invoice_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  provider VARCHAR(20) NOT NULL,
+  provider_invoice_id VARCHAR(255) NOT NULL UNIQUE,
+  provider_subscription_id VARCHAR(255),
+  number VARCHAR(100),
+  status VARCHAR(30) NOT NULL,
+  amount_due INTEGER NOT NULL DEFAULT 0,
+  amount_paid INTEGER NOT NULL DEFAULT 0,
+  currency VARCHAR(10) NOT NULL,
+  hosted_invoice_url TEXT,
+  period_start TIMESTAMP WITH TIME ZONE,
+  period_end TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_user_id ON public.invoices(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.billing_events (
+  event_id VARCHAR(255) PRIMARY KEY,
+  provider VARCHAR(20) NOT NULL,
+  type VARCHAR(100) NOT NULL,
+  processed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,23 @@
+-- ============================================
+-- CHAT PINNING AND ARCHIVING
+-- ============================================
+--
+-- Lets users organize their chats (PATCH /api/chat/:chatId):
+--
+-- - is_pinned: listed before all other chats
+-- - is_archived: hidden from the chat list unless archived chats are
+--   requested (GET /api/chat?archived=true); archiving unpins
+--
+-- Archived chats are still active and still count toward MAX_CHATS_PER_USER.
+--
+-- Run this migration after 019_create_billing_tables.sql
+-- ============================================
+
+ALTER TABLE public.chats
+  ADD COLUMN IF NOT EXISTS is_pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS is_archived BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Chat list: a user's active chats, archived or not, pinned first, newest first
+CREATE INDEX IF NOT EXISTS idx_chats_user_list
+  ON public.chats(user_id, is_archived, is_pinned DESC, created_at DESC)
+  WHERE is_active = TRUE;
@@ -0,0 +1,24 @@
+-- ============================================
+-- MESSAGE EDITING AND REGENERATION
+-- ============================================
+--
+-- - PUT /api/chat/:chatId/messages/:messageId edits a user message and
+--   retires every later message before streaming a new reply
+-- - POST /api/chat/:chatId/regenerate retires the last assistant reply
+--   once its replacement is saved
+--
+-- Retired messages keep their row with is_active = FALSE: they are left
+-- out of chat history and model context. updated_at records edits (and
+-- token counts written after a reply is saved).
+--
+-- Run this migration after 020_add_chat_pin_archive.sql
+-- ============================================
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+
+-- Chat history and context: a chat's active messages in order
+CREATE INDEX IF NOT EXISTS idx_messages_chat_id_active_created_at
+  ON public.messages(chat_id, created_at ASC)
+  WHERE is_active = TRUE;
@@ -0,0 +1,46 @@
+-- ============================================
+-- MESSAGE BRANCHES
+-- ============================================
+--
+-- Messages form a tree: each message points at the message it follows
+-- (parent_message_id, NULL for a chat's first message). Editing a user
+-- message or regenerating a reply adds a sibling instead of overwriting,
+-- so a chat keeps every version of the conversation.
+--
+-- The active branch is the path of messages with is_active = TRUE (see
+-- 021_add_message_editing.sql); POST /api/chat/:chatId/branch switches it.
+-- updated_at tells which branch below a fork was active most recently.
+--
+-- Run this migration after 021_add_message_editing.sql
+-- ============================================
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS parent_message_id UUID
+    REFERENCES public.messages(message_id) ON DELETE CASCADE;
+
+-- Backfill existing chats as best we can:
+-- - active messages follow the previous active message (one branch)
+-- - retired messages follow the previous message of any kind, so a
+--   replaced reply becomes a sibling of its replacement
+UPDATE public.messages m
+SET parent_message_id = p.previous_message_id
+FROM (
+  SELECT
+    message_id,
+    CASE
+      WHEN is_active THEN LAG(message_id) OVER (
+        PARTITION BY chat_id, is_active ORDER BY created_at, message_id
+      )
+      ELSE LAG(message_id) OVER (
+        PARTITION BY chat_id ORDER BY created_at, message_id
+      )
+    END AS previous_message_id
+  FROM public.messages
+) p
+WHERE m.message_id = p.message_id
+  AND m.parent_message_id IS NULL
+  AND p.previous_message_id IS NOT NULL;
+
+-- Sibling lookups at each fork
+CREATE INDEX IF NOT EXISTS idx_messages_chat_id_parent_message_id
+  ON public.messages(chat_id, parent_message_id);
@@ -0,0 +1,115 @@
+-- ============================================
+-- CHAT SEARCH
+-- ============================================
+--
+-- Full-text search over chat titles and messages (GET /api/chat/search?q=)
+--
+-- - chats.search_vector / messages.search_vector: generated tsvectors of
+--   the title and the content, with GIN indexes
+-- - search_user_chats(): a user's ranked hits with highlighted snippets,
+--   one row per matching title or message
+--
+-- Only the user's active (not deleted) chats are searched, archived ones
+-- included, and only messages on the active branch of each chat.
+--
+-- Run this migration after 022_add_message_branches.sql
+-- ============================================
+
+ALTER TABLE public.chats
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', COALESCE(title, ''))) STORED;
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', COALESCE(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_chats_search_vector
+  ON public.chats USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector
+  ON public.messages USING GIN (search_vector);
+
+-- Ranked hits for one user
+-- p_query uses web search syntax ("quoted phrase", or, -excluded);
+-- snippets wrap matches in <mark></mark> (content is not HTML-escaped)
+CREATE OR REPLACE FUNCTION search_user_chats(
+  p_user_id UUID,
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  chat_id UUID,
+  chat_title VARCHAR(255),
+  is_archived BOOLEAN,
+  message_id UUID,
+  role VARCHAR(20),
+  snippet TEXT,
+  rank REAL,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS tsq
+  ),
+  owned_chats AS (
+    SELECT c.*
+    FROM public.chats c
+    WHERE c.user_id = p_user_id
+      AND c.is_active = TRUE
+  ),
+  hits AS (
+    SELECT
+      c.chat_id,
+      c.title AS chat_title,
+      c.is_archived,
+      NULL::UUID AS message_id,
+      NULL::VARCHAR(20) AS role,
+      c.title AS matched_text,
+      -- A title match says more about the chat than a match in one message
+      ts_rank(c.search_vector, q.tsq) * 2 AS rank,
+      c.created_at
+    FROM owned_chats c, query q
+    WHERE c.search_vector @@ q.tsq
+
+    UNION ALL
+
+    SELECT
+      c.chat_id,
+      c.title AS chat_title,
+      c.is_archived,
+      m.message_id,
+      m.role,
+      m.content AS matched_text,
+      ts_rank(m.search_vector, q.tsq) AS rank,
+      m.created_at
+    FROM public.messages m
+    JOIN owned_chats c ON c.chat_id = m.chat_id
+    CROSS JOIN query q
+    WHERE m.search_vector @@ q.tsq
+      AND m.is_active = TRUE
+  ),
+  page AS (
+    SELECT *
+    FROM hits
+    ORDER BY rank DESC, created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  -- Highlight only the page of hits returned
+  SELECT
+    p.chat_id,
+    p.chat_title,
+    p.is_archived,
+    p.message_id,
+    p.role,
+    ts_headline(
+      'english',
+      p.matched_text,
+      q.tsq,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet,
+    p.rank,
+    p.created_at
+  FROM page p, query q
+  ORDER BY p.rank DESC, p.created_at DESC;
+$$ LANGUAGE sql STABLE;
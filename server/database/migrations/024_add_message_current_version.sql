@@ -0,0 +1,35 @@
+-- ============================================
+-- MESSAGE CURRENT VERSION
+-- ============================================
+--
+-- At each fork of a chat's message tree (siblings with the same
+-- parent_message_id), exactly one message is the current version: the one
+-- shown when the conversation passes through that fork. It stays set while
+-- the branch around it is retired (is_active = FALSE), so switching back to
+-- an earlier version of a message restores the replies that were last
+-- shown below it.
+--
+-- Set on every new message (edits and regenerated replies become the
+-- current version) and along the path of POST /api/chat/:chatId/branch.
+-- Replaces inferring the choice from updated_at (022_add_message_branches.sql).
+--
+-- Run this migration after 023_add_chat_search.sql
+-- ============================================
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS is_current_version BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Backfill: at each fork keep the active version, otherwise the version
+-- that was active most recently
+UPDATE public.messages m
+SET is_current_version = (v.version_rank = 1)
+FROM (
+  SELECT
+    message_id,
+    ROW_NUMBER() OVER (
+      PARTITION BY chat_id, parent_message_id
+      ORDER BY is_active DESC, updated_at DESC NULLS LAST, created_at DESC, message_id DESC
+    ) AS version_rank
+  FROM public.messages
+) v
+WHERE m.message_id = v.message_id;
@@ -0,0 +1,29 @@
+-- ============================================
+-- CONSUME TWO-FACTOR RECOVERY CODE
+-- ============================================
+--
+-- consume_two_factor_recovery_code(): removes one recovery code hash from
+-- users.two_factor_recovery_codes and reports whether it was there.
+--
+-- The removal is a single UPDATE with array_remove, so two sign ins using
+-- different codes at the same time each remove only their own code, and
+-- the same code cannot be spent twice (the second UPDATE re-checks the
+-- array after the first commits and matches no row).
+--
+-- Run this migration after 024_add_message_current_version.sql
+-- ============================================
+
+CREATE OR REPLACE FUNCTION consume_two_factor_recovery_code(
+  p_user_id UUID,
+  p_code_hash TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.users
+  SET two_factor_recovery_codes = array_remove(two_factor_recovery_codes, p_code_hash)
+  WHERE user_id = p_user_id
+    AND p_code_hash = ANY(two_factor_recovery_codes);
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
@@ -8,6 +8,33 @@ dotenv.config();
  * Throws error if required variables are missing
  */
 
+/**
+ * OpenID Connect login provider
+ * Configured with OIDC_PROVIDERS=<id>,<id> and OIDC_<ID>_* variables
+ */
+export interface OidcProviderConfig {
+  id: string; // URL segment, e.g. 'google' → /api/auth/oidc/google/authorize
+  name: string; // Button label
+  issuer: string; // Discovery at <issuer>/.well-known/openid-configuration
+  clientId: string;
+  clientSecret?: string; // Omit for public clients (PKCE only)
+  scopes: string;
+}
+
+/**
+ * Rate limit route groups (see middleware/rateLimiter.ts)
+ */
+export type RateLimitGroup = 'global' | 'auth' | 'register' | 'otpResend' | 'magicLink';
+
+/**
+ * Requests allowed per window for one client
+ * Configured with RATE_LIMIT_<GROUP>_WINDOW_MS and RATE_LIMIT_<GROUP>_MAX
+ */
+export interface RateLimitRule {
+  windowMs: number;
+  max: number;
+}
+
 interface EnvConfig {
   // Server
   nodeEnv: 'development' | 'production' | 'test';
@@ -57,10 +84,32 @@ interface EnvConfig {
   accountLockTimeMinutes: number;
   otpExpirationMinutes: number;
   otpLength: number;
+  otpMaxAttempts: number;
+  twoFactorIssuer: string;
+  twoFactorChallengeMinutes: number;
+  magicLinkExpirationMinutes: number;
+  accountDeletionGraceDays: number;
+  accountDeletionJobIntervalMinutes: number;
+  siweDomain: string;
+  siweNonceTtlMinutes: number;
+
+  // OpenID Connect Login
+  oidcProviders: OidcProviderConfig[];
+  oidcStateTtlMinutes: number;
+
+  // API Keys
+  apiKeyMaxPerUser: number;
+
+  // Billing
+  billingProvider: 'stripe' | 'fake';
+  billingWebhookSecret: string;
+  billingWebhookToleranceSeconds: number;
+  stripeSecretKey: string;
+  stripePriceIds: { pro: string; merchant: string };
 
   // Rate Limiting
-  rateLimitWindowMs: number;
-  rateLimitMaxRequests: number;
+  rateLimitStore: 'redis' | 'memory';
+  rateLimits: Record<RateLimitGroup, RateLimitRule>;
 
   // Database
   databasePoolMin: number;
@@ -72,12 +121,15 @@ interface EnvConfig {
   geminiModel: string;
   defaultTokenLimit: number;
   maxChatsPerUser: number;
+  usageResetJobIntervalMinutes: number;
+  imageGenerationCreditCost: number;
 
   // Feature Flags
   enableEmailVerification: boolean;
   enableActivityLogging: boolean;
   enableTokenBlacklist: boolean;
   enableFileUpload: boolean;
+  enableChatAutoTitle: boolean;
 }
 
 const getEnv = (key: string, defaultValue?: string): string => {
@@ -104,6 +156,48 @@ const getEnvBoolean = (key: string, defaultValue?: boolean): boolean => {
   return value ? value.toLowerCase() === 'true' : defaultValue!;
 };
 
+/**
+ * Read a variable that must be one of a fixed set of values
+ * Throws at startup on anything else (e.g. a typo)
+ */
+const getEnvEnum = <T extends string>(key: string, allowed: readonly T[], defaultValue: T): T => {
+  const value = getEnv(key, defaultValue);
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(`${key} must be one of: ${allowed.join(', ')} (got "${value}")`);
+  }
+  return value as T;
+};
+
+/**
+ * Read one route group's rate limit
+ */
+const getRateLimitRule = (group: string, windowMs: number, max: number): RateLimitRule => ({
+  windowMs: getEnvNumber(`RATE_LIMIT_${group}_WINDOW_MS`, windowMs),
+  max: getEnvNumber(`RATE_LIMIT_${group}_MAX`, max),
+});
+
+/**
+ * Read the OIDC providers listed in OIDC_PROVIDERS
+ * Each listed provider must define OIDC_<ID>_ISSUER and OIDC_<ID>_CLIENT_ID
+ */
+const getOidcProviders = (): OidcProviderConfig[] => {
+  return getEnv('OIDC_PROVIDERS', '')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean)
+    .map((id) => {
+      const prefix = `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+      return {
+        id,
+        name: getEnv(`${prefix}_NAME`, id),
+        issuer: getEnv(`${prefix}_ISSUER`).replace(/\/+$/, ''),
+        clientId: getEnv(`${prefix}_CLIENT_ID`),
+        clientSecret: getEnv(`${prefix}_CLIENT_SECRET`, '') || undefined,
+        scopes: getEnv(`${prefix}_SCOPES`, 'openid email profile'),
+      };
+    });
+};
+
 const config: EnvConfig = {
   // Server
   nodeEnv: (process.env.NODE_ENV || 'development') as any,
@@ -118,7 +212,7 @@ const config: EnvConfig = {
 
   // JWT
   jwtSecret: getEnv('JWT_SECRET'),
-  jwtExpiration: getEnv('JWT_EXPIRATION', '7d'),
+  jwtExpiration: getEnv('JWT_EXPIRATION', '15m'),
   jwtRefreshExpiration: getEnv('JWT_REFRESH_EXPIRATION', '30d'),
 
   // Email
@@ -132,7 +226,7 @@ const config: EnvConfig = {
 
   // Redis
   redisUrl: getEnv('REDIS_URL', 'redis://localhost:6379'),
-  redisPassword: getEnv('REDIS_PASSWORD', 'your-redis-password'),
+  redisPassword: getEnv('REDIS_PASSWORD', ''),
 
   // AWS S3
   awsRegion: getEnv('AWS_REGION', 'us-east-1'),
@@ -153,10 +247,44 @@ const config: EnvConfig = {
   accountLockTimeMinutes: getEnvNumber('ACCOUNT_LOCK_TIME_MINUTES', 15),
   otpExpirationMinutes: getEnvNumber('OTP_EXPIRATION_MINUTES', 10),
   otpLength: getEnvNumber('OTP_LENGTH', 6),
+  otpMaxAttempts: getEnvNumber('OTP_MAX_ATTEMPTS', 5),
+  twoFactorIssuer: getEnv('TWO_FACTOR_ISSUER', 'AuraMint'),
+  twoFactorChallengeMinutes: getEnvNumber('TWO_FACTOR_CHALLENGE_MINUTES', 5),
+  magicLinkExpirationMinutes: getEnvNumber('MAGIC_LINK_EXPIRATION_MINUTES', 15),
+  accountDeletionGraceDays: getEnvNumber('ACCOUNT_DELETION_GRACE_DAYS', 30),
+  accountDeletionJobIntervalMinutes: getEnvNumber('ACCOUNT_DELETION_JOB_INTERVAL_MINUTES', 60),
+  siweDomain: getEnv('SIWE_DOMAIN', new URL(getEnv('FRONTEND_URL', 'http://localhost:5173')).host),
+  siweNonceTtlMinutes: getEnvNumber('SIWE_NONCE_TTL_MINUTES', 10),
+
+  // OpenID Connect Login
+  oidcProviders: getOidcProviders(),
+  oidcStateTtlMinutes: getEnvNumber('OIDC_STATE_TTL_MINUTES', 10),
+
+  // API Keys
+  apiKeyMaxPerUser: getEnvNumber('API_KEY_MAX_PER_USER', 10),
+
+  // Billing
+  billingProvider: getEnvEnum('BILLING_PROVIDER', ['stripe', 'fake'] as const, 'fake'),
+  billingWebhookSecret: getEnv('BILLING_WEBHOOK_SECRET', ''),
+  billingWebhookToleranceSeconds: getEnvNumber('BILLING_WEBHOOK_TOLERANCE_SECONDS', 300),
+  stripeSecretKey: getEnv('STRIPE_SECRET_KEY', ''),
+  stripePriceIds: {
+    pro: getEnv('STRIPE_PRICE_PRO', ''),
+    merchant: getEnv('STRIPE_PRICE_MERCHANT', ''),
+  },
 
   // Rate Limiting
-  rateLimitWindowMs: getEnvNumber('RATE_LIMIT_WINDOW_MS', 900000),
-  rateLimitMaxRequests: getEnvNumber('RATE_LIMIT_MAX_REQUESTS', 100),
+  rateLimitStore: getEnvEnum('RATE_LIMIT_STORE', ['redis', 'memory'] as const, 'redis'),
+  rateLimits: {
+    global: {
+      windowMs: getEnvNumber('RATE_LIMIT_WINDOW_MS', 15 * 60 * 1000),
+      max: getEnvNumber('RATE_LIMIT_MAX_REQUESTS', 100),
+    },
+    auth: getRateLimitRule('AUTH', 15 * 60 * 1000, 5),
+    register: getRateLimitRule('REGISTER', 60 * 60 * 1000, 3),
+    otpResend: getRateLimitRule('OTP_RESEND', 5 * 60 * 1000, 3),
+    magicLink: getRateLimitRule('MAGIC_LINK', 5 * 60 * 1000, 3),
+  },
 
   // Database
   databasePoolMin: getEnvNumber('DATABASE_POOL_MIN', 2),
@@ -168,12 +296,15 @@ const config: EnvConfig = {
   geminiModel: getEnv('GEMINI_MODEL_NAME', 'gemini-2.0-flash'),
   defaultTokenLimit: getEnvNumber('DEFAULT_TOKEN_LIMIT', 100000),
   maxChatsPerUser: getEnvNumber('MAX_CHATS_PER_USER', 5),
+  usageResetJobIntervalMinutes: getEnvNumber('USAGE_RESET_JOB_INTERVAL_MINUTES', 15),
+  imageGenerationCreditCost: getEnvNumber('IMAGE_GENERATION_CREDIT_COST', 1),
 
   // Feature Flags
   enableEmailVerification: getEnvBoolean('ENABLE_EMAIL_VERIFICATION', true),
   enableActivityLogging: getEnvBoolean('ENABLE_ACTIVITY_LOGGING', true),
   enableTokenBlacklist: getEnvBoolean('ENABLE_TOKEN_BLACKLIST', true),
   enableFileUpload: getEnvBoolean('ENABLE_FILE_UPLOAD', true),
+  enableChatAutoTitle: getEnvBoolean('ENABLE_CHAT_AUTO_TITLE', true),
 };
 
 /**
@@ -183,6 +314,13 @@ if (config.jwtSecret.length < 32) {
   throw new Error('JWT_SECRET must be at least 32 characters long');
 }
 
+/**
+ * The fake payment provider grants paid plans without payment
+ */
+if (config.nodeEnv === 'production' && config.billingProvider === 'fake') {
+  throw new Error('BILLING_PROVIDER=fake is not allowed in production; set BILLING_PROVIDER=stripe');
+}
+
 /**
  * Validate email configuration
  */
@@ -0,0 +1,53 @@
+import { ApiKeyScope, Permission, UserRole } from '../types';
+
+/**
+ * Permission Map
+ * Declares which roles hold each permission. Routes guard themselves with
+ * requirePermission(Permission.X) (or requireRole for one-off checks), so who
+ * may call an endpoint is decided here rather than in controllers.
+ *
+ * Routes that only need a signed-in user (e.g. logout) use verifyAuth alone.
+ *
+ * API keys are further limited by their scopes: a key may only exercise a
+ * permission listed in PERMISSION_SCOPES, and only with the matching scope.
+ */
+export const ROLE_PERMISSIONS: Record<Permission, readonly UserRole[]> = {
+  [Permission.ACCOUNT_MANAGE]: ['merchant', 'buyer', 'admin'],
+  [Permission.FILE_MANAGE]: ['merchant', 'buyer', 'admin'],
+  [Permission.CHAT_USE]: ['merchant', 'buyer', 'admin'],
+  [Permission.IMAGE_GENERATE]: ['merchant', 'buyer', 'admin'],
+  [Permission.COLLECTION_CREATE]: ['merchant', 'admin'],
+  [Permission.USERS_MANAGE]: ['admin'],
+};
+
+/**
+ * API key scopes that grant each permission
+ * Reads (GET/HEAD) need the read scope, anything else the write scope.
+ * Permissions without an entry (account, collections, admin) are never
+ * available to API keys.
+ */
+export const PERMISSION_SCOPES: Partial<Record<Permission, { read: ApiKeyScope; write: ApiKeyScope }>> = {
+  [Permission.CHAT_USE]: { read: ApiKeyScope.CHAT_READ, write: ApiKeyScope.CHAT_WRITE },
+  [Permission.IMAGE_GENERATE]: { read: ApiKeyScope.IMAGES_READ, write: ApiKeyScope.IMAGES_GENERATE },
+  [Permission.FILE_MANAGE]: { read: ApiKeyScope.FILES_READ, write: ApiKeyScope.FILES_WRITE },
+};
+
+/**
+ * Scope an API key needs to exercise a permission with a given HTTP method
+ * Returns null if API keys may not exercise the permission at all
+ */
+export const getRequiredScope = (permission: Permission, method: string): ApiKeyScope | null => {
+  const scopes = PERMISSION_SCOPES[permission];
+  if (!scopes) return null;
+
+  return method === 'GET' || method === 'HEAD' ? scopes.read : scopes.write;
+};
+
+/**
+ * Check whether a role holds a permission
+ */
+export const hasPermission = (role: UserRole | undefined, permission: Permission): boolean => {
+  return !!role && ROLE_PERMISSIONS[permission].includes(role);
+};
+
+export default ROLE_PERMISSIONS;
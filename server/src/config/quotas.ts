@@ -0,0 +1,85 @@
+import config from './env';
+import { QuotaClass, UsageResetPeriod, UserPlan } from '../types';
+
+/**
+ * Plan Quotas
+ * Limits per plan for each endpoint class, enforced by enforceQuota
+ * (middleware/rateLimiter.ts) on chat and image routes:
+ *
+ * - requestsPerMinute: every request to the class, reads included
+ * - generationsPerDay: AI generations (chat messages, images); the day
+ *   resets at 00:00 UTC
+ *
+ * Counters use the rate limit store (Redis or memory, see
+ * services/rateLimitStoreService.ts) and are keyed by user.
+ */
+export interface QuotaRule {
+  requestsPerMinute: number;
+  generationsPerDay: number;
+}
+
+export const PLAN_QUOTAS: Record<UserPlan, Record<QuotaClass, QuotaRule>> = {
+  free: {
+    chat: { requestsPerMinute: 30, generationsPerDay: 50 },
+    image: { requestsPerMinute: 10, generationsPerDay: 10 },
+  },
+  pro: {
+    chat: { requestsPerMinute: 120, generationsPerDay: 1000 },
+    image: { requestsPerMinute: 30, generationsPerDay: 200 },
+  },
+  merchant: {
+    chat: { requestsPerMinute: 300, generationsPerDay: 5000 },
+    image: { requestsPerMinute: 60, generationsPerDay: 1000 },
+  },
+};
+
+/**
+ * How often each plan's token usage (user_usage.total_tokens_used) resets
+ * Applied by the usage reset job (jobs/usageResetJob.ts)
+ */
+export const PLAN_USAGE_RESET_PERIODS: Record<UserPlan, UsageResetPeriod> = {
+  free: 'daily',
+  pro: 'monthly',
+  merchant: 'monthly',
+};
+
+/**
+ * Image generation credits granted when a user's credit account is opened,
+ * and again when a paid plan starts or renews (services/billingService.ts)
+ * Each generation costs IMAGE_GENERATION_CREDIT_COST (services/creditService.ts)
+ */
+export const PLAN_CREDIT_GRANTS: Record<UserPlan, number> = {
+  free: 100,
+  pro: 1000,
+  merchant: 5000,
+};
+
+/**
+ * Chat tokens per usage period (user_usage.token_limit) for each plan
+ * Free uses DEFAULT_TOKEN_LIMIT
+ */
+export const PLAN_TOKEN_LIMITS: Record<UserPlan, number> = {
+  free: config.defaultTokenLimit,
+  pro: 1000000,
+  merchant: 5000000,
+};
+
+/**
+ * Display name and monthly price of each plan (smallest currency unit)
+ * With Stripe the amount charged comes from STRIPE_PRICE_<PLAN>; keep these in sync
+ */
+export const PLAN_PRICES: Record<UserPlan, { name: string; amount: number; currency: string }> = {
+  free: { name: 'Free', amount: 0, currency: 'usd' },
+  pro: { name: 'Pro', amount: 1900, currency: 'usd' },
+  merchant: { name: 'Merchant', amount: 4900, currency: 'usd' },
+};
+
+/**
+ * Limits for a plan and class
+ * Unknown plans get the free limits
+ */
+export const getQuotaRule = (plan: UserPlan, quotaClass: QuotaClass): QuotaRule => {
+  return (PLAN_QUOTAS[plan] || PLAN_QUOTAS.free)[quotaClass];
+};
+
+export default PLAN_QUOTAS;
@@ -0,0 +1,62 @@
+import { createClient, RedisClientType } from 'redis';
+import config from './env';
+import logger from './logger';
+
+/**
+ * Redis Client Configuration
+ * Shared Redis connection for token revocation, rate limiting and caching
+ *
+ * Redis is optional: when it cannot be reached at startup, callers fall back
+ * to in-memory implementations (single instance only)
+ */
+
+let redisClient: RedisClientType | null = null;
+
+/**
+ * Initialize Redis client
+ * Should be called once during app startup
+ * Returns null (instead of throwing) when Redis is unavailable
+ */
+export const initializeRedis = async (): Promise<RedisClientType | null> => {
+  const client: RedisClientType = createClient({
+    url: config.redisUrl,
+    password: config.redisPassword || undefined,
+    socket: {
+      connectTimeout: 5000,
+    },
+  });
+
+  client.on('error', (error) => {
+    logger.error('Redis client error', {
+      error: error instanceof Error ? error.message : error,
+    });
+  });
+
+  try {
+    logger.info('Initializing Redis client...', { url: config.redisUrl });
+    await client.connect();
+    redisClient = client;
+    logger.info('✅ Redis client initialized successfully');
+    return redisClient;
+  } catch (error) {
+    logger.warn('⚠️  Redis unavailable, falling back to in-memory stores', {
+      error: error instanceof Error ? error.message : error,
+    });
+    await client.disconnect().catch(() => undefined);
+    redisClient = null;
+    return null;
+  }
+};
+
+/**
+ * Get Redis client instance
+ * Returns null if Redis was not initialized or is unavailable
+ */
+export const getRedisClient = (): RedisClientType | null => {
+  return redisClient;
+};
+
+export default {
+  initializeRedis,
+  getRedisClient,
+};
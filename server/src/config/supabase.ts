@@ -52,6 +52,13 @@ export const getSupabaseClient = () => {
   return supabaseClient;
 };
 
+/**
+ * Override the Supabase client (e.g., with an in-memory fake in tests)
+ */
+export const setSupabaseClient = (client: ReturnType<typeof createClient>): void => {
+  supabaseClient = client;
+};
+
 /**
  * Test Supabase connection
  * Tests basic connectivity without requiring specific tables
@@ -85,5 +92,6 @@ export const testSupabaseConnection = async () => {
 export default {
   initializeSupabase,
   getSupabaseClient,
+  setSupabaseClient,
   testSupabaseConnection,
 };
@@ -0,0 +1,118 @@
+/**
+ * Admin Controllers
+ * Business logic for admin user management endpoints
+ * 
+ * Controllers implemented:
+ * - listUsers
+ * - updateUser
+ */
+
+import { Response } from 'express';
+import { AuthenticatedRequest, AppError, AdminUpdateUserRequest, UserRole } from '../types';
+import logger from '../config/logger';
+import { listUsers as listAllUsers, updateUser as updateUserAccount } from '../services/adminService';
+import { getActivityContext } from '../services/activityLogService';
+
+/**
+ * List users endpoint handler
+ * GET /admin/users
+ * Protected - requires Permission.USERS_MANAGE
+ * 
+ * Query Parameters:
+ * - limit / offset: pagination
+ * - search: matches email, username or full name
+ * - user_type, is_active: filters
+ * 
+ * Returns: 200 with users (newest first) and total count
+ * Errors: 401 (unauthorized), 403 (forbidden), 500 (server error)
+ */
+export const listUsers = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { limit, offset, search, user_type, is_active } = req.query as unknown as {
+      limit: number;
+      offset: number;
+      search?: string;
+      user_type?: UserRole;
+      is_active?: boolean;
+    };
+
+    logger.info('Admin List Users endpoint called', { adminId: req.user?.user_id, limit, offset });
+
+    // Call service
+    const result = await listAllUsers(limit, offset, { search, user_type, is_active });
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Users retrieved successfully.',
+      data: {
+        users: result.users,
+        total: result.total,
+        limit,
+        offset,
+      },
+    });
+  } catch (error) {
+    logger.error('Admin List Users endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Update user endpoint handler
+ * PATCH /admin/users/:userId
+ * Protected - requires Permission.USERS_MANAGE
+ * 
+ * Accepts: user_type, is_active (at least one)
+ * Returns: 200 with the updated user; the user's sessions are revoked
+ * Errors: 401 (unauthorized), 403 (forbidden or own account), 404 (user not found), 500 (server error)
+ */
+export const updateUser = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const adminId = req.user!.user_id;
+    const { userId } = req.params;
+    const changes = req.body as AdminUpdateUserRequest;
+
+    logger.info('Admin Update User endpoint called', { adminId, userId, changes });
+
+    // Call service
+    const user = await updateUserAccount(adminId, userId, changes, getActivityContext(req));
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'User updated successfully.',
+      data: user,
+    });
+  } catch (error) {
+    logger.error('Admin Update User endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
@@ -6,16 +6,42 @@
  * - register
  * - verifyEmail
  * - signin
+ * - twoFactorVerify
+ * - twoFactorEnroll
+ * - twoFactorConfirm
+ * - twoFactorDisable
+ * - siweNonce
+ * - siweVerify
+ * - magicLink
+ * - magicLinkVerify
+ * - oidcProviders
+ * - oidcAuthorize
+ * - oidcCallback
  * - resendOtp
+ * - forgotPassword
+ * - resetPassword
+ * - refresh
  * - logout
+ * - logoutAll
  */
 
 import { Response } from 'express';
-import { AuthenticatedRequest, RegisterRequest, VerifyEmailRequest, ResendOtpRequest, SignInRequest, AppError } from '../types';
+import { AuthenticatedRequest, RegisterRequest, VerifyEmailRequest, ResendOtpRequest, SignInRequest, ForgotPasswordRequest, ResetPasswordRequest, TwoFactorSignInRequest, TwoFactorConfirmRequest, TwoFactorDisableRequest, SiweVerifyRequest, MagicLinkRequest, MagicLinkSignInRequest, AppError, AuthErrorCode } from '../types';
 import logger from '../config/logger';
-import { registerUser, verifyEmailUser, resendOtpEmail, signInUser, logoutUser } from '../services/authService';
-import { getTokenExpirationMs } from '../utils/jwtService';
 import config from '../config/env';
+import { registerUser, verifyEmailUser, resendOtpEmail, signInUser, completeTwoFactorSignIn, signInWithEthereum, requestMagicLink, signInWithMagicLink, signInWithOidc, requestPasswordReset, resetUserPassword, refreshUserSession, logoutUser, logoutAllSessions } from '../services/authService';
+import {
+  setSessionCookies,
+  clearSessionCookies,
+  setOidcStateCookie,
+  clearOidcStateCookie,
+  setTwoFactorChallengeCookie,
+  clearTwoFactorChallengeCookie,
+} from '../utils/sessionCookies';
+import { getActivityContext } from '../services/activityLogService';
+import { enrollTwoFactor, confirmTwoFactor, disableTwoFactor } from '../services/twoFactorService';
+import { issueSiweNonce } from '../services/walletService';
+import { listOidcProviders, createOidcAuthorizationUrl, hashOidcState } from '../services/oidcService';
 
 /**
  * Register endpoint handler
@@ -95,17 +121,10 @@ export const verifyEmail = async (req: AuthenticatedRequest, res: Response) => {
     const result = await verifyEmailUser({
       email,
       otp,
-    });
+    }, getActivityContext(req));
 
-    // Set authentication cookie (same as signin)
-    const tokenExpirationMs = getTokenExpirationMs();
-    res.cookie('auth_token', result.token, {
-      httpOnly: true,
-      secure: config.nodeEnv === 'production',
-      sameSite: 'strict',
-      maxAge: tokenExpirationMs,
-      path: '/',
-    });
+    // Set authentication cookies (same as signin)
+    setSessionCookies(res, result.token, result.refreshToken, result.refreshExpiresIn);
 
     // Return success response (200 OK)
     res.status(200).json({
@@ -148,7 +167,8 @@ export const verifyEmail = async (req: AuthenticatedRequest, res: Response) => {
  * POST /auth/signin
  * 
  * Accepts: email, password
- * Returns: 200 with user_id, email, user_type, email_verified, and auth cookie
+ * Returns: 200 with user_id, email, user_type, email_verified, and auth cookie,
+ *          or 200 with two_factor_required + challenge_token (no cookie) when 2FA is enabled
  * Errors: 401 (invalid credentials, locked account), 403 (unverified email), 500 (server error)
  */
 export const signin = async (req: AuthenticatedRequest, res: Response) => {
@@ -161,16 +181,23 @@ export const signin = async (req: AuthenticatedRequest, res: Response) => {
     const result = await signInUser({
       email,
       password,
-    });
+    }, getActivityContext(req));
 
-    // Set authentication cookie
-    res.cookie('auth_token', result.token, {
-      httpOnly: true,
-      secure: config.nodeEnv === 'production',
-      sameSite: 'strict',
-      maxAge: result.expiresIn,
-      path: '/',
-    });
+    // Password accepted, second factor still required
+    if ('two_factor_required' in result) {
+      return res.status(200).json({
+        status: 'success',
+        message: 'Two-factor authentication required.',
+        data: {
+          two_factor_required: true,
+          challenge_token: result.challenge_token,
+          expires_in: result.expiresIn,
+        },
+      });
+    }
+
+    // Set authentication cookies
+    setSessionCookies(res, result.token, result.refreshToken, result.refreshExpiresIn);
 
     // Return success response (200 OK)
     res.status(200).json({
@@ -209,6 +236,346 @@ export const signin = async (req: AuthenticatedRequest, res: Response) => {
   }
 };
 
+/**
+ * Two-factor sign in endpoint handler
+ * POST /auth/2fa/verify
+ * 
+ * Accepts: challenge_token (from signin; after OIDC sign in it comes from the
+ *          two_factor_challenge cookie instead), code (6-digit) or recovery_code
+ * Returns: 200 with user_id, email, user_type, email_verified, and auth cookie
+ * Errors: 401 (invalid/expired challenge, invalid code, locked account), 500 (server error)
+ */
+export const twoFactorVerify = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { challenge_token, code, recovery_code } = req.body as TwoFactorSignInRequest;
+
+    logger.info('Two-Factor Verify endpoint called');
+
+    // Call service
+    const result = await completeTwoFactorSignIn({
+      challenge_token: challenge_token || req.cookies?.two_factor_challenge || '',
+      code,
+      recovery_code,
+    }, getActivityContext(req));
+
+    // Set authentication cookies
+    setSessionCookies(res, result.token, result.refreshToken, result.refreshExpiresIn);
+    clearTwoFactorChallengeCookie(res);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Sign in successful.',
+      data: {
+        user_id: result.user_id,
+        email: result.email,
+        user_type: result.user_type,
+        email_verified: result.email_verified,
+      },
+    });
+
+    logger.info('User signed in with two-factor authentication', {
+      user_id: result.user_id,
+      email: result.email,
+    });
+  } catch (error) {
+    logger.error('Two-Factor Verify endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+        ...(error.details && { details: error.details }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Two-factor enrollment endpoint handler
+ * POST /auth/2fa/enroll
+ * Protected - requires auth_token cookie
+ * 
+ * Returns: 200 with secret and otpauth_uri (2FA is not enforced until confirmed)
+ * Errors: 401 (unauthorized), 409 (already enabled), 500 (server error)
+ */
+export const twoFactorEnroll = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: AuthErrorCode.UNAUTHORIZED,
+      });
+    }
+
+    logger.info('Two-Factor Enroll endpoint called', { userId });
+
+    // Call service
+    const result = await enrollTwoFactor(userId);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Scan the QR code with your authenticator app, then confirm with a code.',
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Two-Factor Enroll endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+        ...(error.details && { details: error.details }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Two-factor confirmation endpoint handler
+ * POST /auth/2fa/confirm
+ * Protected - requires auth_token cookie
+ * 
+ * Accepts: code (6-digit from the authenticator app)
+ * Returns: 200 with recovery_codes (shown only once)
+ * Errors: 400 (not enrolled, invalid code), 401 (unauthorized), 409 (already enabled), 500 (server error)
+ */
+export const twoFactorConfirm = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: AuthErrorCode.UNAUTHORIZED,
+      });
+    }
+
+    const { code } = req.body as TwoFactorConfirmRequest;
+
+    logger.info('Two-Factor Confirm endpoint called', { userId });
+
+    // Call service
+    const result = await confirmTwoFactor(userId, code, getActivityContext(req));
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Two-Factor Confirm endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+        ...(error.details && { details: error.details }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Two-factor disable endpoint handler
+ * POST /auth/2fa/disable
+ * Protected - requires auth_token cookie
+ * 
+ * Accepts: password, and code (6-digit) or recovery_code
+ * Returns: 200 with success message
+ * Errors: 400 (not enabled, invalid code), 401 (unauthorized, incorrect password), 500 (server error)
+ */
+export const twoFactorDisable = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: AuthErrorCode.UNAUTHORIZED,
+      });
+    }
+
+    const { password, code, recovery_code } = req.body as TwoFactorDisableRequest;
+
+    logger.info('Two-Factor Disable endpoint called', { userId });
+
+    // Call service
+    await disableTwoFactor(userId, password, { code, recovery_code }, getActivityContext(req));
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Two-factor authentication disabled.',
+    });
+  } catch (error) {
+    logger.error('Two-Factor Disable endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+        ...(error.details && { details: error.details }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * SIWE nonce endpoint handler
+ * GET /auth/siwe/nonce
+ * 
+ * Returns: 200 with a single-use nonce and the domain to put in the EIP-4361 message
+ * Errors: 500 (server error)
+ */
+export const siweNonce = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { nonce, expiresAt } = await issueSiweNonce();
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Nonce issued.',
+      data: {
+        nonce,
+        domain: config.siweDomain,
+        expires_at: expiresAt.toISOString(),
+      },
+    });
+  } catch (error) {
+    logger.error('SIWE Nonce endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+        ...(error.details && { details: error.details }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * SIWE verify endpoint handler
+ * POST /auth/siwe/verify
+ * 
+ * Accepts: message (EIP-4361), signature (personal_sign)
+ * Returns: 200 with user_id, email, user_type, email_verified, and auth cookie,
+ *          or 200 with two_factor_required + challenge_token (no cookie) when 2FA is enabled
+ * Errors: 400 (malformed message / wrong domain), 401 (bad signature, nonce, locked account),
+ *         403 (unverified email), 404 (wallet not linked), 500 (server error)
+ */
+export const siweVerify = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { message, signature } = req.body as SiweVerifyRequest;
+
+    logger.info('SIWE Verify endpoint called');
+
+    // Call service
+    const result = await signInWithEthereum({
+      message,
+      signature,
+    }, getActivityContext(req));
+
+    // Signature accepted, second factor still required
+    if ('two_factor_required' in result) {
+      return res.status(200).json({
+        status: 'success',
+        message: 'Two-factor authentication required.',
+        data: {
+          two_factor_required: true,
+          challenge_token: result.challenge_token,
+          expires_in: result.expiresIn,
+        },
+      });
+    }
+
+    // Set authentication cookies
+    setSessionCookies(res, result.token, result.refreshToken, result.refreshExpiresIn);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Sign in successful.',
+      data: {
+        user_id: result.user_id,
+        email: result.email,
+        user_type: result.user_type,
+        email_verified: result.email_verified,
+      },
+    });
+
+    logger.info('User signed in with Ethereum', {
+      user_id: result.user_id,
+      email: result.email,
+    });
+  } catch (error) {
+    logger.error('SIWE Verify endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+        ...(error.details && { details: error.details }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
 /**
  * Resend OTP endpoint handler
  * POST /auth/resend-otp
@@ -260,36 +627,439 @@ export const resendOtp = async (req: AuthenticatedRequest, res: Response) => {
 };
 
 /**
- * Logout endpoint handler
- * POST /auth/logout
+ * Magic link request endpoint handler
+ * POST /auth/magic-link
  * 
- * Accepts: email (optional, for logging)
- * Returns: 200 with success message
- * Errors: 500 (server error)
+ * Accepts: email
+ * Returns: 200 with a generic message (same response whether or not the email exists)
+ * Errors: 400 (validation), 429 (rate limited), 500 (server error)
  */
-export const logout = async (req: AuthenticatedRequest, res: Response) => {
+export const magicLink = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const email = req.user?.email;
-
-    logger.info('Logout endpoint called', { email });
+    const { email } = req.body as MagicLinkRequest;
 
-    // Call service to update last activity (optional)
-    if (email) {
-      await logoutUser(email);
-    }
+    logger.info('Magic Link endpoint called', { email });
 
-    // Clear authentication cookie
-    res.clearCookie('auth_token', {
-      httpOnly: true,
-      secure: config.nodeEnv === 'production',
-      sameSite: 'strict',
-      path: '/',
+    // Call service
+    const result = await requestMagicLink({
+      email,
     });
 
     // Return success response (200 OK)
     res.status(200).json({
       status: 'success',
-      message: 'Logout successful.',
+      message: result.message,
+      data: {
+        email: result.email,
+      },
+    });
+  } catch (error) {
+    logger.error('Magic Link endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+        ...(error.details && { details: error.details }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Magic link sign in endpoint handler
+ * POST /auth/magic-link/verify
+ * 
+ * Accepts: token (from the emailed link)
+ * Returns: 200 with user_id, email, user_type, email_verified, and auth cookie,
+ *          or 200 with two_factor_required + challenge_token (no cookie) when 2FA is enabled
+ * Errors: 401 (invalid/expired/used link, locked or inactive account), 403 (unverified email), 500 (server error)
+ */
+export const magicLinkVerify = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { token } = req.body as MagicLinkSignInRequest;
+
+    logger.info('Magic Link Verify endpoint called');
+
+    // Call service
+    const result = await signInWithMagicLink({
+      token,
+    }, getActivityContext(req));
+
+    // Link accepted, second factor still required
+    if ('two_factor_required' in result) {
+      return res.status(200).json({
+        status: 'success',
+        message: 'Two-factor authentication required.',
+        data: {
+          two_factor_required: true,
+          challenge_token: result.challenge_token,
+          expires_in: result.expiresIn,
+        },
+      });
+    }
+
+    // Set authentication cookies
+    setSessionCookies(res, result.token, result.refreshToken, result.refreshExpiresIn);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Sign in successful.',
+      data: {
+        user_id: result.user_id,
+        email: result.email,
+        user_type: result.user_type,
+        email_verified: result.email_verified,
+      },
+    });
+
+    logger.info('User signed in with magic link', {
+      user_id: result.user_id,
+      email: result.email,
+    });
+  } catch (error) {
+    logger.error('Magic Link Verify endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+        ...(error.details && { details: error.details }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * OIDC providers endpoint handler
+ * GET /auth/oidc/providers
+ * 
+ * Returns: 200 with the configured sign-in providers (id, name)
+ */
+export const oidcProviders = async (req: AuthenticatedRequest, res: Response) => {
+  res.status(200).json({
+    status: 'success',
+    message: 'Sign-in providers retrieved.',
+    data: {
+      providers: listOidcProviders(),
+    },
+  });
+};
+
+/**
+ * OIDC authorize endpoint handler
+ * GET /auth/oidc/:provider/authorize
+ * 
+ * Returns: 302 redirect to the provider's authorization endpoint, with an
+ *          oidc_state cookie binding the request to this browser
+ * Errors: 404 (unknown provider), 502 (provider discovery failed), 500 (server error)
+ */
+export const oidcAuthorize = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { provider } = req.params;
+
+    logger.info('OIDC Authorize endpoint called', { provider });
+
+    const { url, state } = await createOidcAuthorizationUrl(provider);
+
+    setOidcStateCookie(res, hashOidcState(state));
+    res.redirect(302, url);
+  } catch (error) {
+    logger.error('OIDC Authorize endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+        ...(error.details && { details: error.details }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * OIDC callback endpoint handler
+ * GET /auth/oidc/:provider/callback
+ * 
+ * Accepts (query): code, state, or error when the user declined at the provider;
+ *          (cookie): oidc_state from the authorize request
+ * Returns: 302 redirect to the frontend login page:
+ *          ?oidc=success with auth cookies set,
+ *          ?oidc=2fa with a two_factor_challenge cookie when 2FA is enabled,
+ *          ?oidc_error=<code> when sign in failed
+ */
+export const oidcCallback = async (req: AuthenticatedRequest, res: Response) => {
+  const redirectUrl = new URL('/login', config.frontendUrl);
+  const stateCookie: string | undefined = req.cookies?.oidc_state;
+
+  // The state cookie is single-use like the state itself
+  clearOidcStateCookie(res);
+
+  try {
+    const { provider } = req.params;
+    const { code, state, error: providerError } = req.query as Record<string, string | undefined>;
+
+    logger.info('OIDC Callback endpoint called', { provider });
+
+    if (providerError) {
+      logger.warn('OIDC provider returned an error', { provider, error: providerError });
+      redirectUrl.searchParams.set('oidc_error', providerError === 'access_denied' ? 'ACCESS_DENIED' : AuthErrorCode.OIDC_EXCHANGE_FAILED);
+      return res.redirect(302, redirectUrl.toString());
+    }
+
+    if (typeof code !== 'string' || typeof state !== 'string') {
+      throw new AppError(
+        'Sign-in request is invalid or has expired. Please try again.',
+        400,
+        AuthErrorCode.INVALID_OIDC_STATE
+      );
+    }
+
+    // Call service
+    const result = await signInWithOidc(provider, code, state, stateCookie, getActivityContext(req));
+
+    // Identity accepted, second factor still required
+    if ('two_factor_required' in result) {
+      setTwoFactorChallengeCookie(res, result.challenge_token, result.expiresIn);
+      redirectUrl.searchParams.set('oidc', '2fa');
+      return res.redirect(302, redirectUrl.toString());
+    }
+
+    // Set authentication cookies
+    setSessionCookies(res, result.token, result.refreshToken, result.refreshExpiresIn);
+
+    redirectUrl.searchParams.set('oidc', 'success');
+    res.redirect(302, redirectUrl.toString());
+
+    logger.info('User signed in with OIDC', {
+      user_id: result.user_id,
+      email: result.email,
+      provider,
+    });
+  } catch (error) {
+    logger.error('OIDC Callback endpoint error', { error });
+
+    redirectUrl.searchParams.set('oidc_error', error instanceof AppError ? String(error.code) : 'INTERNAL_SERVER_ERROR');
+    res.redirect(302, redirectUrl.toString());
+  }
+};
+
+/**
+ * Forgot password endpoint handler
+ * POST /auth/forgot-password
+ * 
+ * Accepts: email
+ * Returns: 200 with a generic message (same response whether or not the email exists)
+ * Errors: 400 (validation), 500 (server error)
+ */
+export const forgotPassword = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { email } = req.body as ForgotPasswordRequest;
+
+    logger.info('Forgot password endpoint called', { email });
+
+    // Call service
+    const result = await requestPasswordReset({
+      email,
+    });
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: result.message,
+      data: {
+        email: result.email,
+      },
+    });
+  } catch (error) {
+    logger.error('Forgot password endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+        ...(error.details && { details: error.details }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Reset password endpoint handler
+ * POST /auth/reset-password
+ * 
+ * Accepts: email, otp (6-digit reset code), new_password
+ * Returns: 200 with success message; all existing sessions are revoked
+ * Errors: 400 (invalid/expired code, weak password), 401 (inactive account), 500 (server error)
+ */
+export const resetPassword = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { email, otp, new_password } = req.body as ResetPasswordRequest;
+
+    logger.info('Reset password endpoint called', { email });
+
+    // Call service
+    const result = await resetUserPassword({
+      email,
+      otp,
+      new_password,
+    }, getActivityContext(req));
+
+    // Any session cookies on this device belong to the old password
+    clearSessionCookies(res);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: result.message,
+      data: {
+        email: result.email,
+      },
+    });
+  } catch (error) {
+    logger.error('Reset password endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+        ...(error.details && { details: error.details }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Refresh session endpoint handler
+ * POST /auth/refresh
+ * 
+ * Accepts: refresh_token cookie
+ * Returns: 200 with user_id, email, and rotated auth + refresh cookies
+ * Errors: 401 (missing/invalid/expired/reused refresh token), 500 (server error)
+ */
+export const refresh = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const refreshToken = req.cookies?.refresh_token;
+
+    logger.info('Refresh endpoint called');
+
+    if (!refreshToken) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'No active session found.',
+        code: AuthErrorCode.NO_SESSION,
+      });
+    }
+
+    // Call service
+    const result = await refreshUserSession(refreshToken, getActivityContext(req));
+
+    // Set rotated authentication cookies
+    setSessionCookies(res, result.token, result.refreshToken, result.refreshExpiresIn);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Session refreshed.',
+      data: {
+        user_id: result.user_id,
+        email: result.email,
+        expires_in: result.expiresIn,
+      },
+    });
+
+    logger.info('Session refreshed successfully', { user_id: result.user_id });
+  } catch (error) {
+    logger.error('Refresh endpoint error', { error });
+
+    if (error instanceof AppError) {
+      // A rejected refresh token can never succeed again - drop the cookies
+      if (error.statusCode === 401) {
+        clearSessionCookies(res);
+      }
+
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Logout endpoint handler
+ * POST /auth/logout
+ * 
+ * Accepts: email (optional, for logging)
+ * Returns: 200 with success message
+ * Errors: 500 (server error)
+ */
+export const logout = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const email = req.user?.email;
+
+    logger.info('Logout endpoint called', { email });
+
+    // Call service to revoke the access and refresh tokens
+    if (req.user) {
+      await logoutUser(req.user, req.cookies?.refresh_token, getActivityContext(req));
+    }
+
+    // Clear authentication cookies
+    clearSessionCookies(res);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Logout successful.',
     });
 
     logger.info('User logged out successfully', { email });
@@ -311,3 +1081,57 @@ export const logout = async (req: AuthenticatedRequest, res: Response) => {
     });
   }
 };
+
+/**
+ * Sign out everywhere endpoint handler
+ * POST /auth/logout-all
+ * 
+ * Revokes every access and refresh token issued to the user, including this one
+ * Returns: 200 with success message
+ * Errors: 401 (unauthorized), 500 (server error)
+ */
+export const logoutAll = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: AuthErrorCode.UNAUTHORIZED,
+      });
+    }
+
+    logger.info('Logout All endpoint called', { userId });
+
+    // Call service
+    await logoutAllSessions(userId, getActivityContext(req));
+
+    // Clear authentication cookies
+    clearSessionCookies(res);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Signed out of all sessions.',
+    });
+
+    logger.info('User signed out everywhere', { userId });
+  } catch (error) {
+    logger.error('Logout All endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
@@ -0,0 +1,368 @@
+/**
+ * Billing Controllers
+ * Business logic for plan, subscription and invoice endpoints
+ *
+ * Controllers implemented:
+ * - getPlans
+ * - getSubscription
+ * - createCheckout
+ * - cancelSubscription
+ * - getInvoices
+ * - handleWebhook
+ * - completeFakeCheckout
+ */
+
+import { Request, Response } from 'express';
+import { AuthenticatedRequest, AppError, ActivityAction, UserPlan } from '../types';
+import logger from '../config/logger';
+import {
+  getPlans as getBillingPlans,
+  getSubscription as getUserSubscription,
+  createCheckout as createUserCheckout,
+  cancelSubscription as cancelUserSubscription,
+  getInvoices as getUserInvoices,
+  handleWebhook as handleBillingWebhook,
+  completeFakeCheckout as completeFakeBillingCheckout,
+} from '../services/billingService';
+import { recordActivity, getActivityContext } from '../services/activityLogService';
+
+/**
+ * Get plans endpoint handler
+ * GET /billing/plans
+ * Public
+ *
+ * Returns: 200 with every plan's price, token limit, credits and quotas
+ */
+export const getPlans = async (req: Request, res: Response) => {
+  res.status(200).json({
+    status: 'success',
+    message: 'Plans retrieved successfully.',
+    data: getBillingPlans(),
+  });
+};
+
+/**
+ * Get subscription endpoint handler
+ * GET /billing/subscription
+ * Protected - requires auth_token cookie
+ *
+ * Returns: 200 with the current plan and active subscription (null on free)
+ * Errors: 401 (unauthorized), 500 (server error)
+ */
+export const getSubscription = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Get Subscription endpoint called', { userId });
+
+    // Call service
+    const subscription = await getUserSubscription(userId);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Subscription retrieved successfully.',
+      data: subscription,
+    });
+  } catch (error) {
+    logger.error('Get Subscription endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Create checkout endpoint handler
+ * POST /billing/checkout
+ * Protected - requires auth_token cookie
+ *
+ * Accepts: { plan: 'pro' | 'merchant' }
+ * Returns: 201 with the checkout URL to redirect the user to
+ * Errors: 400 (plan not purchasable), 401 (unauthorized), 409 (already subscribed),
+ *         502 (payment provider error), 500 (server error)
+ */
+export const createCheckout = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    const { plan } = req.body as { plan: UserPlan };
+
+    logger.info('Create Checkout endpoint called', { userId, plan });
+
+    // Call service
+    const checkout = await createUserCheckout(userId, plan);
+
+    // Return success response (201 Created)
+    res.status(201).json({
+      status: 'success',
+      message: 'Checkout started.',
+      data: checkout,
+    });
+  } catch (error) {
+    logger.error('Create Checkout endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Cancel subscription endpoint handler
+ * POST /billing/subscription/cancel
+ * Protected - requires auth_token cookie
+ *
+ * Returns: 200 with the subscription, set to cancel at the end of the paid period
+ * Errors: 401 (unauthorized), 404 (no active subscription), 502 (payment provider error),
+ *         500 (server error)
+ */
+export const cancelSubscription = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Cancel Subscription endpoint called', { userId });
+
+    // Call service
+    const subscription = await cancelUserSubscription(userId);
+
+    await recordActivity(
+      userId,
+      ActivityAction.SUBSCRIPTION_CANCELED,
+      getActivityContext(req),
+      { type: 'subscription', id: subscription.provider_subscription_id },
+      { plan: subscription.plan, current_period_end: subscription.current_period_end }
+    );
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Subscription will be canceled at the end of the current period.',
+      data: subscription,
+    });
+  } catch (error) {
+    logger.error('Cancel Subscription endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Get invoices endpoint handler
+ * GET /billing/invoices
+ * Protected - requires auth_token cookie
+ *
+ * Accepts: ?limit=20&offset=0
+ * Returns: 200 with invoices (newest first) and the total count
+ * Errors: 401 (unauthorized), 500 (server error)
+ */
+export const getInvoices = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    const limit = Number(req.query.limit) || 20;
+    const offset = Number(req.query.offset) || 0;
+
+    logger.info('Get Invoices endpoint called', { userId, limit, offset });
+
+    // Call service
+    const { invoices, total } = await getUserInvoices(userId, limit, offset);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Invoices retrieved successfully.',
+      data: {
+        invoices,
+        total,
+        limit,
+        offset,
+      },
+    });
+  } catch (error) {
+    logger.error('Get Invoices endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Webhook endpoint handler
+ * POST /billing/webhook
+ * Public - authenticated by the Stripe-Signature header
+ *
+ * Accepts: raw JSON body of a Stripe-format event
+ * Returns: 200 once the event is applied (or was already applied)
+ * Errors: 400 (invalid signature or payload), 500 (processing failed; the provider retries)
+ */
+export const handleWebhook = async (req: Request, res: Response) => {
+  try {
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from('');
+
+    // Call service
+    const event = await handleBillingWebhook(rawBody, req.get('stripe-signature'));
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Event received.',
+      data: { id: event.id, type: event.type },
+    });
+  } catch (error) {
+    logger.error('Billing Webhook endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Fake checkout endpoint handler (BILLING_PROVIDER=fake, outside production)
+ * GET /billing/fake/checkout/:sessionId
+ * Protected - requires auth_token cookie of the user who started the checkout
+ *
+ * Returns: 302 to the checkout's success URL after applying the subscription
+ * Errors: 401 (unauthorized), 404 (unknown session, another user's session,
+ *   or provider is not fake), 500 (server error)
+ */
+export const completeFakeCheckout = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+    const { sessionId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Fake Checkout endpoint called', { userId, sessionId });
+
+    // Call service
+    const successUrl = await completeFakeBillingCheckout(sessionId, userId);
+
+    res.redirect(302, successUrl);
+  } catch (error) {
+    logger.error('Fake Checkout endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+export default {
+  getPlans,
+  getSubscription,
+  createCheckout,
+  cancelSubscription,
+  getInvoices,
+  handleWebhook,
+  completeFakeCheckout,
+};
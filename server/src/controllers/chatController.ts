@@ -5,8 +5,13 @@
  * Endpoints:
  * - GET /api/chat - List user's chats
  * - POST /api/chat - Create new chat
+ * - GET /api/chat/search - Search chat titles and messages
  * - GET /api/chat/:chatId - Get chat history
  * - POST /api/chat/:chatId/message - Send message with SSE streaming
+ * - PUT /api/chat/:chatId/messages/:messageId - Edit message and re-stream the reply
+ * - POST /api/chat/:chatId/regenerate - Regenerate the last reply with SSE streaming
+ * - POST /api/chat/:chatId/branch - Switch to another version of the conversation
+ * - PATCH /api/chat/:chatId - Rename, pin or archive chat
  * - DELETE /api/chat/:chatId - Delete chat
  */
 
@@ -14,19 +19,32 @@ import { Response } from 'express';
 import {
   AuthenticatedRequest,
   CreateChatRequest,
+  UpdateChatRequest,
   ChatListResponse,
   ChatHistoryResponse,
+  ChatHistoryMessage,
+  ChatSearchResponse,
+  Chat,
   AppError,
   ChatErrorCode,
+  ActivityAction,
 } from '../types';
 import logger from '../config/logger';
+import { markGenerationFailed } from '../middleware/rateLimiter';
+import { recordActivity, getActivityContext } from '../services/activityLogService';
 import {
   createChat,
   getUserChats,
   getChatMessages,
+  searchChats,
   getChat,
   streamChatResponse,
   deleteChat,
+  updateChat,
+  streamEditedMessage,
+  streamRegeneratedResponse,
+  switchBranch,
+  ChatStreamChunk,
 } from '../services/chatService';
 
 /**
@@ -36,6 +54,7 @@ import {
  * Query Parameters:
  * - limit: number (default: 20, max: 100)
  * - offset: number (default: 0)
+ * - archived: boolean (default: false) - list archived chats instead of the others
  *
  * Response (200 OK):
  * {
@@ -66,15 +85,17 @@ export const listChats = async (req: AuthenticatedRequest, res: Response) => {
     const userId = req.user.user_id;
     const limit = Math.min(parseInt(req.query.limit as string) || 20, 100); // Max 100
     const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    const archived = req.query.archived === 'true';
 
     logger.info('listChats endpoint called', {
       user_id: userId,
       limit,
       offset,
+      archived,
     });
 
     // Fetch chats
-    const result = await getUserChats(userId, limit, offset);
+    const result = await getUserChats(userId, limit, offset, archived);
 
     res.status(200).json({
       status: 'success',
@@ -206,6 +227,106 @@ export const createNewChat = async (req: AuthenticatedRequest, res: Response) =>
   }
 };
 
+/**
+ * GET /api/chat/search
+ * Full-text search over the user's chat titles and messages
+ *
+ * Query Parameters:
+ * - q: string (required, 1-200 characters) - words, "quoted phrase", or, -excluded
+ * - limit: number (default: 20, max: 50)
+ * - offset: number (default: 0)
+ *
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Search completed successfully'
+ *   data: {
+ *     query: string
+ *     results: ChatSearchResult[] - best first; snippets wrap matches in <mark></mark>
+ *     limit: number
+ *     offset: number
+ *   }
+ * }
+ *
+ * Errors:
+ * - 401: Unauthorized
+ * - 400: Missing or invalid query
+ * - 500: Internal server error
+ */
+export const searchChatsHandler = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      logger.warn('searchChats: No user in request');
+      throw new AppError(
+        'Unauthorized. Please sign in.',
+        401,
+        'UNAUTHORIZED'
+      );
+    }
+
+    const userId = req.user.user_id;
+    const { q } = req.query;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 50); // Max 50
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    logger.info('searchChats endpoint called', {
+      user_id: userId,
+      query_length: typeof q === 'string' ? q.length : undefined,
+      limit,
+      offset,
+    });
+
+    // Validate query
+    if (typeof q !== 'string') {
+      throw new AppError(
+        'Search query (q) is required',
+        400,
+        ChatErrorCode.INVALID_SEARCH_QUERY
+      );
+    }
+
+    const query = q.trim();
+    if (query.length === 0 || query.length > 200) {
+      throw new AppError(
+        'Search query must be between 1 and 200 characters',
+        400,
+        ChatErrorCode.INVALID_SEARCH_QUERY
+      );
+    }
+
+    const results = await searchChats(userId, query, limit, offset);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Search completed successfully',
+      data: {
+        query,
+        results,
+        limit,
+        offset,
+      } as ChatSearchResponse,
+    });
+
+    logger.debug('searchChats: Success', { user_id: userId, results_count: results.length });
+  } catch (error) {
+    logger.error('searchChats endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred while searching chats',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
 /**
  * GET /api/chat/:chatId
  * Retrieve message history for a specific chat
@@ -224,7 +345,8 @@ export const createNewChat = async (req: AuthenticatedRequest, res: Response) =>
  *   data: {
  *     chat_id: UUID
  *     title: string
- *     messages: Message[]
+ *     messages: ChatHistoryMessage[] - the active branch; sibling_ids and
+ *       sibling_count give the other versions at each fork
  *     total_messages: number
  *   }
  * }
@@ -276,25 +398,10 @@ export const getChatHistory = async (
     // Get messages
     const { messages, total } = await getChatMessages(chatId, userId, limit, offset);
 
-    const response: ChatHistoryResponse = {
-      chat_id: chat.chat_id,
-      title: chat.title,
-      messages: messages.map(msg => ({
-        message_id: msg.message_id,
-        chat_id: msg.chat_id,
-        role: msg.role,
-        content: msg.content,
-        metadata: msg.metadata,
-        tokens_consumed: msg.tokens_consumed,
-        created_at: msg.created_at,
-      })),
-      total_messages: total,
-    };
-
     res.status(200).json({
       status: 'success',
       message: 'Chat history retrieved successfully',
-      data: response,
+      data: toChatHistoryResponse(chat, messages, total),
     });
 
     logger.debug('getChatHistory: Success', {
@@ -321,6 +428,33 @@ export const getChatHistory = async (
   }
 };
 
+/**
+ * Utility: Shape a chat's active branch for the history response
+ */
+function toChatHistoryResponse(
+  chat: Chat,
+  messages: ChatHistoryMessage[],
+  total: number
+): ChatHistoryResponse {
+  return {
+    chat_id: chat.chat_id,
+    title: chat.title,
+    messages: messages.map(msg => ({
+      message_id: msg.message_id,
+      chat_id: msg.chat_id,
+      role: msg.role,
+      content: msg.content,
+      metadata: msg.metadata,
+      tokens_consumed: msg.tokens_consumed,
+      parent_message_id: msg.parent_message_id,
+      created_at: msg.created_at,
+      sibling_ids: msg.sibling_ids,
+      sibling_count: msg.sibling_count,
+    })),
+    total_messages: total,
+  };
+}
+
 /**
  * Utility: Validate UUID format (basic check)
  * UUID v4 format: xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx
@@ -331,6 +465,91 @@ function isValidUUID(uuid: string): boolean {
   return uuidRegex.test(uuid);
 }
 
+/**
+ * Utility: Stream a chat reply to the client as Server-Sent Events
+ * Shared by sendMessage, editMessage and regenerateResponse
+ *
+ * The first chunk is pulled before the SSE headers are sent: the service
+ * checks the chat, message and token limit before it yields, so those errors
+ * reach the caller's catch and get their status code and JSON body.
+ * Errors raised mid-stream are sent as a final error event, and the
+ * generation is given back to the user's daily quota.
+ */
+async function writeChatStream(
+  res: Response,
+  stream: AsyncGenerator<ChatStreamChunk, void, unknown>,
+  handler: string,
+  chatId: string,
+  userId: string
+): Promise<void> {
+  const first = await stream.next();
+
+  // Set SSE headers
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering
+  res.flushHeaders();
+
+  logger.debug('SSE headers sent', { chatId });
+
+  // Stream response chunks
+  try {
+    for (let next = first; !next.done; next = await stream.next()) {
+      const streamChunk = next.value;
+
+      if (streamChunk.done) {
+        // Send final metadata
+        const metadata = {
+          done: true,
+          tokens_used: streamChunk.tokens_used,
+          message_id: streamChunk.message_id,
+          user_message_id: streamChunk.user_message_id,
+        };
+        res.write(`data: ${JSON.stringify(metadata)}\n\n`);
+        logger.debug('Final metadata sent', { chatId, ...metadata });
+      } else if (streamChunk.title) {
+        // Chat was named after its first exchange
+        res.write(`event: title\ndata: ${JSON.stringify({ title: streamChunk.title })}\n\n`);
+        logger.debug('Title event sent', { chatId, title: streamChunk.title });
+      } else if (streamChunk.chunk) {
+        // Send chunk data
+        res.write(`data: ${streamChunk.chunk}\n\n`);
+        logger.debug('Chunk sent', {
+          chatId,
+          chunkLength: streamChunk.chunk.length,
+        });
+      }
+    }
+
+    res.end();
+    logger.info(`${handler}: SSE stream completed`, {
+      user_id: userId,
+      chat_id: chatId,
+    });
+  } catch (streamError) {
+    logger.error(`${handler}: Stream error`, { error: streamError, chatId });
+
+    // Send error event if stream hasn't ended
+    if (!res.writableEnded) {
+      const errorEvent = {
+        error: true,
+        message:
+          streamError instanceof AppError
+            ? streamError.message
+            : 'An error occurred while generating response',
+        code:
+          streamError instanceof AppError
+            ? streamError.code
+            : 'STREAM_ERROR',
+      };
+      markGenerationFailed(res);
+      res.write(`data: ${JSON.stringify(errorEvent)}\n\n`);
+      res.end();
+    }
+  }
+}
+
 /**
  * POST /api/chat/:chatId/message
  * Send a message to a chat with SSE streaming response
@@ -338,7 +557,9 @@ function isValidUUID(uuid: string): boolean {
  * Streaming Response Format:
  * Server-Sent Events (text/event-stream)
  * - Each chunk: data: <chunk text>\n\n
- * - Final event: data: {"done": true, "tokens_used": 123, "message_id": "uuid"}\n\n
+ * - Final event: data: {"done": true, "tokens_used": 123, "message_id": "uuid", "user_message_id": "uuid"}\n\n
+ * - After the first exchange of an untitled chat, once named:
+ *   event: title\ndata: {"title": "Neon Fox Collection"}\n\n
  *
  * Request body:
  * {
@@ -428,67 +649,13 @@ export const sendMessage = async (
       });
     }
 
-    // Set SSE headers
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering
-
-    logger.debug('SSE headers set', { chatId });
-
-    // Stream response chunks
-    try {
-      const streamGenerator = streamChatResponse(chatId, userId, trimmedMessage);
-
-      for await (const streamChunk of streamGenerator) {
-        if (streamChunk.done) {
-          // Send final metadata
-          const metadata = {
-            done: true,
-            tokens_used: streamChunk.tokens_used,
-            message_id: streamChunk.message_id,
-          };
-          res.write(`data: ${JSON.stringify(metadata)}\n\n`);
-          logger.debug('Final metadata sent', { chatId, ...metadata });
-        } else if (streamChunk.chunk) {
-          // Send chunk data
-          res.write(`data: ${streamChunk.chunk}\n\n`);
-          logger.debug('Chunk sent', {
-            chatId,
-            chunkLength: streamChunk.chunk.length,
-          });
-        }
-      }
-
-      res.end();
-      logger.info('sendMessage: SSE stream completed', {
-        user_id: userId,
-        chat_id: chatId,
-      });
-    } catch (streamError) {
-      logger.error('sendMessage: Stream error', { error: streamError, chatId });
-
-      // Send error event if stream hasn't ended
-      if (!res.headersSent) {
-        res.status(500);
-      }
-
-      if (!res.writableEnded) {
-        const errorEvent = {
-          error: true,
-          message:
-            streamError instanceof AppError
-              ? streamError.message
-              : 'An error occurred while generating response',
-          code:
-            streamError instanceof AppError
-              ? streamError.code
-              : 'STREAM_ERROR',
-        };
-        res.write(`data: ${JSON.stringify(errorEvent)}\n\n`);
-        res.end();
-      }
-    }
+    await writeChatStream(
+      res,
+      streamChatResponse(chatId, userId, trimmedMessage),
+      'sendMessage',
+      chatId,
+      userId
+    );
   } catch (error) {
     logger.error('sendMessage endpoint error', { error });
 
@@ -516,12 +683,415 @@ export const sendMessage = async (
             : 'An unexpected error occurred',
         code: error instanceof AppError ? error.code : 'INTERNAL_SERVER_ERROR',
       };
+      markGenerationFailed(res);
       res.write(`data: ${JSON.stringify(errorEvent)}\n\n`);
       res.end();
     }
   }
 };
 
+/**
+ * PUT /api/chat/:chatId/messages/:messageId
+ * Edit one of the user's text messages and stream a new reply
+ * Every message after the edited one is retired from the chat
+ *
+ * Request body:
+ * {
+ *   message: string (required, 1-5000 characters)
+ * }
+ *
+ * Response (200 OK - with streaming):
+ * Same Server-Sent Events as POST /api/chat/:chatId/message
+ *
+ * Errors:
+ * - 401: Unauthorized
+ * - 403: Chat access denied or token limit exceeded
+ * - 404: Chat or message not found
+ * - 400: Invalid IDs, message, or message is not an editable user message
+ * - 500: Internal server error
+ */
+export const editMessage = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  try {
+    if (!req.user) {
+      logger.warn('editMessage: No user in request');
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    const userId = req.user.user_id;
+    const { chatId, messageId } = req.params;
+    const { message } = req.body;
+
+    logger.info('editMessage endpoint called', {
+      user_id: userId,
+      chat_id: chatId,
+      message_id: messageId,
+      message_length: message?.length,
+    });
+
+    // Validate chatId and messageId format
+    if (!isValidUUID(chatId)) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Invalid chat ID format',
+        code: ChatErrorCode.CHAT_NOT_FOUND,
+      });
+    }
+
+    if (!isValidUUID(messageId)) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Invalid message ID format',
+        code: ChatErrorCode.MESSAGE_NOT_FOUND,
+      });
+    }
+
+    // Validate message
+    if (!message || typeof message !== 'string') {
+      logger.warn('editMessage: Invalid message body', { userId, chatId, messageId });
+      return res.status(400).json({
+        status: 'error',
+        message: 'Message is required and must be a string',
+        code: ChatErrorCode.INVALID_MESSAGE,
+      });
+    }
+
+    const trimmedMessage = message.trim();
+    if (trimmedMessage.length === 0 || trimmedMessage.length > 5000) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Message must be between 1 and 5000 characters',
+        code: ChatErrorCode.INVALID_MESSAGE,
+      });
+    }
+
+    await writeChatStream(
+      res,
+      streamEditedMessage(chatId, userId, messageId, trimmedMessage),
+      'editMessage',
+      chatId,
+      userId
+    );
+  } catch (error) {
+    logger.error('editMessage endpoint error', { error });
+
+    if (!res.headersSent) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          status: 'error',
+          message: error.message,
+          code: error.code,
+        });
+      }
+
+      res.status(500).json({
+        status: 'error',
+        message: 'An unexpected error occurred',
+        code: 'INTERNAL_SERVER_ERROR',
+      });
+    }
+  }
+};
+
+/**
+ * POST /api/chat/:chatId/regenerate
+ * Replace the last assistant reply with a newly streamed one
+ * If the chat ends with an unanswered user message, answers it instead
+ *
+ * Response (200 OK - with streaming):
+ * Same Server-Sent Events as POST /api/chat/:chatId/message
+ * The previous reply is retired only once the new one is saved
+ *
+ * Errors:
+ * - 401: Unauthorized
+ * - 403: Chat access denied or token limit exceeded
+ * - 404: Chat not found
+ * - 400: Invalid chat ID format, or nothing to regenerate
+ * - 500: Internal server error
+ */
+export const regenerateResponse = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  try {
+    if (!req.user) {
+      logger.warn('regenerateResponse: No user in request');
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    const userId = req.user.user_id;
+    const { chatId } = req.params;
+
+    logger.info('regenerateResponse endpoint called', {
+      user_id: userId,
+      chat_id: chatId,
+    });
+
+    // Validate chatId format
+    if (!isValidUUID(chatId)) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Invalid chat ID format',
+        code: ChatErrorCode.CHAT_NOT_FOUND,
+      });
+    }
+
+    await writeChatStream(
+      res,
+      streamRegeneratedResponse(chatId, userId),
+      'regenerateResponse',
+      chatId,
+      userId
+    );
+  } catch (error) {
+    logger.error('regenerateResponse endpoint error', { error });
+
+    if (!res.headersSent) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          status: 'error',
+          message: error.message,
+          code: error.code,
+        });
+      }
+
+      res.status(500).json({
+        status: 'error',
+        message: 'An unexpected error occurred',
+        code: 'INTERNAL_SERVER_ERROR',
+      });
+    }
+  }
+};
+
+/**
+ * POST /api/chat/:chatId/branch
+ * Switch the chat to another branch: the one through the given message
+ * (a sibling from a message's sibling_ids)
+ *
+ * Request body:
+ * {
+ *   message_id: UUID (required)
+ * }
+ *
+ * Query Parameters:
+ * - limit: number (default: 50, max: 100)
+ * - offset: number (default: 0)
+ *
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Branch switched successfully'
+ *   data: ChatHistoryResponse - the new active branch
+ * }
+ *
+ * Errors:
+ * - 401: Unauthorized
+ * - 403: Forbidden (not chat owner)
+ * - 404: Chat or message not found
+ * - 400: Invalid chat or message ID format
+ * - 500: Internal server error
+ */
+export const switchBranchHandler = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  try {
+    if (!req.user) {
+      logger.warn('switchBranch: No user in request');
+      throw new AppError(
+        'Unauthorized. Please sign in.',
+        401,
+        'UNAUTHORIZED'
+      );
+    }
+
+    const userId = req.user.user_id;
+    const { chatId } = req.params;
+    const { message_id: messageId } = req.body;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100); // Max 100
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    logger.info('switchBranch endpoint called', {
+      user_id: userId,
+      chat_id: chatId,
+      message_id: messageId,
+    });
+
+    // Validate chatId and message_id format
+    if (!isValidUUID(chatId)) {
+      throw new AppError(
+        'Invalid chat ID format',
+        400,
+        ChatErrorCode.CHAT_NOT_FOUND
+      );
+    }
+
+    if (typeof messageId !== 'string' || !isValidUUID(messageId)) {
+      throw new AppError(
+        'message_id must be a valid message ID',
+        400,
+        ChatErrorCode.MESSAGE_NOT_FOUND
+      );
+    }
+
+    // Switch (includes authorization check), then return the new branch
+    await switchBranch(chatId, userId, messageId);
+
+    const chat = await getChat(chatId, userId);
+    const { messages, total } = await getChatMessages(chatId, userId, limit, offset);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Branch switched successfully',
+      data: toChatHistoryResponse(chat, messages, total),
+    });
+
+    logger.info('switchBranch: Success', { user_id: userId, chat_id: chatId, message_id: messageId });
+  } catch (error) {
+    logger.error('switchBranch endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred while switching branch',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * PATCH /api/chat/:chatId
+ * Rename, pin or archive a chat
+ *
+ * Request body (at least one field):
+ * {
+ *   title?: string (1-255 characters)
+ *   is_pinned?: boolean
+ *   is_archived?: boolean (archiving also unpins)
+ * }
+ *
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Chat updated successfully'
+ *   data: Chat
+ * }
+ *
+ * Errors:
+ * - 401: Unauthorized
+ * - 403: Forbidden (not chat owner)
+ * - 404: Chat not found
+ * - 400: Invalid chat ID format or request body
+ * - 500: Internal server error
+ */
+export const updateChatHandler = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  try {
+    if (!req.user) {
+      logger.warn('updateChat: No user in request');
+      throw new AppError(
+        'Unauthorized. Please sign in.',
+        401,
+        'UNAUTHORIZED'
+      );
+    }
+
+    const userId = req.user.user_id;
+    const { chatId } = req.params;
+    const { title, is_pinned, is_archived } = req.body as UpdateChatRequest;
+
+    logger.info('updateChat endpoint called', {
+      user_id: userId,
+      chat_id: chatId,
+      has_title: title !== undefined,
+      is_pinned,
+      is_archived,
+    });
+
+    // Validate chatId format
+    if (!isValidUUID(chatId)) {
+      throw new AppError(
+        'Invalid chat ID format',
+        400,
+        ChatErrorCode.CHAT_NOT_FOUND
+      );
+    }
+
+    if (title === undefined && is_pinned === undefined && is_archived === undefined) {
+      throw new AppError(
+        'Provide a title, is_pinned or is_archived',
+        400,
+        ChatErrorCode.INVALID_MESSAGE
+      );
+    }
+
+    if (title !== undefined && typeof title !== 'string') {
+      throw new AppError(
+        'Title must be a string',
+        400,
+        ChatErrorCode.INVALID_MESSAGE
+      );
+    }
+
+    if (
+      (is_pinned !== undefined && typeof is_pinned !== 'boolean') ||
+      (is_archived !== undefined && typeof is_archived !== 'boolean')
+    ) {
+      throw new AppError(
+        'is_pinned and is_archived must be booleans',
+        400,
+        ChatErrorCode.INVALID_MESSAGE
+      );
+    }
+
+    const chat = await updateChat(chatId, userId, { title, is_pinned, is_archived });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Chat updated successfully',
+      data: chat,
+    });
+
+    logger.info('updateChat: Success', { user_id: userId, chat_id: chatId });
+  } catch (error) {
+    logger.error('updateChat endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred while updating chat',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
 /**
  * DELETE /api/chat/:chatId
  * Delete (soft delete) a chat session
@@ -580,6 +1150,11 @@ export const deleteChatHandler = async (
     // Delete chat (soft delete - sets is_active to false)
     await deleteChat(chatId, userId);
 
+    await recordActivity(userId, ActivityAction.CHAT_DELETED, getActivityContext(req), {
+      type: 'chat',
+      id: chatId,
+    });
+
     res.status(200).json({
       status: 'success',
       message: 'Chat deleted successfully',
@@ -612,7 +1187,12 @@ export const deleteChatHandler = async (
 export default {
   listChats,
   createNewChat,
+  searchChatsHandler,
   getChatHistory,
   sendMessage,
+  editMessage,
+  regenerateResponse,
+  switchBranchHandler,
+  updateChatHandler,
   deleteChatHandler,
 };
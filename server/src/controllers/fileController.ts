@@ -4,10 +4,11 @@
  */
 
 import { Response } from 'express';
-import { AuthenticatedRequest, AppError, FileErrorCode } from '../types';
+import { AuthenticatedRequest, AppError, FileErrorCode, ActivityAction } from '../types';
 import logger from '../config/logger';
 import { uploadFileToS3, getUserFiles, softDeleteFile } from '../services/fileUploadService';
 import { isValidCategory } from '../utils/fileUploadUtils';
+import { recordActivity, getActivityContext } from '../services/activityLogService';
 
 /**
  * Upload file endpoint handler
@@ -62,6 +63,14 @@ export const uploadFile = async (req: AuthenticatedRequest, res: Response) => {
     // Call service
     const fileMetadata = await uploadFileToS3(userId, file, category, description);
 
+    await recordActivity(
+      userId,
+      ActivityAction.FILE_UPLOADED,
+      getActivityContext(req),
+      { type: 'file', id: fileMetadata.file_id },
+      { category: fileMetadata.category, size: fileMetadata.file_size, mime_type: fileMetadata.mime_type }
+    );
+
     // Return success response (200 OK)
     res.status(200).json({
       status: 'success',
@@ -6,7 +6,8 @@
 import { Response } from 'express';
 import { generateAndStoreImage, getChatImages, getUserImages, getUserImagesGroupedByDate, ImagesByDate, ImageWithMetadata } from '../services/imageGenerationService';
 import logger from '../config/logger';
-import { AppError, AuthenticatedRequest } from '../types';
+import { AppError, AuthenticatedRequest, ActivityAction } from '../types';
+import { recordActivity, getActivityContext } from '../services/activityLogService';
 
 /**
  * POST /api/gen-image
@@ -95,6 +96,14 @@ export const generateImage = async (req: AuthenticatedRequest, res: Response): P
       );
     }
 
+    await recordActivity(
+      userId,
+      ActivityAction.IMAGE_GENERATED,
+      getActivityContext(req),
+      { type: 'image', id: result.image.imageId },
+      { chat_id: chatId, has_reference: !!referenceImage }
+    );
+
     res.status(200).json({
       success: true,
       data: result.image,
@@ -5,3 +5,4 @@
 
 export * as authController from './authController';
 export * as userController from './userController';
+export * as adminController from './adminController';
@@ -4,17 +4,59 @@
  * 
  * Controllers implemented:
  * - getProfile
- * 
- * Controllers to implement:
  * - updateProfile
  * - changePassword
+ * - requestEmailChange
+ * - confirmEmailChange
  * - getActivityLog
+ * - getUsage
+ * - getCredits
+ * - getWallets
+ * - linkWallet
+ * - setPrimaryWallet
+ * - unlinkWallet
+ * - getSessions
+ * - revokeSession
+ * - revokeOtherSessions
+ * - getApiKeys
+ * - createApiKey
+ * - deleteApiKey
+ * - exportData
+ * - deleteAccount
  */
 
 import { Response } from 'express';
-import { AuthenticatedRequest, AppError } from '../types';
+import { AuthenticatedRequest, AppError, UpdateProfileRequest, ChangePasswordRequest, EmailChangeRequest, ConfirmEmailChangeRequest, AuthErrorCode, ActivityAction, ActivityLogFilters, SiweVerifyRequest, DeleteAccountRequest, CreateApiKeyRequest } from '../types';
 import logger from '../config/logger';
-import { getUserProfile } from '../services/userService';
+import {
+  getUserProfile,
+  updateUserProfile,
+  changePassword as changeUserPassword,
+  requestEmailChange as requestUserEmailChange,
+  confirmEmailChange as confirmUserEmailChange,
+  getActivityLog as getUserActivityLog,
+} from '../services/userService';
+import { clearSessionCookies, setAccessTokenCookie } from '../utils/sessionCookies';
+import { recordActivity, getActivityContext } from '../services/activityLogService';
+import {
+  getUserWallets,
+  linkWallet as linkUserWallet,
+  setPrimaryWallet as setUserPrimaryWallet,
+  unlinkWallet as unlinkUserWallet,
+} from '../services/walletService';
+import {
+  getUserSessions,
+  revokeSession as revokeUserSession,
+  revokeOtherSessions as revokeOtherUserSessions,
+} from '../services/sessionService';
+import { exportUserData, requestAccountDeletion } from '../services/accountService';
+import { getUserUsage } from '../services/usageService';
+import { getUserCredits } from '../services/creditService';
+import {
+  getUserApiKeys,
+  createApiKey as createUserApiKey,
+  deleteApiKey as deleteUserApiKey,
+} from '../services/apiKeyService';
 
 /**
  * Get user profile endpoint handler
@@ -71,52 +113,1082 @@ export const getProfile = async (req: AuthenticatedRequest, res: Response) => {
 };
 
 /**
- * Placeholder for updateProfile controller
+ * Update user profile endpoint handler
+ * PUT /user/profile
+ * Protected - requires auth_token cookie
+ * 
+ * Accepts: username, full_name, bio, profile_picture_url (all optional)
+ * Returns: 200 with updated user profile data
+ * Errors: 400 (validation), 409 (username taken), 401 (unauthorized), 500 (server error)
  */
 export const updateProfile = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    logger.info('Update Profile endpoint called - not yet implemented');
-    res.status(501).json({
-      status: 'error',
-      message: 'Update Profile endpoint not yet implemented',
-      code: 'NOT_IMPLEMENTED',
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Update Profile endpoint called', { userId });
+
+    const { username, full_name, bio, profile_picture_url } = req.body as UpdateProfileRequest;
+
+    // Call service
+    const profile = await updateUserProfile(userId, {
+      username,
+      full_name,
+      bio,
+      profile_picture_url,
+    });
+
+    await recordActivity(userId, ActivityAction.PROFILE_UPDATED, getActivityContext(req), undefined, {
+      fields: Object.keys(req.body),
+    });
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Profile updated successfully.',
+      data: profile,
     });
+
+    logger.info('User profile updated successfully', { userId });
   } catch (error) {
-    logger.error('Update Profile error', { error });
-    throw error;
+    logger.error('Update Profile endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
   }
 };
 
 /**
- * Placeholder for changePassword controller
+ * Change password endpoint handler
+ * PUT /user/change-password
+ * Protected - requires auth_token cookie
+ * 
+ * Accepts: current_password, new_password, confirm_password
+ * Returns: 200 with user_id and email; all sessions are revoked and cookies cleared
+ * Errors: 400 (validation/mismatch), 401 (incorrect password), 500 (server error)
  */
 export const changePassword = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    logger.info('Change Password endpoint called - not yet implemented');
-    res.status(501).json({
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Change Password endpoint called', { userId });
+
+    const { current_password, new_password, confirm_password } = req.body as ChangePasswordRequest;
+
+    if (new_password !== confirm_password) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'New password and confirm password do not match.',
+        code: AuthErrorCode.PASSWORD_MISMATCH,
+        field: 'confirm_password',
+      });
+    }
+
+    // Call service
+    const result = await changeUserPassword(userId, current_password, new_password);
+
+    await recordActivity(userId, ActivityAction.PASSWORD_CHANGED, getActivityContext(req));
+
+    // Force re-login with the new password
+    clearSessionCookies(res);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Password changed successfully. Please sign in again.',
+      data: result,
+    });
+
+    logger.info('User password changed successfully', { userId });
+  } catch (error) {
+    logger.error('Change Password endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Request email change endpoint handler
+ * POST /user/email-change
+ * Protected - requires auth_token cookie
+ * 
+ * Accepts: new_email, password
+ * Returns: 200 with pending_email; a code is sent to the new address and a notice to the current one
+ * Errors: 400 (validation), 401 (incorrect password), 409 (email taken), 500 (server/email error)
+ */
+export const requestEmailChange = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Request Email Change endpoint called', { userId });
+
+    const { new_email, password } = req.body as EmailChangeRequest;
+
+    // Call service
+    const result = await requestUserEmailChange(userId, new_email, password, getActivityContext(req));
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Confirmation code sent to your new email address.',
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Request Email Change endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
       status: 'error',
-      message: 'Change Password endpoint not yet implemented',
-      code: 'NOT_IMPLEMENTED',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Confirm email change endpoint handler
+ * POST /user/email-change/confirm
+ * Protected - requires auth_token cookie
+ * 
+ * Accepts: otp (sent to the new address)
+ * Returns: 200 with the new email; a new auth_token cookie carrying it is set
+ * Errors: 400 (invalid/expired OTP, no pending change), 409 (email taken), 500 (server error)
+ */
+export const confirmEmailChange = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = req.user;
+
+    if (!user?.user_id) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Confirm Email Change endpoint called', { userId: user.user_id });
+
+    const { otp } = req.body as ConfirmEmailChangeRequest;
+
+    // Call service
+    const result = await confirmUserEmailChange(user, otp, getActivityContext(req));
+
+    // Reissue the access token with the new email claim
+    setAccessTokenCookie(res, result.token);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Email changed successfully.',
+      data: {
+        email: result.email,
+        expiresIn: result.expiresIn,
+      },
     });
   } catch (error) {
-    logger.error('Change Password error', { error });
-    throw error;
+    logger.error('Confirm Email Change endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
   }
 };
 
 /**
- * Placeholder for getActivityLog controller
+ * Get activity log endpoint handler
+ * GET /user/activity-log
+ * Protected - requires auth_token cookie
+ * 
+ * Query Parameters (validated by the route):
+ * - limit: number (default: 20, max: 100)
+ * - offset: number (default: 0)
+ * - action: ActivityAction (repeatable, e.g. ?action=SIGNIN&action=SIGNIN_FAILED)
+ * - from / to: ISO date range on created_at
+ * 
+ * Returns: 200 with activities (most recent first) and total count
+ * Errors: 401 (unauthorized), 500 (server error)
  */
 export const getActivityLog = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    logger.info('Get Activity Log endpoint called - not yet implemented');
-    res.status(501).json({
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    const { limit, offset, action, from, to } = req.query as unknown as {
+      limit: number;
+      offset: number;
+      action?: ActivityAction[];
+      from?: Date;
+      to?: Date;
+    };
+    const filters: ActivityLogFilters = { actions: action, from, to };
+
+    logger.info('Get Activity Log endpoint called', { userId, limit, offset, filters });
+
+    // Call service
+    const result = await getUserActivityLog(userId, limit, offset, filters);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Activity log retrieved successfully.',
+      data: {
+        activities: result.activities,
+        total: result.total,
+        limit,
+        offset,
+      },
+    });
+  } catch (error) {
+    logger.error('Get Activity Log endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
       status: 'error',
-      message: 'Get Activity Log endpoint not yet implemented',
-      code: 'NOT_IMPLEMENTED',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Get token usage endpoint handler
+ * GET /user/usage
+ * Protected - requires auth_token cookie
+ * 
+ * Accepts: query days (length of the daily breakdown)
+ * Returns: 200 with current-period totals and per-day usage
+ * Errors: 401 (unauthorized), 500 (server error)
+ */
+export const getUsage = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    const { days } = req.query as unknown as { days: number };
+
+    logger.info('Get Usage endpoint called', { userId, days });
+
+    // Call service
+    const usage = await getUserUsage(userId, days);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Usage retrieved successfully.',
+      data: usage,
     });
   } catch (error) {
-    logger.error('Get Activity Log error', { error });
-    throw error;
+    logger.error('Get Usage endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Get credits endpoint handler
+ * GET /user/credits
+ * Protected - requires auth_token cookie
+ * 
+ * Returns: 200 with credit balance, today's image generations and recent ledger entries
+ * Errors: 401 (unauthorized), 500 (server error)
+ */
+export const getCredits = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Get Credits endpoint called', { userId });
+
+    // Call service
+    const credits = await getUserCredits(userId);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Credits retrieved successfully.',
+      data: credits,
+    });
+  } catch (error) {
+    logger.error('Get Credits endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Get linked wallets endpoint handler
+ * GET /user/wallets
+ * Protected - requires auth_token cookie
+ * 
+ * Returns: 200 with the user's linked wallets (primary first)
+ * Errors: 401 (unauthorized), 500 (server error)
+ */
+export const getWallets = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Get Wallets endpoint called', { userId });
+
+    // Call service
+    const wallets = await getUserWallets(userId);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Wallets retrieved successfully.',
+      data: {
+        wallets,
+      },
+    });
+  } catch (error) {
+    logger.error('Get Wallets endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Link wallet endpoint handler
+ * POST /user/wallets
+ * Protected - requires auth_token cookie
+ * 
+ * Accepts: message (EIP-4361 with a nonce from GET /auth/siwe/nonce), signature
+ * Returns: 201 with the linked wallet (the first wallet becomes primary)
+ * Errors: 400 (invalid message), 401 (unauthorized, bad signature or nonce),
+ *         409 (wallet already linked), 500 (server error)
+ */
+export const linkWallet = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    const { message, signature } = req.body as SiweVerifyRequest;
+
+    logger.info('Link Wallet endpoint called', { userId });
+
+    // Call service
+    const wallet = await linkUserWallet(userId, message, signature, getActivityContext(req));
+
+    // Return success response (201 Created)
+    res.status(201).json({
+      status: 'success',
+      message: 'Wallet linked successfully.',
+      data: wallet,
+    });
+  } catch (error) {
+    logger.error('Link Wallet endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Set primary wallet endpoint handler
+ * PUT /user/wallets/:address/primary
+ * Protected - requires auth_token cookie
+ * 
+ * Returns: 200 with the wallet (carried in access tokens issued from now on)
+ * Errors: 401 (unauthorized), 404 (wallet not found), 500 (server error)
+ */
+export const setPrimaryWallet = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    const { address } = req.params;
+
+    logger.info('Set Primary Wallet endpoint called', { userId, address });
+
+    // Call service
+    const wallet = await setUserPrimaryWallet(userId, address);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Primary wallet updated.',
+      data: wallet,
+    });
+  } catch (error) {
+    logger.error('Set Primary Wallet endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Unlink wallet endpoint handler
+ * DELETE /user/wallets/:address
+ * Protected - requires auth_token cookie
+ * 
+ * Returns: 200 on success
+ * Errors: 401 (unauthorized), 404 (wallet not found), 500 (server error)
+ */
+export const unlinkWallet = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    const { address } = req.params;
+
+    logger.info('Unlink Wallet endpoint called', { userId, address });
+
+    // Call service
+    await unlinkUserWallet(userId, address, getActivityContext(req));
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Wallet unlinked successfully.',
+    });
+  } catch (error) {
+    logger.error('Unlink Wallet endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Get active sessions endpoint handler
+ * GET /user/sessions
+ * Protected - requires auth_token cookie
+ * 
+ * Returns: 200 with active sessions (most recently seen first), the current one flagged
+ * Errors: 401 (unauthorized), 500 (server error)
+ */
+export const getSessions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Get Sessions endpoint called', { userId });
+
+    // Call service
+    const sessions = await getUserSessions(userId);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Sessions retrieved successfully.',
+      data: {
+        sessions: sessions.map((session) => ({
+          ...session,
+          is_current: session.session_id === req.user?.sid,
+        })),
+      },
+    });
+  } catch (error) {
+    logger.error('Get Sessions endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Revoke session endpoint handler
+ * DELETE /user/sessions/:sessionId
+ * Protected - requires auth_token cookie
+ * 
+ * Returns: 200 on success (auth cookies are cleared if it was the current session)
+ * Errors: 401 (unauthorized), 404 (session not found), 500 (server error)
+ */
+export const revokeSession = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    const { sessionId } = req.params;
+
+    logger.info('Revoke Session endpoint called', { userId, sessionId });
+
+    // Call service
+    await revokeUserSession(userId, sessionId, getActivityContext(req));
+
+    const isCurrent = sessionId === req.user?.sid;
+    if (isCurrent) {
+      clearSessionCookies(res);
+    }
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: isCurrent ? 'Session revoked. You have been signed out.' : 'Session revoked.',
+    });
+  } catch (error) {
+    logger.error('Revoke Session endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Revoke other sessions endpoint handler ("sign out other devices")
+ * DELETE /user/sessions
+ * Protected - requires auth_token cookie
+ * 
+ * Returns: 200 with the number of sessions revoked; the current session stays signed in
+ * Errors: 401 (unauthorized), 500 (server error)
+ */
+export const revokeOtherSessions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Revoke Other Sessions endpoint called', { userId });
+
+    // Call service
+    const revoked = await revokeOtherUserSessions(userId, req.user?.sid, getActivityContext(req));
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Signed out of all other devices.',
+      data: {
+        revoked,
+      },
+    });
+  } catch (error) {
+    logger.error('Revoke Other Sessions endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Get API keys endpoint handler
+ * GET /user/api-keys
+ * Protected - requires auth_token cookie
+ * 
+ * Returns: 200 with the user's API keys (newest first, without the secret)
+ * Errors: 401 (unauthorized), 500 (server error)
+ */
+export const getApiKeys = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Get API Keys endpoint called', { userId });
+
+    // Call service
+    const apiKeys = await getUserApiKeys(userId);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'API keys retrieved successfully.',
+      data: {
+        api_keys: apiKeys,
+      },
+    });
+  } catch (error) {
+    logger.error('Get API Keys endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Create API key endpoint handler
+ * POST /user/api-keys
+ * Protected - requires auth_token cookie
+ * 
+ * Accepts: name, scopes, expires_in_days (optional)
+ * Returns: 201 with the key details and the key itself (shown only once)
+ * Errors: 401 (unauthorized), 409 (key limit reached), 500 (server error)
+ */
+export const createApiKey = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    const { name, scopes, expires_in_days } = req.body as CreateApiKeyRequest;
+
+    logger.info('Create API Key endpoint called', { userId });
+
+    // Call service
+    const { apiKey, key } = await createUserApiKey(userId, {
+      name,
+      scopes,
+      expires_in_days,
+    }, getActivityContext(req));
+
+    // Return success response (201 Created)
+    res.status(201).json({
+      status: 'success',
+      message: 'API key created. Copy it now; it will not be shown again.',
+      data: {
+        ...apiKey,
+        key,
+      },
+    });
+  } catch (error) {
+    logger.error('Create API Key endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Delete API key endpoint handler
+ * DELETE /user/api-keys/:keyId
+ * Protected - requires auth_token cookie
+ * 
+ * Returns: 200 once the key is deleted (it stops working immediately)
+ * Errors: 401 (unauthorized), 404 (key not found), 500 (server error)
+ */
+export const deleteApiKey = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    const { keyId } = req.params;
+
+    logger.info('Delete API Key endpoint called', { userId, keyId });
+
+    // Call service
+    await deleteUserApiKey(userId, keyId, getActivityContext(req));
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'API key deleted.',
+    });
+  } catch (error) {
+    logger.error('Delete API Key endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Export data endpoint handler (GDPR data portability)
+ * POST /user/export
+ * Protected - requires auth_token cookie
+ * 
+ * Returns: 200 with a JSON archive as a file download (profile, wallets, chats and
+ *          messages, generated images, uploaded files, activity log)
+ * Errors: 401 (unauthorized), 404 (user not found), 500 (server error)
+ */
+export const exportData = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Export Data endpoint called', { userId });
+
+    // Call service
+    const archive = await exportUserData(userId);
+
+    await recordActivity(userId, ActivityAction.DATA_EXPORTED, getActivityContext(req));
+
+    const filename = `auramint-export-${new Date().toISOString().slice(0, 10)}.json`;
+
+    // Return the archive as a download (200 OK)
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.status(200).send(JSON.stringify(archive, null, 2));
+  } catch (error) {
+    logger.error('Export Data endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+};
+
+/**
+ * Delete account endpoint handler
+ * DELETE /user/account
+ * Protected - requires auth_token cookie
+ * 
+ * Accepts: password (re-confirmation)
+ * Returns: 200 with deletion_scheduled_at; all sessions are revoked and cookies cleared.
+ *          Signing in again before that time cancels the deletion.
+ * Errors: 401 (unauthorized / incorrect password), 500 (server error)
+ */
+export const deleteAccount = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized. Please sign in.',
+        code: 'UNAUTHORIZED',
+      });
+    }
+
+    logger.info('Delete Account endpoint called', { userId });
+
+    const { password } = req.body as DeleteAccountRequest;
+
+    // Call service
+    const result = await requestAccountDeletion(userId, password, getActivityContext(req));
+
+    clearSessionCookies(res);
+
+    // Return success response (200 OK)
+    res.status(200).json({
+      status: 'success',
+      message: 'Your account is scheduled for deletion. Sign in again before then to cancel.',
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Delete Account endpoint error', { error });
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        code: error.code,
+        ...(error.field && { field: error.field }),
+      });
+    }
+
+    res.status(500).json({
+      status: 'error',
+      message: 'An unexpected error occurred',
+      code: 'INTERNAL_SERVER_ERROR',
+    });
   }
 };
@@ -9,6 +9,7 @@ import config from './config/env';
 import logger from './config/logger';
 import { initializeSupabase, testSupabaseConnection } from './config/supabase';
 import { initializeGemini } from './config/gemini';
+import { initializeRedis } from './config/redis';
 
 // Middleware imports
 import {
@@ -20,9 +21,11 @@ import {
 } from './middleware';
 
 // Route imports
-import { authRoutes, userRoutes, fileRoutes, chatRoutes, imageRoutes } from './routes';
+import { authRoutes, userRoutes, fileRoutes, chatRoutes, imageRoutes, adminRoutes, billingRoutes } from './routes';
 import { initializeEmailService, sendOtpEmail } from './utils';
 import { uploadFileToS3 } from './services/fileUploadService';
+import { startAccountDeletionJob } from './jobs/accountDeletionJob';
+import { startUsageResetJob } from './jobs/usageResetJob';
 
 const app: Express = express();
 
@@ -37,6 +40,8 @@ app.use(helmet());
 app.use(corsConfig);
 
 // Request parsing middleware
+// Billing webhooks are verified against the raw body, so keep it unparsed
+app.use('/api/billing/webhook', express.raw({ type: 'application/json', limit: '1mb' }));
 app.use(express.json({ limit: '50mb' })); // Increased for base64 image uploads
 app.use(express.urlencoded({ limit: '50mb', extended: true }));
 app.use(cookieParser());
@@ -119,7 +124,13 @@ app.use('/api/chat', verifyAuth, chatRoutes);
 // Image generation routes - Protected routes (requires authentication)
 app.use('/api/gen-image', verifyAuth, imageRoutes);
 
-// NFT routes will be mounted here
+// Admin routes - Protected routes (admin role, see config/permissions.ts)
+app.use('/api/admin', adminRoutes);
+
+// Billing routes - Plans are public, the webhook is signature-verified, the rest require authentication
+app.use('/api/billing', billingRoutes);
+
+// NFT routes will be mounted here (collection creation: requirePermission(Permission.COLLECTION_CREATE))
 // app.use('/api/nft', verifyAuth, nftRoutes);
 
 /**
@@ -181,6 +192,18 @@ const startServer = async () => {
       // Continue server startup even if Gemini fails
     }
 
+    // Initialize Redis (optional - falls back to in-memory stores)
+    if (config.enableTokenBlacklist || config.rateLimitStore === 'redis') {
+      logger.info('Initializing Redis...');
+      await initializeRedis();
+    }
+
+    // Hard-delete accounts whose deletion grace period has ended
+    startAccountDeletionJob();
+
+    // Reset token usage when each user's daily or monthly period ends
+    startUsageResetJob();
+
     // Start Express server
     const PORT = config.port;
     app.listen(PORT, () => {
@@ -0,0 +1,29 @@
+import config from '../config/env';
+import logger from '../config/logger';
+import { purgeScheduledAccountDeletions } from '../services/accountService';
+import { scheduleJob } from './scheduleJob';
+
+/**
+ * Account Deletion Job
+ * Periodically hard-deletes accounts whose deletion grace period has ended
+ * (ACCOUNT_DELETION_JOB_INTERVAL_MINUTES)
+ */
+
+const runAccountDeletionJob = async (): Promise<void> => {
+  const deleted = await purgeScheduledAccountDeletions();
+
+  if (deleted > 0) {
+    logger.info('Account deletion job completed', { deleted });
+  }
+};
+
+/**
+ * Start the job: runs once at startup, then on an interval
+ */
+export const startAccountDeletionJob = (): void => {
+  scheduleJob('Account deletion job', config.accountDeletionJobIntervalMinutes, runAccountDeletionJob);
+};
+
+export default {
+  startAccountDeletionJob,
+};
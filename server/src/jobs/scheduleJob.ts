@@ -0,0 +1,36 @@
+import logger from '../config/logger';
+
+/**
+ * Job Scheduler
+ * Runs a background job once at startup, then on an interval
+ * The timer does not keep the process alive on shutdown
+ */
+
+/**
+ * Schedule a job
+ * A failed run is logged and retried at the next interval
+ *
+ * @param name - Shown in logs, e.g. "Usage reset job"
+ */
+export const scheduleJob = (
+  name: string,
+  intervalMinutes: number,
+  fn: () => Promise<void>
+): void => {
+  const run = async (): Promise<void> => {
+    try {
+      await fn();
+    } catch (error) {
+      logger.error(`${name} failed`, { error });
+    }
+  };
+
+  void run();
+  setInterval(run, intervalMinutes * 60 * 1000).unref();
+
+  logger.info(`${name} scheduled`, { intervalMinutes });
+};
+
+export default {
+  scheduleJob,
+};
@@ -0,0 +1,29 @@
+import config from '../config/env';
+import logger from '../config/logger';
+import { resetExpiredUsage } from '../services/usageService';
+import { scheduleJob } from './scheduleJob';
+
+/**
+ * Usage Reset Job
+ * Periodically resets token usage whose period (daily or monthly, by plan)
+ * has ended (USAGE_RESET_JOB_INTERVAL_MINUTES)
+ */
+
+const runUsageResetJob = async (): Promise<void> => {
+  const reset = await resetExpiredUsage();
+
+  if (reset > 0) {
+    logger.info('Usage reset job completed', { reset });
+  }
+};
+
+/**
+ * Start the job: runs once at startup, then on an interval
+ */
+export const startUsageResetJob = (): void => {
+  scheduleJob('Usage reset job', config.usageResetJobIntervalMinutes, runUsageResetJob);
+};
+
+export default {
+  startUsageResetJob,
+};
@@ -0,0 +1,121 @@
+import { Response, NextFunction } from 'express';
+import logger from '../config/logger';
+import { hasPermission, getRequiredScope } from '../config/permissions';
+import { AuthenticatedRequest, AuthErrorCode, Permission, UserRole } from '../types';
+
+/**
+ * Authorization Middleware
+ * Role and permission checks; must run after verifyAuth
+ *
+ * - 401 UNAUTHORIZED if no user is attached to the request
+ * - 403 FORBIDDEN if the user's role is not allowed
+ * - 403 INSUFFICIENT_SCOPE if an API key lacks the scope for the permission
+ */
+
+const unauthorized = (res: Response) => {
+  return res.status(401).json({
+    status: 'error',
+    message: 'Unauthorized. Please sign in.',
+    code: AuthErrorCode.UNAUTHORIZED,
+  });
+};
+
+const forbidden = (res: Response) => {
+  return res.status(403).json({
+    status: 'error',
+    message: 'You do not have permission to perform this action.',
+    code: AuthErrorCode.FORBIDDEN,
+  });
+};
+
+const insufficientScope = (res: Response, scope: string | null) => {
+  return res.status(403).json({
+    status: 'error',
+    message: scope
+      ? `This API key does not have the ${scope} scope.`
+      : 'This action is not available with an API key.',
+    code: AuthErrorCode.INSUFFICIENT_SCOPE,
+    ...(scope && { details: { required_scope: scope } }),
+  });
+};
+
+/**
+ * Allow only the given roles
+ * Example: router.get('/stats', verifyAuth, requireRole('admin'), getStats)
+ */
+export const requireRole = (...roles: UserRole[]) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return unauthorized(res);
+    }
+
+    if (!roles.includes(req.user.user_type)) {
+      logger.warn('Role check failed', {
+        user_id: req.user.user_id,
+        user_type: req.user.user_type,
+        required: roles,
+        path: req.originalUrl,
+      });
+      return forbidden(res);
+    }
+
+    next();
+  };
+};
+
+/**
+ * Allow only roles that hold a permission (see config/permissions.ts)
+ * Example: router.post('/collections', verifyAuth, requirePermission(Permission.COLLECTION_CREATE), createCollection)
+ */
+export const requirePermission = (permission: Permission) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return unauthorized(res);
+    }
+
+    if (!hasPermission(req.user.user_type, permission)) {
+      logger.warn('Permission check failed', {
+        user_id: req.user.user_id,
+        user_type: req.user.user_type,
+        permission,
+        path: req.originalUrl,
+      });
+      return forbidden(res);
+    }
+
+    // API keys only reach what their scopes cover
+    if (req.apiKey) {
+      const scope = getRequiredScope(permission, req.method);
+      if (!scope || !req.apiKey.scopes.includes(scope)) {
+        logger.warn('API key scope check failed', {
+          user_id: req.user.user_id,
+          key_id: req.apiKey.key_id,
+          permission,
+          required: scope,
+          path: req.originalUrl,
+        });
+        return insufficientScope(res, scope);
+      }
+    }
+
+    next();
+  };
+};
+
+/**
+ * Reject API keys; for routes that act on the browser session itself
+ * Example: router.post('/logout', verifyAuth, requireSession, logout)
+ */
+export const requireSession = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return unauthorized(res);
+  }
+
+  if (req.apiKey) {
+    return insufficientScope(res, null);
+  }
+
+  next();
+};
+
+export default requirePermission;
@@ -1,6 +1,7 @@
 export { default as verifyAuth } from './verifyAuth';
+export { requireRole, requirePermission, requireSession } from './authorize';
 export { default as errorHandler } from './errorHandler';
 export { validateRequest, emailSchema, passwordSchema, otpSchema, usernameSchema } from './validateRequest';
-export { globalLimiter, authLimiter, registerLimiter, otpResendLimiter } from './rateLimiter';
+export { globalLimiter, authLimiter, registerLimiter, otpResendLimiter, magicLinkLimiter, enforceQuota } from './rateLimiter';
 export { default as requestLogger } from './requestLogger';
 export { corsConfig, helmetConfig } from './cors';
@@ -1,102 +1,272 @@
-import rateLimit from 'express-rate-limit';
-import config from '../config/env';
+import { Request, Response, NextFunction } from 'express';
+import rateLimit, { RateLimitInfo } from 'express-rate-limit';
+import jwt from 'jsonwebtoken';
+import config, { RateLimitGroup } from '../config/env';
 import logger from '../config/logger';
+import { RateLimitStore } from '../services/rateLimitStoreService';
+import { getUserPlan, consumeQuota, refundGeneration, QuotaWindowStatus } from '../services/quotaService';
+import { AuthenticatedRequest, JWTPayload, QuotaClass } from '../types';
 
 /**
  * Rate Limiting Middleware
- * Limits requests based on IP address to prevent abuse
+ * Limits requests per client to prevent abuse
+ *
+ * - Signed-in users are counted by user_id (from req.user or the auth_token
+ *   cookie, or the user of a personal API key once verifyAuth has resolved
+ *   it), so users behind a shared NAT do not share a budget; anonymous
+ *   requests - and unverified API keys - are counted by IP
+ * - Counters live in the store chosen by RATE_LIMIT_STORE (Redis or memory,
+ *   see services/rateLimitStoreService.ts); store errors let the request through
+ * - Each route group has its own window and limit (config.rateLimits)
+ * - Chat and image routes also enforce the user's plan quotas (enforceQuota,
+ *   see config/quotas.ts)
  */
 
+/**
+ * Identify the client a request counts against
+ * An `Authorization: Bearer amk_...` header alone identifies no one: any
+ * random key would get a fresh budget, so it counts by IP until verifyAuth
+ * has resolved the key to its user (req.user)
+ */
+export const getClientKey = (req: Request): string => {
+  const user = (req as AuthenticatedRequest).user;
+  if (user?.user_id) {
+    return `user:${user.user_id}`;
+  }
+
+  // Limiters usually run before verifyAuth; a validly signed cookie is enough to identify the user
+  const token = req.cookies?.auth_token;
+  if (token) {
+    try {
+      const decoded = jwt.verify(token, config.jwtSecret) as JWTPayload;
+      return `user:${decoded.user_id}`;
+    } catch {
+      // Expired or invalid token: count by IP
+    }
+  }
+
+  return `ip:${req.ip}`;
+};
+
+/**
+ * Seconds until the client's window resets
+ */
+const getRetryAfterSeconds = (req: Request, windowMs: number): number => {
+  const resetTime = (req as Request & { rateLimit?: RateLimitInfo }).rateLimit?.resetTime;
+  const remainingMs = resetTime ? resetTime.getTime() - Date.now() : windowMs;
+  return Math.max(1, Math.ceil(remainingMs / 1000));
+};
+
+/**
+ * Human-readable wait, e.g. "14 minutes"
+ */
+const formatWait = (seconds: number): string => {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+/**
+ * Build the limiter for a route group
+ */
+const createLimiter = (
+  group: RateLimitGroup,
+  options: {
+    message: string; // Sentence before "Try again in ..."
+    code: string;
+    logMessage: string;
+    skipSuccessfulRequests?: boolean;
+    skip?: (req: Request) => boolean;
+  }
+) => {
+  const rule = config.rateLimits[group];
+
+  return rateLimit({
+    windowMs: rule.windowMs,
+    limit: rule.max,
+    standardHeaders: true, // Return rate limit info in `RateLimit-*` headers
+    legacyHeaders: false, // Disable `X-RateLimit-*` headers
+    store: new RateLimitStore(group),
+    keyGenerator: getClientKey,
+    passOnStoreError: true,
+    skipSuccessfulRequests: options.skipSuccessfulRequests ?? false,
+    ...(options.skip && { skip: options.skip }),
+    handler: (req: Request, res: Response) => {
+      const retryAfter = getRetryAfterSeconds(req, rule.windowMs);
+
+      logger.warn(options.logMessage, {
+        key: getClientKey(req),
+        path: req.path,
+        retry_after: retryAfter,
+      });
+
+      res.setHeader('Retry-After', retryAfter.toString());
+      res.status(429).json({
+        status: 'error',
+        message: `${options.message} Try again in ${formatWait(retryAfter)}.`,
+        code: options.code,
+        retry_after: retryAfter,
+      });
+    },
+  });
+};
+
 // Global rate limiter
-export const globalLimiter = rateLimit({
-  windowMs: config.rateLimitWindowMs, // 15 minutes
-  max: config.rateLimitMaxRequests, // Limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later.',
-  standardHeaders: true, // Return rate limit info in `RateLimit-*` headers
-  legacyHeaders: false, // Disable `X-RateLimit-*` headers
-  skip: (req) => {
-    // Skip rate limiting for health check
-    return req.path === '/health';
-  },
-  handler: (req, res) => {
-    logger.warn('Rate limit exceeded', {
-      ip: req.ip,
-      path: req.path,
-    });
-
-    res.status(429).json({
-      status: 'error',
-      message: 'Too many requests. Please try again later.',
-      code: 'RATE_LIMIT_EXCEEDED',
-      retry_after: 900, // 15 minutes in seconds
-    });
-  },
+export const globalLimiter = createLimiter('global', {
+  message: 'Too many requests.',
+  code: 'RATE_LIMIT_EXCEEDED',
+  logMessage: 'Rate limit exceeded',
+  // Skip rate limiting for health check and payment provider webhooks (signed, retried by the provider)
+  skip: (req) => req.path === '/health' || req.path === '/api/billing/webhook',
 });
 
 // Auth endpoints limiter (stricter)
-export const authLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 5, // Limit each IP to 5 requests per windowMs
+export const authLimiter = createLimiter('auth', {
+  message: 'Too many login attempts.',
+  code: 'RATE_LIMIT_EXCEEDED',
+  logMessage: 'Auth rate limit exceeded',
   skipSuccessfulRequests: true, // Don't count successful requests
-  message: 'Too many login attempts, please try again later.',
-  handler: (req, res) => {
-    logger.warn('Auth rate limit exceeded', {
-      ip: req.ip,
-      path: req.path,
-    });
-
-    res.status(429).json({
-      status: 'error',
-      message: 'Too many login attempts. Try again in 15 minutes.',
-      code: 'RATE_LIMIT_EXCEEDED',
-      retry_after: 900,
-    });
-  },
 });
 
 // Register endpoint limiter
-export const registerLimiter = rateLimit({
-  windowMs: 60 * 60 * 1000, // 1 hour
-  max: 3, // Limit each IP to 3 registrations per hour
-  skipSuccessfulRequests: false,
-  message: 'Too many registration attempts, please try again later.',
-  handler: (req, res) => {
-    logger.warn('Registration rate limit exceeded', {
-      ip: req.ip,
-    });
-
-    res.status(429).json({
-      status: 'error',
-      message: 'Too many registration attempts. Try again in 1 hour.',
-      code: 'RATE_LIMIT_EXCEEDED',
-      retry_after: 3600,
-    });
-  },
+export const registerLimiter = createLimiter('register', {
+  message: 'Too many registration attempts.',
+  code: 'RATE_LIMIT_EXCEEDED',
+  logMessage: 'Registration rate limit exceeded',
 });
 
 // OTP resend limiter
-export const otpResendLimiter = rateLimit({
-  windowMs: 5 * 60 * 1000, // 5 minutes
-  max: 3, // Limit each IP to 3 resends per 5 minutes
-  skipSuccessfulRequests: false,
-  message: 'Too many OTP resend attempts, please try again later.',
-  handler: (req, res) => {
-    logger.warn('OTP resend rate limit exceeded', {
-      ip: req.ip,
-    });
-
-    res.status(429).json({
-      status: 'error',
-      message: 'Too many OTP resend attempts. Try again in 5 minutes.',
-      code: 'RESEND_LIMIT_EXCEEDED',
-      retry_after: 300,
-    });
-  },
+export const otpResendLimiter = createLimiter('otpResend', {
+  message: 'Too many OTP resend attempts.',
+  code: 'RESEND_LIMIT_EXCEEDED',
+  logMessage: 'OTP resend rate limit exceeded',
+});
+
+// Magic link limiter (same policy as OTP resends: each request sends an email)
+export const magicLinkLimiter = createLimiter('magicLink', {
+  message: 'Too many sign-in link requests.',
+  code: 'RESEND_LIMIT_EXCEEDED',
+  logMessage: 'Magic link rate limit exceeded',
 });
 
+/**
+ * Set draft-6 `RateLimit-*` headers for the window with the least budget left
+ * RateLimit-Policy lists every window that applies, e.g. "30;w=60, 50;w=86400"
+ */
+const setQuotaHeaders = (res: Response, windows: QuotaWindowStatus[]): QuotaWindowStatus => {
+  const binding = windows.reduce((current, candidate) => {
+    if (candidate.exceeded !== current.exceeded) return candidate.exceeded ? candidate : current;
+    if (candidate.remaining !== current.remaining) return candidate.remaining < current.remaining ? candidate : current;
+    return candidate.resetTime > current.resetTime ? candidate : current;
+  });
+  const resetSeconds = Math.max(1, Math.ceil((binding.resetTime.getTime() - Date.now()) / 1000));
+
+  res.setHeader('RateLimit-Policy', windows.map((w) => `${w.limit};w=${w.windowSeconds}`).join(', '));
+  res.setHeader('RateLimit-Limit', binding.limit.toString());
+  res.setHeader('RateLimit-Remaining', binding.remaining.toString());
+  res.setHeader('RateLimit-Reset', resetSeconds.toString());
+
+  return binding;
+};
+
+/**
+ * Record that a generation failed after its response was sent with 200
+ * (e.g. a model error sent as an SSE error event) so enforceQuota refunds it
+ */
+export const markGenerationFailed = (res: Response): void => {
+  res.locals.generationFailed = true;
+};
+
+/**
+ * Enforce the signed-in user's plan quota for an endpoint class
+ * Must run after verifyAuth. Overrides the global limiter's `RateLimit-*`
+ * headers with the quota's. Generations are given back when the request
+ * ends with an error status or was marked failed (markGenerationFailed).
+ *
+ * Example: router.post('/', requirePermission(Permission.IMAGE_GENERATE), enforceQuota('image', { generation: true }), generateImage)
+ */
+export const enforceQuota = (quotaClass: QuotaClass, options: { generation?: boolean } = {}) => {
+  const generation = options.generation ?? false;
+
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next();
+    }
+
+    const userId = req.user.user_id;
+    const plan = await getUserPlan(userId);
+
+    let windows: QuotaWindowStatus[];
+    try {
+      windows = await consumeQuota(userId, plan, quotaClass, generation);
+    } catch (error) {
+      // Same policy as the limiters: a store outage must not block requests
+      logger.error('Quota store error, allowing request', {
+        user_id: userId,
+        quota_class: quotaClass,
+        error: error instanceof Error ? error.message : error,
+      });
+      return next();
+    }
+
+    const binding = setQuotaHeaders(res, windows);
+
+    if (binding.exceeded) {
+      const retryAfter = Math.max(1, Math.ceil((binding.resetTime.getTime() - Date.now()) / 1000));
+      const daily = binding.window === 'day';
+
+      logger.warn('Plan quota exceeded', {
+        user_id: userId,
+        plan,
+        quota_class: quotaClass,
+        window: binding.window,
+        path: req.path,
+      });
+
+      res.setHeader('Retry-After', retryAfter.toString());
+      return res.status(429).json({
+        status: 'error',
+        message: daily
+          ? `You have used all ${binding.limit} ${quotaClass} generations of your ${plan} plan for today. Try again in ${formatWait(retryAfter)}.`
+          : `Too many ${quotaClass} requests. Try again in ${formatWait(retryAfter)}.`,
+        code: daily ? 'QUOTA_EXCEEDED' : 'RATE_LIMIT_EXCEEDED',
+        retry_after: retryAfter,
+        details: {
+          plan,
+          quota_class: quotaClass,
+          window: binding.window,
+          limit: binding.limit,
+        },
+      });
+    }
+
+    if (generation) {
+      res.on('finish', () => {
+        if (res.statusCode >= 400 || res.locals.generationFailed) {
+          refundGeneration(userId, quotaClass).catch((error) => {
+            logger.error('Failed to refund generation quota', {
+              user_id: userId,
+              quota_class: quotaClass,
+              error: error instanceof Error ? error.message : error,
+            });
+          });
+        }
+      });
+    }
+
+    next();
+  };
+};
+
 export default {
+  getClientKey,
   globalLimiter,
   authLimiter,
   registerLimiter,
   otpResendLimiter,
+  magicLinkLimiter,
+  markGenerationFailed,
+  enforceQuota,
 };
@@ -3,18 +3,55 @@ import jwt from 'jsonwebtoken';
 import config from '../config/env';
 import logger from '../config/logger';
 import { AuthenticatedRequest, JWTPayload, AppError, AuthErrorCode } from '../types';
+import { isTokenRevoked } from '../services/tokenBlacklistService';
+import { isSessionRevoked } from '../services/sessionService';
+import { isApiKey, authenticateApiKey } from '../services/apiKeyService';
 
 /**
  * Verify Auth Middleware
  * Validates JWT token from cookies and checks email verification status
+ * Rejects tokens whose session (sid claim) is revoked in user_sessions - logout,
+ * sign out everywhere, password change, revoked session - and tokens revoked via
+ * the token blacklist when ENABLE_TOKEN_BLACKLIST is set (immediate, per token)
  * Attaches user payload to request object
+ *
+ * Scripts may instead send a personal API key as `Authorization: Bearer amk_...`;
+ * the key's scopes are then attached as req.apiKey and enforced by requirePermission
  */
-export const verifyAuth = (
+export const verifyAuth = async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
+    const [scheme, credential] = (req.headers.authorization || '').split(' ');
+
+    if (scheme?.toLowerCase() === 'bearer' && credential) {
+      if (!isApiKey(credential)) {
+        throw new AppError(
+          'Invalid API key.',
+          401,
+          AuthErrorCode.INVALID_TOKEN
+        );
+      }
+
+      const { user, apiKey } = await authenticateApiKey(credential);
+
+      if (!user.email_verified) {
+        throw new AppError(
+          'Email not verified. Please verify your email first.',
+          403,
+          AuthErrorCode.EMAIL_NOT_VERIFIED
+        );
+      }
+
+      req.user = user;
+      req.apiKey = apiKey;
+
+      logger.debug('API key verification successful', { user_id: user.user_id, key_id: apiKey.key_id });
+      return next();
+    }
+
     // Extract token from cookies
     const token = req.cookies?.auth_token;
 
@@ -30,6 +67,19 @@ export const verifyAuth = (
     // Verify JWT token
     const decoded = jwt.verify(token, config.jwtSecret) as JWTPayload;
 
+    // Check server-side revocation: the session always, the blacklist if enabled
+    if (
+      (decoded.sid && (await isSessionRevoked(decoded.sid, decoded.user_id))) ||
+      (await isTokenRevoked(decoded))
+    ) {
+      logger.warn('Revoked token presented', { user_id: decoded.user_id, path: req.path });
+      throw new AppError(
+        'Your session has been revoked. Please sign in again.',
+        401,
+        AuthErrorCode.INVALID_TOKEN
+      );
+    }
+
     // Check if email is verified (optional but recommended)
     if (!decoded.email_verified) {
       logger.warn('User attempted access with unverified email', {
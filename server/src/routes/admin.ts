@@ -0,0 +1,109 @@
+/**
+ * Admin Routes
+ * User management endpoints
+ * Every route requires verifyAuth + Permission.USERS_MANAGE (admin role)
+ * 
+ * Endpoints implemented:
+ * - GET /admin/users
+ * - PATCH /admin/users/:userId
+ */
+
+import { Router } from 'express';
+import { listUsers, updateUser } from '../controllers/adminController';
+import { verifyAuth } from '../middleware/verifyAuth';
+import { requirePermission } from '../middleware/authorize';
+import { validateRequest } from '../middleware/validateRequest';
+import Joi from 'joi';
+import { Permission } from '../types';
+
+const router = Router();
+
+/**
+ * GET /admin/users
+ * List users (newest first)
+ * Protected route - admin only
+ * 
+ * Query Parameters:
+ * - limit?: number (default: 20, max: 100)
+ * - offset?: number (default: 0)
+ * - search?: string (email, username or full name contains)
+ * - user_type?: 'merchant' | 'buyer' | 'admin'
+ * - is_active?: boolean
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Users retrieved successfully.'
+ *   data: {
+ *     users: UserResponse[]
+ *     total: number
+ *     limit: number
+ *     offset: number
+ *   }
+ * }
+ * 
+ * Errors: 403 FORBIDDEN
+ */
+router.get(
+  '/users',
+  verifyAuth,
+  requirePermission(Permission.USERS_MANAGE),
+  validateRequest(
+    Joi.object({
+      query: Joi.object({
+        limit: Joi.number().integer().min(1).max(100).default(20),
+        offset: Joi.number().integer().min(0).default(0),
+        search: Joi.string().trim().max(100),
+        user_type: Joi.string().valid('merchant', 'buyer', 'admin'),
+        is_active: Joi.boolean(),
+      }),
+    })
+  ),
+  listUsers
+);
+
+/**
+ * PATCH /admin/users/:userId
+ * Change a user's role or deactivate/reactivate the account
+ * Protected route - admin only
+ * 
+ * Request body (at least one field):
+ * {
+ *   user_type?: 'merchant' | 'buyer' | 'admin'
+ *   is_active?: boolean
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'User updated successfully.'
+ *   data: { ...UserResponse }
+ * }
+ * 
+ * All of the user's sessions are revoked so the change applies immediately.
+ * Errors: 403 FORBIDDEN (not admin, or own account), 404 USER_NOT_FOUND
+ */
+router.patch(
+  '/users/:userId',
+  verifyAuth,
+  requirePermission(Permission.USERS_MANAGE),
+  validateRequest(
+    Joi.object({
+      params: Joi.object({
+        userId: Joi.string().uuid().required(),
+      }),
+      body: Joi.object({
+        user_type: Joi.string().valid('merchant', 'buyer', 'admin'),
+        is_active: Joi.boolean(),
+      })
+        .min(1)
+        .required()
+        .messages({
+          'object.min': 'Provide user_type or is_active',
+        }),
+    })
+  ),
+  updateUser
+);
+
+export default router;
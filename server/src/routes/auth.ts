@@ -7,14 +7,52 @@
  * - POST /auth/verify-email
  * - POST /auth/resend-otp
  * - POST /auth/signin
+ * - POST /auth/2fa/verify
+ * - POST /auth/2fa/enroll
+ * - POST /auth/2fa/confirm
+ * - POST /auth/2fa/disable
+ * - GET /auth/siwe/nonce
+ * - POST /auth/siwe/verify
+ * - POST /auth/magic-link
+ * - POST /auth/magic-link/verify
+ * - GET /auth/oidc/providers
+ * - GET /auth/oidc/:provider/authorize
+ * - GET /auth/oidc/:provider/callback
+ * - POST /auth/forgot-password
+ * - POST /auth/reset-password
+ * - POST /auth/refresh
  * - POST /auth/logout
+ * - POST /auth/logout-all
  */
 
 import { Router } from 'express';
-import { register, verifyEmail, resendOtp, signin, logout } from '../controllers/authController';
+import {
+  register,
+  verifyEmail,
+  resendOtp,
+  signin,
+  twoFactorVerify,
+  twoFactorEnroll,
+  twoFactorConfirm,
+  twoFactorDisable,
+  siweNonce,
+  siweVerify,
+  magicLink,
+  magicLinkVerify,
+  oidcProviders,
+  oidcAuthorize,
+  oidcCallback,
+  forgotPassword,
+  resetPassword,
+  refresh,
+  logout,
+  logoutAll,
+} from '../controllers/authController';
 import { validateRequest } from '../middleware/validateRequest';
-import { registerLimiter, otpResendLimiter, authLimiter } from '../middleware/rateLimiter';
+import { registerLimiter, otpResendLimiter, magicLinkLimiter, authLimiter } from '../middleware/rateLimiter';
 import { verifyAuth } from '../middleware/verifyAuth';
+import { requirePermission, requireSession } from '../middleware/authorize';
+import { Permission } from '../types';
 import Joi from 'joi';
 
 const router = Router();
@@ -48,6 +86,34 @@ const router = Router();
 router.post(
   '/register',
   registerLimiter,
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        email: Joi.string()
+          .required()
+          .messages({
+            'any.required': 'Email is required',
+          }),
+        password: Joi.string()
+          .required()
+          .messages({
+            'any.required': 'Password is required',
+          }),
+        // Admin is never self-assigned
+        user_type: Joi.string()
+          .valid('merchant', 'buyer')
+          .required()
+          .messages({
+            'any.only': 'User type must be merchant or buyer',
+            'any.required': 'User type is required',
+          }),
+        full_name: Joi.string()
+          .trim()
+          .max(100)
+          .allow(''),
+      }).required(),
+    })
+  ),
   register
 );
 
@@ -135,6 +201,17 @@ router.post(
  * }
  * 
  * Sets auth_token cookie with JWT token
+ * 
+ * If the user has two-factor authentication enabled, no cookie is set and the response is:
+ * {
+ *   status: 'success'
+ *   message: 'Two-factor authentication required.'
+ *   data: {
+ *     two_factor_required: true
+ *     challenge_token: string (pass to POST /auth/2fa/verify)
+ *     expires_in: number (milliseconds)
+ *   }
+ * }
  */
 router.post(
   '/signin',
@@ -142,6 +219,463 @@ router.post(
   signin
 );
 
+/**
+ * Second factor: authenticator code or one-time recovery code (exactly one)
+ */
+const secondFactorSchema = {
+  code: Joi.string()
+    .pattern(/^\d{6}$/)
+    .messages({
+      'string.pattern.base': 'Authentication code must be 6 digits',
+    }),
+  recovery_code: Joi.string()
+    .trim()
+    .max(20),
+};
+
+/**
+ * POST /auth/2fa/verify
+ * Complete sign in for users with two-factor authentication enabled
+ * 
+ * Request body:
+ * {
+ *   challenge_token?: string (from POST /auth/signin; omit after OIDC sign in,
+ *     which sets a two_factor_challenge cookie instead)
+ *   code?: string (6-digit authenticator code)
+ *   recovery_code?: string (one-time recovery code, used instead of code)
+ * }
+ * 
+ * Response (200 OK): same as a successful POST /auth/signin
+ * 
+ * Sets auth_token and refresh_token cookies
+ * Errors: 401 INVALID_TWO_FACTOR_CODE, INVALID_TOKEN (challenge expired), ACCOUNT_LOCKED
+ */
+router.post(
+  '/2fa/verify',
+  authLimiter,
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        challenge_token: Joi.string(),
+        ...secondFactorSchema,
+      })
+        .xor('code', 'recovery_code')
+        .required(),
+    })
+  ),
+  twoFactorVerify
+);
+
+/**
+ * POST /auth/2fa/enroll
+ * Start two-factor enrollment (protected)
+ * 
+ * Request body: {} (empty)
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Scan the QR code with your authenticator app, then confirm with a code.'
+ *   data: {
+ *     secret: string (base32, for manual entry)
+ *     otpauth_uri: string (otpauth://totp/..., render as QR code)
+ *   }
+ * }
+ * 
+ * Two-factor authentication is not enforced until POST /auth/2fa/confirm succeeds
+ */
+router.post(
+  '/2fa/enroll',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  twoFactorEnroll
+);
+
+/**
+ * POST /auth/2fa/confirm
+ * Confirm enrollment with a code from the authenticator app (protected)
+ * 
+ * Request body:
+ * {
+ *   code: string (6-digit authenticator code)
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.'
+ *   data: {
+ *     recovery_codes: string[] (10 one-time codes, shown only once)
+ *   }
+ * }
+ */
+router.post(
+  '/2fa/confirm',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        code: secondFactorSchema.code.required().messages({
+          'any.required': 'Authentication code is required',
+        }),
+      }).required(),
+    })
+  ),
+  twoFactorConfirm
+);
+
+/**
+ * POST /auth/2fa/disable
+ * Turn off two-factor authentication (protected)
+ * 
+ * Request body:
+ * {
+ *   password: string (current password)
+ *   code?: string (6-digit authenticator code)
+ *   recovery_code?: string (used instead of code)
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Two-factor authentication disabled.'
+ * }
+ */
+router.post(
+  '/2fa/disable',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  authLimiter,
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        password: Joi.string()
+          .required()
+          .messages({
+            'any.required': 'Password is required',
+          }),
+        ...secondFactorSchema,
+      })
+        .xor('code', 'recovery_code')
+        .required(),
+    })
+  ),
+  twoFactorDisable
+);
+
+/**
+ * GET /auth/siwe/nonce
+ * Issue a single-use nonce for a Sign-In With Ethereum (EIP-4361) message
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Nonce issued.'
+ *   data: {
+ *     nonce: string
+ *     domain: string (must be used as the message domain)
+ *     expires_at: ISO string
+ *   }
+ * }
+ */
+router.get(
+  '/siwe/nonce',
+  authLimiter,
+  siweNonce
+);
+
+/**
+ * POST /auth/siwe/verify
+ * Sign in with a wallet linked to an existing account
+ * 
+ * Request body:
+ * {
+ *   message: string (EIP-4361 message containing the issued nonce, exactly as signed)
+ *   signature: string (0x-prefixed personal_sign signature)
+ * }
+ * 
+ * Response (200 OK): same as POST /auth/signin
+ * (two_factor_required + challenge_token when 2FA is enabled)
+ * 
+ * Errors: 400 INVALID_SIWE_MESSAGE, 401 INVALID_SIGNATURE / INVALID_NONCE,
+ *         404 WALLET_NOT_LINKED
+ */
+router.post(
+  '/siwe/verify',
+  authLimiter,
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        message: Joi.string()
+          .max(4096)
+          .required()
+          .messages({
+            'any.required': 'Message is required',
+          }),
+        signature: Joi.string()
+          .pattern(/^0x[0-9a-fA-F]{130}$/)
+          .required()
+          .messages({
+            'string.pattern.base': 'Signature must be a 65-byte hex string',
+            'any.required': 'Signature is required',
+          }),
+      }).required(),
+    })
+  ),
+  siweVerify
+);
+
+/**
+ * POST /auth/magic-link
+ * Email a single-use passwordless sign-in link
+ * 
+ * Request body:
+ * {
+ *   email: string (valid email)
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'If an account exists for this email, a sign-in link has been sent.'
+ *   data: {
+ *     email: string
+ *   }
+ * }
+ * 
+ * The link opens FRONTEND_URL/login?magic_token=... and expires after
+ * MAGIC_LINK_EXPIRATION_MINUTES. The response is identical for unknown,
+ * inactive and unverified emails to avoid account enumeration.
+ * Rate limited like OTP resends (3 per 5 minutes per IP).
+ */
+router.post(
+  '/magic-link',
+  magicLinkLimiter,
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        email: Joi.string()
+          .email()
+          .required()
+          .messages({
+            'string.email': 'Please provide a valid email address',
+            'any.required': 'Email is required',
+          }),
+      }).required(),
+    })
+  ),
+  magicLink
+);
+
+/**
+ * POST /auth/magic-link/verify
+ * Sign in with the token from a magic link
+ * 
+ * Request body:
+ * {
+ *   token: string (magic_token from the link)
+ * }
+ * 
+ * Response (200 OK): same as POST /auth/signin
+ * (two_factor_required + challenge_token when 2FA is enabled)
+ * 
+ * Account lock, is_active and email_verified are enforced as for password sign in.
+ * Errors: 401 INVALID_TOKEN (invalid, expired or used link) / ACCOUNT_LOCKED / ACCOUNT_INACTIVE,
+ *         403 EMAIL_NOT_VERIFIED
+ */
+router.post(
+  '/magic-link/verify',
+  authLimiter,
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        token: Joi.string()
+          .max(2048)
+          .required()
+          .messages({
+            'any.required': 'Token is required',
+          }),
+      }).required(),
+    })
+  ),
+  magicLinkVerify
+);
+
+/**
+ * GET /auth/oidc/providers
+ * List the OpenID Connect providers configured in OIDC_PROVIDERS
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Sign-in providers retrieved.'
+ *   data: {
+ *     providers: [{ id: string, name: string }]
+ *   }
+ * }
+ */
+router.get(
+  '/oidc/providers',
+  oidcProviders
+);
+
+/**
+ * GET /auth/oidc/:provider/authorize
+ * Start an authorization code + PKCE sign in with a provider
+ * 
+ * Response: 302 redirect to the provider's authorization endpoint
+ * Sets an oidc_state cookie (hash of the state) that the callback must present
+ * Errors: 404 OIDC_PROVIDER_NOT_FOUND, 502 OIDC_EXCHANGE_FAILED (discovery failed)
+ */
+router.get(
+  '/oidc/:provider/authorize',
+  authLimiter,
+  oidcAuthorize
+);
+
+/**
+ * GET /auth/oidc/:provider/callback
+ * Redirect URI registered with the provider
+ * 
+ * Query: code, state (or error when the user declined)
+ * 
+ * Response: 302 redirect to FRONTEND_URL/login with
+ *   ?oidc=success (auth cookies set),
+ *   ?oidc=2fa (two_factor_challenge cookie set; complete with
+ *     POST /auth/2fa/verify without challenge_token), or
+ *   ?oidc_error=<code> (INVALID_OIDC_STATE when the state is unknown, used,
+ *     expired or was not started in this browser)
+ * 
+ * An unknown identity is linked to the account with the same verified
+ * email, or a new verified account is created.
+ */
+router.get(
+  '/oidc/:provider/callback',
+  authLimiter,
+  oidcCallback
+);
+
+/**
+ * POST /auth/forgot-password
+ * Send a single-use password reset code to the user's email
+ * 
+ * Request body:
+ * {
+ *   email: string (valid email)
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'If an account exists for this email, a password reset code has been sent.'
+ *   data: {
+ *     email: string
+ *   }
+ * }
+ * 
+ * The response is identical for unknown emails to avoid account enumeration
+ */
+router.post(
+  '/forgot-password',
+  otpResendLimiter,
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        email: Joi.string()
+          .email()
+          .required()
+          .messages({
+            'string.email': 'Please provide a valid email address',
+            'any.required': 'Email is required',
+          }),
+      }).required(),
+    })
+  ),
+  forgotPassword
+);
+
+/**
+ * POST /auth/reset-password
+ * Set a new password using the emailed reset code
+ * 
+ * Request body:
+ * {
+ *   email: string (valid email)
+ *   otp: string (6-digit reset code)
+ *   new_password: string (8+ chars, 1 uppercase, 1 lowercase, 1 number, 1 special char)
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Password has been reset. Please sign in with your new password.'
+ *   data: {
+ *     email: string
+ *   }
+ * }
+ * 
+ * The code is consumed on success. Failed login attempts and account lock are
+ * cleared, all existing sessions are revoked and auth cookies are cleared
+ */
+router.post(
+  '/reset-password',
+  authLimiter,
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        email: Joi.string()
+          .email()
+          .required()
+          .messages({
+            'string.email': 'Please provide a valid email address',
+            'any.required': 'Email is required',
+          }),
+        otp: Joi.string()
+          .pattern(/^\d{6}$/)
+          .required()
+          .messages({
+            'string.pattern.base': 'Reset code must be 6 digits',
+            'any.required': 'Reset code is required',
+          }),
+        new_password: Joi.string()
+          .required()
+          .messages({
+            'any.required': 'New password is required',
+          }),
+      }).required(),
+    })
+  ),
+  resetPassword
+);
+
+/**
+ * POST /auth/refresh
+ * Exchange the refresh_token cookie for a new access token
+ * The refresh token is rotated on every call; reusing a rotated token
+ * revokes the whole token family
+ * 
+ * Request body: {} (empty)
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Session refreshed.'
+ *   data: {
+ *     user_id: UUID
+ *     email: string
+ *     expires_in: number (access token lifetime in ms)
+ *   }
+ * }
+ * 
+ * Sets new auth_token and refresh_token cookies
+ */
+router.post(
+  '/refresh',
+  authLimiter,
+  refresh
+);
+
 /**
  * POST /auth/logout
  * Log out user and clear authentication session
@@ -154,12 +688,34 @@ router.post(
  *   message: 'Logout successful.'
  * }
  * 
- * Clears auth_token cookie
+ * Revokes the access token and refresh token family, clears auth_token and refresh_token cookies
  */
 router.post(
   '/logout',
   verifyAuth,
+  requireSession,
   logout
 );
 
+/**
+ * POST /auth/logout-all
+ * Sign out everywhere - revoke every token issued to the user
+ * 
+ * Request body: {} (empty)
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Signed out of all sessions.'
+ * }
+ * 
+ * Clears auth_token and refresh_token cookies
+ */
+router.post(
+  '/logout-all',
+  verifyAuth,
+  requireSession,
+  logoutAll
+);
+
 export default router;
@@ -0,0 +1,237 @@
+/**
+ * Billing Routes
+ * Plans, subscriptions, invoices and payment provider webhooks
+ *
+ * Endpoints implemented:
+ * - GET /billing/plans
+ * - GET /billing/subscription (protected)
+ * - POST /billing/checkout (protected)
+ * - POST /billing/subscription/cancel (protected)
+ * - GET /billing/invoices (protected)
+ * - POST /billing/webhook (Stripe-Signature)
+ * - GET /billing/fake/checkout/:sessionId (protected; BILLING_PROVIDER=fake, not in production)
+ */
+
+import { Router } from 'express';
+import {
+  getPlans,
+  getSubscription,
+  createCheckout,
+  cancelSubscription,
+  getInvoices,
+  handleWebhook,
+  completeFakeCheckout,
+} from '../controllers/billingController';
+import { verifyAuth } from '../middleware/verifyAuth';
+import { requirePermission } from '../middleware/authorize';
+import { validateRequest } from '../middleware/validateRequest';
+import Joi from 'joi';
+import { Permission } from '../types';
+import config from '../config/env';
+
+const router = Router();
+
+/**
+ * GET /billing/plans
+ * List plans with their monthly price, token limit, credits and quotas
+ * Public route
+ *
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Plans retrieved successfully.'
+ *   data: [{
+ *     plan: 'free' | 'pro' | 'merchant'
+ *     name: string
+ *     price: { amount: number, currency: string, interval: 'month' } - amount in cents
+ *     token_limit: number - chat tokens per usage period
+ *     usage_reset_period: 'daily' | 'monthly'
+ *     credits: number - image credits granted at the start of each paid period
+ *     quotas: {
+ *       chat: { requests_per_minute: number, generations_per_day: number }
+ *       image: { requests_per_minute: number, generations_per_day: number }
+ *     }
+ *   }]
+ * }
+ */
+router.get('/plans', getPlans);
+
+/**
+ * GET /billing/subscription
+ * Get the current user's plan and active subscription
+ * Protected route - requires valid auth_token cookie
+ *
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Subscription retrieved successfully.'
+ *   data: {
+ *     plan: 'free' | 'pro' | 'merchant'
+ *     subscription: {
+ *       subscription_id: UUID
+ *       provider: 'stripe' | 'fake'
+ *       provider_subscription_id: string
+ *       plan: 'pro' | 'merchant'
+ *       status: 'active' | 'trialing' | 'past_due'
+ *       current_period_start: ISO timestamp
+ *       current_period_end: ISO timestamp
+ *       cancel_at_period_end: boolean
+ *       canceled_at: ISO timestamp | null
+ *       created_at: ISO timestamp
+ *       updated_at: ISO timestamp
+ *     } | null
+ *   }
+ * }
+ */
+router.get(
+  '/subscription',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  getSubscription
+);
+
+/**
+ * POST /billing/checkout
+ * Start a checkout for a paid plan; redirect the user to checkout_url to pay
+ * The plan changes once the payment provider confirms the subscription
+ * (webhook), not when this returns
+ * Protected route - requires valid auth_token cookie
+ *
+ * Request Body:
+ * {
+ *   plan: 'pro' | 'merchant'
+ * }
+ *
+ * Response (201 Created):
+ * {
+ *   status: 'success'
+ *   message: 'Checkout started.'
+ *   data: {
+ *     session_id: string
+ *     checkout_url: string
+ *   }
+ * }
+ *
+ * Errors: 409 ALREADY_SUBSCRIBED if a subscription is active (cancel it first)
+ */
+router.post(
+  '/checkout',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        plan: Joi.string().valid('pro', 'merchant').required(),
+      }),
+    })
+  ),
+  createCheckout
+);
+
+/**
+ * POST /billing/subscription/cancel
+ * Cancel the active subscription at the end of the paid period
+ * The plan stays until then
+ * Protected route - requires valid auth_token cookie
+ *
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Subscription will be canceled at the end of the current period.'
+ *   data: Subscription (cancel_at_period_end: true)
+ * }
+ *
+ * Errors: 404 SUBSCRIPTION_NOT_FOUND if no subscription is active
+ */
+router.post(
+  '/subscription/cancel',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  cancelSubscription
+);
+
+/**
+ * GET /billing/invoices
+ * List the current user's invoices, newest first
+ * Protected route - requires valid auth_token cookie
+ *
+ * Query Parameters:
+ * - limit?: number (default: 20, max: 100)
+ * - offset?: number (default: 0)
+ *
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Invoices retrieved successfully.'
+ *   data: {
+ *     invoices: [{
+ *       invoice_id: UUID
+ *       provider_invoice_id: string
+ *       provider_subscription_id: string | null
+ *       number: string | null
+ *       status: 'draft' | 'open' | 'paid' | 'void' | 'uncollectible'
+ *       amount_due: number - in cents
+ *       amount_paid: number - in cents
+ *       currency: string
+ *       hosted_invoice_url: string | null
+ *       period_start: ISO timestamp | null
+ *       period_end: ISO timestamp | null
+ *       paid_at: ISO timestamp | null
+ *       created_at: ISO timestamp
+ *     }]
+ *     total: number
+ *     limit: number
+ *     offset: number
+ *   }
+ * }
+ */
+router.get(
+  '/invoices',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  validateRequest(
+    Joi.object({
+      query: Joi.object({
+        limit: Joi.number().integer().min(1).max(100).default(20),
+        offset: Joi.number().integer().min(0).default(0),
+      }),
+    })
+  ),
+  getInvoices
+);
+
+/**
+ * POST /billing/webhook
+ * Receive payment provider events (Stripe event format)
+ * Authenticated by the Stripe-Signature header (BILLING_WEBHOOK_SECRET);
+ * the body is parsed raw (see index.ts) so the signature can be checked
+ *
+ * Handled events:
+ * - customer.subscription.created / updated / deleted
+ * - invoice.finalized / paid / payment_failed
+ *
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Event received.'
+ *   data: { id: string, type: string }
+ * }
+ *
+ * Errors: 400 INVALID_WEBHOOK_SIGNATURE; 500 makes the provider retry
+ */
+router.post('/webhook', handleWebhook);
+
+/**
+ * GET /billing/fake/checkout/:sessionId
+ * Checkout page of the fake payment provider: completes the checkout as if
+ * paid and redirects to the frontend. 404 unless BILLING_PROVIDER=fake and
+ * the session was started by the signed-in user
+ * Not mounted in production
+ *
+ * Response: 302 to FRONTEND_URL/profile?billing=success
+ */
+if (config.nodeEnv !== 'production') {
+  router.get('/fake/checkout/:sessionId', verifyAuth, completeFakeCheckout);
+}
+
+export default router;
@@ -1,12 +1,19 @@
 /**
  * Chat Routes
  * All chat-related endpoints with SSE streaming support
+ * Mounted behind verifyAuth; every route requires Permission.CHAT_USE
+ * and counts against the user's 'chat' plan quota (sending a message is a generation)
  *
  * Endpoints:
  * - GET /chat - List user's chats
  * - POST /chat - Create new chat
+ * - GET /chat/search - Search chat titles and messages
  * - GET /chat/:chatId - Get chat history
  * - POST /chat/:chatId/message - Send message with SSE streaming
+ * - PUT /chat/:chatId/messages/:messageId - Edit message and re-stream the reply
+ * - POST /chat/:chatId/regenerate - Regenerate the last reply with SSE streaming
+ * - POST /chat/:chatId/branch - Switch to another version of the conversation
+ * - PATCH /chat/:chatId - Rename, pin or archive chat
  * - DELETE /chat/:chatId - Delete chat
  */
 
@@ -14,24 +21,33 @@ import { Router } from 'express';
 import {
   listChats,
   createNewChat,
+  searchChatsHandler,
   getChatHistory,
   sendMessage,
+  editMessage,
+  regenerateResponse,
+  switchBranchHandler,
+  updateChatHandler,
   deleteChatHandler,
 } from '../controllers/chatController';
+import { requirePermission } from '../middleware/authorize';
+import { enforceQuota } from '../middleware/rateLimiter';
+import { Permission } from '../types';
 
 const router = Router();
 
 /**
  * GET /chat
- * List all active chats for the authenticated user
+ * List all active chats for the authenticated user, pinned chats first
  *
  * Query Parameters:
  * - limit?: number (default: 20, max: 100)
  * - offset?: number (default: 0)
+ * - archived?: boolean (default: false) - list only archived chats
  *
  * Example: GET /api/chat?limit=10&offset=0
  */
-router.get('/', listChats);
+router.get('/', requirePermission(Permission.CHAT_USE), enforceQuota('chat'), listChats);
 
 /**
  * POST /chat
@@ -48,9 +64,52 @@ router.get('/', listChats);
  */
 router.post(
   '/',
+  requirePermission(Permission.CHAT_USE),
+  enforceQuota('chat'),
   createNewChat
 );
 
+/**
+ * GET /chat/search
+ * Full-text search over the user's chat titles and messages (active branch
+ * only), ranked best first with highlighted snippets
+ * Declared before /:chatId so "search" is not taken for a chat ID
+ *
+ * Query Parameters:
+ * - q: string (required, 1-200 characters) - words, "quoted phrase", or, -excluded
+ * - limit?: number (default: 20, max: 50)
+ * - offset?: number (default: 0)
+ *
+ * Response:
+ * {
+ *   status: 'success'
+ *   message: 'Search completed successfully'
+ *   data: {
+ *     query: string
+ *     results: [{
+ *       chat_id: UUID
+ *       chat_title: string
+ *       is_archived: boolean
+ *       message_id: UUID | null - null for a title match
+ *       role: 'user' | 'assistant' | null
+ *       snippet: string - matches wrapped in <mark></mark>; render as text
+ *       rank: number
+ *       created_at: ISO timestamp
+ *     }]
+ *     limit: number
+ *     offset: number
+ *   }
+ * }
+ *
+ * Example: GET /api/chat/search?q=neon%20fox
+ */
+router.get(
+  '/search',
+  requirePermission(Permission.CHAT_USE),
+  enforceQuota('chat'),
+  searchChatsHandler
+);
+
 /**
  * GET /chat/:chatId
  * Get chat history - all messages for a specific chat
@@ -62,10 +121,16 @@ router.post(
  * - limit?: number (default: 50, max: 100)
  * - offset?: number (default: 0)
  *
+ * Returns the active branch of the conversation. Each message has
+ * parent_message_id, and sibling_ids / sibling_count listing the versions
+ * at its point of the conversation (edits and regenerated replies)
+ *
  * Example: GET /api/chat/{chatId}?limit=50&offset=0
  */
 router.get(
   '/:chatId',
+  requirePermission(Permission.CHAT_USE),
+  enforceQuota('chat'),
   getChatHistory
 );
 
@@ -84,7 +149,8 @@ router.get(
  * Response:
  * - Content-Type: text/event-stream
  * - Streams chunks of the AI response as they arrive
- * - Final event contains tokens_used and message_id
+ * - Final event contains tokens_used, message_id (the reply) and
+ *   user_message_id (the message it answers)
  *
  * Example:
  * POST /api/chat/{chatId}/message
@@ -93,13 +159,131 @@ router.get(
  * Response (streaming):
  * data: I'd love to help you create an NFT concept!
  * data: Let's start by exploring your artistic style...
- * data: {"done": true, "tokens_used": 245, "message_id": "uuid"}
+ * data: {"done": true, "tokens_used": 245, "message_id": "uuid", "user_message_id": "uuid"}
+ * event: title
+ * data: {"title": "Digital Painter NFT Concept"}
+ *
+ * The title event follows the first exchange of a chat still named "New Chat"
  */
 router.post(
   '/:chatId/message',
+  requirePermission(Permission.CHAT_USE),
+  enforceQuota('chat', { generation: true }),
   sendMessage
 );
 
+/**
+ * PUT /chat/:chatId/messages/:messageId
+ * Edit a user message and stream a new reply over SSE
+ * The edit is saved as a new version (sibling) of the message; the original
+ * and the messages after it move off the active branch
+ *
+ * URL Parameters:
+ * - chatId: UUID (required)
+ * - messageId: UUID (required) - a text message sent by the user
+ *
+ * Request body:
+ * {
+ *   message: string (required, 1-5000 characters)
+ * }
+ *
+ * Response: same event stream as POST /chat/:chatId/message
+ *
+ * Example:
+ * PUT /api/chat/{chatId}/messages/{messageId}
+ * { "message": "Help me create an NFT concept for a sculptor instead" }
+ */
+router.put(
+  '/:chatId/messages/:messageId',
+  requirePermission(Permission.CHAT_USE),
+  enforceQuota('chat', { generation: true }),
+  editMessage
+);
+
+/**
+ * POST /chat/:chatId/regenerate
+ * Replace the last assistant reply with a new one streamed over SSE
+ *
+ * URL Parameters:
+ * - chatId: UUID (required)
+ *
+ * Response: same event stream as POST /chat/:chatId/message
+ * The done event's message_id is the new reply
+ *
+ * Errors: 400 NOTHING_TO_REGENERATE if the chat has no text reply to replace
+ *
+ * Example:
+ * POST /api/chat/{chatId}/regenerate
+ */
+router.post(
+  '/:chatId/regenerate',
+  requirePermission(Permission.CHAT_USE),
+  enforceQuota('chat', { generation: true }),
+  regenerateResponse
+);
+
+/**
+ * POST /chat/:chatId/branch
+ * Switch to another version of the conversation: the branch through the
+ * given message, following below it the version last shown at each fork
+ *
+ * URL Parameters:
+ * - chatId: UUID (required)
+ *
+ * Request body:
+ * {
+ *   message_id: UUID (required) - e.g. an entry of a message's sibling_ids
+ * }
+ *
+ * Query Parameters:
+ * - limit?: number (default: 50, max: 100)
+ * - offset?: number (default: 0)
+ *
+ * Response: same as GET /chat/:chatId, for the new active branch
+ *
+ * Example:
+ * POST /api/chat/{chatId}/branch
+ * { "message_id": "uuid" }
+ */
+router.post(
+  '/:chatId/branch',
+  requirePermission(Permission.CHAT_USE),
+  enforceQuota('chat'),
+  switchBranchHandler
+);
+
+/**
+ * PATCH /chat/:chatId
+ * Rename, pin or archive a chat
+ *
+ * URL Parameters:
+ * - chatId: UUID (required)
+ *
+ * Request body (at least one field):
+ * {
+ *   title?: string (1-255 characters)
+ *   is_pinned?: boolean
+ *   is_archived?: boolean (archiving also unpins)
+ * }
+ *
+ * Response:
+ * {
+ *   status: 'success'
+ *   message: 'Chat updated successfully'
+ *   data: Chat
+ * }
+ *
+ * Example:
+ * PATCH /api/chat/{chatId}
+ * { "is_pinned": true }
+ */
+router.patch(
+  '/:chatId',
+  requirePermission(Permission.CHAT_USE),
+  enforceQuota('chat'),
+  updateChatHandler
+);
+
 /**
  * DELETE /chat/:chatId
  * Delete (soft delete) a chat session
@@ -123,6 +307,8 @@ router.post(
  */
 router.delete(
   '/:chatId',
+  requirePermission(Permission.CHAT_USE),
+  enforceQuota('chat'),
   deleteChatHandler
 );
 
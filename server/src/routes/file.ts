@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { verifyAuth } from '../middleware/verifyAuth';
+import { requirePermission } from '../middleware/authorize';
 import { uploadFile, getUserFilesList, deleteFile } from '../controllers/fileController';
 import config from '../config/env';
+import { Permission } from '../types';
 
 const router = Router();
 
@@ -28,7 +30,7 @@ const upload = multer({
  * Requires: multipart/form-data with 'file' and 'category' fields
  * Protected: Yes (requires authentication)
  */
-router.post('/upload', verifyAuth, upload.single('file'), uploadFile);
+router.post('/upload', verifyAuth, requirePermission(Permission.FILE_MANAGE), upload.single('file'), uploadFile);
 
 /**
  * GET /file/list
@@ -36,13 +38,13 @@ router.post('/upload', verifyAuth, upload.single('file'), uploadFile);
  * Query params: category (optional)
  * Protected: Yes (requires authentication)
  */
-router.get('/list', verifyAuth, getUserFilesList);
+router.get('/list', verifyAuth, requirePermission(Permission.FILE_MANAGE), getUserFilesList);
 
 /**
  * DELETE /file/:fileId
  * Soft delete a file (mark as deleted)
  * Protected: Yes (requires authentication and ownership)
  */
-router.delete('/:fileId', verifyAuth, deleteFile);
+router.delete('/:fileId', verifyAuth, requirePermission(Permission.FILE_MANAGE), deleteFile);
 
 export default router;
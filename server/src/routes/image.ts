@@ -1,6 +1,8 @@
 /**
  * Image Generation Routes
  * Endpoints for AI-powered image generation
+ * Mounted behind verifyAuth; every route requires Permission.IMAGE_GENERATE
+ * and counts against the user's 'image' plan quota (generating an image is a generation)
  * 
  * Endpoints:
  * - POST /gen-image - Generate image from prompt
@@ -16,6 +18,9 @@ import {
   getUserGeneratedImages,
   getUserImageHistory,
 } from '../controllers/imageController';
+import { requirePermission } from '../middleware/authorize';
+import { enforceQuota } from '../middleware/rateLimiter';
+import { Permission } from '../types';
 
 const router = Router();
 
@@ -36,7 +41,7 @@ const router = Router();
  *   "prompt": "A futuristic cyberpunk cityscape at night with neon lights"
  * }
  */
-router.post('/', generateImage);
+router.post('/', requirePermission(Permission.IMAGE_GENERATE), enforceQuota('image', { generation: true }), generateImage);
 
 /**
  * GET /api/gen-image/chat/:chatId
@@ -47,7 +52,7 @@ router.post('/', generateImage);
  * 
  * Example: GET /api/gen-image/chat/550e8400-e29b-41d4-a716-446655440000?limit=20
  */
-router.get('/chat/:chatId', getImagesFromChat);
+router.get('/chat/:chatId', requirePermission(Permission.IMAGE_GENERATE), enforceQuota('image'), getImagesFromChat);
 
 /**
  * GET /api/gen-image/user/history
@@ -69,7 +74,7 @@ router.get('/chat/:chatId', getImagesFromChat);
  *   totalImages: 10
  * }
  */
-router.get('/user/history', getUserImageHistory);
+router.get('/user/history', requirePermission(Permission.IMAGE_GENERATE), enforceQuota('image'), getUserImageHistory);
 
 /**
  * GET /api/gen-image/user
@@ -80,6 +85,6 @@ router.get('/user/history', getUserImageHistory);
  * 
  * Example: GET /api/gen-image/user?limit=50
  */
-router.get('/user', getUserGeneratedImages);
+router.get('/user', requirePermission(Permission.IMAGE_GENERATE), enforceQuota('image'), getUserGeneratedImages);
 
 export default router;
@@ -8,3 +8,5 @@ export { default as userRoutes } from './user';
 export { default as fileRoutes } from './file';
 export { default as chatRoutes } from './chat';
 export { default as imageRoutes } from './image';
+export { default as adminRoutes } from './admin';
+export { default as billingRoutes } from './billing';
@@ -4,16 +4,56 @@
  * 
  * Endpoints implemented:
  * - GET /user/profile (protected)
- * 
- * Endpoints to implement:
  * - PUT /user/profile (protected)
  * - PUT /user/change-password (protected)
+ * - POST /user/email-change (protected)
+ * - POST /user/email-change/confirm (protected)
  * - GET /user/activity-log (protected)
+ * - GET /user/usage (protected)
+ * - GET /user/credits (protected)
+ * - GET /user/wallets (protected)
+ * - POST /user/wallets (protected)
+ * - PUT /user/wallets/:address/primary (protected)
+ * - DELETE /user/wallets/:address (protected)
+ * - GET /user/sessions (protected)
+ * - DELETE /user/sessions/:sessionId (protected)
+ * - DELETE /user/sessions (protected)
+ * - GET /user/api-keys (protected)
+ * - POST /user/api-keys (protected)
+ * - DELETE /user/api-keys/:keyId (protected)
+ * - POST /user/export (protected)
+ * - DELETE /user/account (protected)
  */
 
 import { Router } from 'express';
-import { getProfile } from '../controllers/userController';
+import {
+  getProfile,
+  updateProfile,
+  changePassword,
+  requestEmailChange,
+  confirmEmailChange,
+  getActivityLog,
+  getUsage,
+  getCredits,
+  getWallets,
+  linkWallet,
+  setPrimaryWallet,
+  unlinkWallet,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  getApiKeys,
+  createApiKey,
+  deleteApiKey,
+  exportData,
+  deleteAccount,
+} from '../controllers/userController';
 import { verifyAuth } from '../middleware/verifyAuth';
+import { requirePermission } from '../middleware/authorize';
+import { authLimiter } from '../middleware/rateLimiter';
+import { validateRequest } from '../middleware/validateRequest';
+import Joi from 'joi';
+import { ActivityAction, ApiKeyScope, Permission } from '../types';
 
 const router = Router();
 
@@ -42,6 +82,703 @@ const router = Router();
  *   }
  * }
  */
-router.get('/profile', verifyAuth, getProfile);
+router.get('/profile', verifyAuth, requirePermission(Permission.ACCOUNT_MANAGE), getProfile);
+
+/**
+ * PUT /user/profile
+ * Update current user's profile (only provided fields are changed)
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Request body (at least one field):
+ * {
+ *   username?: string (3-30 chars, letters, numbers, underscore, hyphen; unique)
+ *   full_name?: string (max 100 chars)
+ *   bio?: string (max 500 chars)
+ *   profile_picture_url?: string (valid URL)
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Profile updated successfully.'
+ *   data: { ...same shape as GET /user/profile }
+ * }
+ * 
+ * Errors: 400 VALIDATION_ERROR, 409 USERNAME_TAKEN
+ */
+router.put(
+  '/profile',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        username: Joi.string()
+          .min(3)
+          .max(30)
+          .pattern(/^[a-zA-Z0-9_-]+$/)
+          .messages({
+            'string.min': 'Username must be 3-30 characters',
+            'string.max': 'Username must be 3-30 characters',
+            'string.pattern.base': 'Username may only contain letters, numbers, underscores and hyphens',
+          }),
+        full_name: Joi.string()
+          .trim()
+          .max(100)
+          .allow(''),
+        bio: Joi.string()
+          .max(500)
+          .allow(''),
+        profile_picture_url: Joi.string()
+          .uri()
+          .allow(null)
+          .messages({
+            'string.uri': 'Profile picture must be a valid URL',
+          }),
+      })
+        .min(1)
+        .required()
+        .messages({
+          'object.min': 'Provide at least one field to update',
+        }),
+    })
+  ),
+  updateProfile
+);
+
+/**
+ * PUT /user/change-password
+ * Change current user's password
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Request body:
+ * {
+ *   current_password: string
+ *   new_password: string (8+ chars, 1 uppercase, 1 lowercase, 1 number, 1 special char)
+ *   confirm_password: string (must equal new_password)
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Password changed successfully. Please sign in again.'
+ *   data: {
+ *     user_id: UUID
+ *     email: string
+ *   }
+ * }
+ * 
+ * Revokes all access and refresh tokens and clears auth cookies
+ * Errors: 400 VALIDATION_ERROR / PASSWORD_MISMATCH, 401 INCORRECT_PASSWORD
+ */
+router.put(
+  '/change-password',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        current_password: Joi.string()
+          .required()
+          .messages({
+            'any.required': 'Current password is required',
+          }),
+        new_password: Joi.string()
+          .required()
+          .messages({
+            'any.required': 'New password is required',
+          }),
+        confirm_password: Joi.string()
+          .required()
+          .messages({
+            'any.required': 'Confirm password is required',
+          }),
+      }).required(),
+    })
+  ),
+  changePassword
+);
+
+/**
+ * POST /user/email-change
+ * Request a change of the account email
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Request body:
+ * {
+ *   new_email: string (valid email, not registered)
+ *   password: string (re-confirmation)
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Confirmation code sent to your new email address.'
+ *   data: {
+ *     pending_email: string
+ *   }
+ * }
+ * 
+ * A 6-digit code is sent to new_email and a notice to the current email.
+ * Errors: 401 INCORRECT_PASSWORD, 409 EMAIL_EXISTS, 500 EMAIL_SEND_FAILED
+ */
+router.post(
+  '/email-change',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  authLimiter,
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        new_email: Joi.string()
+          .email()
+          .required()
+          .messages({
+            'string.email': 'Please provide a valid email address',
+            'any.required': 'New email is required',
+          }),
+        password: Joi.string()
+          .required()
+          .messages({
+            'any.required': 'Password is required',
+          }),
+      }).required(),
+    })
+  ),
+  requestEmailChange
+);
+
+/**
+ * POST /user/email-change/confirm
+ * Confirm the email change with the code sent to the new address
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Request body:
+ * {
+ *   otp: string (6 digits)
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Email changed successfully.'
+ *   data: {
+ *     email: string
+ *     expiresIn: number (ms)
+ *   }
+ * }
+ * 
+ * Sets a new auth_token cookie (the JWT carries the email); the old access token is revoked.
+ * Errors: 400 INVALID_OTP / OTP_EXPIRED / EMAIL_CHANGE_NOT_REQUESTED, 409 EMAIL_EXISTS
+ */
+router.post(
+  '/email-change/confirm',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  authLimiter,
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        otp: Joi.string()
+          .pattern(/^\d{6}$/)
+          .required()
+          .messages({
+            'string.pattern.base': 'Confirmation code must be 6 digits',
+            'any.required': 'Confirmation code is required',
+          }),
+      }).required(),
+    })
+  ),
+  confirmEmailChange
+);
+
+/**
+ * GET /user/activity-log
+ * Get current user's security activity (sign-ins, password changes, uploads, ...)
+ * Most recent first
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Query Parameters:
+ * - limit?: number (default: 20, max: 100)
+ * - offset?: number (default: 0)
+ * - action?: ActivityAction, repeatable (e.g. ?action=SIGNIN&action=SIGNIN_FAILED)
+ * - from?: ISO date (inclusive)
+ * - to?: ISO date (inclusive)
+ * 
+ * Example: GET /api/user/activity-log?action=SIGNIN_FAILED&from=2025-01-01&limit=10
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Activity log retrieved successfully.'
+ *   data: {
+ *     activities: ActivityLog[]
+ *     total: number
+ *     limit: number
+ *     offset: number
+ *   }
+ * }
+ */
+router.get(
+  '/activity-log',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  validateRequest(
+    Joi.object({
+      query: Joi.object({
+        limit: Joi.number().integer().min(1).max(100).default(20),
+        offset: Joi.number().integer().min(0).default(0),
+        action: Joi.array()
+          .items(Joi.string().valid(...Object.values(ActivityAction)))
+          .single(),
+        from: Joi.date().iso(),
+        to: Joi.date().iso().when('from', {
+          is: Joi.exist(),
+          then: Joi.date().min(Joi.ref('from')),
+        }),
+      }),
+    })
+  ),
+  getActivityLog
+);
+
+/**
+ * GET /user/usage
+ * Get the current user's token usage: totals for the current period and a
+ * per-day breakdown (UTC days, oldest first, days without usage included)
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Query Parameters:
+ * - days?: number (default: 30, max: 90) - length of the daily breakdown
+ * 
+ * Example: GET /api/user/usage?days=7
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Usage retrieved successfully.'
+ *   data: {
+ *     plan: 'free' | 'pro' | 'merchant'
+ *     current_period: {
+ *       reset_period: 'daily' | 'monthly'
+ *       started_at: ISO timestamp
+ *       resets_at: ISO timestamp
+ *       tokens_used: number
+ *       token_limit: number
+ *       tokens_remaining: number
+ *       exchanges: number
+ *     }
+ *     daily: [{ date: 'YYYY-MM-DD', tokens: number, exchanges: number }]
+ *   }
+ * }
+ */
+router.get(
+  '/usage',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  validateRequest(
+    Joi.object({
+      query: Joi.object({
+        days: Joi.number().integer().min(1).max(90).default(30),
+      }),
+    })
+  ),
+  getUsage
+);
+
+/**
+ * GET /user/credits
+ * Get the current user's image generation credits: balance, today's
+ * generations against the plan's daily limit, and the 20 latest ledger entries
+ * The credit account is opened with the plan's grant on first use
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Credits retrieved successfully.'
+ *   data: {
+ *     plan: 'free' | 'pro' | 'merchant'
+ *     balance: number
+ *     image_generation_cost: number
+ *     daily_generations: { used: number, limit: number, resets_at: ISO timestamp }
+ *     entries: [{
+ *       entry_id, seq, entry_type: 'grant' | 'debit' | 'refund',
+ *       amount, balance_after, reason, reference_id, created_at
+ *     }]
+ *   }
+ * }
+ */
+router.get('/credits', verifyAuth, requirePermission(Permission.ACCOUNT_MANAGE), getCredits);
+
+const walletAddressParams = Joi.object({
+  address: Joi.string()
+    .pattern(/^0x[0-9a-fA-F]{40}$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Wallet address must be a 0x-prefixed 20-byte hex string',
+    }),
+});
+
+/**
+ * GET /user/wallets
+ * List wallets linked to the current user (primary first)
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Wallets retrieved successfully.'
+ *   data: {
+ *     wallets: [{
+ *       wallet_id: UUID
+ *       address: string (EIP-55 checksummed)
+ *       chain_id: number
+ *       is_primary: boolean
+ *       created_at: ISO timestamp
+ *       last_used_at: ISO timestamp | null
+ *     }]
+ *   }
+ * }
+ */
+router.get('/wallets', verifyAuth, requirePermission(Permission.ACCOUNT_MANAGE), getWallets);
+
+/**
+ * POST /user/wallets
+ * Link a wallet by signing a Sign-In With Ethereum (EIP-4361) message
+ * Get the nonce from GET /auth/siwe/nonce first
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Request body:
+ * {
+ *   message: string (EIP-4361 message, exactly as signed)
+ *   signature: string (0x-prefixed personal_sign signature)
+ * }
+ * 
+ * Response (201 Created):
+ * {
+ *   status: 'success'
+ *   message: 'Wallet linked successfully.'
+ *   data: { ...wallet }
+ * }
+ * 
+ * The first linked wallet becomes primary. The primary wallet is carried in
+ * the JWT (wallet_address) from the next token refresh.
+ * Errors: 400 INVALID_SIWE_MESSAGE, 401 INVALID_SIGNATURE / INVALID_NONCE,
+ *         409 WALLET_ALREADY_LINKED
+ */
+router.post(
+  '/wallets',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  authLimiter,
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        message: Joi.string()
+          .max(4096)
+          .required()
+          .messages({
+            'any.required': 'Message is required',
+          }),
+        signature: Joi.string()
+          .pattern(/^0x[0-9a-fA-F]{130}$/)
+          .required()
+          .messages({
+            'string.pattern.base': 'Signature must be a 65-byte hex string',
+            'any.required': 'Signature is required',
+          }),
+      }).required(),
+    })
+  ),
+  linkWallet
+);
+
+/**
+ * PUT /user/wallets/:address/primary
+ * Make a linked wallet the primary wallet
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Primary wallet updated.'
+ *   data: { ...wallet }
+ * }
+ * 
+ * Errors: 404 WALLET_NOT_FOUND
+ */
+router.put(
+  '/wallets/:address/primary',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  validateRequest(Joi.object({ params: walletAddressParams })),
+  setPrimaryWallet
+);
+
+/**
+ * DELETE /user/wallets/:address
+ * Unlink a wallet; if it was primary, the oldest remaining wallet becomes primary
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Wallet unlinked successfully.'
+ * }
+ * 
+ * Errors: 404 WALLET_NOT_FOUND
+ */
+router.delete(
+  '/wallets/:address',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  validateRequest(Joi.object({ params: walletAddressParams })),
+  unlinkWallet
+);
+
+/**
+ * GET /user/sessions
+ * List the current user's active sessions (signed-in devices)
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Sessions retrieved successfully.'
+ *   data: {
+ *     sessions: [{
+ *       session_id: UUID
+ *       device: string | null (e.g. "Chrome on macOS")
+ *       user_agent: string | null
+ *       ip_address: string | null
+ *       created_at: ISO timestamp
+ *       last_seen_at: ISO timestamp (updated on sign in and token refresh)
+ *       expires_at: ISO timestamp
+ *       is_current: boolean
+ *     }]
+ *   }
+ * }
+ */
+router.get('/sessions', verifyAuth, requirePermission(Permission.ACCOUNT_MANAGE), getSessions);
+
+/**
+ * DELETE /user/sessions/:sessionId
+ * Sign out one device: revokes its refresh tokens and rejects its access tokens
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Session revoked.'
+ * }
+ * 
+ * Errors: 404 SESSION_NOT_FOUND
+ */
+router.delete(
+  '/sessions/:sessionId',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  validateRequest(
+    Joi.object({
+      params: Joi.object({
+        sessionId: Joi.string().uuid().required(),
+      }),
+    })
+  ),
+  revokeSession
+);
+
+/**
+ * DELETE /user/sessions
+ * Sign out all other devices (the current session stays signed in)
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Signed out of all other devices.'
+ *   data: {
+ *     revoked: number
+ *   }
+ * }
+ */
+router.delete('/sessions', verifyAuth, requirePermission(Permission.ACCOUNT_MANAGE), revokeOtherSessions);
+
+/**
+ * GET /user/api-keys
+ * List the current user's personal API keys
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'API keys retrieved successfully.'
+ *   data: {
+ *     api_keys: [{
+ *       key_id: UUID
+ *       name: string
+ *       key_prefix: string (e.g. "amk_3fQx9LbV")
+ *       scopes: string[]
+ *       expires_at: ISO timestamp | null
+ *       last_used_at: ISO timestamp | null
+ *       created_at: ISO timestamp
+ *     }]
+ *   }
+ * }
+ */
+router.get('/api-keys', verifyAuth, requirePermission(Permission.ACCOUNT_MANAGE), getApiKeys);
+
+/**
+ * POST /user/api-keys
+ * Create a personal API key for scripts (sent as `Authorization: Bearer <key>`)
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Request body:
+ * {
+ *   name: string (1-100 chars)
+ *   scopes: string[] (chat:read, chat:write, images:read, images:generate, files:read, files:write)
+ *   expires_in_days?: number (1-365; omit for a key that never expires)
+ * }
+ * 
+ * Response (201 Created):
+ * {
+ *   status: 'success'
+ *   message: 'API key created. Copy it now; it will not be shown again.'
+ *   data: { ...api key, key: string }
+ * }
+ * 
+ * API keys cannot manage the account (including API keys) or sign out sessions.
+ * Errors: 409 API_KEY_LIMIT_REACHED (API_KEY_MAX_PER_USER)
+ */
+router.post(
+  '/api-keys',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        name: Joi.string()
+          .trim()
+          .min(1)
+          .max(100)
+          .required()
+          .messages({
+            'any.required': 'Name is required',
+          }),
+        scopes: Joi.array()
+          .items(Joi.string().valid(...Object.values(ApiKeyScope)))
+          .min(1)
+          .required()
+          .messages({
+            'any.only': `Scopes must be among: ${Object.values(ApiKeyScope).join(', ')}`,
+            'array.min': 'At least one scope is required',
+            'any.required': 'Scopes are required',
+          }),
+        expires_in_days: Joi.number()
+          .integer()
+          .min(1)
+          .max(365)
+          .optional(),
+      }).required(),
+    })
+  ),
+  createApiKey
+);
+
+/**
+ * DELETE /user/api-keys/:keyId
+ * Delete an API key; requests using it are rejected immediately
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'API key deleted.'
+ * }
+ * 
+ * Errors: 404 API_KEY_NOT_FOUND
+ */
+router.delete(
+  '/api-keys/:keyId',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  validateRequest(
+    Joi.object({
+      params: Joi.object({
+        keyId: Joi.string().uuid().required(),
+      }),
+    })
+  ),
+  deleteApiKey
+);
+
+/**
+ * POST /user/export
+ * Download everything stored about the current user (GDPR data export)
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Response (200 OK): JSON file download
+ * Content-Disposition: attachment; filename="auramint-export-YYYY-MM-DD.json"
+ * {
+ *   exported_at: ISO timestamp
+ *   profile: UserResponse
+ *   wallets: UserWallet[]
+ *   chats: (Chat & { messages: Message[] })[]
+ *   generated_images: { image_id, image_url, prompt, chat_id, message_id, created_at }[]
+ *   files: file_uploads rows
+ *   activity_log: ActivityLog[]
+ * }
+ */
+router.post(
+  '/export',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  authLimiter,
+  exportData
+);
+
+/**
+ * DELETE /user/account
+ * Schedule the current user's account for deletion
+ * Protected route - requires valid auth_token cookie
+ * 
+ * Request body:
+ * {
+ *   password: string (re-confirmation)
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   status: 'success'
+ *   message: 'Your account is scheduled for deletion. Sign in again before then to cancel.'
+ *   data: {
+ *     deletion_scheduled_at: ISO timestamp (now + ACCOUNT_DELETION_GRACE_DAYS)
+ *   }
+ * }
+ * 
+ * Revokes all access and refresh tokens and clears auth cookies.
+ * After the grace period the account deletion job removes the user's S3 objects,
+ * file records, chats, messages and the account itself.
+ * Errors: 401 INCORRECT_PASSWORD
+ */
+router.delete(
+  '/account',
+  verifyAuth,
+  requirePermission(Permission.ACCOUNT_MANAGE),
+  authLimiter,
+  validateRequest(
+    Joi.object({
+      body: Joi.object({
+        password: Joi.string()
+          .required()
+          .messages({
+            'any.required': 'Password is required',
+          }),
+      }).required(),
+    })
+  ),
+  deleteAccount
+);
 
 export default router;
@@ -0,0 +1,327 @@
+/**
+ * Account Service
+ * GDPR data export and account deletion
+ *
+ * Services implemented:
+ * - exportUserData
+ * - requestAccountDeletion
+ * - cancelAccountDeletion
+ * - purgeScheduledAccountDeletions
+ *
+ * Deletion flow:
+ * - DELETE /user/account re-confirms the password and schedules deletion
+ *   ACCOUNT_DELETION_GRACE_DAYS ahead; every session is signed out
+ * - Signing in again during the grace period cancels the deletion
+ * - The account deletion job then removes the user's S3 objects (uploads and
+ *   generated images), file_uploads rows and the users row (the rest cascades)
+ */
+
+import { getSupabaseClient } from '../config/supabase';
+import config from '../config/env';
+import logger from '../config/logger';
+import { comparePassword } from '../utils/passwordService';
+import { getUserProfile } from './userService';
+import { getUserWallets } from './walletService';
+import { deleteFileFromS3 } from './fileUploadService';
+import { revokeAllUserTokens } from './tokenBlacklistService';
+import { revokeAllUserRefreshTokens } from './refreshTokenService';
+import { recordActivity } from './activityLogService';
+import { AppError, AuthErrorCode, ActivityAction, ActivityContext } from '../types';
+
+/**
+ * Read all rows of a table belonging to a user (export helper)
+ */
+const fetchUserRows = async (
+  table: string,
+  column: string,
+  value: string | string[],
+  orderBy: string
+): Promise<any[]> => {
+  const supabase = getSupabaseClient();
+
+  let query = supabase.from(table).select('*');
+  query = Array.isArray(value) ? query.in(column, value) : query.eq(column, value);
+
+  const { data, error } = await query.order(orderBy, { ascending: true });
+
+  if (error) {
+    logger.error('Failed to read rows for data export', { error, table });
+    throw new AppError(
+      'Failed to export account data',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  return (data as any[]) || [];
+};
+
+/**
+ * Build a downloadable archive of everything stored about a user
+ * Profile, wallets, chats with their messages, generated images,
+ * uploaded files and the security activity log
+ */
+export const exportUserData = async (userId: string): Promise<Record<string, any>> => {
+  try {
+    logger.info('Exporting user data', { userId });
+
+    const profile = await getUserProfile(userId);
+    const wallets = await getUserWallets(userId);
+
+    const chats = await fetchUserRows('chats', 'user_id', userId, 'created_at');
+    const chatIds = chats.map((chat) => chat.chat_id);
+    const messages = chatIds.length > 0
+      ? await fetchUserRows('messages', 'chat_id', chatIds, 'created_at')
+      : [];
+
+    const generatedImages = messages
+      .filter((message) => message.metadata?.type === 'image')
+      .map((message) => ({
+        image_id: message.metadata.imageId,
+        image_url: message.metadata.imageUrl,
+        prompt: message.metadata.prompt,
+        chat_id: message.chat_id,
+        message_id: message.message_id,
+        created_at: message.created_at,
+      }));
+
+    const files = await fetchUserRows('file_uploads', 'user_id', userId, 'uploaded_at');
+    const activity = await fetchUserRows('activity_logs', 'user_id', userId, 'created_at');
+
+    return {
+      exported_at: new Date().toISOString(),
+      profile,
+      wallets,
+      chats: chats.map((chat) => ({
+        ...chat,
+        messages: messages.filter((message) => message.chat_id === chat.chat_id),
+      })),
+      generated_images: generatedImages,
+      files,
+      activity_log: activity,
+    };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error exporting user data', { userId, error });
+    throw new AppError(
+      'Failed to export account data',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Schedule the account for deletion after the grace period
+ * Re-confirms the password, then signs the user out everywhere
+ *
+ * @returns When the account will be permanently deleted
+ */
+export const requestAccountDeletion = async (
+  userId: string,
+  password: string,
+  context: ActivityContext = {}
+): Promise<{ deletion_scheduled_at: Date }> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { data: user, error: findError } = await supabase
+      .from('users')
+      .select('user_id, password_hash')
+      .eq('user_id', userId)
+      .single();
+
+    if (!user || findError) {
+      logger.warn('User not found', { userId, error: findError });
+      throw new AppError(
+        'User profile not found',
+        404,
+        'USER_NOT_FOUND'
+      );
+    }
+
+    const userData = user as any;
+
+    const isPasswordValid = await comparePassword(password, userData.password_hash);
+    if (!isPasswordValid) {
+      logger.warn('Incorrect password on account deletion', { userId });
+      throw new AppError(
+        'Password is incorrect.',
+        401,
+        AuthErrorCode.INCORRECT_PASSWORD,
+        'password'
+      );
+    }
+
+    const now = new Date();
+    const scheduledAt = new Date(now.getTime() + config.accountDeletionGraceDays * 24 * 60 * 60 * 1000);
+
+    const { error: updateError } = await (supabase.from('users') as any).update({
+      deletion_requested_at: now.toISOString(),
+      deletion_scheduled_at: scheduledAt.toISOString(),
+      updated_at: now.toISOString(),
+    }).eq('user_id', userId);
+
+    if (updateError) {
+      logger.error('Failed to schedule account deletion', { error: updateError, userId });
+      throw new AppError(
+        'Failed to delete account',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    await revokeAllUserTokens(userId);
+    await revokeAllUserRefreshTokens(userId);
+
+    await recordActivity(userId, ActivityAction.ACCOUNT_DELETION_REQUESTED, context, undefined, {
+      deletion_scheduled_at: scheduledAt.toISOString(),
+    });
+
+    logger.info('Account deletion scheduled', { userId, scheduledAt });
+
+    return { deletion_scheduled_at: scheduledAt };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error requesting account deletion', { userId, error });
+    throw new AppError(
+      'Failed to delete account',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Cancel a pending account deletion (the user signed in during the grace period)
+ */
+export const cancelAccountDeletion = async (
+  userId: string,
+  context: ActivityContext = {}
+): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  const { error } = await (supabase.from('users') as any).update({
+    deletion_requested_at: null,
+    deletion_scheduled_at: null,
+    updated_at: new Date().toISOString(),
+  }).eq('user_id', userId);
+
+  if (error) {
+    logger.error('Failed to cancel account deletion', { error, userId });
+    throw new AppError(
+      'Failed to cancel account deletion',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  await recordActivity(userId, ActivityAction.ACCOUNT_DELETION_CANCELLED, context);
+
+  logger.info('Account deletion cancelled', { userId });
+};
+
+/**
+ * Permanently delete one user
+ * S3 objects go first; if any cannot be removed the user is left in place
+ * so the next run retries instead of orphaning the objects
+ */
+const purgeAccount = async (userId: string): Promise<boolean> => {
+  const supabase = getSupabaseClient();
+
+  const files = await fetchUserRows('file_uploads', 'user_id', userId, 'uploaded_at');
+  const chats = await fetchUserRows('chats', 'user_id', userId, 'created_at');
+  const chatIds = chats.map((chat) => chat.chat_id);
+  const messages = chatIds.length > 0
+    ? await fetchUserRows('messages', 'chat_id', chatIds, 'created_at')
+    : [];
+
+  const s3Keys = new Set<string>([
+    ...files.map((file) => file.s3_key),
+    ...messages
+      .filter((message) => message.metadata?.type === 'image' && message.metadata.s3Key)
+      .map((message) => message.metadata.s3Key),
+  ]);
+
+  for (const s3Key of s3Keys) {
+    try {
+      await deleteFileFromS3(s3Key);
+    } catch (error) {
+      logger.warn('Account purge postponed: S3 object could not be deleted', { userId, s3Key });
+      return false;
+    }
+  }
+
+  // file_uploads references auth.users, so it does not cascade from public.users
+  const { error: filesError } = await (supabase.from('file_uploads') as any)
+    .delete()
+    .eq('user_id', userId);
+
+  if (filesError) {
+    logger.error('Failed to delete file records of account', { error: filesError, userId });
+    return false;
+  }
+
+  const { error: userError } = await (supabase.from('users') as any)
+    .delete()
+    .eq('user_id', userId);
+
+  if (userError) {
+    logger.error('Failed to delete account', { error: userError, userId });
+    return false;
+  }
+
+  logger.info('Account permanently deleted', { userId, s3Objects: s3Keys.size });
+  return true;
+};
+
+/**
+ * Hard-delete every account whose grace period has ended
+ * Run periodically by the account deletion job
+ *
+ * @returns Number of accounts deleted
+ */
+export const purgeScheduledAccountDeletions = async (): Promise<number> => {
+  const supabase = getSupabaseClient();
+
+  const { data: users, error } = await supabase
+    .from('users')
+    .select('user_id')
+    .lte('deletion_scheduled_at', new Date().toISOString());
+
+  if (error) {
+    logger.error('Failed to fetch accounts due for deletion', { error });
+    throw new AppError(
+      'Failed to purge deleted accounts',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  let deleted = 0;
+
+  for (const user of (users as any[]) || []) {
+    try {
+      if (await purgeAccount(user.user_id)) {
+        deleted++;
+      }
+    } catch (purgeError) {
+      logger.error('Unexpected error purging account', { userId: user.user_id, error: purgeError });
+    }
+  }
+
+  return deleted;
+};
+
+export default {
+  exportUserData,
+  requestAccountDeletion,
+  cancelAccountDeletion,
+  purgeScheduledAccountDeletions,
+};
@@ -0,0 +1,72 @@
+import { Request } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { getSupabaseClient } from '../config/supabase';
+import config from '../config/env';
+import logger from '../config/logger';
+import { ActivityAction, ActivityContext } from '../types';
+
+/**
+ * Activity Log Service
+ * Central recorder for the activity_logs audit trail, enabled by ENABLE_ACTIVITY_LOGGING
+ *
+ * Recording never throws: a failed audit write is logged and the user's
+ * request carries on. Auth events are recorded by authService (it is the only
+ * place that knows which account a failed sign-in belongs to); everything else
+ * is recorded by the controller once the action has succeeded.
+ */
+
+/**
+ * Extract IP address and user agent from a request
+ */
+export const getActivityContext = (req: Request): ActivityContext => {
+  const userAgent = req.get('user-agent');
+
+  return {
+    ip_address: req.ip || req.socket?.remoteAddress || undefined,
+    user_agent: userAgent ? userAgent.slice(0, 500) : undefined,
+  };
+};
+
+/**
+ * Record a user activity
+ * No-op when activity logging is disabled
+ */
+export const recordActivity = async (
+  userId: string,
+  action: ActivityAction,
+  context: ActivityContext = {},
+  resource?: { type: string; id?: string },
+  details?: Record<string, any>
+): Promise<void> => {
+  if (!config.enableActivityLogging) return;
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const { error } = await (supabase.from('activity_logs') as any).insert({
+      activity_id: uuidv4(),
+      user_id: userId,
+      action,
+      resource_type: resource?.type || null,
+      resource_id: resource?.id || null,
+      details: details || null,
+      ip_address: context.ip_address || null,
+      user_agent: context.user_agent || null,
+      created_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      logger.error('Failed to record activity', { error, userId, action });
+      return;
+    }
+
+    logger.debug('Activity recorded', { userId, action });
+  } catch (error) {
+    logger.error('Unexpected error recording activity', { error, userId, action });
+  }
+};
+
+export default {
+  getActivityContext,
+  recordActivity,
+};
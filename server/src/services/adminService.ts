@@ -0,0 +1,170 @@
+/**
+ * Admin Service
+ * User management for accounts with Permission.USERS_MANAGE
+ *
+ * Services implemented:
+ * - listUsers
+ * - updateUser
+ */
+
+import { getSupabaseClient } from '../config/supabase';
+import logger from '../config/logger';
+import { getUserProfile } from './userService';
+import { revokeAllUserTokens } from './tokenBlacklistService';
+import { revokeAllUserRefreshTokens } from './refreshTokenService';
+import { recordActivity } from './activityLogService';
+import {
+  AppError,
+  AuthErrorCode,
+  ActivityAction,
+  ActivityContext,
+  AdminUpdateUserRequest,
+  AdminUserFilters,
+  UserResponse,
+} from '../types';
+
+/**
+ * List users, newest first
+ */
+export const listUsers = async (
+  limit: number = 20,
+  offset: number = 0,
+  filters: AdminUserFilters = {}
+): Promise<{ users: UserResponse[]; total: number }> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    logger.debug('Admin listing users', { limit, offset, filters });
+
+    let query = supabase
+      .from('users')
+      .select('user_id, email, username, full_name, profile_picture_url, bio, user_type, plan, email_verified, is_active, created_at, updated_at, last_login_at', { count: 'exact' });
+
+    if (filters.search) {
+      // Strip characters that have meaning in PostgREST filter syntax
+      const term = filters.search.replace(/[,()*%]/g, ' ').trim();
+      if (term) {
+        query = query.or(`email.ilike.%${term}%,username.ilike.%${term}%,full_name.ilike.%${term}%`);
+      }
+    }
+    if (filters.user_type) {
+      query = query.eq('user_type', filters.user_type);
+    }
+    if (filters.is_active !== undefined) {
+      query = query.eq('is_active', filters.is_active);
+    }
+
+    const { data, count, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      logger.error('Failed to list users', { error });
+      throw new AppError(
+        'Failed to retrieve users',
+        500,
+        'INTERNAL_SERVER_ERROR'
+      );
+    }
+
+    const users: UserResponse[] = (data || []).map((user: any) => ({
+      user_id: user.user_id,
+      email: user.email,
+      username: user.username,
+      full_name: user.full_name,
+      profile_picture_url: user.profile_picture_url,
+      bio: user.bio,
+      user_type: user.user_type,
+      plan: user.plan,
+      email_verified: user.email_verified,
+      is_active: user.is_active,
+      created_at: new Date(user.created_at),
+      updated_at: new Date(user.updated_at),
+      last_login_at: user.last_login_at ? new Date(user.last_login_at) : null,
+    }));
+
+    return {
+      users,
+      total: count || 0,
+    };
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    logger.error('Error in listUsers', { error });
+    throw new AppError(
+      'Failed to retrieve users',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Change a user's role or active status
+ * The user's sessions are revoked so the change applies immediately;
+ * they sign in again with the new role (deactivated users cannot)
+ */
+export const updateUser = async (
+  adminId: string,
+  userId: string,
+  changes: AdminUpdateUserRequest,
+  context: ActivityContext = {}
+): Promise<UserResponse> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    if (adminId === userId) {
+      throw new AppError(
+        'You cannot change your own role or status.',
+        403,
+        AuthErrorCode.FORBIDDEN
+      );
+    }
+
+    // Throws 404 if the user does not exist
+    const current = await getUserProfile(userId);
+
+    const { error } = await (supabase.from('users') as any).update({
+      ...(changes.user_type !== undefined && { user_type: changes.user_type }),
+      ...(changes.is_active !== undefined && { is_active: changes.is_active }),
+      updated_at: new Date().toISOString(),
+    }).eq('user_id', userId);
+
+    if (error) {
+      logger.error('Failed to update user', { error, userId });
+      throw new AppError(
+        'Failed to update user',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    await revokeAllUserTokens(userId);
+    await revokeAllUserRefreshTokens(userId);
+
+    await recordActivity(userId, ActivityAction.ACCOUNT_UPDATED_BY_ADMIN, context, undefined, {
+      admin_id: adminId,
+      previous: { user_type: current.user_type, is_active: current.is_active },
+      changes,
+    });
+
+    logger.info('User updated by admin', { adminId, userId, changes });
+
+    return await getUserProfile(userId);
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error updating user', { adminId, userId, error });
+    throw new AppError(
+      'Failed to update user',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+export default {
+  listUsers,
+  updateUser,
+};
@@ -0,0 +1,296 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getSupabaseClient } from '../config/supabase';
+import config from '../config/env';
+import logger from '../config/logger';
+import { recordActivity } from './activityLogService';
+import { AppError, AuthErrorCode, ActivityAction, ActivityContext, ApiKey, CreateApiKeyRequest, JWTPayload } from '../types';
+
+/**
+ * API Key Service
+ * Personal API keys for scripts and integrations
+ *
+ * A key looks like `amk_<random>` and is sent as `Authorization: Bearer <key>`.
+ * Only its SHA-256 hash is stored, so the key is shown once, at creation.
+ * verifyAuth resolves the key to its user; requirePermission then checks
+ * the key's scopes (see config/permissions.ts).
+ */
+
+const API_KEY_PREFIX = 'amk_';
+const DISPLAY_PREFIX_LENGTH = 12;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Columns returned to the owner (never key_hash)
+const API_KEY_COLUMNS = 'key_id, user_id, name, key_prefix, scopes, expires_at, last_used_at, created_at';
+
+/**
+ * Check whether a bearer credential has the API key format
+ */
+export const isApiKey = (value: string): boolean => {
+  return value.startsWith(API_KEY_PREFIX);
+};
+
+/**
+ * Hash an API key for storage and lookup
+ */
+const hashApiKey = (key: string): string => {
+  return crypto.createHash('sha256').update(key).digest('hex');
+};
+
+/**
+ * List a user's API keys, newest first
+ */
+export const getUserApiKeys = async (userId: string): Promise<ApiKey[]> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { data: keys, error } = await supabase
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Failed to fetch API keys', { error, userId });
+      throw new AppError(
+        'Failed to fetch API keys',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    return (keys as any) || [];
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error fetching API keys', { userId, error });
+    throw new AppError(
+      'Failed to fetch API keys',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Create an API key
+ * @returns The stored key and the plaintext key (shown to the user once)
+ */
+export const createApiKey = async (
+  userId: string,
+  request: CreateApiKeyRequest,
+  context: ActivityContext = {}
+): Promise<{ apiKey: ApiKey; key: string }> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { count, error: countError } = await supabase
+      .from('api_keys')
+      .select('key_id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+
+    if (countError) {
+      logger.error('Failed to count API keys', { error: countError, userId });
+      throw new AppError(
+        'Failed to create API key',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    if ((count || 0) >= config.apiKeyMaxPerUser) {
+      throw new AppError(
+        `You can have at most ${config.apiKeyMaxPerUser} API keys. Delete one before creating another.`,
+        409,
+        AuthErrorCode.API_KEY_LIMIT_REACHED
+      );
+    }
+
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const keyId = uuidv4();
+    const scopes = Array.from(new Set(request.scopes));
+    const expiresAt = request.expires_in_days
+      ? new Date(Date.now() + request.expires_in_days * 24 * 60 * 60 * 1000)
+      : null;
+
+    const { data: created, error } = await (supabase.from('api_keys') as any)
+      .insert({
+        key_id: keyId,
+        user_id: userId,
+        name: request.name,
+        key_prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        key_hash: hashApiKey(key),
+        scopes,
+        expires_at: expiresAt ? expiresAt.toISOString() : null,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error || !created) {
+      logger.error('Failed to store API key', { error, userId });
+      throw new AppError(
+        'Failed to create API key',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    await recordActivity(userId, ActivityAction.API_KEY_CREATED, context, { type: 'api_key', id: keyId }, {
+      name: request.name,
+      scopes,
+    });
+
+    logger.info('API key created', { userId, keyId });
+
+    return { apiKey: created, key };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error creating API key', { userId, error });
+    throw new AppError(
+      'Failed to create API key',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Delete one of the user's API keys; it stops working immediately
+ */
+export const deleteApiKey = async (
+  userId: string,
+  keyId: string,
+  context: ActivityContext = {}
+): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { data: deleted, error } = await (supabase.from('api_keys') as any)
+      .delete()
+      .eq('key_id', keyId)
+      .eq('user_id', userId)
+      .select('key_id, name');
+
+    if (error) {
+      logger.error('Failed to delete API key', { error, userId, keyId });
+      throw new AppError(
+        'Failed to delete API key',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      throw new AppError(
+        'API key not found',
+        404,
+        AuthErrorCode.API_KEY_NOT_FOUND
+      );
+    }
+
+    await recordActivity(userId, ActivityAction.API_KEY_DELETED, context, { type: 'api_key', id: keyId }, {
+      name: deleted[0].name,
+    });
+
+    logger.info('API key deleted', { userId, keyId });
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error deleting API key', { userId, keyId, error });
+    throw new AppError(
+      'Failed to delete API key',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Resolve a bearer API key to its user (used by verifyAuth)
+ * Rejects unknown and expired keys, and keys of inactive accounts.
+ * Records last use at most once a minute per key.
+ *
+ * @returns The caller in the same shape as a decoded access token, and the key's scopes
+ */
+export const authenticateApiKey = async (
+  key: string
+): Promise<{ user: JWTPayload; apiKey: Pick<ApiKey, 'key_id' | 'scopes'> }> => {
+  const supabase = getSupabaseClient();
+  const invalidKey = new AppError(
+    'Invalid or expired API key.',
+    401,
+    AuthErrorCode.INVALID_TOKEN
+  );
+
+  const { data: apiKey, error } = await supabase
+    .from('api_keys')
+    .select('key_id, user_id, scopes, expires_at, created_at')
+    .eq('key_hash', hashApiKey(key))
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to look up API key', { error });
+    throw new AppError(
+      'Authentication failed.',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  const keyData = apiKey as any;
+  const now = new Date();
+
+  if (!keyData || (keyData.expires_at && new Date(keyData.expires_at) <= now)) {
+    throw invalidKey;
+  }
+
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('user_id, email, user_type, email_verified, is_active')
+    .eq('user_id', keyData.user_id)
+    .single();
+
+  const userData = user as any;
+
+  if (userError || !userData || !userData.is_active) {
+    logger.warn('API key used for missing or inactive account', { key_id: keyData.key_id });
+    throw invalidKey;
+  }
+
+  await (supabase.from('api_keys') as any)
+    .update({ last_used_at: now.toISOString() })
+    .eq('key_id', keyData.key_id)
+    .or(`last_used_at.is.null,last_used_at.lt.${new Date(now.getTime() - LAST_USED_RESOLUTION_MS).toISOString()}`);
+
+  return {
+    user: {
+      email: userData.email,
+      user_id: userData.user_id,
+      user_type: userData.user_type,
+      email_verified: userData.email_verified,
+      // API keys have no session; jti/iat/exp describe the key itself
+      jti: keyData.key_id,
+      iat: Math.floor(new Date(keyData.created_at).getTime() / 1000),
+      exp: keyData.expires_at ? Math.floor(new Date(keyData.expires_at).getTime() / 1000) : 0,
+    },
+    apiKey: {
+      key_id: keyData.key_id,
+      scopes: keyData.scopes || [],
+    },
+  };
+};
+
+export default {
+  isApiKey,
+  getUserApiKeys,
+  createApiKey,
+  deleteApiKey,
+  authenticateApiKey,
+};
@@ -1,11 +1,20 @@
 import { v4 as uuidv4 } from 'uuid';
 import { getSupabaseClient } from '../config/supabase';
 import logger from '../config/logger';
-import { hashPassword, comparePassword } from '../utils/passwordService';
-import { generateOtp, calculateOtpExpiration, isOtpExpired, isValidOtpFormat } from '../utils/otpService';
-import { sendOtpEmail, sendWelcomeEmail } from '../utils/emailService';
-import { generateToken, getTokenExpirationMs } from '../utils/jwtService';
-import { AppError, RegisterRequest, VerifyEmailRequest, ResendOtpRequest, SignInRequest, AuthErrorCode } from '../types';
+import { hashPassword, comparePassword, getPasswordValidationError } from '../utils/passwordService';
+import { generateOtp, calculateOtpExpiration, isOtpExpired, isValidOtpFormat, hashOtp } from '../utils/otpService';
+import { sendOtpEmail, sendPasswordResetEmail, sendWelcomeEmail, sendMagicLinkEmail } from '../utils/emailService';
+import { generateToken, getTokenExpirationMs, generateTwoFactorChallengeToken, verifyTwoFactorChallengeToken, generateMagicLinkToken, verifyMagicLinkToken } from '../utils/jwtService';
+import { rotateRefreshToken, revokeRefreshToken, revokeAllUserRefreshTokens } from './refreshTokenService';
+import { createSession, touchSession } from './sessionService';
+import { revokeToken, revokeAllUserTokens } from './tokenBlacklistService';
+import { recordActivity } from './activityLogService';
+import { verifySecondFactor } from './twoFactorService';
+import { verifyOtpAttempt, otpAttemptsReset } from './otpAttemptService';
+import { cancelAccountDeletion } from './accountService';
+import { verifySiweMessage, findLinkedWallet, markWalletUsed, getPrimaryWalletAddress } from './walletService';
+import { completeOidcAuthorization, OidcClaims } from './oidcService';
+import { AppError, RegisterRequest, VerifyEmailRequest, ResendOtpRequest, SignInRequest, ForgotPasswordRequest, ResetPasswordRequest, TwoFactorSignInRequest, SiweVerifyRequest, MagicLinkRequest, MagicLinkSignInRequest, AuthErrorCode, JWTPayload, ActivityAction, ActivityContext } from '../types';
 import config from '../config/env';
 
 /**
@@ -59,8 +68,9 @@ export const registerUser = async (
       email,
       password_hash: passwordHash,
       email_verified: false,
-      email_verification_otp: otp,
+      email_verification_otp: hashOtp(otp, userId),
       email_otp_expires_at: otpExpiresAt.toISOString(),
+      email_otp_attempts: 0,
       user_type,
       full_name: full_name || null,
       username: null,
@@ -129,8 +139,9 @@ export const registerUser = async (
  * Verify email with OTP
  */
 export const verifyEmailUser = async (
-  request: VerifyEmailRequest
-): Promise<{ user_id: string; email: string; email_verified: boolean; token: string; expiresIn: number }> => {
+  request: VerifyEmailRequest,
+  context: ActivityContext = {}
+): Promise<{ user_id: string; email: string; email_verified: boolean; token: string; expiresIn: number; refreshToken: string; refreshExpiresIn: number }> => {
   const supabase = getSupabaseClient();
 
   try {
@@ -151,7 +162,7 @@ export const verifyEmailUser = async (
     // Find user by email
     const { data: user, error: findError } = await supabase
       .from('users')
-      .select('user_id, email_verification_otp, email_otp_expires_at, email_verified, user_type, full_name')
+      .select('user_id, email_verification_otp, email_otp_expires_at, email_otp_attempts, email_verified, user_type, full_name')
       .eq('email', email)
       .single();
 
@@ -189,16 +200,14 @@ export const verifyEmailUser = async (
       );
     }
 
-    // Verify OTP matches
-    if (userData.email_verification_otp !== otp) {
-      logger.warn('Invalid OTP provided', { email });
-      throw new AppError(
-        'Invalid OTP. Please check and try again.',
-        400,
-        AuthErrorCode.INVALID_OTP,
-        'otp'
-      );
-    }
+    // Verify OTP matches (constant-time, limited attempts per code)
+    await verifyOtpAttempt(
+      userData.user_id,
+      'email_verification',
+      otp,
+      userData.email_verification_otp,
+      userData.email_otp_attempts
+    );
 
     // Update user: mark email as verified and clear OTP
     const now = new Date().toISOString();
@@ -206,6 +215,7 @@ export const verifyEmailUser = async (
       email_verified: true,
       email_verification_otp: null,
       email_otp_expires_at: null,
+      ...otpAttemptsReset('email_verification'),
       updated_at: now,
     }).eq('email', email);
 
@@ -221,12 +231,14 @@ export const verifyEmailUser = async (
       );
     }
 
-    // Generate JWT token
+    // Start a session and generate JWT token
+    const session = await createSession(userData.user_id, context);
     const token = generateToken({
       email: userData.email,
       user_id: userData.user_id,
       user_type: userData.user_type,
       email_verified: true,
+      sid: session.session_id,
     });
 
     // Send welcome email
@@ -242,6 +254,8 @@ export const verifyEmailUser = async (
       // Don't throw - email verification was successful
     }
 
+    await recordActivity(userData.user_id, ActivityAction.EMAIL_VERIFIED, context);
+
     logger.info('Email verified successfully', { user_id: userData.user_id, email });
 
     return {
@@ -250,6 +264,8 @@ export const verifyEmailUser = async (
       email_verified: true,
       token,
       expiresIn: getTokenExpirationMs(),
+      refreshToken: session.refreshToken,
+      refreshExpiresIn: session.refreshExpiresIn,
     };
   } catch (error) {
     if (error instanceof AppError) {
@@ -315,8 +331,9 @@ export const resendOtpEmail = async (
     // Update user with new OTP
     const now = new Date().toISOString();
     const { error: updateError } = await (supabase.from('users') as any).update({
-      email_verification_otp: newOtp,
+      email_verification_otp: hashOtp(newOtp, resendUser.user_id),
       email_otp_expires_at: newOtpExpiresAt.toISOString(),
+      ...otpAttemptsReset('email_verification'),
       updated_at: now,
     }).eq('email', email);
 
@@ -367,12 +384,169 @@ export const resendOtpEmail = async (
   }
 };
 
+/**
+ * Signed-in session returned by sign-in flows
+ */
+type SignInSession = {
+  user_id: string;
+  email: string;
+  user_type: string;
+  email_verified: boolean;
+  token: string;
+  expiresIn: number;
+  refreshToken: string;
+  refreshExpiresIn: number;
+};
+
+/**
+ * Second sign-in step required (2FA enabled); no session is issued yet
+ */
+type TwoFactorChallenge = {
+  two_factor_required: true;
+  challenge_token: string;
+  expiresIn: number;
+};
+
+/**
+ * Count a failed sign-in attempt and lock the account when the limit is reached
+ * Returns true if the account is now locked
+ */
+const registerFailedSignIn = async (
+  userData: any,
+  reason: string,
+  context: ActivityContext
+): Promise<boolean> => {
+  const supabase = getSupabaseClient();
+
+  // Increment failed login attempts
+  const newFailedAttempts = (userData.failed_login_attempts || 0) + 1;
+  const locked = newFailedAttempts >= config.maxLoginAttempts;
+  const now = new Date().toISOString();
+
+  await recordActivity(userData.user_id, ActivityAction.SIGNIN_FAILED, context, undefined, {
+    reason,
+    failed_attempts: newFailedAttempts,
+    account_locked: locked,
+  });
+
+  if (locked) {
+    // Lock account
+    const lockUntilTime = new Date();
+    lockUntilTime.setMinutes(lockUntilTime.getMinutes() + config.accountLockTimeMinutes);
+
+    await (supabase.from('users') as any).update({
+      failed_login_attempts: newFailedAttempts,
+      account_locked_until: lockUntilTime.toISOString(),
+      updated_at: now,
+    }).eq('user_id', userData.user_id);
+
+    logger.warn('Account locked due to failed login attempts', { email: userData.email });
+    return true;
+  }
+
+  // Update failed attempts
+  await (supabase.from('users') as any).update({
+    failed_login_attempts: newFailedAttempts,
+    updated_at: now,
+  }).eq('user_id', userData.user_id);
+
+  return false;
+};
+
+/**
+ * Reject sign in for locked or inactive accounts
+ */
+const assertCanSignIn = async (userData: any, context: ActivityContext): Promise<void> => {
+  // Check if account is locked
+  if (userData.account_locked_until) {
+    const lockUntil = new Date(userData.account_locked_until);
+    if (lockUntil > new Date()) {
+      logger.warn('Sign in attempt on locked account', { email: userData.email });
+      await recordActivity(userData.user_id, ActivityAction.SIGNIN_FAILED, context, undefined, { reason: 'account_locked' });
+      const remainingMinutes = Math.ceil((lockUntil.getTime() - new Date().getTime()) / 60000);
+      throw new AppError(
+        `Account is locked. Try again in ${remainingMinutes} minutes.`,
+        401,
+        AuthErrorCode.ACCOUNT_LOCKED
+      );
+    }
+  }
+
+  // Check if account is active
+  if (!userData.is_active) {
+    logger.warn('Sign in attempt on inactive account', { email: userData.email });
+    await recordActivity(userData.user_id, ActivityAction.SIGNIN_FAILED, context, undefined, { reason: 'account_inactive' });
+    throw new AppError(
+      'Your account has been deactivated. Contact support for assistance.',
+      401,
+      AuthErrorCode.ACCOUNT_INACTIVE
+    );
+  }
+};
+
+/**
+ * Issue access and refresh tokens for a fully authenticated user
+ * Updates last login and resets failed attempts
+ */
+const startUserSession = async (
+  userData: any,
+  context: ActivityContext,
+  details?: Record<string, any>
+): Promise<SignInSession> => {
+  const supabase = getSupabaseClient();
+
+  // Start a session and generate JWT token
+  const session = await createSession(userData.user_id, context);
+  const token = generateToken({
+    email: userData.email,
+    user_id: userData.user_id,
+    user_type: userData.user_type,
+    email_verified: userData.email_verified,
+    wallet_address: await getPrimaryWalletAddress(userData.user_id),
+    sid: session.session_id,
+  });
+
+  // Update last login and reset failed attempts
+  const now = new Date().toISOString();
+  await (supabase.from('users') as any).update({
+    last_login_at: now,
+    failed_login_attempts: 0,
+    account_locked_until: null,
+    updated_at: now,
+  }).eq('user_id', userData.user_id);
+
+  // Signing in during the grace period cancels a pending account deletion
+  if (userData.deletion_scheduled_at) {
+    await cancelAccountDeletion(userData.user_id, context);
+  }
+
+  await recordActivity(userData.user_id, ActivityAction.SIGNIN, context, undefined, details);
+
+  logger.info('User signed in successfully', {
+    user_id: userData.user_id,
+    email: userData.email,
+  });
+
+  return {
+    user_id: userData.user_id,
+    email: userData.email,
+    user_type: userData.user_type,
+    email_verified: userData.email_verified,
+    token,
+    expiresIn: getTokenExpirationMs(),
+    refreshToken: session.refreshToken,
+    refreshExpiresIn: session.refreshExpiresIn,
+  };
+};
+
 /**
  * Sign in user with email and password
+ * Users with 2FA enabled receive a challenge instead of a session
  */
 export const signInUser = async (
-  request: SignInRequest
-): Promise<{ user_id: string; email: string; user_type: string; email_verified: boolean; token: string; expiresIn: number }> => {
+  request: SignInRequest,
+  context: ActivityContext = {}
+): Promise<SignInSession | TwoFactorChallenge> => {
   const supabase = getSupabaseClient();
 
   try {
@@ -383,7 +557,7 @@ export const signInUser = async (
     // Find user by email
     const { data: user, error: findError } = await supabase
       .from('users')
-      .select('user_id, email, password_hash, user_type, email_verified, is_active, account_locked_until, failed_login_attempts')
+      .select('user_id, email, password_hash, user_type, email_verified, is_active, account_locked_until, failed_login_attempts, two_factor_enabled, deletion_scheduled_at')
       .eq('email', email)
       .single();
 
@@ -399,51 +573,116 @@ export const signInUser = async (
 
     const userData = user as any;
 
-    // Check if account is locked
-    if (userData.account_locked_until) {
-      const lockUntil = new Date(userData.account_locked_until);
-      if (lockUntil > new Date()) {
-        logger.warn('Sign in attempt on locked account', { email });
-        const remainingMinutes = Math.ceil((lockUntil.getTime() - new Date().getTime()) / 60000);
+    await assertCanSignIn(userData, context);
+
+    // Verify password
+    const isPasswordValid = await comparePassword(password, userData.password_hash);
+    if (!isPasswordValid) {
+      logger.warn('Invalid password for sign in', { email });
+
+      if (await registerFailedSignIn(userData, 'invalid_password', context)) {
         throw new AppError(
-          `Account is locked. Try again in ${remainingMinutes} minutes.`,
+          `Too many failed attempts. Account locked for ${config.accountLockTimeMinutes} minutes.`,
           401,
           AuthErrorCode.ACCOUNT_LOCKED
         );
       }
+
+      throw new AppError(
+        'Invalid email or password. Please try again.',
+        401,
+        AuthErrorCode.INVALID_CREDENTIALS
+      );
     }
 
-    // Check if account is active
-    if (!userData.is_active) {
-      logger.warn('Sign in attempt on inactive account', { email });
+    // Check if email is verified
+    if (!userData.email_verified) {
+      logger.warn('Sign in attempt with unverified email', { email });
+      await recordActivity(userData.user_id, ActivityAction.SIGNIN_FAILED, context, undefined, { reason: 'email_not_verified' });
       throw new AppError(
-        'Your account has been deactivated. Contact support for assistance.',
+        'Please verify your email before signing in.',
+        403,
+        AuthErrorCode.EMAIL_NOT_VERIFIED,
+        'email'
+      );
+    }
+
+    // Second step required before any token is issued
+    if (userData.two_factor_enabled) {
+      logger.info('Two-factor challenge issued', { user_id: userData.user_id });
+      return {
+        two_factor_required: true,
+        challenge_token: generateTwoFactorChallengeToken(userData.user_id),
+        expiresIn: config.twoFactorChallengeMinutes * 60 * 1000,
+      };
+    }
+
+    return await startUserSession(userData, context);
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error during sign in', { error });
+    throw new AppError(
+      'An unexpected error occurred during sign in',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Complete a two-factor sign in
+ * Verifies the challenge token and an authenticator or recovery code
+ */
+export const completeTwoFactorSignIn = async (
+  request: TwoFactorSignInRequest,
+  context: ActivityContext = {}
+): Promise<SignInSession> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const userId = verifyTwoFactorChallengeToken(request.challenge_token);
+
+    logger.info('Starting two-factor sign in', { user_id: userId });
+
+    const { data: user, error: findError } = await supabase
+      .from('users')
+      .select('user_id, email, user_type, email_verified, is_active, account_locked_until, failed_login_attempts, two_factor_enabled, two_factor_secret, two_factor_recovery_codes, two_factor_last_step, deletion_scheduled_at')
+      .eq('user_id', userId)
+      .single();
+
+    if (!user || findError) {
+      throw new AppError(
+        'Invalid sign-in challenge. Please sign in again.',
         401,
-        AuthErrorCode.ACCOUNT_INACTIVE
+        AuthErrorCode.INVALID_TOKEN
       );
     }
 
-    // Verify password
-    const isPasswordValid = await comparePassword(password, userData.password_hash);
-    if (!isPasswordValid) {
-      logger.warn('Invalid password for sign in', { email });
+    const userData = user as any;
 
-      // Increment failed login attempts
-      const newFailedAttempts = (userData.failed_login_attempts || 0) + 1;
-      const now = new Date().toISOString();
+    await assertCanSignIn(userData, context);
 
-      if (newFailedAttempts >= config.maxLoginAttempts) {
-        // Lock account
-        const lockUntilTime = new Date();
-        lockUntilTime.setMinutes(lockUntilTime.getMinutes() + config.accountLockTimeMinutes);
+    // 2FA was disabled after the challenge was issued
+    if (!userData.two_factor_enabled) {
+      throw new AppError(
+        'Invalid sign-in challenge. Please sign in again.',
+        401,
+        AuthErrorCode.INVALID_TOKEN
+      );
+    }
 
-        await (supabase.from('users') as any).update({
-          failed_login_attempts: newFailedAttempts,
-          account_locked_until: lockUntilTime.toISOString(),
-          updated_at: now,
-        }).eq('email', email);
+    const method = await verifySecondFactor(userData, {
+      code: request.code,
+      recovery_code: request.recovery_code,
+    });
+
+    if (!method) {
+      logger.warn('Invalid two-factor code for sign in', { user_id: userId });
 
-        logger.warn('Account locked due to failed login attempts', { email });
+      if (await registerFailedSignIn(userData, 'invalid_two_factor_code', context)) {
         throw new AppError(
           `Too many failed attempts. Account locked for ${config.accountLockTimeMinutes} minutes.`,
           401,
@@ -451,66 +690,102 @@ export const signInUser = async (
         );
       }
 
-      // Update failed attempts
-      await (supabase.from('users') as any).update({
-        failed_login_attempts: newFailedAttempts,
-        updated_at: now,
-      }).eq('email', email);
-
       throw new AppError(
-        'Invalid email or password. Please try again.',
+        'Invalid authentication code. Please try again.',
         401,
-        AuthErrorCode.INVALID_CREDENTIALS
+        AuthErrorCode.INVALID_TWO_FACTOR_CODE,
+        request.recovery_code ? 'recovery_code' : 'code'
       );
     }
 
-    // Check if email is verified
+    return await startUserSession(userData, context, { two_factor_method: method });
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error during two-factor sign in', { error });
+    throw new AppError(
+      'An unexpected error occurred during sign in',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Sign in with Ethereum (EIP-4361)
+ * The wallet must already be linked to an account; users with 2FA enabled
+ * receive a challenge instead of a session, as with password sign in
+ */
+export const signInWithEthereum = async (
+  request: SiweVerifyRequest,
+  context: ActivityContext = {}
+): Promise<SignInSession | TwoFactorChallenge> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const fields = await verifySiweMessage(request.message, request.signature);
+
+    logger.info('Starting wallet sign in', { address: fields.address });
+
+    const wallet = await findLinkedWallet(fields.address);
+    if (!wallet) {
+      logger.warn('Wallet sign in for unlinked address', { address: fields.address });
+      throw new AppError(
+        'This wallet is not linked to an account. Sign in with email and link it from your profile.',
+        404,
+        AuthErrorCode.WALLET_NOT_LINKED
+      );
+    }
+
+    const { data: user, error: findError } = await supabase
+      .from('users')
+      .select('user_id, email, user_type, email_verified, is_active, account_locked_until, failed_login_attempts, two_factor_enabled, deletion_scheduled_at')
+      .eq('user_id', wallet.user_id)
+      .single();
+
+    if (!user || findError) {
+      logger.warn('Wallet linked to non-existent user', { address: fields.address });
+      throw new AppError(
+        'This wallet is not linked to an account.',
+        404,
+        AuthErrorCode.WALLET_NOT_LINKED
+      );
+    }
+
+    const userData = user as any;
+
+    await assertCanSignIn(userData, context);
+
     if (!userData.email_verified) {
-      logger.warn('Sign in attempt with unverified email', { email });
+      logger.warn('Wallet sign in with unverified email', { user_id: userData.user_id });
+      await recordActivity(userData.user_id, ActivityAction.SIGNIN_FAILED, context, undefined, { reason: 'email_not_verified', method: 'siwe' });
       throw new AppError(
         'Please verify your email before signing in.',
         403,
-        AuthErrorCode.EMAIL_NOT_VERIFIED,
-        'email'
+        AuthErrorCode.EMAIL_NOT_VERIFIED
       );
     }
 
-    // Generate JWT token
-    const token = generateToken({
-      email: userData.email,
-      user_id: userData.user_id,
-      user_type: userData.user_type,
-      email_verified: userData.email_verified,
-    });
-
-    // Update last login and reset failed attempts
-    const now = new Date().toISOString();
-    await (supabase.from('users') as any).update({
-      last_login_at: now,
-      failed_login_attempts: 0,
-      account_locked_until: null,
-      updated_at: now,
-    }).eq('email', email);
+    await markWalletUsed(wallet.wallet_id);
 
-    logger.info('User signed in successfully', {
-      user_id: userData.user_id,
-      email: userData.email,
-    });
+    if (userData.two_factor_enabled) {
+      logger.info('Two-factor challenge issued', { user_id: userData.user_id });
+      return {
+        two_factor_required: true,
+        challenge_token: generateTwoFactorChallengeToken(userData.user_id),
+        expiresIn: config.twoFactorChallengeMinutes * 60 * 1000,
+      };
+    }
 
-    return {
-      user_id: userData.user_id,
-      email: userData.email,
-      user_type: userData.user_type,
-      email_verified: userData.email_verified,
-      token,
-      expiresIn: getTokenExpirationMs(),
-    };
+    return await startUserSession(userData, context, { method: 'siwe', wallet_address: fields.address });
   } catch (error) {
     if (error instanceof AppError) {
       throw error;
     }
 
-    logger.error('Unexpected error during sign in', { error });
+    logger.error('Unexpected error during wallet sign in', { error });
     throw new AppError(
       'An unexpected error occurred during sign in',
       500,
@@ -520,25 +795,817 @@ export const signInUser = async (
 };
 
 /**
- * Log out user (currently a placeholder as JWT is stateless)
- * In the future, can implement token blacklist if needed
+ * Request a passwordless sign-in link
+ * Always reports success so the endpoint cannot be used to discover registered emails
  */
-export const logoutUser = async (email: string): Promise<void> => {
+export const requestMagicLink = async (
+  request: MagicLinkRequest
+): Promise<{ email: string; message: string }> => {
   const supabase = getSupabaseClient();
+  const message = 'If an account exists for this email, a sign-in link has been sent.';
 
   try {
-    logger.info('User logout initiated', { email });
+    const { email } = request;
 
-    // Update last activity timestamp if needed for logging purposes
-    const now = new Date().toISOString();
-    await (supabase.from('users') as any).update({
-      updated_at: now,
-    }).eq('email', email);
+    logger.info('Magic link requested', { email });
 
-    logger.info('User logged out successfully', { email });
+    const { data: user, error: findError } = await supabase
+      .from('users')
+      .select('user_id, full_name, is_active, email_verified')
+      .eq('email', email)
+      .single();
+
+    if (!user || findError) {
+      logger.warn('Magic link requested for non-existent user', { email });
+      return { email, message };
+    }
+
+    const linkUser = user as any;
+
+    // These accounts could not sign in with the link anyway
+    if (!linkUser.is_active || !linkUser.email_verified) {
+      logger.warn('Magic link requested for inactive or unverified account', { email });
+      return { email, message };
+    }
+
+    const tokenId = uuidv4();
+    const expiresAt = new Date(Date.now() + config.magicLinkExpirationMinutes * 60 * 1000);
+
+    const { error: insertError } = await (supabase.from('magic_link_tokens') as any).insert({
+      token_id: tokenId,
+      user_id: linkUser.user_id,
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (insertError) {
+      logger.error('Failed to store magic link token', { error: insertError, email });
+      throw new AppError(
+        'Failed to send sign-in link. Please try again.',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    const token = generateMagicLinkToken(linkUser.user_id, tokenId);
+    const link = `${config.frontendUrl}/login?magic_token=${encodeURIComponent(token)}`;
+
+    try {
+      if (config.enableEmailVerification) {
+        await sendMagicLinkEmail(email, link, linkUser.full_name);
+      }
+    } catch (emailError) {
+      logger.error('Failed to send magic link email', {
+        error: emailError,
+        email,
+      });
+
+      throw new AppError(
+        'Failed to send sign-in link. Please try again later.',
+        500,
+        AuthErrorCode.EMAIL_SEND_FAILED
+      );
+    }
+
+    logger.info('Magic link sent', { user_id: linkUser.user_id });
+
+    return { email, message };
   } catch (error) {
-    logger.error('Error during logout', { error, email });
-    // Don't throw - logout should always succeed client-side
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error requesting magic link', { error });
+    throw new AppError(
+      'An unexpected error occurred. Please try again.',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Mark a magic link as used
+ * Conditional update so a link can only be consumed once, and only before it expires
+ */
+const consumeMagicLinkToken = async (tokenId: string, userId: string): Promise<boolean> => {
+  const supabase = getSupabaseClient();
+  const now = new Date().toISOString();
+
+  const { data: updated, error } = await (supabase.from('magic_link_tokens') as any)
+    .update({ used_at: now })
+    .eq('token_id', tokenId)
+    .eq('user_id', userId)
+    .is('used_at', null)
+    .gt('expires_at', now)
+    .select('token_id');
+
+  if (error) {
+    logger.error('Failed to consume magic link token', { error });
+    throw new AppError(
+      'Failed to verify sign-in link',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  return !!updated && updated.length > 0;
+};
+
+/**
+ * Sign in with a magic link
+ * Applies the same account checks as the password path (lock, active,
+ * verified email, 2FA), then consumes the link
+ */
+export const signInWithMagicLink = async (
+  request: MagicLinkSignInRequest,
+  context: ActivityContext = {}
+): Promise<SignInSession | TwoFactorChallenge> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { user_id: userId, token_id: tokenId } = verifyMagicLinkToken(request.token);
+
+    logger.info('Starting magic link sign in', { user_id: userId });
+
+    const { data: user, error: findError } = await supabase
+      .from('users')
+      .select('user_id, email, user_type, email_verified, is_active, account_locked_until, failed_login_attempts, two_factor_enabled, deletion_scheduled_at')
+      .eq('user_id', userId)
+      .single();
+
+    if (!user || findError) {
+      logger.warn('Magic link for non-existent user', { user_id: userId });
+      throw new AppError(
+        'Sign-in link is invalid or has expired. Please request a new one.',
+        401,
+        AuthErrorCode.INVALID_TOKEN
+      );
+    }
+
+    const userData = user as any;
+
+    // Checked before the link is consumed so a locked account can retry with it later
+    await assertCanSignIn(userData, context);
+
+    if (!userData.email_verified) {
+      logger.warn('Magic link sign in with unverified email', { user_id: userId });
+      await recordActivity(userId, ActivityAction.SIGNIN_FAILED, context, undefined, { reason: 'email_not_verified', method: 'magic_link' });
+      throw new AppError(
+        'Please verify your email before signing in.',
+        403,
+        AuthErrorCode.EMAIL_NOT_VERIFIED
+      );
+    }
+
+    if (!(await consumeMagicLinkToken(tokenId, userId))) {
+      logger.warn('Magic link invalid, expired or already used', { user_id: userId });
+      throw new AppError(
+        'Sign-in link is invalid, has expired or was already used. Please request a new one.',
+        401,
+        AuthErrorCode.INVALID_TOKEN
+      );
+    }
+
+    if (userData.two_factor_enabled) {
+      logger.info('Two-factor challenge issued', { user_id: userId });
+      return {
+        two_factor_required: true,
+        challenge_token: generateTwoFactorChallengeToken(userId),
+        expiresIn: config.twoFactorChallengeMinutes * 60 * 1000,
+      };
+    }
+
+    return await startUserSession(userData, context, { method: 'magic_link' });
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error during magic link sign in', { error });
+    throw new AppError(
+      'An unexpected error occurred during sign in',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Columns read for every sign-in method
+ */
+const SIGN_IN_USER_COLUMNS = 'user_id, email, user_type, email_verified, is_active, account_locked_until, failed_login_attempts, two_factor_enabled, deletion_scheduled_at';
+
+/**
+ * Find or create the account for an external identity
+ * An unknown identity is linked to the account with the same (provider-verified)
+ * email, or to a new account created already verified
+ */
+const resolveOidcUser = async (
+  claims: OidcClaims,
+  context: ActivityContext
+): Promise<{ userData: any; identityId: string }> => {
+  const supabase = getSupabaseClient();
+
+  const { data: identity, error: identityError } = await (supabase
+    .from('user_identities')
+    .select('identity_id, user_id')
+    .eq('provider', claims.provider)
+    .eq('subject', claims.subject)
+    .maybeSingle() as any);
+
+  if (identityError) {
+    logger.error('Failed to look up external identity', { error: identityError, provider: claims.provider });
+    throw new AppError(
+      'Failed to complete sign in',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  if (identity) {
+    const { data: user, error: findError } = await supabase
+      .from('users')
+      .select(SIGN_IN_USER_COLUMNS)
+      .eq('user_id', identity.user_id)
+      .single();
+
+    if (!user || findError) {
+      logger.error('External identity linked to non-existent user', { identity_id: identity.identity_id });
+      throw new AppError(
+        'Failed to complete sign in',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    return { userData: user, identityId: identity.identity_id };
+  }
+
+  if (!claims.email) {
+    logger.warn('OIDC sign in without email claim', { provider: claims.provider });
+    throw new AppError(
+      'The sign-in provider did not share an email address. Allow email access and try again.',
+      400,
+      AuthErrorCode.OIDC_EMAIL_MISSING
+    );
+  }
+
+  // Linking on an unverified provider email would let anyone claim an account
+  if (!claims.email_verified) {
+    logger.warn('OIDC sign in with unverified provider email', { provider: claims.provider, email: claims.email });
+    throw new AppError(
+      'Your email address is not verified with this sign-in provider.',
+      403,
+      AuthErrorCode.EMAIL_NOT_VERIFIED
+    );
+  }
+
+  const { data: existingUser, error: findError } = await (supabase
+    .from('users')
+    .select(SIGN_IN_USER_COLUMNS)
+    .eq('email', claims.email)
+    .maybeSingle() as any);
+
+  if (findError) {
+    logger.error('Failed to look up user for external identity', { error: findError, email: claims.email });
+    throw new AppError(
+      'Failed to complete sign in',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  const now = new Date().toISOString();
+  let userData: any = existingUser;
+
+  if (userData && !userData.email_verified) {
+    // The provider proved ownership of the email. Whoever registered it
+    // without verifying did not, so their password is discarded.
+    const { error: updateError } = await (supabase.from('users') as any).update({
+      email_verified: true,
+      email_verification_otp: null,
+      email_otp_expires_at: null,
+      password_hash: await hashPassword(uuidv4()),
+      updated_at: now,
+    }).eq('user_id', userData.user_id);
+
+    if (updateError) {
+      logger.error('Failed to verify email for external identity', { error: updateError, user_id: userData.user_id });
+      throw new AppError(
+        'Failed to complete sign in',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    userData = { ...userData, email_verified: true };
+    await recordActivity(userData.user_id, ActivityAction.EMAIL_VERIFIED, context, undefined, { method: 'oidc', provider: claims.provider });
+  }
+
+  if (!userData) {
+    const userId = uuidv4();
+
+    // No password is set; the account signs in through the provider or resets one by email
+    const { error: insertError } = await (supabase.from('users') as any).insert({
+      user_id: userId,
+      email: claims.email,
+      password_hash: await hashPassword(uuidv4()),
+      email_verified: true,
+      user_type: 'buyer',
+      full_name: claims.name,
+      username: null,
+      profile_picture_url: claims.picture,
+      bio: null,
+      is_active: true,
+      failed_login_attempts: 0,
+      account_locked_until: null,
+      created_at: now,
+      updated_at: now,
+      last_login_at: null,
+    });
+
+    if (insertError) {
+      logger.error('Failed to create user for external identity', { error: insertError, email: claims.email });
+      throw new AppError(
+        'Failed to create user account',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    logger.info('User created from external identity', { user_id: userId, provider: claims.provider });
+
+    userData = {
+      user_id: userId,
+      email: claims.email,
+      user_type: 'buyer',
+      email_verified: true,
+      is_active: true,
+      account_locked_until: null,
+      failed_login_attempts: 0,
+      two_factor_enabled: false,
+      deletion_scheduled_at: null,
+    };
+  }
+
+  const identityId = uuidv4();
+
+  const { error: linkError } = await (supabase.from('user_identities') as any).insert({
+    identity_id: identityId,
+    user_id: userData.user_id,
+    provider: claims.provider,
+    subject: claims.subject,
+    email: claims.email,
+  });
+
+  if (linkError) {
+    logger.error('Failed to link external identity', { error: linkError, user_id: userData.user_id });
+    throw new AppError(
+      'Failed to complete sign in',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  await recordActivity(userData.user_id, ActivityAction.IDENTITY_LINKED, context, undefined, {
+    provider: claims.provider,
+    email: claims.email,
+  });
+
+  logger.info('External identity linked', { user_id: userData.user_id, provider: claims.provider });
+
+  return { userData, identityId };
+};
+
+/**
+ * Sign in with an OpenID Connect provider
+ * Completes the authorization code flow, then applies the same account checks
+ * as the other sign-in methods (lock, active, 2FA)
+ */
+export const signInWithOidc = async (
+  providerId: string,
+  code: string,
+  state: string,
+  stateCookie: string | undefined,
+  context: ActivityContext = {}
+): Promise<SignInSession | TwoFactorChallenge> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const claims = await completeOidcAuthorization(providerId, code, state, stateCookie);
+
+    logger.info('Starting OIDC sign in', { provider: claims.provider });
+
+    const { userData, identityId } = await resolveOidcUser(claims, context);
+
+    await assertCanSignIn(userData, context);
+
+    await (supabase.from('user_identities') as any)
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('identity_id', identityId);
+
+    if (userData.two_factor_enabled) {
+      logger.info('Two-factor challenge issued', { user_id: userData.user_id });
+      return {
+        two_factor_required: true,
+        challenge_token: generateTwoFactorChallengeToken(userData.user_id),
+        expiresIn: config.twoFactorChallengeMinutes * 60 * 1000,
+      };
+    }
+
+    return await startUserSession(userData, context, { method: 'oidc', provider: claims.provider });
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error during OIDC sign in', { providerId, error });
+    throw new AppError(
+      'An unexpected error occurred during sign in',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Request a password reset code
+ * Always reports success so the endpoint cannot be used to discover registered emails
+ */
+export const requestPasswordReset = async (
+  request: ForgotPasswordRequest
+): Promise<{ email: string; message: string }> => {
+  const supabase = getSupabaseClient();
+  const message = 'If an account exists for this email, a password reset code has been sent.';
+
+  try {
+    const { email } = request;
+
+    logger.info('Password reset requested', { email });
+
+    // Find user by email
+    const { data: user, error: findError } = await supabase
+      .from('users')
+      .select('user_id, full_name, is_active')
+      .eq('email', email)
+      .single();
+
+    if (!user || findError) {
+      logger.warn('Password reset requested for non-existent user', { email });
+      return { email, message };
+    }
+
+    const resetUser = user as any;
+
+    if (!resetUser.is_active) {
+      logger.warn('Password reset requested for inactive account', { email });
+      return { email, message };
+    }
+
+    // Generate reset code (replaces any previously issued code)
+    const resetOtp = generateOtp();
+    const resetOtpExpiresAt = calculateOtpExpiration();
+
+    const now = new Date().toISOString();
+    const { error: updateError } = await (supabase.from('users') as any).update({
+      password_reset_otp: hashOtp(resetOtp, resetUser.user_id),
+      password_reset_otp_expires_at: resetOtpExpiresAt.toISOString(),
+      ...otpAttemptsReset('password_reset'),
+      updated_at: now,
+    }).eq('user_id', resetUser.user_id);
+
+    if (updateError) {
+      logger.error('Failed to store password reset code', { error: updateError, email });
+      throw new AppError(
+        'Failed to start password reset. Please try again.',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    // Send reset code email
+    try {
+      if (config.enableEmailVerification) {
+        await sendPasswordResetEmail(email, resetOtp, resetUser.full_name);
+      }
+    } catch (emailError) {
+      logger.error('Failed to send password reset email', {
+        error: emailError,
+        email,
+      });
+
+      throw new AppError(
+        'Failed to send password reset email. Please try again later.',
+        500,
+        AuthErrorCode.EMAIL_SEND_FAILED
+      );
+    }
+
+    logger.info('Password reset code sent', { user_id: resetUser.user_id, email });
+
+    return { email, message };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error during password reset request', { error });
+    throw new AppError(
+      'An unexpected error occurred during password reset request',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Reset password with a reset code
+ * Consumes the code, unlocks the account and revokes all existing sessions
+ */
+export const resetUserPassword = async (
+  request: ResetPasswordRequest,
+  context: ActivityContext = {}
+): Promise<{ email: string; message: string }> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { email, otp, new_password } = request;
+
+    logger.info('Starting password reset', { email });
+
+    // Validate OTP format
+    if (!isValidOtpFormat(otp)) {
+      throw new AppError(
+        'Invalid reset code format. Code must be 6 digits.',
+        400,
+        AuthErrorCode.INVALID_OTP,
+        'otp'
+      );
+    }
+
+    // Validate new password strength
+    const passwordError = getPasswordValidationError(new_password);
+    if (passwordError) {
+      throw new AppError(
+        passwordError,
+        400,
+        'VALIDATION_ERROR',
+        'new_password'
+      );
+    }
+
+    // Find user by email
+    const { data: user, error: findError } = await supabase
+      .from('users')
+      .select('user_id, password_reset_otp, password_reset_otp_expires_at, password_reset_otp_attempts, is_active')
+      .eq('email', email)
+      .single();
+
+    const userData = user as any;
+
+    // Unknown emails get the same response as a wrong code
+    if (!userData || findError || !userData.password_reset_otp) {
+      logger.warn('Invalid password reset code provided', { email });
+      throw new AppError(
+        'Invalid reset code. Please check and try again.',
+        400,
+        AuthErrorCode.INVALID_OTP,
+        'otp'
+      );
+    }
+
+    // Check if reset code has expired
+    if (!userData.password_reset_otp_expires_at || isOtpExpired(new Date(userData.password_reset_otp_expires_at))) {
+      logger.warn('Password reset attempt with expired code', { email });
+      throw new AppError(
+        'Reset code has expired. Please request a new one.',
+        400,
+        AuthErrorCode.OTP_EXPIRED,
+        'otp'
+      );
+    }
+
+    // Constant-time comparison, limited attempts per code
+    await verifyOtpAttempt(
+      userData.user_id,
+      'password_reset',
+      otp,
+      userData.password_reset_otp,
+      userData.password_reset_otp_attempts
+    );
+
+    if (!userData.is_active) {
+      logger.warn('Password reset attempt on inactive account', { email });
+      throw new AppError(
+        'Your account has been deactivated. Contact support for assistance.',
+        401,
+        AuthErrorCode.ACCOUNT_INACTIVE
+      );
+    }
+
+    const passwordHash = await hashPassword(new_password);
+
+    // Conditional update consumes the code exactly once, even under concurrent requests
+    const now = new Date().toISOString();
+    const { data: updated, error: updateError } = await (supabase.from('users') as any)
+      .update({
+        password_hash: passwordHash,
+        password_reset_otp: null,
+        password_reset_otp_expires_at: null,
+        ...otpAttemptsReset('password_reset'),
+        failed_login_attempts: 0,
+        account_locked_until: null,
+        updated_at: now,
+      })
+      .eq('user_id', userData.user_id)
+      .eq('password_reset_otp', userData.password_reset_otp)
+      .select('user_id');
+
+    if (updateError) {
+      logger.error('Failed to reset password', { error: updateError, email });
+      throw new AppError(
+        'Failed to reset password. Please try again.',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    if (!updated || updated.length === 0) {
+      logger.warn('Password reset code already used', { email });
+      throw new AppError(
+        'Invalid reset code. Please check and try again.',
+        400,
+        AuthErrorCode.INVALID_OTP,
+        'otp'
+      );
+    }
+
+    // Sessions opened with the old password are no longer trusted
+    await revokeAllUserTokens(userData.user_id);
+    await revokeAllUserRefreshTokens(userData.user_id);
+
+    await recordActivity(userData.user_id, ActivityAction.PASSWORD_RESET, context);
+
+    logger.info('Password reset successfully', { user_id: userData.user_id, email });
+
+    return {
+      email,
+      message: 'Password has been reset. Please sign in with your new password.',
+    };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error during password reset', { error });
+    throw new AppError(
+      'An unexpected error occurred during password reset',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Refresh user session
+ * Rotates the refresh token and issues a new short-lived access token
+ */
+export const refreshUserSession = async (
+  refreshToken: string,
+  context: ActivityContext = {}
+): Promise<{ user_id: string; email: string; token: string; expiresIn: number; refreshToken: string; refreshExpiresIn: number }> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const rotated = await rotateRefreshToken(refreshToken);
+
+    // Re-read the user so role/status changes apply to the new access token
+    const { data: user, error: findError } = await supabase
+      .from('users')
+      .select('user_id, email, user_type, email_verified, is_active')
+      .eq('user_id', rotated.user_id)
+      .single();
+
+    if (!user || findError) {
+      logger.warn('Session refresh for non-existent user', { user_id: rotated.user_id });
+      throw new AppError(
+        'Invalid session. Please sign in again.',
+        401,
+        AuthErrorCode.INVALID_TOKEN
+      );
+    }
+
+    const userData = user as any;
+
+    if (!userData.is_active) {
+      logger.warn('Session refresh on inactive account', { user_id: userData.user_id });
+      await revokeRefreshToken(rotated.token);
+      throw new AppError(
+        'Your account has been deactivated. Contact support for assistance.',
+        401,
+        AuthErrorCode.ACCOUNT_INACTIVE
+      );
+    }
+
+    const token = generateToken({
+      email: userData.email,
+      user_id: userData.user_id,
+      user_type: userData.user_type,
+      email_verified: userData.email_verified,
+      wallet_address: await getPrimaryWalletAddress(userData.user_id),
+      sid: rotated.family_id,
+    });
+
+    await touchSession(rotated.family_id, rotated.expiresIn, context);
+
+    logger.info('Session refreshed', { user_id: userData.user_id });
+
+    return {
+      user_id: userData.user_id,
+      email: userData.email,
+      token,
+      expiresIn: getTokenExpirationMs(),
+      refreshToken: rotated.token,
+      refreshExpiresIn: rotated.expiresIn,
+    };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error during session refresh', { error });
+    throw new AppError(
+      'An unexpected error occurred during session refresh',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Log out user
+ * Revokes the current access token and the refresh token family
+ */
+export const logoutUser = async (
+  user: JWTPayload,
+  refreshToken?: string,
+  context: ActivityContext = {}
+): Promise<void> => {
+  const supabase = getSupabaseClient();
+  const { email } = user;
+
+  try {
+    logger.info('User logout initiated', { email });
+
+    await revokeToken(user.jti, user.exp);
+
+    if (refreshToken) {
+      await revokeRefreshToken(refreshToken);
+    }
+
+    // Update last activity timestamp if needed for logging purposes
+    const now = new Date().toISOString();
+    await (supabase.from('users') as any).update({
+      updated_at: now,
+    }).eq('email', email);
+
+    await recordActivity(user.user_id, ActivityAction.LOGOUT, context);
+
+    logger.info('User logged out successfully', { email });
+  } catch (error) {
+    logger.error('Error during logout', { error, email });
+    // Don't throw - logout should always succeed client-side
+  }
+};
+
+/**
+ * Sign out everywhere
+ * Revokes every access token and refresh token issued to the user
+ */
+export const logoutAllSessions = async (
+  userId: string,
+  context: ActivityContext = {}
+): Promise<void> => {
+  try {
+    logger.info('Sign out everywhere initiated', { user_id: userId });
+
+    await revokeAllUserTokens(userId);
+    await revokeAllUserRefreshTokens(userId);
+
+    await recordActivity(userId, ActivityAction.LOGOUT_ALL, context);
+
+    logger.info('All sessions revoked', { user_id: userId });
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error during sign out everywhere', { error, user_id: userId });
+    throw new AppError(
+      'Failed to sign out of all sessions',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
   }
 };
 
@@ -547,5 +1614,14 @@ export default {
   verifyEmailUser,
   resendOtpEmail,
   signInUser,
+  completeTwoFactorSignIn,
+  signInWithEthereum,
+  requestMagicLink,
+  signInWithMagicLink,
+  signInWithOidc,
+  requestPasswordReset,
+  resetUserPassword,
+  refreshUserSession,
   logoutUser,
+  logoutAllSessions,
 };
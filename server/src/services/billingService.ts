@@ -0,0 +1,709 @@
+import { getSupabaseClient } from '../config/supabase';
+import config from '../config/env';
+import logger from '../config/logger';
+import {
+  PLAN_CREDIT_GRANTS,
+  PLAN_PRICES,
+  PLAN_QUOTAS,
+  PLAN_TOKEN_LIMITS,
+  PLAN_USAGE_RESET_PERIODS,
+} from '../config/quotas';
+import { getPaymentProvider, FakePaymentProvider } from './paymentProviderService';
+import { invalidateUserPlan } from './quotaService';
+import { grantCredits } from './creditService';
+import { recordActivity } from './activityLogService';
+import {
+  AppError,
+  ActivityAction,
+  BillingErrorCode,
+  BillingEvent,
+  BillingPlan,
+  Invoice,
+  Subscription,
+  SubscriptionStatus,
+  UserPlan,
+} from '../types';
+
+/**
+ * Billing Service
+ * Plans, subscriptions and invoices, sold through the payment provider
+ * (services/paymentProviderService.ts)
+ *
+ * The provider is the source of truth: checkout and cancellation only ask it
+ * to act, and the resulting webhook events update the subscriptions and
+ * invoices tables. A user's plan follows their newest active subscription;
+ * changing it updates users.plan, user_usage.token_limit and reset period,
+ * grants the plan's credits and, through users.plan, the quotas.
+ */
+
+const PAID_PLANS: UserPlan[] = ['pro', 'merchant'];
+// Statuses that keep the subscription's plan; past_due keeps it while the provider retries payment
+const ACTIVE_STATUSES: SubscriptionStatus[] = ['active', 'trialing', 'past_due'];
+const UNIQUE_VIOLATION = '23505';
+
+const SUBSCRIPTION_COLUMNS =
+  'subscription_id, user_id, provider, provider_subscription_id, plan, status, current_period_start, current_period_end, cancel_at_period_end, canceled_at, created_at, updated_at';
+const INVOICE_COLUMNS =
+  'invoice_id, user_id, provider, provider_invoice_id, provider_subscription_id, number, status, amount_due, amount_paid, currency, hosted_invoice_url, period_start, period_end, paid_at, created_at';
+
+/**
+ * Unix seconds to ISO timestamp
+ */
+const fromUnix = (seconds?: number | null): string | null => {
+  return seconds ? new Date(seconds * 1000).toISOString() : null;
+};
+
+/**
+ * All plans with their price and limits
+ */
+export const getPlans = (): BillingPlan[] => {
+  return (Object.keys(PLAN_PRICES) as UserPlan[]).map((plan) => ({
+    plan,
+    name: PLAN_PRICES[plan].name,
+    price: {
+      amount: PLAN_PRICES[plan].amount,
+      currency: PLAN_PRICES[plan].currency,
+      interval: 'month',
+    },
+    token_limit: PLAN_TOKEN_LIMITS[plan],
+    usage_reset_period: PLAN_USAGE_RESET_PERIODS[plan],
+    credits: PLAN_CREDIT_GRANTS[plan],
+    quotas: {
+      chat: {
+        requests_per_minute: PLAN_QUOTAS[plan].chat.requestsPerMinute,
+        generations_per_day: PLAN_QUOTAS[plan].chat.generationsPerDay,
+      },
+      image: {
+        requests_per_minute: PLAN_QUOTAS[plan].image.requestsPerMinute,
+        generations_per_day: PLAN_QUOTAS[plan].image.generationsPerDay,
+      },
+    },
+  }));
+};
+
+/**
+ * The user's newest subscription in an active status, if any
+ */
+const getActiveSubscription = async (userId: string): Promise<Subscription | null> => {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .select(SUBSCRIPTION_COLUMNS)
+    .eq('user_id', userId)
+    .in('status', ACTIVE_STATUSES)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch subscription', { error, userId });
+    throw new AppError(
+      'Failed to fetch subscription',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  return (data as any) || null;
+};
+
+/**
+ * Current plan and subscription (null on the free plan)
+ */
+export const getSubscription = async (
+  userId: string
+): Promise<{ plan: UserPlan; subscription: Subscription | null }> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('plan')
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !user) {
+      logger.error('Failed to fetch user plan', { error, userId });
+      throw new AppError(
+        'Failed to fetch subscription',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    return {
+      plan: ((user as any).plan || 'free') as UserPlan,
+      subscription: await getActiveSubscription(userId),
+    };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error fetching subscription', { userId, error });
+    throw new AppError(
+      'Failed to fetch subscription',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * The user's provider customer id, created on first checkout
+ */
+const getOrCreateCustomer = async (userId: string): Promise<string> => {
+  const supabase = getSupabaseClient();
+  const provider = getPaymentProvider();
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('billing_customers')
+    .select('customer_id, provider')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (fetchError) {
+    logger.error('Failed to fetch billing customer', { error: fetchError, userId });
+    throw new AppError(
+      'Failed to start checkout',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  if (existing && (existing as any).provider === provider.name) {
+    return (existing as any).customer_id;
+  }
+
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('email')
+    .eq('user_id', userId)
+    .single();
+
+  if (userError || !user) {
+    logger.error('Failed to fetch user for billing customer', { error: userError, userId });
+    throw new AppError(
+      'Failed to start checkout',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  const customerId = await provider.createCustomer(userId, (user as any).email);
+
+  // Replaces a customer from a previous provider
+  const { error: upsertError } = await (supabase.from('billing_customers') as any).upsert(
+    { user_id: userId, provider: provider.name, customer_id: customerId },
+    { onConflict: 'user_id' }
+  );
+
+  if (upsertError) {
+    logger.error('Failed to save billing customer', { error: upsertError, userId });
+    throw new AppError(
+      'Failed to start checkout',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  return customerId;
+};
+
+/**
+ * Start a checkout for a paid plan
+ * @returns The provider's checkout URL to send the user to
+ * @throws AppError 400 PLAN_NOT_PURCHASABLE, 409 ALREADY_SUBSCRIBED
+ */
+export const createCheckout = async (
+  userId: string,
+  plan: UserPlan
+): Promise<{ session_id: string; checkout_url: string }> => {
+  try {
+    if (!PAID_PLANS.includes(plan)) {
+      throw new AppError(
+        'This plan is not available for purchase.',
+        400,
+        BillingErrorCode.PLAN_NOT_PURCHASABLE,
+        'plan'
+      );
+    }
+
+    const active = await getActiveSubscription(userId);
+    if (active) {
+      throw new AppError(
+        `You already have an active ${active.plan} subscription. Cancel it before switching plans.`,
+        409,
+        BillingErrorCode.ALREADY_SUBSCRIBED
+      );
+    }
+
+    const customerId = await getOrCreateCustomer(userId);
+    const session = await getPaymentProvider().createCheckoutSession({
+      customerId,
+      userId,
+      plan,
+      successUrl: `${config.frontendUrl}/profile?billing=success`,
+      cancelUrl: `${config.frontendUrl}/profile?billing=canceled`,
+    });
+
+    logger.info('Checkout session created', { userId, plan, sessionId: session.id });
+
+    return { session_id: session.id, checkout_url: session.url };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error creating checkout', { userId, plan, error });
+    throw new AppError(
+      'Failed to start checkout',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Cancel the active subscription at the end of its paid period
+ * The plan stays until the provider reports the subscription as canceled
+ * @throws AppError 404 SUBSCRIPTION_NOT_FOUND
+ */
+export const cancelSubscription = async (userId: string): Promise<Subscription> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const active = await getActiveSubscription(userId);
+    if (!active) {
+      throw new AppError(
+        'You do not have an active subscription.',
+        404,
+        BillingErrorCode.SUBSCRIPTION_NOT_FOUND
+      );
+    }
+
+    if (active.cancel_at_period_end) {
+      return active;
+    }
+
+    await getPaymentProvider().cancelSubscription(active.provider_subscription_id);
+
+    // Reflect the cancellation now; the provider's webhook confirms it
+    const { data: updated, error } = await (supabase.from('subscriptions') as any)
+      .update({ cancel_at_period_end: true, updated_at: new Date().toISOString() })
+      .eq('subscription_id', active.subscription_id)
+      .select(SUBSCRIPTION_COLUMNS)
+      .single();
+
+    if (error || !updated) {
+      logger.error('Failed to update canceled subscription', { error, userId });
+      throw new AppError(
+        'Failed to cancel subscription',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    logger.info('Subscription set to cancel at period end', {
+      userId,
+      subscriptionId: active.provider_subscription_id,
+    });
+
+    return updated;
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error canceling subscription', { userId, error });
+    throw new AppError(
+      'Failed to cancel subscription',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * The user's invoices, newest first
+ */
+export const getInvoices = async (
+  userId: string,
+  limit: number,
+  offset: number
+): Promise<{ invoices: Invoice[]; total: number }> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { data, error, count } = await supabase
+      .from('invoices')
+      .select(INVOICE_COLUMNS, { count: 'exact' })
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      logger.error('Failed to fetch invoices', { error, userId });
+      throw new AppError(
+        'Failed to fetch invoices',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    return { invoices: (data as any) || [], total: count || 0 };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error fetching invoices', { userId, error });
+    throw new AppError(
+      'Failed to fetch invoices',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Move a user to a plan
+ * Updates the plan, token limit and reset period, and grants the plan's
+ * credits when entering a paid plan. No-op if the user is already on it.
+ */
+const applyPlan = async (userId: string, plan: UserPlan, referenceId: string | null): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  const { data: user, error: fetchError } = await supabase
+    .from('users')
+    .select('plan')
+    .eq('user_id', userId)
+    .single();
+
+  if (fetchError || !user) {
+    logger.error('Failed to fetch user for plan change', { error: fetchError, userId });
+    throw new AppError(
+      'Failed to change plan',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  const previousPlan = ((user as any).plan || 'free') as UserPlan;
+  if (previousPlan === plan) {
+    return;
+  }
+
+  const { error: userError } = await (supabase.from('users') as any)
+    .update({ plan, updated_at: new Date().toISOString() })
+    .eq('user_id', userId);
+
+  if (userError) {
+    logger.error('Failed to update user plan', { error: userError, userId, plan });
+    throw new AppError(
+      'Failed to change plan',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  invalidateUserPlan(userId);
+
+  // Users who have not chatted yet get the new limits when their usage row is created
+  const { error: usageError } = await (supabase.from('user_usage') as any)
+    .update({
+      token_limit: PLAN_TOKEN_LIMITS[plan],
+      reset_period: PLAN_USAGE_RESET_PERIODS[plan],
+      updated_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId);
+
+  if (usageError) {
+    logger.error('Failed to update token limit for plan', { error: usageError, userId, plan });
+    throw new AppError(
+      'Failed to change plan',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  if (PAID_PLANS.includes(plan)) {
+    await grantCredits(userId, PLAN_CREDIT_GRANTS[plan], 'plan_grant', referenceId);
+  }
+
+  logger.info('User plan changed', { userId, from: previousPlan, to: plan });
+  await recordActivity(
+    userId,
+    ActivityAction.PLAN_CHANGED,
+    {},
+    referenceId ? { type: 'subscription', id: referenceId } : undefined,
+    { from: previousPlan, to: plan }
+  );
+};
+
+/**
+ * Find the user a provider object belongs to
+ * By customer id, falling back to the user_id metadata set at checkout
+ */
+const resolveUserId = async (object: Record<string, any>): Promise<string | null> => {
+  const supabase = getSupabaseClient();
+
+  if (object.customer) {
+    const { data, error } = await supabase
+      .from('billing_customers')
+      .select('user_id')
+      .eq('customer_id', object.customer)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to fetch billing customer', { error, customerId: object.customer });
+      throw new AppError(
+        'Failed to process billing event',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    if (data) {
+      return (data as any).user_id;
+    }
+  }
+
+  return object.metadata?.user_id || null;
+};
+
+/**
+ * Plan of a provider subscription: by Stripe price id, else the plan metadata set at checkout
+ */
+const resolvePlan = (object: Record<string, any>): UserPlan | null => {
+  const priceId = object.items?.data?.[0]?.price?.id;
+  const byPrice = PAID_PLANS.find((plan) => priceId && config.stripePriceIds[plan as 'pro' | 'merchant'] === priceId);
+  if (byPrice) {
+    return byPrice;
+  }
+
+  const plan = object.metadata?.plan;
+  return PAID_PLANS.includes(plan) ? plan : null;
+};
+
+/**
+ * Mirror a provider subscription and move the user to the plan it entitles them to
+ */
+const syncSubscription = async (object: Record<string, any>, deleted: boolean): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  const userId = await resolveUserId(object);
+  const plan = resolvePlan(object);
+
+  if (!userId || !plan) {
+    logger.warn('Ignoring subscription event for unknown user or plan', {
+      subscriptionId: object.id,
+      customerId: object.customer,
+    });
+    return;
+  }
+
+  // Newer Stripe API versions report the period per subscription item
+  const item = object.items?.data?.[0];
+  const status: SubscriptionStatus = deleted ? 'canceled' : object.status;
+
+  const { error } = await (supabase.from('subscriptions') as any).upsert(
+    {
+      user_id: userId,
+      provider: getPaymentProvider().name,
+      provider_subscription_id: object.id,
+      plan,
+      status,
+      current_period_start: fromUnix(object.current_period_start ?? item?.current_period_start),
+      current_period_end: fromUnix(object.current_period_end ?? item?.current_period_end),
+      cancel_at_period_end: Boolean(object.cancel_at_period_end),
+      canceled_at: fromUnix(object.canceled_at),
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'provider_subscription_id' }
+  );
+
+  if (error) {
+    logger.error('Failed to save subscription', { error, userId, subscriptionId: object.id });
+    throw new AppError(
+      'Failed to process billing event',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  // Another subscription may still be active (e.g. an old one ending after a new one started)
+  const active = await getActiveSubscription(userId);
+  await applyPlan(
+    userId,
+    active ? active.plan : 'free',
+    active ? active.provider_subscription_id : object.id
+  );
+};
+
+/**
+ * Mirror a provider invoice; a paid renewal grants the plan's credits again
+ */
+const syncInvoice = async (object: Record<string, any>): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  const userId = await resolveUserId(object);
+  if (!userId) {
+    logger.warn('Ignoring invoice event for unknown customer', {
+      invoiceId: object.id,
+      customerId: object.customer,
+    });
+    return;
+  }
+
+  const subscriptionId = object.subscription ?? object.parent?.subscription_details?.subscription ?? null;
+
+  const { error } = await (supabase.from('invoices') as any).upsert(
+    {
+      user_id: userId,
+      provider: getPaymentProvider().name,
+      provider_invoice_id: object.id,
+      provider_subscription_id: subscriptionId,
+      number: object.number || null,
+      status: object.status,
+      amount_due: object.amount_due || 0,
+      amount_paid: object.amount_paid || 0,
+      currency: object.currency,
+      hosted_invoice_url: object.hosted_invoice_url || null,
+      period_start: fromUnix(object.period_start),
+      period_end: fromUnix(object.period_end),
+      paid_at: fromUnix(object.status_transitions?.paid_at),
+    },
+    { onConflict: 'provider_invoice_id' }
+  );
+
+  if (error) {
+    logger.error('Failed to save invoice', { error, userId, invoiceId: object.id });
+    throw new AppError(
+      'Failed to process billing event',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  // The first period's credits come with the plan change (applyPlan)
+  if (object.status === 'paid' && object.billing_reason === 'subscription_cycle') {
+    const active = await getActiveSubscription(userId);
+    if (active) {
+      await grantCredits(userId, PLAN_CREDIT_GRANTS[active.plan], 'plan_renewal', object.id);
+    }
+  }
+};
+
+/**
+ * Apply a verified billing event
+ * Each event is applied once: its id is recorded first, so redeliveries are
+ * skipped, and released again if applying it fails so the provider's retry
+ * can succeed.
+ */
+export const processBillingEvent = async (event: BillingEvent): Promise<void> => {
+  const supabase = getSupabaseClient();
+  const provider = getPaymentProvider().name;
+
+  const { error: claimError } = await (supabase.from('billing_events') as any).insert({
+    event_id: event.id,
+    provider,
+    type: event.type,
+  });
+
+  if (claimError?.code === UNIQUE_VIOLATION) {
+    logger.info('Skipping already processed billing event', { eventId: event.id, type: event.type });
+    return;
+  }
+
+  if (claimError) {
+    logger.error('Failed to record billing event', { error: claimError, eventId: event.id });
+    throw new AppError(
+      'Failed to process billing event',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  try {
+    const object = event.data.object;
+
+    switch (event.type) {
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+        await syncSubscription(object, false);
+        break;
+      case 'customer.subscription.deleted':
+        await syncSubscription(object, true);
+        break;
+      case 'invoice.paid':
+      case 'invoice.payment_failed':
+      case 'invoice.finalized':
+        await syncInvoice(object);
+        break;
+      default:
+        logger.debug('Ignoring billing event type', { eventId: event.id, type: event.type });
+    }
+
+    logger.info('Billing event processed', { eventId: event.id, type: event.type });
+  } catch (error) {
+    await (supabase.from('billing_events') as any).delete().eq('event_id', event.id);
+
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error processing billing event', { eventId: event.id, type: event.type, error });
+    throw new AppError(
+      'Failed to process billing event',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Verify and apply a webhook delivery
+ * @throws AppError 400 INVALID_WEBHOOK_SIGNATURE
+ */
+export const handleWebhook = async (rawBody: Buffer, signature: string | undefined): Promise<BillingEvent> => {
+  const event = getPaymentProvider().parseWebhookEvent(rawBody, signature);
+  await processBillingEvent(event);
+  return event;
+};
+
+/**
+ * Complete a fake provider checkout, applying the events Stripe would send
+ * @returns Where to send the user
+ * @throws AppError 404 CHECKOUT_SESSION_NOT_FOUND (also when the provider is not fake)
+ */
+export const completeFakeCheckout = async (sessionId: string, userId: string): Promise<string> => {
+  const provider = getPaymentProvider();
+
+  if (!(provider instanceof FakePaymentProvider)) {
+    throw new AppError(
+      'Checkout session not found or already completed',
+      404,
+      BillingErrorCode.CHECKOUT_SESSION_NOT_FOUND
+    );
+  }
+
+  const { events, successUrl } = provider.completeCheckout(sessionId, userId);
+  for (const event of events) {
+    await processBillingEvent(event);
+  }
+
+  return successUrl;
+};
+
+export default {
+  getPlans,
+  getSubscription,
+  createCheckout,
+  cancelSubscription,
+  getInvoices,
+  processBillingEvent,
+  handleWebhook,
+  completeFakeCheckout,
+};
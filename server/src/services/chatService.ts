@@ -4,11 +4,18 @@ import logger from '../config/logger';
 import {
   Chat,
   Message,
+  ChatHistoryMessage,
+  ChatSearchResult,
+  UpdateChatRequest,
   UserUsage,
   AppError,
   ChatErrorCode,
 } from '../types';
 import config from '../config/env';
+import { PLAN_TOKEN_LIMITS, PLAN_USAGE_RESET_PERIODS } from '../config/quotas';
+import { getUserPlan } from './quotaService';
+import { getPeriodStart, getPeriodTokensUsed, recordUsageEvent } from './usageService';
+import { generateChatTitle } from './chatTitleService';
 
 /**
  * Chat Service
@@ -17,8 +24,41 @@ import config from '../config/env';
  * - Message management
  * - Token limit tracking
  * - Chat limit enforcement (max 5 per user)
+ * - Automatic titles for new chats (ENABLE_CHAT_AUTO_TITLE)
+ * - Full-text search over titles and messages
  */
 
+// Title of chats created without one; replaced after the first exchange
+export const DEFAULT_CHAT_TITLE = 'New Chat';
+
+// Most recent messages sent to the model as context
+const CONTEXT_MESSAGE_LIMIT = 10;
+
+/**
+ * One event of a streamed reply
+ * Text chunks, then the completion signal (done with tokens_used and
+ * message_id), then optionally the chat's generated title
+ */
+export interface ChatStreamChunk {
+  chunk: string;
+  done: boolean;
+  tokens_used?: number;
+  message_id?: string;
+  user_message_id?: string;
+  title?: string;
+}
+
+/**
+ * Position of a message in its chat's tree of branches
+ */
+interface MessageTreeNode {
+  message_id: string;
+  parent_message_id: string | null;
+  is_active: boolean; // On the active branch
+  is_current_version: boolean; // The version shown at its fork, kept while retired
+  created_at: Date;
+}
+
 /**
  * Get user's total chat count
  * Includes only active chats
@@ -81,7 +121,7 @@ export const createChat = async (
     // Generate chat ID and prepare data
     const chatId = uuidv4();
     const now = new Date().toISOString();
-    const chatTitle = title || 'New Chat';
+    const chatTitle = title || DEFAULT_CHAT_TITLE;
 
     // Insert new chat
     const { data, error } = await (supabase.from('chats') as any).insert({
@@ -89,6 +129,8 @@ export const createChat = async (
       user_id: userId,
       title: chatTitle,
       is_active: true,
+      is_pinned: false,
+      is_archived: false,
       created_at: now,
       updated_at: now,
     });
@@ -109,6 +151,8 @@ export const createChat = async (
       user_id: userId,
       title: chatTitle,
       is_active: true,
+      is_pinned: false,
+      is_archived: false,
       created_at: new Date(now),
       updated_at: new Date(now),
     };
@@ -125,19 +169,21 @@ export const createChat = async (
 
 /**
  * Get all active chats for a user
- * Returns paginated results ordered by most recent first
+ * Returns paginated results, pinned chats first, then most recent first
+ * Archived chats are listed only when `archived` is true, and then only them
  */
 export const getUserChats = async (
   userId: string,
   limit: number = 20,
-  offset: number = 0
+  offset: number = 0,
+  archived: boolean = false
 ): Promise<{ chats: Chat[]; total: number; active: number }> => {
   const supabase = getSupabaseClient();
 
   try {
-    logger.debug('Fetching user chats', { userId, limit, offset });
+    logger.debug('Fetching user chats', { userId, limit, offset, archived });
 
-    // Get total count of active chats
+    // Get total count of active chats (archived included: they count toward the chat limit)
     const { count: totalActive } = await supabase
       .from('chats')
       .select('*', { count: 'exact', head: true })
@@ -150,6 +196,8 @@ export const getUserChats = async (
       .select('*')
       .eq('user_id', userId)
       .eq('is_active', true)
+      .eq('is_archived', archived)
+      .order('is_pinned', { ascending: false })
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1);
 
@@ -167,6 +215,8 @@ export const getUserChats = async (
       user_id: chat.user_id,
       title: chat.title,
       is_active: chat.is_active,
+      is_pinned: chat.is_pinned ?? false,
+      is_archived: chat.is_archived ?? false,
       created_at: new Date(chat.created_at),
       updated_at: new Date(chat.updated_at),
     }));
@@ -239,6 +289,8 @@ export const getChat = async (
       user_id: data.user_id,
       title: data.title,
       is_active: data.is_active,
+      is_pinned: data.is_pinned ?? false,
+      is_archived: data.is_archived ?? false,
       created_at: new Date(data.created_at),
       updated_at: new Date(data.updated_at),
     };
@@ -255,6 +307,8 @@ export const getChat = async (
 
 /**
  * Get message history for a chat
+ * Returns the active branch, each message with its siblings (other versions
+ * at the same point of the conversation)
  * Includes authorization check
  */
 export const getChatMessages = async (
@@ -262,7 +316,7 @@ export const getChatMessages = async (
   userId: string,
   limit: number = 50,
   offset: number = 0
-): Promise<{ messages: Message[]; total: number }> => {
+): Promise<{ messages: ChatHistoryMessage[]; total: number }> => {
   const supabase = getSupabaseClient();
 
   try {
@@ -271,17 +325,19 @@ export const getChatMessages = async (
     // Verify chat ownership first
     await getChat(chatId, userId);
 
-    // Get total count
+    // Get total count (retired messages excluded)
     const { count: totalMessages } = await supabase
       .from('messages')
       .select('*', { count: 'exact', head: true })
-      .eq('chat_id', chatId);
+      .eq('chat_id', chatId)
+      .eq('is_active', true);
 
     // Fetch paginated messages ordered by creation time (oldest first for context)
     const { data, error } = await supabase
       .from('messages')
       .select('*')
       .eq('chat_id', chatId)
+      .eq('is_active', true)
       .order('created_at', { ascending: true })
       .range(offset, offset + limit - 1);
 
@@ -294,15 +350,30 @@ export const getChatMessages = async (
       );
     }
 
-    const messages: Message[] = (data || []).map((msg: any) => ({
-      message_id: msg.message_id,
-      chat_id: msg.chat_id,
-      role: msg.role,
-      content: msg.content,
-      metadata: msg.metadata || {},
-      tokens_consumed: msg.tokens_consumed || 0,
-      created_at: new Date(msg.created_at),
-    }));
+    // Group every message of the chat by parent to count siblings at forks
+    const siblingsByParent = new Map<string | null, string[]>();
+    for (const node of await getMessageTree(chatId)) {
+      const siblings = siblingsByParent.get(node.parent_message_id) || [];
+      siblings.push(node.message_id);
+      siblingsByParent.set(node.parent_message_id, siblings);
+    }
+
+    const messages: ChatHistoryMessage[] = (data || []).map((msg: any) => {
+      const siblingIds = siblingsByParent.get(msg.parent_message_id ?? null) || [msg.message_id];
+
+      return {
+        message_id: msg.message_id,
+        chat_id: msg.chat_id,
+        role: msg.role,
+        content: msg.content,
+        metadata: msg.metadata || {},
+        tokens_consumed: msg.tokens_consumed || 0,
+        parent_message_id: msg.parent_message_id ?? null,
+        created_at: new Date(msg.created_at),
+        sibling_ids: siblingIds,
+        sibling_count: siblingIds.length,
+      };
+    });
 
     return {
       messages,
@@ -319,15 +390,74 @@ export const getChatMessages = async (
   }
 };
 
+/**
+ * Full-text search over a user's chat titles and messages
+ * Only the user's own active chats are searched (archived included), and
+ * only messages on each chat's active branch
+ *
+ * @param query - Web search syntax: words, "quoted phrase", or, -excluded
+ * @returns Hits ranked best first, with highlighted snippets
+ */
+export const searchChats = async (
+  userId: string,
+  query: string,
+  limit: number = 20,
+  offset: number = 0
+): Promise<ChatSearchResult[]> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    logger.debug('Searching chats', { userId, queryLength: query.length, limit, offset });
+
+    const { data, error } = await (supabase as any).rpc('search_user_chats', {
+      p_user_id: userId,
+      p_query: query,
+      p_limit: limit,
+      p_offset: offset,
+    });
+
+    if (error) {
+      logger.error('Failed to search chats', { error, userId });
+      throw new AppError(
+        'Failed to search chats',
+        500,
+        'INTERNAL_SERVER_ERROR'
+      );
+    }
+
+    return ((data as any[]) || []).map((hit: any) => ({
+      chat_id: hit.chat_id,
+      chat_title: hit.chat_title,
+      is_archived: hit.is_archived ?? false,
+      message_id: hit.message_id ?? null,
+      role: hit.role ?? null,
+      snippet: hit.snippet,
+      rank: hit.rank,
+      created_at: new Date(hit.created_at),
+    }));
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    logger.error('Error in searchChats', { error, userId });
+    throw new AppError(
+      'Failed to search chats',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
 /**
  * Save a message to the database
+ * The message becomes the current version at its fork (see switchBranch)
+ * @param parentMessageId - Message it follows on its branch (null for the first)
  */
 export const saveMessage = async (
   chatId: string,
   role: 'user' | 'assistant' | 'system',
   content: string,
   tokensConsumed: number = 0,
-  metadata: Record<string, any> = {}
+  metadata: Record<string, any> = {},
+  parentMessageId: string | null = null
 ): Promise<Message> => {
   const supabase = getSupabaseClient();
 
@@ -342,6 +472,8 @@ export const saveMessage = async (
       content,
       tokens_consumed: tokensConsumed,
       metadata,
+      parent_message_id: parentMessageId,
+      is_current_version: true,
       created_at: now,
     });
 
@@ -354,6 +486,26 @@ export const saveMessage = async (
       );
     }
 
+    // Earlier versions at the same fork (an edit's original, a regenerated reply)
+    const siblings = (supabase.from('messages') as any)
+      .update({ is_current_version: false })
+      .eq('chat_id', chatId)
+      .eq('is_current_version', true)
+      .neq('message_id', messageId);
+
+    const { error: siblingsError } = await (parentMessageId
+      ? siblings.eq('parent_message_id', parentMessageId)
+      : siblings.is('parent_message_id', null));
+
+    if (siblingsError) {
+      logger.error('Failed to update message versions', { error: siblingsError, chatId, messageId });
+      throw new AppError(
+        'Failed to save message',
+        500,
+        'INTERNAL_SERVER_ERROR'
+      );
+    }
+
     logger.debug('Message saved successfully', { messageId, chatId, role });
 
     return {
@@ -363,6 +515,7 @@ export const saveMessage = async (
       content,
       tokens_consumed: tokensConsumed,
       metadata,
+      parent_message_id: parentMessageId,
       created_at: new Date(now),
     };
   } catch (error) {
@@ -385,7 +538,7 @@ export const checkTokenLimit = async (userId: string): Promise<boolean> => {
   try {
     const { data, error } = await (supabase
       .from('user_usage')
-      .select('total_tokens_used, token_limit')
+      .select('total_tokens_used, token_limit, reset_period, last_reset_at')
       .eq('user_id', userId)
       .single() as any);
 
@@ -396,7 +549,8 @@ export const checkTokenLimit = async (userId: string): Promise<boolean> => {
       return true; // Allow if new user
     }
 
-    return data.total_tokens_used < data.token_limit;
+    // Same count as GET /api/user/usage: an ended period no longer blocks
+    return getPeriodTokensUsed(data) < data.token_limit;
   } catch (error) {
     logger.error('Error checking token limit', { error, userId });
     // Default to allowing on error to not block user
@@ -412,12 +566,15 @@ export const initializeUserUsage = async (userId: string): Promise<void> => {
 
   try {
     const now = new Date().toISOString();
+    const plan = await getUserPlan(userId);
+    const resetPeriod = PLAN_USAGE_RESET_PERIODS[plan];
 
     const { error } = await (supabase.from('user_usage') as any).insert({
       user_id: userId,
       total_tokens_used: 0,
-      token_limit: config.defaultTokenLimit,
-      last_reset_at: now,
+      token_limit: PLAN_TOKEN_LIMITS[plan],
+      reset_period: resetPeriod,
+      last_reset_at: getPeriodStart(resetPeriod).toISOString(),
       created_at: now,
       updated_at: now,
     });
@@ -581,6 +738,423 @@ export const updateChatTitle = async (
   }
 };
 
+/**
+ * Update a chat's title, pin or archive state
+ * Archiving a chat also unpins it
+ */
+export const updateChat = async (
+  chatId: string,
+  userId: string,
+  updates: UpdateChatRequest
+): Promise<Chat> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    // Verify ownership first
+    const chat = await getChat(chatId, userId);
+
+    if (updates.title !== undefined && (updates.title.trim().length === 0 || updates.title.length > 255)) {
+      throw new AppError(
+        'Chat title must be between 1 and 255 characters',
+        400,
+        ChatErrorCode.INVALID_MESSAGE
+      );
+    }
+
+    const changes: Partial<Pick<Chat, 'title' | 'is_pinned' | 'is_archived'>> = {
+      ...(updates.title !== undefined && { title: updates.title.trim() }),
+      ...(updates.is_pinned !== undefined && { is_pinned: updates.is_pinned }),
+      ...(updates.is_archived !== undefined && { is_archived: updates.is_archived }),
+    };
+
+    if (changes.is_archived) {
+      changes.is_pinned = false;
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await (supabase
+      .from('chats') as any)
+      .update({
+        ...changes,
+        updated_at: now,
+      })
+      .eq('chat_id', chatId);
+
+    if (error) {
+      logger.error('Failed to update chat', { error, chatId });
+      throw new AppError(
+        'Failed to update chat',
+        500,
+        'INTERNAL_SERVER_ERROR'
+      );
+    }
+
+    logger.debug('Chat updated', { chatId, changes });
+
+    return {
+      ...chat,
+      ...changes,
+      updated_at: new Date(now),
+    };
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    logger.error('Error in updateChat', { error, chatId });
+    throw new AppError(
+      'Failed to update chat',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Read a chat's active messages, oldest first
+ * Private: callers check ownership first
+ *
+ * @param before - Only messages created before this time (default: all)
+ * @param limit - Most recent messages to return (default: all)
+ */
+const getActiveMessages = async (
+  chatId: string,
+  before?: Date,
+  limit?: number
+): Promise<Message[]> => {
+  const supabase = getSupabaseClient();
+
+  let query = supabase
+    .from('messages')
+    .select('*')
+    .eq('chat_id', chatId)
+    .eq('is_active', true);
+
+  if (before) {
+    query = query.lt('created_at', before.toISOString());
+  }
+
+  // Newest first so `limit` keeps the most recent, then put back in order
+  query = query.order('created_at', { ascending: false });
+  if (limit) {
+    query = query.limit(limit);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch active messages', { error, chatId });
+    throw new AppError(
+      'Failed to retrieve messages',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+
+  return ((data as any[]) || []).reverse().map((msg: any) => ({
+    message_id: msg.message_id,
+    chat_id: msg.chat_id,
+    role: msg.role,
+    content: msg.content,
+    metadata: msg.metadata || {},
+    tokens_consumed: msg.tokens_consumed || 0,
+    parent_message_id: msg.parent_message_id ?? null,
+    created_at: new Date(msg.created_at),
+  }));
+};
+
+/**
+ * Read the shape of a chat's message tree: every message, active or not,
+ * oldest first
+ * Private: callers check ownership first
+ */
+const getMessageTree = async (chatId: string): Promise<MessageTreeNode[]> => {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select('message_id, parent_message_id, is_active, is_current_version, created_at')
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch message tree', { error, chatId });
+    throw new AppError(
+      'Failed to retrieve messages',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+
+  return ((data as any[]) || []).map((msg: any) => ({
+    message_id: msg.message_id,
+    parent_message_id: msg.parent_message_id ?? null,
+    is_active: msg.is_active,
+    is_current_version: msg.is_current_version !== false,
+    created_at: new Date(msg.created_at),
+  }));
+};
+
+/**
+ * Move messages onto the active branch (history and model context) or
+ * retire them from it
+ */
+const setMessagesActive = async (
+  chatId: string,
+  messageIds: string[],
+  isActive: boolean
+): Promise<void> => {
+  if (messageIds.length === 0) return;
+
+  const supabase = getSupabaseClient();
+
+  const { error } = await (supabase.from('messages') as any)
+    .update({
+      is_active: isActive,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('chat_id', chatId)
+    .in('message_id', messageIds);
+
+  if (error) {
+    logger.error('Failed to update active messages', { error, chatId, isActive, count: messageIds.length });
+    throw new AppError(
+      'Failed to update messages',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+
+  logger.debug(isActive ? 'Messages restored' : 'Messages retired', { chatId, count: messageIds.length });
+};
+
+/**
+ * Mark messages as the current version at their fork, or clear the mark
+ */
+const setCurrentVersions = async (
+  chatId: string,
+  messageIds: string[],
+  isCurrent: boolean
+): Promise<void> => {
+  if (messageIds.length === 0) return;
+
+  const supabase = getSupabaseClient();
+
+  const { error } = await (supabase.from('messages') as any)
+    .update({ is_current_version: isCurrent })
+    .eq('chat_id', chatId)
+    .in('message_id', messageIds);
+
+  if (error) {
+    logger.error('Failed to update message versions', { error, chatId, isCurrent, count: messageIds.length });
+    throw new AppError(
+      'Failed to update messages',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Token limit check shared by every streaming entry point
+ */
+const assertTokenBudget = async (userId: string, chatId: string): Promise<void> => {
+  const hasTokenBudget = await checkTokenLimit(userId);
+  if (!hasTokenBudget) {
+    logger.warn('Token limit exceeded', { userId, chatId });
+    throw new AppError(
+      'You have exceeded your token limit. Please wait for your limit to reset.',
+      403,
+      ChatErrorCode.TOKEN_LIMIT_EXCEEDED
+    );
+  }
+};
+
+/**
+ * Stream a new assistant reply to a user message (already saved)
+ * Saves the reply, counts its tokens and yields the completion signal
+ *
+ * @param history - Context before the user message, oldest first
+ * @param userMessage - The saved user message being answered
+ * @param replaces - Messages to retire once the reply is saved (regeneration)
+ * @returns The full reply text
+ */
+const streamAssistantReply = async function* (
+  chatId: string,
+  userId: string,
+  history: Message[],
+  userMessage: Message,
+  replaces: string[] = []
+): AsyncGenerator<ChatStreamChunk, string, unknown> {
+  const supabase = getSupabaseClient();
+
+  // 1. Get Gemini client and initialize streaming
+  const { getGenerativeModel } = await import('../config/gemini');
+  const model = getGenerativeModel(config.geminiModel);
+
+  // 2. Build conversation history for model context
+  const conversationHistory = history.map(msg => ({
+    role: msg.role === 'assistant' ? 'model' : msg.role,
+    parts: [{ text: msg.content }],
+  }));
+
+  // Add current user message
+  conversationHistory.push({
+    role: 'user',
+    parts: [{ text: userMessage.content }],
+  });
+
+  logger.debug('Conversation history built', {
+    chatId,
+    messageCount: conversationHistory.length,
+  });
+
+  // 3. Stream response from Gemini
+  let fullResponse = '';
+  let chunkCount = 0;
+
+  try {
+    const result = await model.generateContentStream({
+      contents: conversationHistory as any,
+      generationConfig: {
+        maxOutputTokens: 2048,
+        temperature: 0.7,
+      },
+    });
+
+    // Iterate through the response stream
+    for await (const chunk of result.stream) {
+      try {
+        const chunkText =
+          chunk.candidates?.[0]?.content?.parts?.[0]?.text || '';
+
+        if (chunkText) {
+          fullResponse += chunkText;
+          chunkCount++;
+
+          logger.debug('Streaming chunk received', {
+            chatId,
+            chunkNumber: chunkCount,
+            chunkLength: chunkText.length,
+            totalLength: fullResponse.length,
+          });
+
+          // Yield chunk to client
+          yield {
+            chunk: chunkText,
+            done: false,
+          };
+        }
+      } catch (chunkError) {
+        logger.warn('Error processing individual chunk', {
+          error: chunkError,
+          chatId,
+        });
+        // Continue to next chunk on individual errors
+        continue;
+      }
+    }
+
+    logger.info('Streaming completed', {
+      chatId,
+      totalChunks: chunkCount,
+      totalResponseLength: fullResponse.length,
+    });
+  } catch (streamError: any) {
+    logger.error('Error during streaming', { 
+      error: streamError,
+      status: streamError?.status,
+      statusText: streamError?.statusText,
+      message: streamError?.message,
+      chatId 
+    });
+    
+    // Provide more specific error based on status
+    if (streamError?.status === 400) {
+      throw new AppError(
+        'Invalid request format. Please try again with a shorter message.',
+        400,
+        'BAD_REQUEST'
+      );
+    }
+    
+    throw new AppError(
+      'Failed to generate response. Please try again.',
+      500,
+      'STREAM_ERROR'
+    );
+  }
+
+  // 4. Save assistant response to database
+  const responseMessage = await saveMessage(
+    chatId,
+    'assistant',
+    fullResponse,
+    0,
+    {
+      source: 'gemini_stream',
+      model: config.geminiModel,
+      chunks: chunkCount,
+      timestamp: new Date().toISOString(),
+      ...(replaces.length > 0 && { regenerated: true }),
+    },
+    userMessage.message_id
+  );
+
+  // 5. Retire the reply this one replaces
+  await setMessagesActive(chatId, replaces, false);
+
+  // 6. Calculate tokens consumed for this exchange
+  const { calculateMessageTokens } = await import(
+    '../utils/tokenService'
+  );
+
+  const tokenStats = await calculateMessageTokens(
+    userMessage.content,
+    fullResponse,
+    config.geminiModel
+  );
+
+  logger.info('Token calculation completed', {
+    chatId,
+    userId,
+    ...tokenStats,
+  });
+
+  // 7. Update user token usage and record the exchange in the ledger
+  await updateUserUsage(userId, tokenStats.total_tokens);
+  await recordUsageEvent(userId, {
+    chat_id: chatId,
+    message_id: responseMessage.message_id,
+    model: config.geminiModel,
+    tokens: tokenStats.total_tokens,
+    details: tokenStats,
+  });
+
+  // 8. Update message tokens
+  await (supabase.from('messages') as any)
+    .update({
+      tokens_consumed: tokenStats.total_tokens,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('message_id', responseMessage.message_id);
+
+  logger.info('Assistant reply completed', {
+    chatId,
+    userId,
+    tokens_used: tokenStats.total_tokens,
+    message_id: responseMessage.message_id,
+  });
+
+  // 9. Yield final completion signal with metadata
+  yield {
+    chunk: '',
+    done: true,
+    tokens_used: tokenStats.total_tokens,
+    message_id: responseMessage.message_id,
+    user_message_id: userMessage.message_id,
+  };
+
+  return fullResponse;
+};
+
 /**
  * Stream chat response from Gemini API
  * Generates response chunks using server-sent events
@@ -591,6 +1165,8 @@ export const updateChatTitle = async (
  * 3. Calls Gemini with streaming enabled
  * 4. Yields response chunks as they arrive
  * 5. Accumulates full response for token counting and persistence
+ * 6. After the first exchange of an untitled chat, names the chat and
+ *    yields the new title (after the completion signal)
  *
  * @param chatId - Chat identifier
  * @param userId - User identifier for authorization
@@ -603,18 +1179,7 @@ export const streamChatResponse = async function* (
   chatId: string,
   userId: string,
   userMessage: string
-): AsyncGenerator<
-  {
-    chunk: string;
-    done: boolean;
-    tokens_used?: number;
-    message_id?: string;
-  },
-  void,
-  unknown
-> {
-  const supabase = getSupabaseClient();
-
+): AsyncGenerator<ChatStreamChunk, void, unknown> {
   try {
     logger.info('streamChatResponse initiated', {
       chatId,
@@ -623,196 +1188,318 @@ export const streamChatResponse = async function* (
     });
 
     // 1. Verify chat ownership and active status
-    await getChat(chatId, userId);
+    const chat = await getChat(chatId, userId);
 
     // 2. Check token limit before processing
-    const hasTokenBudget = await checkTokenLimit(userId);
-    if (!hasTokenBudget) {
-      logger.warn('Token limit exceeded', { userId, chatId });
-      throw new AppError(
-        'You have exceeded your token limit. Please wait for your limit to reset.',
-        403,
-        ChatErrorCode.TOKEN_LIMIT_EXCEEDED
-      );
-    }
+    await assertTokenBudget(userId, chatId);
 
     // 3. Load chat history for context (last 10 messages for context window)
-    const { messages: chatHistory } = await getChatMessages(
-      chatId,
-      userId,
-      10,
-      0
-    );
+    const chatHistory = await getActiveMessages(chatId, undefined, CONTEXT_MESSAGE_LIMIT);
 
     logger.debug('Chat history loaded', {
       chatId,
       messageCount: chatHistory.length,
     });
 
-    // 4. Save user message to database
-    await saveMessage(chatId, 'user', userMessage, 0, {
-      source: 'user_input',
-      timestamp: new Date().toISOString(),
-    });
+    // 4. Save user message at the end of the active branch
+    const savedUserMessage = await saveMessage(
+      chatId,
+      'user',
+      userMessage,
+      0,
+      {
+        source: 'user_input',
+        timestamp: new Date().toISOString(),
+      },
+      chatHistory[chatHistory.length - 1]?.message_id ?? null
+    );
 
-    // 5. Get Gemini client and initialize streaming
-    const { getGenerativeModel } = await import('../config/gemini');
-    const model = getGenerativeModel(config.geminiModel);
+    // 5. Stream, save and count the reply
+    const fullResponse = yield* streamAssistantReply(chatId, userId, chatHistory, savedUserMessage);
 
-    // 6. Build conversation history for model context
-    const conversationHistory = chatHistory.map(msg => ({
-      role: msg.role === 'assistant' ? 'model' : msg.role,
-      parts: [{ text: msg.content }],
-    }));
+    // 6. Name an untitled chat from its opening exchange (best effort)
+    if (config.enableChatAutoTitle && chatHistory.length === 0 && chat.title === DEFAULT_CHAT_TITLE) {
+      const title = await generateChatTitle(userMessage, fullResponse);
 
-    // Add current user message
-    conversationHistory.push({
-      role: 'user',
-      parts: [{ text: userMessage }],
-    });
+      if (title) {
+        try {
+          await updateChatTitle(chatId, userId, title);
+          yield {
+            chunk: '',
+            done: false,
+            title,
+          };
+        } catch (titleError) {
+          logger.warn('Failed to save generated chat title', { error: titleError, chatId });
+        }
+      }
+    }
+  } catch (error) {
+    logger.error('streamChatResponse error', { error, chatId, userId });
+    if (error instanceof AppError) throw error;
+    throw new AppError(
+      'Failed to process message stream',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Edit a user message and stream a new reply from that point
+ * The edit is saved as a sibling of the original, which is retired with
+ * every message after it (switch back with switchBranch). The edit is kept
+ * even if the new reply fails (regenerate to retry)
+ *
+ * @throws AppError 404 MESSAGE_NOT_FOUND, 400 MESSAGE_NOT_EDITABLE
+ */
+export const streamEditedMessage = async function* (
+  chatId: string,
+  userId: string,
+  messageId: string,
+  newContent: string
+): AsyncGenerator<ChatStreamChunk, void, unknown> {
+  const supabase = getSupabaseClient();
 
-    logger.debug('Conversation history built', {
+  try {
+    logger.info('streamEditedMessage initiated', {
       chatId,
-      messageCount: conversationHistory.length,
+      userId,
+      messageId,
+      messageLength: newContent.length,
     });
 
-    // 7. Stream response from Gemini
-    let fullResponse = '';
-    let chunkCount = 0;
-
-    try {
-      const result = await model.generateContentStream({
-        contents: conversationHistory as any,
-        generationConfig: {
-          maxOutputTokens: 2048,
-          temperature: 0.7,
-        },
-      });
-
-      // Iterate through the response stream
-      for await (const chunk of result.stream) {
-        try {
-          const chunkText =
-            chunk.candidates?.[0]?.content?.parts?.[0]?.text || '';
-
-          if (chunkText) {
-            fullResponse += chunkText;
-            chunkCount++;
-
-            logger.debug('Streaming chunk received', {
-              chatId,
-              chunkNumber: chunkCount,
-              chunkLength: chunkText.length,
-              totalLength: fullResponse.length,
-            });
-
-            // Yield chunk to client
-            yield {
-              chunk: chunkText,
-              done: false,
-            };
-          }
-        } catch (chunkError) {
-          logger.warn('Error processing individual chunk', {
-            error: chunkError,
-            chatId,
-          });
-          // Continue to next chunk on individual errors
-          continue;
-        }
-      }
+    // 1. Verify chat ownership and the message
+    await getChat(chatId, userId);
 
-      logger.info('Streaming completed', {
-        chatId,
-        totalChunks: chunkCount,
-        totalResponseLength: fullResponse.length,
-      });
-    } catch (streamError: any) {
-      logger.error('Error during streaming', { 
-        error: streamError,
-        status: streamError?.status,
-        statusText: streamError?.statusText,
-        message: streamError?.message,
-        chatId 
-      });
-      
-      // Provide more specific error based on status
-      if (streamError?.status === 400) {
-        throw new AppError(
-          'Invalid request format. Please try again with a shorter message.',
-          400,
-          'BAD_REQUEST'
-        );
-      }
-      
+    const { data: message, error: messageError } = await (supabase
+      .from('messages')
+      .select('*')
+      .eq('message_id', messageId)
+      .eq('chat_id', chatId)
+      .eq('is_active', true)
+      .maybeSingle() as any);
+
+    if (messageError || !message) {
+      logger.warn('Message to edit not found', { chatId, messageId, error: messageError });
+      throw new AppError(
+        'Message not found',
+        404,
+        ChatErrorCode.MESSAGE_NOT_FOUND
+      );
+    }
+
+    if (message.role !== 'user' || message.metadata?.type === 'image') {
+      throw new AppError(
+        'Only your own text messages can be edited',
+        400,
+        ChatErrorCode.MESSAGE_NOT_EDITABLE
+      );
+    }
+
+    // 2. Check token limit before processing
+    await assertTokenBudget(userId, chatId);
+
+    // 3. Save the edit as a new version of the message (a sibling), then
+    //    move the active branch onto it: the message and everything after
+    //    it are retired, not overwritten
+    const createdAt = new Date(message.created_at);
+    const { data: replaced, error: replacedError } = await supabase
+      .from('messages')
+      .select('message_id')
+      .eq('chat_id', chatId)
+      .eq('is_active', true)
+      .gte('created_at', createdAt.toISOString());
+
+    if (replacedError) {
+      logger.error('Failed to fetch messages after edit', { error: replacedError, chatId, messageId });
       throw new AppError(
-        'Failed to generate response. Please try again.',
+        'Failed to edit message',
         500,
-        'STREAM_ERROR'
+        'INTERNAL_SERVER_ERROR'
       );
     }
 
-    // 8. Save assistant response to database
-    const responseMessage = await saveMessage(
+    const editedMessage = await saveMessage(
       chatId,
-      'assistant',
-      fullResponse,
+      'user',
+      newContent,
       0,
       {
-        source: 'gemini_stream',
-        model: config.geminiModel,
-        chunks: chunkCount,
+        source: 'user_input',
+        edited_from: messageId,
         timestamp: new Date().toISOString(),
-      }
+      },
+      message.parent_message_id ?? null
     );
 
-    // 9. Calculate tokens consumed for this exchange
-    const { countTextTokens, calculateMessageTokens } = await import(
-      '../utils/tokenService'
+    await setMessagesActive(chatId, ((replaced as any[]) || []).map((msg) => msg.message_id), false);
+
+    // 4. Stream a new reply with the context before the edited message
+    const history = await getActiveMessages(chatId, createdAt, CONTEXT_MESSAGE_LIMIT);
+    yield* streamAssistantReply(chatId, userId, history, editedMessage);
+  } catch (error) {
+    logger.error('streamEditedMessage error', { error, chatId, userId, messageId });
+    if (error instanceof AppError) throw error;
+    throw new AppError(
+      'Failed to process message stream',
+      500,
+      'INTERNAL_SERVER_ERROR'
     );
+  }
+};
 
-    const tokenStats = await calculateMessageTokens(
-      userMessage,
-      fullResponse,
-      config.geminiModel
+/**
+ * Stream a new reply to the last user message
+ * Replaces the last assistant reply, which is retired once the new one is
+ * saved and stays as its sibling; also answers a last user message left
+ * without a reply
+ *
+ * @throws AppError 400 NOTHING_TO_REGENERATE
+ */
+export const streamRegeneratedResponse = async function* (
+  chatId: string,
+  userId: string
+): AsyncGenerator<ChatStreamChunk, void, unknown> {
+  try {
+    logger.info('streamRegeneratedResponse initiated', { chatId, userId });
+
+    // 1. Verify chat ownership and active status
+    await getChat(chatId, userId);
+
+    // 2. Check token limit before processing
+    await assertTokenBudget(userId, chatId);
+
+    // 3. Find the user message to answer again
+    const [last] = await getActiveMessages(chatId, undefined, 1);
+    if (!last || last.metadata?.type === 'image') {
+      throw new AppError(
+        'There is no reply to regenerate',
+        400,
+        ChatErrorCode.NOTHING_TO_REGENERATE
+      );
+    }
+
+    let userMessage: Message | undefined = last;
+    const replaces: string[] = [];
+
+    if (last.role === 'assistant') {
+      replaces.push(last.message_id);
+      [userMessage] = await getActiveMessages(chatId, last.created_at, 1);
+    }
+
+    if (!userMessage || userMessage.role !== 'user') {
+      throw new AppError(
+        'There is no reply to regenerate',
+        400,
+        ChatErrorCode.NOTHING_TO_REGENERATE
+      );
+    }
+
+    // 4. Stream a new reply with the context before the user message
+    const history = await getActiveMessages(chatId, userMessage.created_at, CONTEXT_MESSAGE_LIMIT);
+    yield* streamAssistantReply(chatId, userId, history, userMessage, replaces);
+  } catch (error) {
+    logger.error('streamRegeneratedResponse error', { error, chatId, userId });
+    if (error instanceof AppError) throw error;
+    throw new AppError(
+      'Failed to process message stream',
+      500,
+      'INTERNAL_SERVER_ERROR'
     );
+  }
+};
 
-    logger.info('Token calculation completed', {
-      chatId,
-      userId,
-      ...tokenStats,
-    });
+/**
+ * Switch a chat's active branch to the one through a message
+ * The message and its ancestors become the current version at their forks;
+ * below the message the branch follows the current version at each fork.
+ * Every other message is retired
+ *
+ * @throws AppError 404 MESSAGE_NOT_FOUND
+ */
+export const switchBranch = async (
+  chatId: string,
+  userId: string,
+  messageId: string
+): Promise<void> => {
+  try {
+    logger.debug('Switching chat branch', { chatId, userId, messageId });
 
-    // 10. Update user token usage
-    await updateUserUsage(userId, tokenStats.total_tokens);
+    // Verify chat ownership first
+    await getChat(chatId, userId);
 
-    // 11. Update message tokens
-    await (supabase.from('messages') as any)
-      .update({
-        tokens_consumed: tokenStats.total_tokens,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('message_id', responseMessage.message_id);
+    const tree = await getMessageTree(chatId);
+    const byId = new Map(tree.map((node) => [node.message_id, node]));
+    const target = byId.get(messageId);
+
+    if (!target) {
+      throw new AppError(
+        'Message not found',
+        404,
+        ChatErrorCode.MESSAGE_NOT_FOUND
+      );
+    }
 
-    logger.info('streamChatResponse completed successfully', {
+    if (target.is_active) return;
+
+    // Children of each message; the chat's first messages are children of null
+    const childrenOf = new Map<string | null, MessageTreeNode[]>();
+    for (const node of tree) {
+      const children = childrenOf.get(node.parent_message_id) || [];
+      children.push(node);
+      childrenOf.set(node.parent_message_id, children);
+    }
+
+    // 1. The message and its ancestors, which become the current version
+    //    at their forks in place of their siblings
+    const branch = new Set<string>();
+    const selected: string[] = [];
+    const deselected: string[] = [];
+    for (
+      let node: MessageTreeNode | undefined = target;
+      node;
+      node = node.parent_message_id ? byId.get(node.parent_message_id) : undefined
+    ) {
+      branch.add(node.message_id);
+
+      if (!node.is_current_version) {
+        selected.push(node.message_id);
+        for (const sibling of childrenOf.get(node.parent_message_id) || []) {
+          if (sibling.is_current_version) deselected.push(sibling.message_id);
+        }
+      }
+    }
+
+    // 2. Its descendants, following the current version at each fork
+    //    (tree is oldest first: the newest child if none is marked)
+    let children = childrenOf.get(target.message_id);
+    while (children) {
+      const current = children.find((child) => child.is_current_version) || children[children.length - 1];
+      branch.add(current.message_id);
+      children = childrenOf.get(current.message_id);
+    }
+
+    // 3. Record the versions, retire the old branch, then restore the new one
+    await setCurrentVersions(chatId, deselected, false);
+    await setCurrentVersions(chatId, selected, true);
+    await setMessagesActive(
       chatId,
-      userId,
-      tokens_used: tokenStats.total_tokens,
-      message_id: responseMessage.message_id,
-    });
+      tree.filter((node) => node.is_active && !branch.has(node.message_id)).map((node) => node.message_id),
+      false
+    );
+    await setMessagesActive(
+      chatId,
+      tree.filter((node) => !node.is_active && branch.has(node.message_id)).map((node) => node.message_id),
+      true
+    );
 
-    // 12. Yield final completion signal with metadata
-    yield {
-      chunk: '',
-      done: true,
-      tokens_used: tokenStats.total_tokens,
-      message_id: responseMessage.message_id,
-    };
+    logger.info('Chat branch switched', { chatId, userId, messageId, branchLength: branch.size });
   } catch (error) {
-    logger.error('streamChatResponse error', { error, chatId, userId });
     if (error instanceof AppError) throw error;
+    logger.error('Error in switchBranch', { error, chatId, userId, messageId });
     throw new AppError(
-      'Failed to process message stream',
+      'Failed to switch branch',
       500,
       'INTERNAL_SERVER_ERROR'
     );
@@ -825,6 +1512,7 @@ export default {
   getUserChats,
   getChat,
   getChatMessages,
+  searchChats,
   saveMessage,
   checkTokenLimit,
   initializeUserUsage,
@@ -832,5 +1520,9 @@ export default {
   deleteChat,
   estimateTokens,
   updateChatTitle,
+  updateChat,
   streamChatResponse,
+  streamEditedMessage,
+  streamRegeneratedResponse,
+  switchBranch,
 };
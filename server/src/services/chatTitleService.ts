@@ -0,0 +1,122 @@
+import { getGeminiClient } from '../config/gemini';
+import config from '../config/env';
+import logger from '../config/logger';
+
+/**
+ * Chat Title Service
+ * Names a chat from its opening exchange (see streamChatResponse)
+ *
+ * The model call sits behind ChatTitleGenerator so it can be replaced
+ * (setChatTitleGenerator), e.g. with a stub in tests.
+ */
+
+const MAX_TITLE_LENGTH = 60;
+const MAX_EXCERPT_LENGTH = 1000; // Characters of each message sent to the model
+const TITLE_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Chat title generator contract
+ */
+export interface ChatTitleGenerator {
+  generateTitle(userMessage: string, assistantReply: string): Promise<string>;
+}
+
+/**
+ * Normalize a generated title: one line, no wrapping quotes, "Title:" prefix
+ * or trailing period, at most MAX_TITLE_LENGTH characters
+ */
+export const cleanTitle = (raw: string): string => {
+  let title = (raw.split('\n').find((line) => line.trim()) || '')
+    .replace(/^\s*(title\s*:\s*)/i, '')
+    .replace(/[*#_`]/g, '')
+    .trim()
+    // Closing quotes and periods come in either order ("Title". or "Title.")
+    .replace(/^["'“”‘’]+|["'“”‘’.]+$/g, '')
+    .trim();
+
+  if (title.length > MAX_TITLE_LENGTH) {
+    const cut = title.slice(0, MAX_TITLE_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    title = `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+  }
+
+  return title;
+};
+
+/**
+ * Gemini title generator
+ * Uses the chat model without the assistant's system prompt
+ */
+export class GeminiChatTitleGenerator implements ChatTitleGenerator {
+  async generateTitle(userMessage: string, assistantReply: string): Promise<string> {
+    const model = getGeminiClient().getGenerativeModel({ model: config.geminiModel });
+
+    const prompt = [
+      'Write a title for the conversation below.',
+      `Use at most 6 words and ${MAX_TITLE_LENGTH} characters, in the language of the user.`,
+      'Reply with the title only: no quotes, no trailing punctuation, no markdown.',
+      '',
+      `User: ${userMessage.slice(0, MAX_EXCERPT_LENGTH)}`,
+      `Assistant: ${assistantReply.slice(0, MAX_EXCERPT_LENGTH)}`,
+    ].join('\n');
+
+    const result = await model.generateContent(
+      {
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: {
+          maxOutputTokens: 32,
+          temperature: 0.3,
+        },
+      },
+      { timeout: TITLE_TIMEOUT_MS }
+    );
+
+    return result.response.text();
+  }
+}
+
+let generator: ChatTitleGenerator | null = null;
+
+/**
+ * Get the active title generator
+ */
+export const getChatTitleGenerator = (): ChatTitleGenerator => {
+  if (!generator) {
+    generator = new GeminiChatTitleGenerator();
+  }
+  return generator;
+};
+
+/**
+ * Override the title generator (e.g., in tests)
+ */
+export const setChatTitleGenerator = (newGenerator: ChatTitleGenerator): void => {
+  generator = newGenerator;
+};
+
+/**
+ * Generate a title for a chat's opening exchange
+ * @returns The cleaned title, or null if generation failed or produced nothing
+ */
+export const generateChatTitle = async (
+  userMessage: string,
+  assistantReply: string
+): Promise<string | null> => {
+  try {
+    const title = cleanTitle(await getChatTitleGenerator().generateTitle(userMessage, assistantReply));
+    return title || null;
+  } catch (error) {
+    logger.warn('Chat title generation failed', {
+      error: error instanceof Error ? error.message : error,
+    });
+    return null;
+  }
+};
+
+export default {
+  cleanTitle,
+  getChatTitleGenerator,
+  setChatTitleGenerator,
+  generateChatTitle,
+  GeminiChatTitleGenerator,
+};
@@ -0,0 +1,282 @@
+import { getSupabaseClient } from '../config/supabase';
+import config from '../config/env';
+import logger from '../config/logger';
+import { PLAN_CREDIT_GRANTS } from '../config/quotas';
+import { getUserPlan, getGenerationUsage } from './quotaService';
+import { AppError, CreditErrorCode, CreditLedgerEntry, CreditsSummary } from '../types';
+
+/**
+ * Credit Service
+ * Server-side image generation credits, kept in the credit_ledger table
+ *
+ * The ledger is append-only and the balance is the latest entry's
+ * balance_after. Each append reads the latest entry and inserts the next
+ * seq; UNIQUE (user_id, seq) rejects a concurrent append, which is then
+ * retried against the new balance, so a debit can never overdraw.
+ *
+ * A user's account is opened on first use with their plan's grant
+ * (PLAN_CREDIT_GRANTS).
+ */
+
+const MAX_APPEND_ATTEMPTS = 5;
+const RECENT_ENTRIES_LIMIT = 20;
+const UNIQUE_VIOLATION = '23505';
+
+const LEDGER_COLUMNS = 'entry_id, user_id, seq, entry_type, amount, balance_after, reason, reference_id, created_at';
+
+type LedgerChange = Pick<CreditLedgerEntry, 'entry_type' | 'amount' | 'reason' | 'reference_id'>;
+
+/**
+ * Latest ledger entry of a user (null if the account is not opened yet)
+ */
+const getLatestEntry = async (userId: string): Promise<CreditLedgerEntry | null> => {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase
+    .from('credit_ledger')
+    .select(LEDGER_COLUMNS)
+    .eq('user_id', userId)
+    .order('seq', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch credit balance', { error, userId });
+    throw new AppError(
+      'Failed to fetch credits',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  return (data as any) || null;
+};
+
+/**
+ * Open the user's credit account with their plan's grant, if not opened yet
+ * @returns The latest ledger entry
+ */
+const ensureCreditAccount = async (userId: string): Promise<CreditLedgerEntry> => {
+  const latest = await getLatestEntry(userId);
+  if (latest) {
+    return latest;
+  }
+
+  const supabase = getSupabaseClient();
+  const grant = PLAN_CREDIT_GRANTS[await getUserPlan(userId)];
+
+  const { data: opened, error } = await (supabase.from('credit_ledger') as any)
+    .insert({
+      user_id: userId,
+      seq: 1,
+      entry_type: 'grant',
+      amount: grant,
+      balance_after: grant,
+      reason: 'plan_grant',
+      reference_id: null,
+    })
+    .select(LEDGER_COLUMNS)
+    .single();
+
+  if (!error && opened) {
+    logger.info('Credit account opened', { userId, grant });
+    return opened;
+  }
+
+  // A concurrent request opened the account first
+  if (error?.code === UNIQUE_VIOLATION) {
+    const current = await getLatestEntry(userId);
+    if (current) {
+      return current;
+    }
+  }
+
+  logger.error('Failed to open credit account', { error, userId });
+  throw new AppError(
+    'Failed to fetch credits',
+    500,
+    'DATABASE_ERROR'
+  );
+};
+
+/**
+ * Append an entry computed from the current balance
+ * `buildChange` may throw (e.g. insufficient credits); it is called again
+ * with the fresh balance when a concurrent append wins the race.
+ */
+const appendEntry = async (
+  userId: string,
+  buildChange: (balance: number) => LedgerChange
+): Promise<CreditLedgerEntry> => {
+  const supabase = getSupabaseClient();
+
+  for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+    const latest = await ensureCreditAccount(userId);
+    const balance = latest.balance_after;
+    const change = buildChange(balance);
+
+    const { data: entry, error } = await (supabase.from('credit_ledger') as any)
+      .insert({
+        user_id: userId,
+        seq: latest.seq + 1,
+        balance_after: balance + change.amount,
+        ...change,
+      })
+      .select(LEDGER_COLUMNS)
+      .single();
+
+    if (!error && entry) {
+      return entry;
+    }
+
+    if (error?.code !== UNIQUE_VIOLATION) {
+      logger.error('Failed to append credit ledger entry', { error, userId, change });
+      throw new AppError(
+        'Failed to update credits',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    logger.debug('Credit ledger append raced, retrying', { userId, attempt });
+  }
+
+  logger.warn('Credit ledger append gave up after concurrent updates', { userId });
+  throw new AppError(
+    'Your credits are being updated by another request. Please try again.',
+    409,
+    CreditErrorCode.CREDIT_LEDGER_CONFLICT
+  );
+};
+
+/**
+ * Add credits (plan grants, purchases)
+ */
+export const grantCredits = async (
+  userId: string,
+  amount: number,
+  reason: string,
+  referenceId: string | null = null
+): Promise<CreditLedgerEntry> => {
+  const entry = await appendEntry(userId, () => ({
+    entry_type: 'grant',
+    amount,
+    reason,
+    reference_id: referenceId,
+  }));
+
+  logger.info('Credits granted', { userId, amount, reason, balance: entry.balance_after });
+  return entry;
+};
+
+/**
+ * Charge credits before doing paid work
+ * @throws AppError 402 INSUFFICIENT_CREDITS if the balance is too low
+ */
+export const debitCredits = async (
+  userId: string,
+  amount: number,
+  reason: string,
+  referenceId: string
+): Promise<CreditLedgerEntry> => {
+  const entry = await appendEntry(userId, (balance) => {
+    if (balance < amount) {
+      throw new AppError(
+        `Not enough credits. This costs ${amount} and you have ${balance}.`,
+        402,
+        CreditErrorCode.INSUFFICIENT_CREDITS,
+        undefined,
+        { required: amount, balance }
+      );
+    }
+
+    return {
+      entry_type: 'debit',
+      amount: -amount,
+      reason,
+      reference_id: referenceId,
+    };
+  });
+
+  logger.info('Credits debited', { userId, amount, reason, referenceId, balance: entry.balance_after });
+  return entry;
+};
+
+/**
+ * Give back a debit whose work failed
+ */
+export const refundCredits = async (userId: string, debit: CreditLedgerEntry): Promise<CreditLedgerEntry> => {
+  const entry = await appendEntry(userId, () => ({
+    entry_type: 'refund',
+    amount: -debit.amount,
+    reason: debit.reason,
+    reference_id: debit.reference_id,
+  }));
+
+  logger.info('Credits refunded', {
+    userId,
+    amount: entry.amount,
+    referenceId: debit.reference_id,
+    balance: entry.balance_after,
+  });
+  return entry;
+};
+
+/**
+ * Balance, today's image generations and the most recent ledger entries
+ */
+export const getUserCredits = async (userId: string): Promise<CreditsSummary> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    await ensureCreditAccount(userId);
+    const plan = await getUserPlan(userId);
+    const generations = await getGenerationUsage(userId, plan, 'image');
+
+    const { data: entries, error } = await supabase
+      .from('credit_ledger')
+      .select(LEDGER_COLUMNS)
+      .eq('user_id', userId)
+      .order('seq', { ascending: false })
+      .limit(RECENT_ENTRIES_LIMIT);
+
+    if (error) {
+      logger.error('Failed to fetch credit ledger', { error, userId });
+      throw new AppError(
+        'Failed to fetch credits',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    return {
+      plan,
+      balance: (entries as any)?.[0]?.balance_after || 0,
+      image_generation_cost: config.imageGenerationCreditCost,
+      daily_generations: {
+        used: generations.used,
+        limit: generations.limit,
+        resets_at: generations.resetTime,
+      },
+      entries: (entries as any) || [],
+    };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error fetching credits', { userId, error });
+    throw new AppError(
+      'Failed to fetch credits',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+export default {
+  grantCredits,
+  debitCredits,
+  refundCredits,
+  getUserCredits,
+};
@@ -11,7 +11,9 @@ import { PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import config from '../config/env';
 import logger from '../config/logger';
 import { v4 as uuidv4 } from 'uuid';
-import { AppError } from '../types';
+import { debitCredits, refundCredits } from './creditService';
+import { saveMessage } from './chatService';
+import { AppError, CreditLedgerEntry } from '../types';
 import https from 'https';
 
 interface GeneratedImage {
@@ -133,6 +135,8 @@ const processReferenceImage = async (referenceImage: ReferenceImage): Promise<{
 
 /**
  * Generate image using Gemini API with optional reference image
+ * Charges IMAGE_GENERATION_CREDIT_COST credits up front (402 INSUFFICIENT_CREDITS
+ * if the balance is too low) and refunds them if generation or storage fails
  * @param userId - User ID for tracking and storage
  * @param chatId - Chat ID to associate the image with
  * @param prompt - Text prompt for image generation
@@ -145,6 +149,9 @@ export const generateAndStoreImage = async (
   prompt: string,
   referenceImage?: ReferenceImage
 ): Promise<ImageGenerationResult> => {
+  const imageId = uuidv4();
+  let debit: CreditLedgerEntry | undefined;
+
   try {
     logger.info('Starting image generation', {
       userId,
@@ -153,6 +160,9 @@ export const generateAndStoreImage = async (
       hasReference: !!referenceImage,
     });
 
+    // Step 0: Charge credits before calling the API
+    debit = await debitCredits(userId, config.imageGenerationCreditCost, 'image_generation', imageId);
+
     // Step 1: Generate image using Gemini API
     const geminiClient = getGeminiClient();
     const model = geminiClient.getGenerativeModel({
@@ -203,7 +213,6 @@ export const generateAndStoreImage = async (
     const mimeType = imagePart.inlineData.mimeType || 'image/png';
 
     // Step 2: Upload to S3
-    const imageId = uuidv4();
     const timestamp = new Date();
     const datePrefix = timestamp.toISOString().split('T')[0]; // YYYY-MM-DD
     const s3Key = `generated-images/${userId}/${datePrefix}/${imageId}.png`;
@@ -238,16 +247,25 @@ export const generateAndStoreImage = async (
       chatId,
     });
 
-    // Step 3: Store reference in database (messages table)
+    // Step 3: Store reference in database (messages table),
+    // at the end of the chat's active branch
     const supabase = getSupabaseClient();
-    const messageId = uuidv4();
-
-    await (supabase.from('messages') as any).insert({
-      message_id: messageId,
-      chat_id: chatId,
-      role: 'assistant',
-      content: `Generated image from prompt: "${prompt.substring(0, 100)}${prompt.length > 100 ? '...' : ''}"`,
-      metadata: {
+
+    const { data: lastMessage } = await (supabase
+      .from('messages')
+      .select('message_id')
+      .eq('chat_id', chatId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle() as any);
+
+    await saveMessage(
+      chatId,
+      'assistant',
+      `Generated image from prompt: "${prompt.substring(0, 100)}${prompt.length > 100 ? '...' : ''}"`,
+      0, // Image generation doesn't consume text tokens
+      {
         type: 'image',
         imageId,
         imageUrl,
@@ -256,9 +274,8 @@ export const generateAndStoreImage = async (
         mimeType,
         generatedAt: timestamp.toISOString(),
       },
-      tokens_consumed: 0, // Image generation doesn't consume text tokens
-      created_at: timestamp.toISOString(),
-    });
+      lastMessage?.message_id ?? null
+    );
 
     return {
       success: true,
@@ -278,6 +295,14 @@ export const generateAndStoreImage = async (
       prompt: prompt.substring(0, 100),
     });
 
+    if (debit) {
+      try {
+        await refundCredits(userId, debit);
+      } catch (refundError) {
+        logger.error('Failed to refund image generation credits', { error: refundError, userId, imageId });
+      }
+    }
+
     if (error instanceof AppError) {
       throw error;
     }
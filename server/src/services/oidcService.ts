@@ -0,0 +1,443 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { getSupabaseClient } from '../config/supabase';
+import config, { OidcProviderConfig } from '../config/env';
+import logger from '../config/logger';
+import { AppError, AuthErrorCode } from '../types';
+
+/**
+ * OIDC Service
+ * OpenID Connect authorization code flow with PKCE (RFC 7636)
+ *
+ * Flow:
+ * - GET /auth/oidc/:provider/authorize stores a single-use request (state,
+ *   nonce, code_verifier), binds it to the browser with a cookie holding the
+ *   state's hash, and redirects to the provider
+ * - The provider redirects back to /auth/oidc/:provider/callback with a code
+ * - The server checks the state against the cookie (so a callback URL
+ *   started in another browser cannot sign this one in), consumes the state,
+ *   exchanges the code with the verifier and checks the ID token (signature
+ *   against the provider's JWKS, issuer, audience, expiry and nonce)
+ *
+ * Providers are configured in config/env.ts and located through OpenID
+ * discovery, so any spec-compliant issuer works, including a local mock issuer.
+ */
+
+/**
+ * Identity claims read from a verified ID token
+ */
+export interface OidcClaims {
+  provider: string;
+  subject: string;
+  email: string | null;
+  email_verified: boolean;
+  name: string | null;
+  picture: string | null;
+}
+
+/**
+ * Subset of the provider metadata used by the flow
+ */
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+const HTTP_TIMEOUT_MS = 10 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+const discoveryCache = new Map<string, { document: OidcDiscoveryDocument; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: crypto.JsonWebKey[]; fetchedAt: number }>();
+
+/**
+ * Providers that can be shown on the login page
+ */
+export const listOidcProviders = (): { id: string; name: string }[] => {
+  return config.oidcProviders.map(({ id, name }) => ({ id, name }));
+};
+
+/**
+ * Hash of a state, as stored in the browser's oidc_state cookie
+ */
+export const hashOidcState = (state: string): string => {
+  return crypto.createHash('sha256').update(state).digest('base64url');
+};
+
+/**
+ * Check that a callback's state was started by this browser
+ */
+const stateMatchesCookie = (state: string, stateCookie: string | undefined): boolean => {
+  if (!stateCookie) return false;
+
+  const expected = Buffer.from(hashOidcState(state));
+  const actual = Buffer.from(stateCookie);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Look up a configured provider
+ */
+export const getOidcProvider = (providerId: string): OidcProviderConfig => {
+  const provider = config.oidcProviders.find((candidate) => candidate.id === providerId);
+
+  if (!provider) {
+    throw new AppError(
+      'Sign-in provider not found',
+      404,
+      AuthErrorCode.OIDC_PROVIDER_NOT_FOUND
+    );
+  }
+
+  return provider;
+};
+
+/**
+ * Callback URL registered with the provider
+ */
+const getRedirectUri = (providerId: string): string => {
+  return `${config.apiUrl}/api/auth/oidc/${encodeURIComponent(providerId)}/callback`;
+};
+
+/**
+ * Fetch a JSON document from a provider
+ */
+const fetchProviderJson = async (url: string, init?: RequestInit): Promise<any> => {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || !body) {
+    logger.warn('OIDC provider request failed', { url, status: response.status, error: body?.error });
+    throw new AppError(
+      'Sign-in provider request failed. Please try again.',
+      502,
+      AuthErrorCode.OIDC_EXCHANGE_FAILED
+    );
+  }
+
+  return body;
+};
+
+/**
+ * Read the provider metadata from <issuer>/.well-known/openid-configuration
+ * Cached for an hour; the document must name the configured issuer
+ */
+const getDiscoveryDocument = async (provider: OidcProviderConfig): Promise<OidcDiscoveryDocument> => {
+  const cached = discoveryCache.get(provider.id);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_MS) {
+    return cached.document;
+  }
+
+  const document = await fetchProviderJson(`${provider.issuer}/.well-known/openid-configuration`) as OidcDiscoveryDocument;
+
+  if (
+    typeof document.issuer !== 'string' ||
+    document.issuer.replace(/\/+$/, '') !== provider.issuer ||
+    !document.authorization_endpoint ||
+    !document.token_endpoint ||
+    !document.jwks_uri
+  ) {
+    logger.error('OIDC discovery document does not match configured issuer', {
+      provider: provider.id,
+      issuer: document.issuer,
+    });
+    throw new AppError(
+      'Sign-in provider is misconfigured',
+      502,
+      AuthErrorCode.OIDC_EXCHANGE_FAILED
+    );
+  }
+
+  discoveryCache.set(provider.id, { document, fetchedAt: Date.now() });
+  return document;
+};
+
+/**
+ * Read the provider's signing keys
+ * Cached like discovery, but refetched on demand when a token names an unknown key
+ */
+const getSigningKeys = async (jwksUri: string, refresh = false): Promise<crypto.JsonWebKey[]> => {
+  const cached = jwksCache.get(jwksUri);
+  if (!refresh && cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_MS) {
+    return cached.keys;
+  }
+
+  const jwks = await fetchProviderJson(jwksUri);
+  const keys: crypto.JsonWebKey[] = Array.isArray(jwks.keys) ? jwks.keys : [];
+
+  jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+  return keys;
+};
+
+/**
+ * Find the key an ID token was signed with
+ */
+const findSigningKey = (keys: crypto.JsonWebKey[], kid?: string): crypto.JsonWebKey | undefined => {
+  const signingKeys = keys.filter((key) => !key.use || key.use === 'sig');
+
+  if (kid) {
+    return signingKeys.find((key) => key.kid === kid);
+  }
+
+  // Without a kid the provider must publish exactly one signing key
+  return signingKeys.length === 1 ? signingKeys[0] : undefined;
+};
+
+/**
+ * Verify an ID token against the provider's keys and the stored nonce
+ */
+const verifyIdToken = async (
+  idToken: string,
+  provider: OidcProviderConfig,
+  document: OidcDiscoveryDocument,
+  nonce: string
+): Promise<jwt.JwtPayload> => {
+  const invalidIdToken = new AppError(
+    'Sign-in provider returned an invalid identity token',
+    401,
+    AuthErrorCode.INVALID_ID_TOKEN
+  );
+
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded) {
+    throw invalidIdToken;
+  }
+
+  let jwk = findSigningKey(await getSigningKeys(document.jwks_uri), decoded.header.kid);
+  if (!jwk) {
+    // The provider may have rotated its keys since they were cached
+    jwk = findSigningKey(await getSigningKeys(document.jwks_uri, true), decoded.header.kid);
+  }
+
+  if (!jwk) {
+    logger.warn('OIDC ID token signed with unknown key', { provider: provider.id, kid: decoded.header.kid });
+    throw invalidIdToken;
+  }
+
+  try {
+    const payload = jwt.verify(idToken, crypto.createPublicKey({ key: jwk, format: 'jwk' }), {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: document.issuer,
+      audience: provider.clientId,
+      nonce,
+    });
+
+    if (typeof payload === 'string' || !payload.sub) {
+      throw invalidIdToken;
+    }
+
+    return payload;
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.warn('OIDC ID token verification failed', {
+      provider: provider.id,
+      error: (error as Error).message,
+    });
+    throw invalidIdToken;
+  }
+};
+
+/**
+ * Start an authorization request
+ * Stores state, nonce and PKCE verifier
+ *
+ * @returns The provider URL to redirect to, and the state to bind to the browser
+ */
+export const createOidcAuthorizationUrl = async (providerId: string): Promise<{ url: string; state: string }> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const provider = getOidcProvider(providerId);
+    const document = await getDiscoveryDocument(provider);
+
+    const state = crypto.randomBytes(32).toString('base64url');
+    const nonce = crypto.randomBytes(32).toString('base64url');
+    const codeVerifier = crypto.randomBytes(48).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    const expiresAt = new Date(Date.now() + config.oidcStateTtlMinutes * 60 * 1000);
+
+    const { error } = await (supabase.from('oidc_auth_requests') as any).insert({
+      state,
+      provider: provider.id,
+      code_verifier: codeVerifier,
+      nonce,
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      logger.error('Failed to store OIDC authorization request', { error, provider: provider.id });
+      throw new AppError(
+        'Failed to start sign in. Please try again.',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    const url = new URL(document.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', getRedirectUri(provider.id));
+    url.searchParams.set('scope', provider.scopes);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return { url: url.toString(), state };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error starting OIDC sign in', { providerId, error });
+    throw new AppError(
+      'Failed to start sign in. Please try again.',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Mark an authorization request as used
+ * Conditional update so a state can only be consumed once, for its provider, before it expires
+ *
+ * @returns The stored nonce and code verifier, or null if the state is not usable
+ */
+const consumeOidcAuthRequest = async (
+  state: string,
+  providerId: string
+): Promise<{ nonce: string; code_verifier: string } | null> => {
+  const supabase = getSupabaseClient();
+  const now = new Date().toISOString();
+
+  const { data: updated, error } = await (supabase.from('oidc_auth_requests') as any)
+    .update({ used_at: now })
+    .eq('state', state)
+    .eq('provider', providerId)
+    .is('used_at', null)
+    .gt('expires_at', now)
+    .select('nonce, code_verifier');
+
+  if (error) {
+    logger.error('Failed to consume OIDC authorization request', { error });
+    throw new AppError(
+      'Failed to complete sign in',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  return updated && updated.length > 0 ? updated[0] : null;
+};
+
+/**
+ * Complete an authorization request from the provider callback
+ * Checks the state against the browser's oidc_state cookie, consumes it,
+ * exchanges the code and verifies the ID token
+ */
+export const completeOidcAuthorization = async (
+  providerId: string,
+  code: string,
+  state: string,
+  stateCookie: string | undefined
+): Promise<OidcClaims> => {
+  try {
+    const provider = getOidcProvider(providerId);
+
+    if (!stateMatchesCookie(state, stateCookie)) {
+      logger.warn('OIDC callback state does not match this browser', { provider: provider.id });
+      throw new AppError(
+        'Sign-in request is invalid or has expired. Please try again.',
+        400,
+        AuthErrorCode.INVALID_OIDC_STATE
+      );
+    }
+
+    const request = await consumeOidcAuthRequest(state, provider.id);
+    if (!request) {
+      logger.warn('OIDC callback with invalid, expired or used state', { provider: provider.id });
+      throw new AppError(
+        'Sign-in request is invalid or has expired. Please try again.',
+        400,
+        AuthErrorCode.INVALID_OIDC_STATE
+      );
+    }
+
+    const document = await getDiscoveryDocument(provider);
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: getRedirectUri(provider.id),
+      code_verifier: request.code_verifier,
+      client_id: provider.clientId,
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+
+    // client_secret_basic is the OIDC default; use client_secret_post only when it is all the provider accepts
+    if (provider.clientSecret) {
+      const authMethods = document.token_endpoint_auth_methods_supported;
+      if (authMethods && !authMethods.includes('client_secret_basic') && authMethods.includes('client_secret_post')) {
+        body.set('client_secret', provider.clientSecret);
+      } else {
+        const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+      }
+    }
+
+    const tokens = await fetchProviderJson(document.token_endpoint, {
+      method: 'POST',
+      headers,
+      body: body.toString(),
+    });
+
+    if (typeof tokens.id_token !== 'string') {
+      logger.warn('OIDC token response without ID token', { provider: provider.id });
+      throw new AppError(
+        'Sign-in provider did not return an identity token',
+        502,
+        AuthErrorCode.OIDC_EXCHANGE_FAILED
+      );
+    }
+
+    const claims = await verifyIdToken(tokens.id_token, provider, document, request.nonce);
+
+    return {
+      provider: provider.id,
+      subject: claims.sub as string,
+      email: typeof claims.email === 'string' ? claims.email : null,
+      email_verified: claims.email_verified === true || claims.email_verified === 'true',
+      name: typeof claims.name === 'string' ? claims.name : null,
+      picture: typeof claims.picture === 'string' ? claims.picture : null,
+    };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error completing OIDC sign in', { providerId, error });
+    throw new AppError(
+      'Sign-in provider request failed. Please try again.',
+      502,
+      AuthErrorCode.OIDC_EXCHANGE_FAILED
+    );
+  }
+};
+
+export default {
+  listOidcProviders,
+  getOidcProvider,
+  hashOidcState,
+  createOidcAuthorizationUrl,
+  completeOidcAuthorization,
+};
@@ -0,0 +1,117 @@
+import { getSupabaseClient } from '../config/supabase';
+import config from '../config/env';
+import logger from '../config/logger';
+import { verifyOtpHash } from '../utils/otpService';
+import { AppError, AuthErrorCode } from '../types';
+
+/**
+ * OTP Attempt Service
+ * Checks emailed codes against their stored hash with a per-user limit on
+ * wrong guesses, so a code cannot be brute-forced across many requests or IPs
+ *
+ * Every guess first claims an attempt with a conditional update on the
+ * counter; only the request that won the claim gets to compare its code.
+ * Parallel guesses therefore cannot exceed OTP_MAX_ATTEMPTS in total.
+ */
+
+/**
+ * Kinds of emailed codes and their users columns
+ */
+export type OtpKind = 'email_verification' | 'password_reset' | 'email_change';
+
+const OTP_ATTEMPT_COLUMNS: Record<OtpKind, string> = {
+  email_verification: 'email_otp_attempts',
+  password_reset: 'password_reset_otp_attempts',
+  email_change: 'email_change_otp_attempts',
+};
+
+/**
+ * Columns to reset when a new code is issued
+ */
+export const otpAttemptsReset = (kind: OtpKind): Record<string, number> => ({
+  [OTP_ATTEMPT_COLUMNS[kind]]: 0,
+});
+
+/**
+ * Verify a submitted code against the stored hash
+ * Throws INVALID_OTP for a wrong code and OTP_ATTEMPTS_EXCEEDED once the
+ * limit is reached. A code at the limit is dead: issuing a new code resets the counter.
+ *
+ * @param storedHash - Current hash from the users row
+ * @param attempts - Current failed attempt count from the same row
+ */
+export const verifyOtpAttempt = async (
+  userId: string,
+  kind: OtpKind,
+  otp: string,
+  storedHash: string | null,
+  attempts: number
+): Promise<void> => {
+  const supabase = getSupabaseClient();
+  const column = OTP_ATTEMPT_COLUMNS[kind];
+  const used = attempts || 0;
+
+  if (used >= config.otpMaxAttempts) {
+    throw new AppError(
+      'Too many incorrect codes. Please request a new one.',
+      429,
+      AuthErrorCode.OTP_ATTEMPTS_EXCEEDED,
+      'otp'
+    );
+  }
+
+  // Claim this attempt before comparing
+  const { data: claimed, error: claimError } = await (supabase.from('users') as any)
+    .update({ [column]: used + 1 })
+    .eq('user_id', userId)
+    .eq(column, used)
+    .select('user_id');
+
+  if (claimError) {
+    logger.error('Failed to record OTP attempt', { error: claimError, userId, kind });
+    throw new AppError(
+      'Failed to verify code. Please try again.',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  // Another guess claimed the same attempt concurrently
+  if (!claimed || claimed.length === 0) {
+    throw new AppError(
+      'Invalid OTP. Please check and try again.',
+      400,
+      AuthErrorCode.INVALID_OTP,
+      'otp'
+    );
+  }
+
+  if (verifyOtpHash(otp, userId, storedHash)) {
+    return;
+  }
+
+  logger.warn('Invalid OTP provided', { userId, kind, attempts: used + 1 });
+
+  if (used + 1 >= config.otpMaxAttempts) {
+    logger.warn('OTP invalidated after too many attempts', { userId, kind });
+    throw new AppError(
+      'Too many incorrect codes. Please request a new one.',
+      429,
+      AuthErrorCode.OTP_ATTEMPTS_EXCEEDED,
+      'otp'
+    );
+  }
+
+  throw new AppError(
+    'Invalid OTP. Please check and try again.',
+    400,
+    AuthErrorCode.INVALID_OTP,
+    'otp',
+    { attempts_remaining: config.otpMaxAttempts - (used + 1) }
+  );
+};
+
+export default {
+  otpAttemptsReset,
+  verifyOtpAttempt,
+};
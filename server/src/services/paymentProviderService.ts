@@ -0,0 +1,290 @@
+import crypto from 'crypto';
+import config from '../config/env';
+import logger from '../config/logger';
+import { PLAN_PRICES } from '../config/quotas';
+import { verifyWebhookSignature } from '../utils/webhookSignature';
+import { AppError, BillingErrorCode, BillingEvent, UserPlan } from '../types';
+
+/**
+ * Payment Provider Service
+ * Payment providers behind one interface, chosen by BILLING_PROVIDER
+ *
+ * - stripe: Stripe Checkout and subscriptions over Stripe's REST API
+ * - fake: no payments; checkout completes as soon as its URL is opened and
+ *   produces the same events Stripe would send (local testing only)
+ *
+ * Both accept webhooks in Stripe's event format, signed with
+ * BILLING_WEBHOOK_SECRET (see utils/webhookSignature.ts).
+ */
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+const HTTP_TIMEOUT_MS = 10 * 1000;
+
+export interface CheckoutSession {
+  id: string;
+  url: string; // Where to send the user to pay
+}
+
+export interface CreateCheckoutSessionParams {
+  customerId: string;
+  userId: string;
+  plan: UserPlan;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+/**
+ * Payment provider contract
+ * Implemented by Stripe and fake backends
+ */
+export interface PaymentProvider {
+  readonly name: 'stripe' | 'fake';
+  createCustomer(userId: string, email: string): Promise<string>;
+  createCheckoutSession(params: CreateCheckoutSessionParams): Promise<CheckoutSession>;
+  cancelSubscription(providerSubscriptionId: string): Promise<void>; // At the end of the paid period
+  parseWebhookEvent(rawBody: Buffer, signature: string | undefined): BillingEvent;
+}
+
+/**
+ * Verify a Stripe-style signature and parse the event
+ */
+const parseSignedEvent = (rawBody: Buffer, signature: string | undefined): BillingEvent => {
+  if (!verifyWebhookSignature(rawBody, signature, config.billingWebhookSecret, config.billingWebhookToleranceSeconds)) {
+    throw new AppError(
+      'Invalid webhook signature',
+      400,
+      BillingErrorCode.INVALID_WEBHOOK_SIGNATURE
+    );
+  }
+
+  try {
+    const event = JSON.parse(rawBody.toString('utf8'));
+    if (!event?.id || !event?.type || !event?.data?.object) {
+      throw new Error('Missing id, type or data.object');
+    }
+    return event;
+  } catch (error) {
+    logger.warn('Malformed billing webhook payload', { error: error instanceof Error ? error.message : error });
+    throw new AppError(
+      'Malformed webhook payload',
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+};
+
+/**
+ * Stripe provider
+ * Talks to the REST API directly (form-encoded requests, secret key auth)
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe' as const;
+
+  private async request(method: 'GET' | 'POST', path: string, params: Record<string, string> = {}): Promise<any> {
+    let response: Response;
+    try {
+      response = await fetch(`${STRIPE_API_URL}${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${config.stripeSecretKey}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        ...(method === 'POST' && { body: new URLSearchParams(params).toString() }),
+        signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+      });
+    } catch (error) {
+      logger.error('Stripe request failed', { path, error: error instanceof Error ? error.message : error });
+      throw new AppError(
+        'Payment provider is unavailable. Please try again.',
+        502,
+        BillingErrorCode.BILLING_PROVIDER_ERROR
+      );
+    }
+
+    const body: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      logger.error('Stripe request rejected', { path, status: response.status, error: body?.error?.message });
+      throw new AppError(
+        'Payment provider rejected the request.',
+        502,
+        BillingErrorCode.BILLING_PROVIDER_ERROR
+      );
+    }
+
+    return body;
+  }
+
+  async createCustomer(userId: string, email: string): Promise<string> {
+    const customer = await this.request('POST', '/customers', {
+      email,
+      'metadata[user_id]': userId,
+    });
+    return customer.id;
+  }
+
+  async createCheckoutSession(params: CreateCheckoutSessionParams): Promise<CheckoutSession> {
+    const priceId = config.stripePriceIds[params.plan as 'pro' | 'merchant'];
+
+    if (!priceId) {
+      logger.error('No Stripe price configured for plan', { plan: params.plan });
+      throw new AppError(
+        'This plan is not available for purchase.',
+        400,
+        BillingErrorCode.PLAN_NOT_PURCHASABLE
+      );
+    }
+
+    const session = await this.request('POST', '/checkout/sessions', {
+      mode: 'subscription',
+      customer: params.customerId,
+      'line_items[0][price]': priceId,
+      'line_items[0][quantity]': '1',
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+      client_reference_id: params.userId,
+      'metadata[plan]': params.plan,
+      'subscription_data[metadata][plan]': params.plan,
+      'subscription_data[metadata][user_id]': params.userId,
+    });
+
+    return { id: session.id, url: session.url };
+  }
+
+  async cancelSubscription(providerSubscriptionId: string): Promise<void> {
+    await this.request('POST', `/subscriptions/${encodeURIComponent(providerSubscriptionId)}`, {
+      cancel_at_period_end: 'true',
+    });
+  }
+
+  parseWebhookEvent(rawBody: Buffer, signature: string | undefined): BillingEvent {
+    return parseSignedEvent(rawBody, signature);
+  }
+}
+
+/**
+ * Fake provider for local testing
+ * Checkout sessions live in memory; opening a session's URL completes it
+ * (see completeCheckout), as if the user had paid
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake' as const;
+  private readonly sessions: Map<string, CreateCheckoutSessionParams> = new Map();
+
+  private fakeId(prefix: string): string {
+    return `${prefix}_fake_${crypto.randomBytes(12).toString('hex')}`;
+  }
+
+  async createCustomer(): Promise<string> {
+    return this.fakeId('cus');
+  }
+
+  async createCheckoutSession(params: CreateCheckoutSessionParams): Promise<CheckoutSession> {
+    const id = this.fakeId('cs');
+    this.sessions.set(id, params);
+
+    return { id, url: `${config.apiUrl}/api/billing/fake/checkout/${id}` };
+  }
+
+  async cancelSubscription(providerSubscriptionId: string): Promise<void> {
+    logger.info('Fake subscription set to cancel at period end', { providerSubscriptionId });
+  }
+
+  parseWebhookEvent(rawBody: Buffer, signature: string | undefined): BillingEvent {
+    return parseSignedEvent(rawBody, signature);
+  }
+
+  /**
+   * Complete a checkout session started by the user
+   * @returns The events Stripe would send for a new paid subscription, and where to send the user
+   */
+  completeCheckout(sessionId: string, userId: string): { events: BillingEvent[]; successUrl: string } {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.userId !== userId) {
+      throw new AppError(
+        'Checkout session not found or already completed',
+        404,
+        BillingErrorCode.CHECKOUT_SESSION_NOT_FOUND
+      );
+    }
+    this.sessions.delete(sessionId);
+
+    const now = Math.floor(Date.now() / 1000);
+    const periodEnd = now + 30 * 24 * 60 * 60;
+    const subscriptionId = this.fakeId('sub');
+    const price = PLAN_PRICES[session.plan];
+
+    return {
+      successUrl: session.successUrl,
+      events: [
+        {
+          id: this.fakeId('evt'),
+          type: 'customer.subscription.created',
+          created: now,
+          data: {
+            object: {
+              id: subscriptionId,
+              object: 'subscription',
+              customer: session.customerId,
+              status: 'active',
+              current_period_start: now,
+              current_period_end: periodEnd,
+              cancel_at_period_end: false,
+              metadata: { plan: session.plan, user_id: session.userId },
+            },
+          },
+        },
+        {
+          id: this.fakeId('evt'),
+          type: 'invoice.paid',
+          created: now,
+          data: {
+            object: {
+              id: this.fakeId('in'),
+              object: 'invoice',
+              customer: session.customerId,
+              subscription: subscriptionId,
+              billing_reason: 'subscription_create',
+              number: `FAKE-${now}`,
+              status: 'paid',
+              amount_due: price.amount,
+              amount_paid: price.amount,
+              currency: price.currency,
+              hosted_invoice_url: null,
+              period_start: now,
+              period_end: periodEnd,
+              status_transitions: { paid_at: now },
+            },
+          },
+        },
+      ],
+    };
+  }
+}
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * Get the active payment provider (BILLING_PROVIDER)
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!provider) {
+    provider = config.billingProvider === 'stripe' ? new StripePaymentProvider() : new FakePaymentProvider();
+    logger.info('Payment provider selected', { provider: provider.name });
+  }
+  return provider;
+};
+
+/**
+ * Override the payment provider (e.g., in tests)
+ */
+export const setPaymentProvider = (newProvider: PaymentProvider): void => {
+  provider = newProvider;
+};
+
+export default {
+  getPaymentProvider,
+  setPaymentProvider,
+  StripePaymentProvider,
+  FakePaymentProvider,
+};
@@ -0,0 +1,171 @@
+import { getSupabaseClient } from '../config/supabase';
+import logger from '../config/logger';
+import { getQuotaRule } from '../config/quotas';
+import { getRateLimitCounterStore } from './rateLimitStoreService';
+import { AppError, QuotaClass, UserPlan } from '../types';
+
+/**
+ * Quota Service
+ * Per-plan request and generation quotas for chat and image endpoints
+ *
+ * Each request to a class counts against a one-minute window; generations
+ * also count against a daily window that closes at 00:00 UTC. Counters
+ * share the rate limit store, so they are per user across all instances
+ * when Redis is in use.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const PLAN_CACHE_TTL_MS = 60 * 1000;
+
+export type QuotaWindow = 'minute' | 'day';
+
+/**
+ * State of one quota window after a request was counted
+ */
+export interface QuotaWindowStatus {
+  window: QuotaWindow;
+  limit: number;
+  remaining: number;
+  resetTime: Date;
+  windowSeconds: number; // Nominal window length, for RateLimit-Policy
+  exceeded: boolean;
+}
+
+// Plans are read on every quota check; cache them briefly per user
+const planCache: Map<string, { plan: UserPlan; expiresAt: number }> = new Map();
+
+const quotaKey = (quotaClass: QuotaClass, window: QuotaWindow, userId: string) =>
+  `quota:${quotaClass}:${window}:user:${userId}`;
+
+/**
+ * Milliseconds until the next 00:00 UTC
+ */
+const getMsUntilUtcMidnight = (now: Date = new Date()): number => {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return midnight - now.getTime();
+};
+
+/**
+ * Get a user's plan (cached for a minute)
+ */
+export const getUserPlan = async (userId: string): Promise<UserPlan> => {
+  const cached = planCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.plan;
+  }
+
+  const supabase = getSupabaseClient();
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('plan')
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !user) {
+    logger.error('Failed to fetch user plan', { error, userId });
+    throw new AppError(
+      'Failed to check usage quota',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  const plan = ((user as any).plan || 'free') as UserPlan;
+  planCache.set(userId, { plan, expiresAt: Date.now() + PLAN_CACHE_TTL_MS });
+
+  return plan;
+};
+
+/**
+ * Forget a cached plan so the next request reads the new one
+ * Call after changing a user's plan
+ */
+export const invalidateUserPlan = (userId: string): void => {
+  planCache.delete(userId);
+};
+
+/**
+ * Count a request against the user's quota for a class
+ * Rejected requests do not use up generations: the daily window is only
+ * counted when the minute window allows the request, and is given back when
+ * the daily limit itself is reached.
+ *
+ * @returns The state of each window that applies (minute, plus day for generations)
+ */
+export const consumeQuota = async (
+  userId: string,
+  plan: UserPlan,
+  quotaClass: QuotaClass,
+  generation: boolean
+): Promise<QuotaWindowStatus[]> => {
+  const store = getRateLimitCounterStore();
+  const rule = getQuotaRule(plan, quotaClass);
+
+  const minute = await store.increment(quotaKey(quotaClass, 'minute', userId), MINUTE_MS);
+  const windows: QuotaWindowStatus[] = [
+    {
+      window: 'minute',
+      limit: rule.requestsPerMinute,
+      remaining: Math.max(0, rule.requestsPerMinute - minute.totalHits),
+      resetTime: minute.resetTime || new Date(Date.now() + MINUTE_MS),
+      windowSeconds: MINUTE_MS / 1000,
+      exceeded: minute.totalHits > rule.requestsPerMinute,
+    },
+  ];
+
+  if (generation) {
+    const dayKey = quotaKey(quotaClass, 'day', userId);
+    const day = windows[0].exceeded
+      ? await store.get(dayKey)
+      : await store.increment(dayKey, getMsUntilUtcMidnight());
+    const used = day?.totalHits || 0;
+
+    if (!windows[0].exceeded && used > rule.generationsPerDay) {
+      // Rejected: keep the counter at the limit
+      await store.decrement(dayKey);
+    }
+
+    windows.push({
+      window: 'day',
+      limit: rule.generationsPerDay,
+      remaining: Math.max(0, rule.generationsPerDay - used),
+      resetTime: day?.resetTime || new Date(Date.now() + getMsUntilUtcMidnight()),
+      windowSeconds: 24 * 60 * 60,
+      exceeded: used > rule.generationsPerDay,
+    });
+  }
+
+  return windows;
+};
+
+/**
+ * Generations used today for a class, without counting a request
+ */
+export const getGenerationUsage = async (
+  userId: string,
+  plan: UserPlan,
+  quotaClass: QuotaClass
+): Promise<{ used: number; limit: number; resetTime: Date }> => {
+  const day = await getRateLimitCounterStore().get(quotaKey(quotaClass, 'day', userId));
+
+  return {
+    used: day?.totalHits || 0,
+    limit: getQuotaRule(plan, quotaClass).generationsPerDay,
+    resetTime: day?.resetTime || new Date(Date.now() + getMsUntilUtcMidnight()),
+  };
+};
+
+/**
+ * Give back a generation that did not happen (request failed)
+ */
+export const refundGeneration = async (userId: string, quotaClass: QuotaClass): Promise<void> => {
+  await getRateLimitCounterStore().decrement(quotaKey(quotaClass, 'day', userId));
+};
+
+export default {
+  getUserPlan,
+  invalidateUserPlan,
+  consumeQuota,
+  getGenerationUsage,
+  refundGeneration,
+};
@@ -0,0 +1,193 @@
+import type { Options, Store, ClientRateLimitInfo } from 'express-rate-limit';
+import { getRedisClient } from '../config/redis';
+import config from '../config/env';
+import logger from '../config/logger';
+
+/**
+ * Rate Limit Store Service
+ * Hit counters for the rate limiters in middleware/rateLimiter.ts
+ *
+ * Each counter is a fixed window: the first hit starts the window and sets
+ * when it resets, later hits only increment. Redis is used when
+ * RATE_LIMIT_STORE=redis and it is connected, so limits are shared between
+ * instances and survive restarts; otherwise an in-memory store is used
+ * (single instance, lost on restart).
+ */
+
+/**
+ * Counter store contract
+ * Implemented by Redis and in-memory backends
+ */
+export interface RateLimitCounterStore {
+  increment(key: string, windowMs: number): Promise<ClientRateLimitInfo>;
+  get(key: string): Promise<ClientRateLimitInfo | undefined>;
+  decrement(key: string): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+const counterKey = (key: string) => `ratelimit:${key}`;
+
+/**
+ * Redis-backed counter store
+ * The window is the key's PX TTL, so counters expire on their own
+ */
+export class RedisRateLimitCounterStore implements RateLimitCounterStore {
+  constructor(private readonly client: NonNullable<ReturnType<typeof getRedisClient>>) {}
+
+  async increment(key: string, windowMs: number): Promise<ClientRateLimitInfo> {
+    const redisKey = counterKey(key);
+
+    // SET NX starts the window only for the first hit; INCR keeps the TTL
+    const [, totalHits, ttlMs] = await this.client
+      .multi()
+      .set(redisKey, '0', { NX: true, PX: windowMs })
+      .incr(redisKey)
+      .pTTL(redisKey)
+      .exec();
+
+    return {
+      totalHits: Number(totalHits),
+      resetTime: new Date(Date.now() + (Number(ttlMs) > 0 ? Number(ttlMs) : windowMs)),
+    };
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const redisKey = counterKey(key);
+    const [hits, ttlMs] = await this.client.multi().get(redisKey).pTTL(redisKey).exec();
+
+    if (hits === null || Number(ttlMs) <= 0) return undefined;
+
+    return {
+      totalHits: Number(hits),
+      resetTime: new Date(Date.now() + Number(ttlMs)),
+    };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const redisKey = counterKey(key);
+
+    // Only while the window is open; DECR on a missing key would create one without a TTL
+    if (await this.client.exists(redisKey)) {
+      await this.client.decr(redisKey);
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.del(counterKey(key));
+  }
+}
+
+/**
+ * In-memory counter store
+ * Used when Redis is unavailable or RATE_LIMIT_STORE=memory, and for offline testing
+ */
+export class InMemoryRateLimitCounterStore implements RateLimitCounterStore {
+  private readonly counters: Map<string, { hits: number; resetAt: number }> = new Map();
+
+  constructor() {
+    // Drop closed windows so idle clients do not accumulate
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, counter] of this.counters) {
+        if (counter.resetAt <= now) this.counters.delete(key);
+      }
+    }, 60 * 1000).unref();
+  }
+
+  private read(key: string): { hits: number; resetAt: number } | undefined {
+    const counter = this.counters.get(key);
+    if (!counter) return undefined;
+    if (counter.resetAt <= Date.now()) {
+      this.counters.delete(key);
+      return undefined;
+    }
+    return counter;
+  }
+
+  async increment(key: string, windowMs: number): Promise<ClientRateLimitInfo> {
+    const counter = this.read(key) || { hits: 0, resetAt: Date.now() + windowMs };
+    counter.hits++;
+    this.counters.set(key, counter);
+
+    return { totalHits: counter.hits, resetTime: new Date(counter.resetAt) };
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const counter = this.read(key);
+    return counter ? { totalHits: counter.hits, resetTime: new Date(counter.resetAt) } : undefined;
+  }
+
+  async decrement(key: string): Promise<void> {
+    const counter = this.read(key);
+    if (counter && counter.hits > 0) {
+      counter.hits--;
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+}
+
+let counterStore: RateLimitCounterStore | null = null;
+
+/**
+ * Get the active counter store
+ * Picks Redis if configured and connected, otherwise the in-memory fallback.
+ * Resolved on first use, after Redis has been initialized at startup.
+ */
+export const getRateLimitCounterStore = (): RateLimitCounterStore => {
+  if (!counterStore) {
+    const client = config.rateLimitStore === 'redis' ? getRedisClient() : null;
+    counterStore = client ? new RedisRateLimitCounterStore(client) : new InMemoryRateLimitCounterStore();
+    logger.info('Rate limit store selected', { backend: client ? 'redis' : 'memory' });
+  }
+  return counterStore;
+};
+
+/**
+ * Override the counter store (e.g., in tests)
+ */
+export const setRateLimitCounterStore = (newStore: RateLimitCounterStore): void => {
+  counterStore = newStore;
+};
+
+/**
+ * express-rate-limit store for one limiter
+ * Namespaces keys by limiter name and reads the window from the limiter's options
+ */
+export class RateLimitStore implements Store {
+  windowMs = 60 * 1000;
+  localKeys = false;
+  readonly prefix: string;
+
+  constructor(name: string) {
+    this.prefix = `${name}:`;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    return getRateLimitCounterStore().get(this.prefix + key);
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    return getRateLimitCounterStore().increment(this.prefix + key, this.windowMs);
+  }
+
+  async decrement(key: string): Promise<void> {
+    await getRateLimitCounterStore().decrement(this.prefix + key);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await getRateLimitCounterStore().reset(this.prefix + key);
+  }
+}
+
+export default {
+  getRateLimitCounterStore,
+  setRateLimitCounterStore,
+  RateLimitStore,
+};
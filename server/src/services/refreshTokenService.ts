@@ -0,0 +1,255 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getSupabaseClient } from '../config/supabase';
+import logger from '../config/logger';
+import { generateRefreshToken, hashRefreshToken, getRefreshTokenExpirationMs } from '../utils/jwtService';
+import { AppError, AuthErrorCode } from '../types';
+import { invalidateSessionStatus } from './sessionService';
+
+/**
+ * Refresh Token Service
+ * Issues, rotates and revokes server-tracked refresh tokens
+ *
+ * Rotation strategy:
+ * - Each sign-in starts a new token family
+ * - Every refresh revokes the presented token and issues a successor in the same family
+ * - Presenting an already-rotated token means it leaked: the whole family is revoked
+ *
+ * A family is one sign-in session: its family_id is the user_sessions.session_id,
+ * so revoking a family also marks the session revoked
+ */
+
+/**
+ * Mark sessions revoked alongside their refresh token families, and drop
+ * their cached status so verifyAuth rejects their access tokens at once
+ * Failures are logged only - the refresh tokens are already revoked
+ */
+const markSessionsRevoked = async (column: 'session_id' | 'user_id', value: string): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  const { data: revoked, error } = await (supabase.from('user_sessions') as any)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq(column, value)
+    .is('revoked_at', null)
+    .select('session_id');
+
+  if (column === 'session_id') {
+    invalidateSessionStatus(value);
+  }
+
+  for (const session of (revoked as { session_id: string }[]) || []) {
+    invalidateSessionStatus(session.session_id);
+  }
+
+  if (error) {
+    logger.warn('Failed to mark sessions revoked', { error, [column]: value });
+  }
+};
+
+/**
+ * Issue a new refresh token for a user
+ * Starts a new family unless an existing familyId is provided
+ */
+export const issueRefreshToken = async (
+  userId: string,
+  familyId: string = uuidv4()
+): Promise<{ token: string; token_id: string; family_id: string; expiresIn: number }> => {
+  const supabase = getSupabaseClient();
+
+  const token = generateRefreshToken();
+  const tokenId = uuidv4();
+  const expiresIn = getRefreshTokenExpirationMs();
+  const now = new Date();
+
+  const { error } = await (supabase.from('refresh_tokens') as any).insert({
+    token_id: tokenId,
+    user_id: userId,
+    family_id: familyId,
+    token_hash: hashRefreshToken(token),
+    expires_at: new Date(now.getTime() + expiresIn).toISOString(),
+    revoked_at: null,
+    replaced_by: null,
+    created_at: now.toISOString(),
+  });
+
+  if (error) {
+    logger.error('Failed to store refresh token', { error, userId });
+    throw new AppError(
+      'Failed to create session',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  logger.debug('Refresh token issued', { userId, familyId, tokenId });
+
+  return { token, token_id: tokenId, family_id: familyId, expiresIn };
+};
+
+/**
+ * Revoke every active token in a family
+ */
+export const revokeRefreshTokenFamily = async (familyId: string): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  const { error } = await (supabase.from('refresh_tokens') as any)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('family_id', familyId)
+    .is('revoked_at', null);
+
+  if (error) {
+    logger.error('Failed to revoke refresh token family', { error, familyId });
+    throw new AppError(
+      'Failed to revoke session',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  await markSessionsRevoked('session_id', familyId);
+
+  logger.info('Refresh token family revoked', { familyId });
+};
+
+/**
+ * Revoke every active refresh token belonging to a user
+ */
+export const revokeAllUserRefreshTokens = async (userId: string): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  const { error } = await (supabase.from('refresh_tokens') as any)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (error) {
+    logger.error('Failed to revoke user refresh tokens', { error, userId });
+    throw new AppError(
+      'Failed to revoke sessions',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  await markSessionsRevoked('user_id', userId);
+
+  logger.info('All refresh tokens revoked for user', { userId });
+};
+
+/**
+ * Revoke the family of a presented refresh token (used on logout)
+ * Unknown tokens are ignored - logout should always succeed
+ */
+export const revokeRefreshToken = async (token: string): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  const { data } = await (supabase
+    .from('refresh_tokens')
+    .select('family_id')
+    .eq('token_hash', hashRefreshToken(token))
+    .single() as any);
+
+  if (data?.family_id) {
+    await revokeRefreshTokenFamily(data.family_id);
+  }
+};
+
+/**
+ * Rotate a refresh token
+ * Revokes the presented token and issues its successor in the same family
+ *
+ * @throws AppError INVALID_TOKEN if the token is unknown or expired
+ * @throws AppError REFRESH_TOKEN_REUSED if the token was already rotated
+ */
+export const rotateRefreshToken = async (
+  token: string
+): Promise<{ user_id: string; family_id: string; token: string; expiresIn: number }> => {
+  const supabase = getSupabaseClient();
+
+  const { data: stored, error: findError } = await (supabase
+    .from('refresh_tokens')
+    .select('token_id, user_id, family_id, expires_at, revoked_at')
+    .eq('token_hash', hashRefreshToken(token))
+    .single() as any);
+
+  if (!stored || findError) {
+    logger.warn('Unknown refresh token presented');
+    throw new AppError(
+      'Invalid session. Please sign in again.',
+      401,
+      AuthErrorCode.INVALID_TOKEN
+    );
+  }
+
+  if (stored.revoked_at) {
+    logger.warn('Refresh token reuse detected, revoking family', {
+      userId: stored.user_id,
+      familyId: stored.family_id,
+    });
+    await revokeRefreshTokenFamily(stored.family_id);
+    throw new AppError(
+      'Session is no longer valid. Please sign in again.',
+      401,
+      AuthErrorCode.REFRESH_TOKEN_REUSED
+    );
+  }
+
+  if (new Date(stored.expires_at) <= new Date()) {
+    logger.warn('Expired refresh token presented', { userId: stored.user_id });
+    throw new AppError(
+      'Your session has expired. Please sign in again.',
+      401,
+      AuthErrorCode.TOKEN_EXPIRED
+    );
+  }
+
+  const successor = await issueRefreshToken(stored.user_id, stored.family_id);
+
+  // Conditional update guards against two concurrent rotations of the same token
+  const { data: revoked, error: revokeError } = await (supabase.from('refresh_tokens') as any)
+    .update({
+      revoked_at: new Date().toISOString(),
+      replaced_by: successor.token_id,
+    })
+    .eq('token_id', stored.token_id)
+    .is('revoked_at', null)
+    .select('token_id');
+
+  if (revokeError) {
+    logger.error('Failed to rotate refresh token', { error: revokeError, tokenId: stored.token_id });
+    throw new AppError(
+      'Failed to refresh session',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  if (!revoked || revoked.length === 0) {
+    logger.warn('Refresh token rotated concurrently, revoking family', {
+      userId: stored.user_id,
+      familyId: stored.family_id,
+    });
+    await revokeRefreshTokenFamily(stored.family_id);
+    throw new AppError(
+      'Session is no longer valid. Please sign in again.',
+      401,
+      AuthErrorCode.REFRESH_TOKEN_REUSED
+    );
+  }
+
+  logger.info('Refresh token rotated', { userId: stored.user_id, familyId: stored.family_id });
+
+  return {
+    user_id: stored.user_id,
+    family_id: stored.family_id,
+    token: successor.token,
+    expiresIn: successor.expiresIn,
+  };
+};
+
+export default {
+  issueRefreshToken,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeRefreshTokenFamily,
+  revokeAllUserRefreshTokens,
+};
@@ -0,0 +1,319 @@
+import { getSupabaseClient } from '../config/supabase';
+import logger from '../config/logger';
+import { issueRefreshToken, revokeRefreshTokenFamily } from './refreshTokenService';
+import { revokeSessionTokens } from './tokenBlacklistService';
+import { recordActivity } from './activityLogService';
+import { AppError, AuthErrorCode, ActivityAction, ActivityContext, UserSession } from '../types';
+
+/**
+ * Session Service
+ * Tracks where a user is signed in and lets them sign out other devices
+ *
+ * A session starts at sign in and owns one refresh token family
+ * (session_id = family_id). Access tokens carry it as the `sid` claim.
+ * Revoking a session revokes the family (no more refreshes) and marks the
+ * session revoked; verifyAuth rejects access tokens whose sid is revoked
+ * (see isSessionRevoked), and the token blacklist makes it immediate.
+ */
+
+const SESSION_STATUS_CACHE_TTL_MS = 15 * 1000;
+
+// verifyAuth checks the session on every request; cache the answer briefly
+const sessionStatusCache: Map<string, { userId: string; revoked: boolean; expiresAt: number }> = new Map();
+
+/**
+ * Derive a short device description from a user agent, e.g. "Chrome on macOS"
+ */
+const describeDevice = (userAgent?: string): string | null => {
+  if (!userAgent) return null;
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+};
+
+/**
+ * Start a session for a signed-in user
+ * Issues the session's first refresh token and records the device
+ */
+export const createSession = async (
+  userId: string,
+  context: ActivityContext = {}
+): Promise<{ session_id: string; refreshToken: string; refreshExpiresIn: number }> => {
+  const supabase = getSupabaseClient();
+
+  const refreshToken = await issueRefreshToken(userId);
+  const now = new Date();
+
+  const { error } = await (supabase.from('user_sessions') as any).insert({
+    session_id: refreshToken.family_id,
+    user_id: userId,
+    device: describeDevice(context.user_agent),
+    user_agent: context.user_agent || null,
+    ip_address: context.ip_address || null,
+    created_at: now.toISOString(),
+    last_seen_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + refreshToken.expiresIn).toISOString(),
+  });
+
+  if (error) {
+    logger.error('Failed to create session', { error, userId });
+    throw new AppError(
+      'Failed to create session',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  logger.debug('Session created', { userId, sessionId: refreshToken.family_id });
+
+  return {
+    session_id: refreshToken.family_id,
+    refreshToken: refreshToken.token,
+    refreshExpiresIn: refreshToken.expiresIn,
+  };
+};
+
+/**
+ * Update a session's last seen time, IP and expiry after a refresh
+ * Failures are logged only - they must not break the refresh
+ */
+export const touchSession = async (
+  sessionId: string,
+  refreshExpiresIn: number,
+  context: ActivityContext = {}
+): Promise<void> => {
+  const supabase = getSupabaseClient();
+  const now = new Date();
+
+  const { error } = await (supabase.from('user_sessions') as any)
+    .update({
+      last_seen_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + refreshExpiresIn).toISOString(),
+      ...(context.ip_address && { ip_address: context.ip_address }),
+    })
+    .eq('session_id', sessionId);
+
+  if (error) {
+    logger.warn('Failed to update session last seen', { error, sessionId });
+  }
+};
+
+/**
+ * List a user's active sessions, most recently seen first
+ */
+export const getUserSessions = async (userId: string): Promise<UserSession[]> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { data: sessions, error } = await supabase
+      .from('user_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('last_seen_at', { ascending: false });
+
+    if (error) {
+      logger.error('Failed to fetch sessions', { error, userId });
+      throw new AppError(
+        'Failed to fetch sessions',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    return (sessions as any) || [];
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error fetching sessions', { userId, error });
+    throw new AppError(
+      'Failed to fetch sessions',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Check whether an access token's session (JWT `sid` claim) may no longer be used
+ * True when the session is revoked, unknown or belongs to another user.
+ * Fails closed: a lookup error counts as revoked (and is not cached).
+ * Revocations on this instance clear the cache (see markSessionsRevoked);
+ * those made by another instance take up to SESSION_STATUS_CACHE_TTL_MS to apply.
+ */
+export const isSessionRevoked = async (sessionId: string, userId: string): Promise<boolean> => {
+  const cached = sessionStatusCache.get(sessionId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.revoked || cached.userId !== userId;
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const { data: session, error } = await supabase
+      .from('user_sessions')
+      .select('user_id, revoked_at')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to check session status', { error, sessionId });
+      return true;
+    }
+
+    const sessionData = session as any;
+    const revoked = !sessionData || Boolean(sessionData.revoked_at);
+
+    sessionStatusCache.set(sessionId, {
+      userId: sessionData?.user_id,
+      revoked,
+      expiresAt: Date.now() + SESSION_STATUS_CACHE_TTL_MS,
+    });
+
+    return revoked || sessionData.user_id !== userId;
+  } catch (error) {
+    logger.error('Unexpected error checking session status', { sessionId, error });
+    return true;
+  }
+};
+
+/**
+ * Forget a session's cached status so the next request re-reads it
+ * Call after revoking the session
+ */
+export const invalidateSessionStatus = (sessionId: string): void => {
+  sessionStatusCache.delete(sessionId);
+};
+
+/**
+ * Revoke one of the user's sessions (sign out that device)
+ */
+export const revokeSession = async (
+  userId: string,
+  sessionId: string,
+  context: ActivityContext = {}
+): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { data: session, error } = await supabase
+      .from('user_sessions')
+      .select('session_id, device, revoked_at')
+      .eq('session_id', sessionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to look up session', { error, userId, sessionId });
+      throw new AppError(
+        'Failed to revoke session',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    const sessionData = session as any;
+
+    if (!sessionData || sessionData.revoked_at) {
+      throw new AppError(
+        'Session not found',
+        404,
+        AuthErrorCode.SESSION_NOT_FOUND
+      );
+    }
+
+    await revokeRefreshTokenFamily(sessionId);
+    await revokeSessionTokens(sessionId);
+    invalidateSessionStatus(sessionId);
+
+    await recordActivity(userId, ActivityAction.SESSION_REVOKED, context, { type: 'session', id: sessionId }, {
+      device: sessionData.device,
+    });
+
+    logger.info('Session revoked', { userId, sessionId });
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error revoking session', { userId, sessionId, error });
+    throw new AppError(
+      'Failed to revoke session',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Revoke every active session except the current one ("sign out other devices")
+ * @returns Number of sessions revoked
+ */
+export const revokeOtherSessions = async (
+  userId: string,
+  currentSessionId: string | undefined,
+  context: ActivityContext = {}
+): Promise<number> => {
+  try {
+    const others = (await getUserSessions(userId)).filter(
+      (session) => session.session_id !== currentSessionId
+    );
+
+    for (const session of others) {
+      await revokeRefreshTokenFamily(session.session_id);
+      await revokeSessionTokens(session.session_id);
+      invalidateSessionStatus(session.session_id);
+    }
+
+    if (others.length > 0) {
+      await recordActivity(userId, ActivityAction.SESSION_REVOKED, context, { type: 'session' }, {
+        revoked_sessions: others.length,
+        kept_session: currentSessionId || null,
+      });
+    }
+
+    logger.info('Other sessions revoked', { userId, count: others.length });
+
+    return others.length;
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error revoking other sessions', { userId, error });
+    throw new AppError(
+      'Failed to revoke sessions',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+export default {
+  createSession,
+  touchSession,
+  getUserSessions,
+  isSessionRevoked,
+  invalidateSessionStatus,
+  revokeSession,
+  revokeOtherSessions,
+};
@@ -0,0 +1,218 @@
+import { getRedisClient } from '../config/redis';
+import config from '../config/env';
+import logger from '../config/logger';
+import { getTokenExpirationMs } from '../utils/jwtService';
+
+/**
+ * Token Blacklist Service
+ * Server-side revocation of access tokens, enabled by ENABLE_TOKEN_BLACKLIST
+ *
+ * Three kinds of entries are stored:
+ * - Single token: keyed by the JWT `jti` claim, kept until the token expires
+ * - Session: keyed by the JWT `sid` claim, kept for one access-token lifetime
+ * - Whole user ("sign out everywhere"): a cut-off time in milliseconds; tokens issued
+ *   at or before it are rejected
+ *
+ * Redis is used when available so revocations are shared between instances;
+ * otherwise an in-memory store is used (single instance, lost on restart)
+ */
+
+/**
+ * Revocation store contract
+ * Implemented by Redis and in-memory backends
+ */
+export interface TokenRevocationStore {
+  revokeToken(jti: string, ttlMs: number): Promise<void>;
+  isTokenRevoked(jti: string): Promise<boolean>;
+  revokeSession(sessionId: string, ttlMs: number): Promise<void>;
+  isSessionRevoked(sessionId: string): Promise<boolean>;
+  revokeUserTokens(userId: string, revokedBeforeMs: number, ttlMs: number): Promise<void>;
+  getUserRevokedBefore(userId: string): Promise<number | null>;
+}
+
+const tokenKey = (jti: string) => `revoked:jti:${jti}`;
+const sessionKey = (sessionId: string) => `revoked:session:${sessionId}`;
+const userKey = (userId: string) => `revoked:user:${userId}`;
+
+/**
+ * Redis-backed revocation store
+ * Entries expire automatically via PX TTL
+ */
+export class RedisTokenRevocationStore implements TokenRevocationStore {
+  constructor(private readonly client: NonNullable<ReturnType<typeof getRedisClient>>) {}
+
+  async revokeToken(jti: string, ttlMs: number): Promise<void> {
+    await this.client.set(tokenKey(jti), '1', { PX: Math.max(ttlMs, 1) });
+  }
+
+  async isTokenRevoked(jti: string): Promise<boolean> {
+    return (await this.client.exists(tokenKey(jti))) === 1;
+  }
+
+  async revokeSession(sessionId: string, ttlMs: number): Promise<void> {
+    await this.client.set(sessionKey(sessionId), '1', { PX: Math.max(ttlMs, 1) });
+  }
+
+  async isSessionRevoked(sessionId: string): Promise<boolean> {
+    return (await this.client.exists(sessionKey(sessionId))) === 1;
+  }
+
+  async revokeUserTokens(userId: string, revokedBeforeMs: number, ttlMs: number): Promise<void> {
+    await this.client.set(userKey(userId), revokedBeforeMs.toString(), { PX: Math.max(ttlMs, 1) });
+  }
+
+  async getUserRevokedBefore(userId: string): Promise<number | null> {
+    const value = await this.client.get(userKey(userId));
+    return value ? parseInt(value, 10) : null;
+  }
+}
+
+/**
+ * In-memory revocation store
+ * Used when Redis is unavailable and for offline testing
+ */
+export class InMemoryTokenRevocationStore implements TokenRevocationStore {
+  private readonly entries: Map<string, { value: string; expiresAt: number }> = new Map();
+
+  private read(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  private write(key: string, value: string, ttlMs: number): void {
+    this.entries.set(key, { value, expiresAt: Date.now() + Math.max(ttlMs, 1) });
+  }
+
+  async revokeToken(jti: string, ttlMs: number): Promise<void> {
+    this.write(tokenKey(jti), '1', ttlMs);
+  }
+
+  async isTokenRevoked(jti: string): Promise<boolean> {
+    return this.read(tokenKey(jti)) !== null;
+  }
+
+  async revokeSession(sessionId: string, ttlMs: number): Promise<void> {
+    this.write(sessionKey(sessionId), '1', ttlMs);
+  }
+
+  async isSessionRevoked(sessionId: string): Promise<boolean> {
+    return this.read(sessionKey(sessionId)) !== null;
+  }
+
+  async revokeUserTokens(userId: string, revokedBeforeMs: number, ttlMs: number): Promise<void> {
+    this.write(userKey(userId), revokedBeforeMs.toString(), ttlMs);
+  }
+
+  async getUserRevokedBefore(userId: string): Promise<number | null> {
+    const value = this.read(userKey(userId));
+    return value ? parseInt(value, 10) : null;
+  }
+}
+
+let store: TokenRevocationStore | null = null;
+
+/**
+ * Get the active revocation store
+ * Picks Redis if connected, otherwise the in-memory fallback
+ */
+export const getTokenRevocationStore = (): TokenRevocationStore => {
+  if (!store) {
+    const client = getRedisClient();
+    store = client ? new RedisTokenRevocationStore(client) : new InMemoryTokenRevocationStore();
+    logger.info('Token revocation store selected', { backend: client ? 'redis' : 'memory' });
+  }
+  return store;
+};
+
+/**
+ * Override the revocation store (e.g., in tests)
+ */
+export const setTokenRevocationStore = (newStore: TokenRevocationStore): void => {
+  store = newStore;
+};
+
+/**
+ * Revoke a single access token by its jti
+ * @param exp - Token expiration (Unix seconds); the entry is kept until then
+ */
+export const revokeToken = async (jti: string, exp: number): Promise<void> => {
+  if (!config.enableTokenBlacklist || !jti) return;
+
+  const ttlMs = exp * 1000 - Date.now();
+  if (ttlMs <= 0) return; // Already expired, nothing to revoke
+
+  await getTokenRevocationStore().revokeToken(jti, ttlMs);
+  logger.info('Access token revoked', { jti });
+};
+
+/**
+ * Revoke every access token belonging to a session (JWT `sid` claim)
+ * Used when a user signs out another device
+ */
+export const revokeSessionTokens = async (sessionId: string): Promise<void> => {
+  if (!config.enableTokenBlacklist) return;
+
+  // Access tokens of the session expire within one lifetime; refresh is revoked separately
+  await getTokenRevocationStore().revokeSession(sessionId, getTokenExpirationMs());
+  logger.info('Session access tokens revoked', { sessionId });
+};
+
+/**
+ * Revoke every access token issued to a user up to now
+ * Used by password change and "sign out everywhere"
+ */
+export const revokeAllUserTokens = async (userId: string): Promise<void> => {
+  if (!config.enableTokenBlacklist) return;
+
+  // Tokens older than one access-token lifetime have expired anyway
+  await getTokenRevocationStore().revokeUserTokens(
+    userId,
+    Date.now(),
+    getTokenExpirationMs()
+  );
+  logger.info('All access tokens revoked for user', { userId });
+};
+
+/**
+ * Check whether an access token has been revoked
+ * Fails closed (logs and rejects) if the store is unreachable
+ */
+export const isTokenRevoked = async (
+  payload: { jti?: string; sid?: string; user_id: string; iat: number; iat_ms?: number }
+): Promise<boolean> => {
+  if (!config.enableTokenBlacklist) return false;
+
+  try {
+    const revocationStore = getTokenRevocationStore();
+
+    if (payload.jti && (await revocationStore.isTokenRevoked(payload.jti))) {
+      return true;
+    }
+
+    if (payload.sid && (await revocationStore.isSessionRevoked(payload.sid))) {
+      return true;
+    }
+
+    // iat has whole seconds only; without iat_ms a token from the cut-off's second is rejected
+    const revokedBefore = await revocationStore.getUserRevokedBefore(payload.user_id);
+    const issuedAtMs = payload.iat_ms ?? payload.iat * 1000;
+    return revokedBefore !== null && issuedAtMs <= revokedBefore;
+  } catch (error) {
+    logger.error('Token revocation check failed', { error, user_id: payload.user_id });
+    return true;
+  }
+};
+
+export default {
+  getTokenRevocationStore,
+  setTokenRevocationStore,
+  revokeToken,
+  revokeSessionTokens,
+  revokeAllUserTokens,
+  isTokenRevoked,
+};
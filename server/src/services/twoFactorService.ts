@@ -0,0 +1,358 @@
+import { getSupabaseClient } from '../config/supabase';
+import config from '../config/env';
+import logger from '../config/logger';
+import { comparePassword } from '../utils/passwordService';
+import {
+  generateTotpSecret,
+  verifyTotpCode,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from '../utils/totpService';
+import { recordActivity } from './activityLogService';
+import { AppError, AuthErrorCode, ActivityAction, ActivityContext } from '../types';
+
+/**
+ * Two-Factor Authentication Service
+ * Optional TOTP (RFC 6238) second factor with one-time recovery codes
+ *
+ * Lifecycle:
+ * - enroll: a secret is generated and stored, but not yet enforced
+ * - confirm: the user proves their authenticator works; 2FA is enabled and
+ *   recovery codes are returned (once)
+ * - disable: requires the password and a current code or recovery code
+ */
+
+/**
+ * Second factor presented by the user: an authenticator code or a recovery code
+ */
+export interface SecondFactor {
+  code?: string;
+  recovery_code?: string;
+}
+
+/**
+ * Load the 2FA state of a user
+ */
+const getTwoFactorUser = async (userId: string): Promise<any> => {
+  const supabase = getSupabaseClient();
+
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('user_id, email, password_hash, two_factor_enabled, two_factor_secret, two_factor_recovery_codes, two_factor_last_step')
+    .eq('user_id', userId)
+    .single();
+
+  if (!user || error) {
+    logger.warn('User not found', { userId, error });
+    throw new AppError(
+      'User profile not found',
+      404,
+      'USER_NOT_FOUND'
+    );
+  }
+
+  return user;
+};
+
+/**
+ * Verify a second factor against a user's 2FA state
+ * Consumes the factor: TOTP steps cannot be replayed and recovery codes are removed
+ *
+ * @param user - Row with user_id, two_factor_secret, two_factor_recovery_codes, two_factor_last_step
+ * @returns The method that succeeded, or null if the factor is invalid
+ */
+export const verifySecondFactor = async (
+  user: any,
+  factor: SecondFactor
+): Promise<'totp' | 'recovery_code' | null> => {
+  const supabase = getSupabaseClient();
+
+  if (factor.code && user.two_factor_secret) {
+    const step = verifyTotpCode(user.two_factor_secret, factor.code);
+
+    if (step === null || (user.two_factor_last_step !== null && step <= user.two_factor_last_step)) {
+      return null;
+    }
+
+    // Conditional update so a code can only be used once, even by concurrent requests
+    const { data: updated, error } = await (supabase.from('users') as any)
+      .update({ two_factor_last_step: step })
+      .eq('user_id', user.user_id)
+      .or(`two_factor_last_step.is.null,two_factor_last_step.lt.${step}`)
+      .select('user_id');
+
+    if (error) {
+      logger.error('Failed to record TOTP step', { error, userId: user.user_id });
+      throw new AppError(
+        'Failed to verify two-factor code',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    if (!updated || updated.length === 0) {
+      return null;
+    }
+
+    return 'totp';
+  }
+
+  if (factor.recovery_code) {
+    const hash = hashRecoveryCode(factor.recovery_code);
+    const remaining: string[] = user.two_factor_recovery_codes || [];
+
+    if (!remaining.includes(hash)) {
+      return null;
+    }
+
+    // Removed in one statement (array_remove) so a recovery code can only be
+    // spent once and concurrent sign ins cannot restore each other's codes
+    const { data: consumed, error } = await (supabase as any).rpc('consume_two_factor_recovery_code', {
+      p_user_id: user.user_id,
+      p_code_hash: hash,
+    });
+
+    if (error) {
+      logger.error('Failed to consume recovery code', { error, userId: user.user_id });
+      throw new AppError(
+        'Failed to verify recovery code',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    if (!consumed) {
+      return null;
+    }
+
+    logger.info('Recovery code used', { userId: user.user_id, remaining: remaining.length - 1 });
+    return 'recovery_code';
+  }
+
+  return null;
+};
+
+/**
+ * Start 2FA enrollment
+ * Generates a new secret (replacing any unconfirmed one) and its otpauth URI
+ */
+export const enrollTwoFactor = async (
+  userId: string
+): Promise<{ secret: string; otpauth_uri: string }> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    logger.info('Two-factor enrollment started', { userId });
+
+    const user = await getTwoFactorUser(userId);
+
+    if (user.two_factor_enabled) {
+      throw new AppError(
+        'Two-factor authentication is already enabled.',
+        409,
+        AuthErrorCode.TWO_FACTOR_ALREADY_ENABLED
+      );
+    }
+
+    const secret = generateTotpSecret();
+
+    const { error } = await (supabase.from('users') as any).update({
+      two_factor_secret: secret,
+      two_factor_last_step: null,
+      updated_at: new Date().toISOString(),
+    }).eq('user_id', userId);
+
+    if (error) {
+      logger.error('Failed to store two-factor secret', { error, userId });
+      throw new AppError(
+        'Failed to start two-factor enrollment',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    return {
+      secret,
+      otpauth_uri: buildOtpauthUri(secret, user.email, config.twoFactorIssuer),
+    };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error during two-factor enrollment', { userId, error });
+    throw new AppError(
+      'Failed to start two-factor enrollment',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Confirm 2FA enrollment with a code from the authenticator app
+ * Enables 2FA and returns the recovery codes (shown to the user only once)
+ */
+export const confirmTwoFactor = async (
+  userId: string,
+  code: string,
+  context: ActivityContext = {}
+): Promise<{ recovery_codes: string[] }> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const user = await getTwoFactorUser(userId);
+
+    if (user.two_factor_enabled) {
+      throw new AppError(
+        'Two-factor authentication is already enabled.',
+        409,
+        AuthErrorCode.TWO_FACTOR_ALREADY_ENABLED
+      );
+    }
+
+    if (!user.two_factor_secret) {
+      throw new AppError(
+        'Start two-factor enrollment first.',
+        400,
+        AuthErrorCode.TWO_FACTOR_NOT_ENROLLED
+      );
+    }
+
+    const step = verifyTotpCode(user.two_factor_secret, code);
+    if (step === null) {
+      logger.warn('Invalid code on two-factor confirmation', { userId });
+      throw new AppError(
+        'Invalid authentication code. Please try again.',
+        400,
+        AuthErrorCode.INVALID_TWO_FACTOR_CODE,
+        'code'
+      );
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    const now = new Date().toISOString();
+
+    const { error } = await (supabase.from('users') as any).update({
+      two_factor_enabled: true,
+      two_factor_recovery_codes: recoveryCodes.map(hashRecoveryCode),
+      two_factor_last_step: step,
+      two_factor_enabled_at: now,
+      updated_at: now,
+    }).eq('user_id', userId);
+
+    if (error) {
+      logger.error('Failed to enable two-factor authentication', { error, userId });
+      throw new AppError(
+        'Failed to enable two-factor authentication',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    await recordActivity(userId, ActivityAction.TWO_FACTOR_ENABLED, context);
+
+    logger.info('Two-factor authentication enabled', { userId });
+
+    return { recovery_codes: recoveryCodes };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error confirming two-factor enrollment', { userId, error });
+    throw new AppError(
+      'Failed to enable two-factor authentication',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Disable 2FA
+ * Requires the current password plus an authenticator or recovery code
+ */
+export const disableTwoFactor = async (
+  userId: string,
+  password: string,
+  factor: SecondFactor,
+  context: ActivityContext = {}
+): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const user = await getTwoFactorUser(userId);
+
+    if (!user.two_factor_enabled) {
+      throw new AppError(
+        'Two-factor authentication is not enabled.',
+        400,
+        AuthErrorCode.TWO_FACTOR_NOT_ENABLED
+      );
+    }
+
+    const isPasswordValid = await comparePassword(password, user.password_hash);
+    if (!isPasswordValid) {
+      logger.warn('Incorrect password on two-factor disable', { userId });
+      throw new AppError(
+        'Current password is incorrect.',
+        401,
+        AuthErrorCode.INCORRECT_PASSWORD,
+        'password'
+      );
+    }
+
+    const method = await verifySecondFactor(user, factor);
+    if (!method) {
+      logger.warn('Invalid second factor on two-factor disable', { userId });
+      throw new AppError(
+        'Invalid authentication code. Please try again.',
+        400,
+        AuthErrorCode.INVALID_TWO_FACTOR_CODE,
+        'code'
+      );
+    }
+
+    const { error } = await (supabase.from('users') as any).update({
+      two_factor_enabled: false,
+      two_factor_secret: null,
+      two_factor_recovery_codes: null,
+      two_factor_last_step: null,
+      two_factor_enabled_at: null,
+      updated_at: new Date().toISOString(),
+    }).eq('user_id', userId);
+
+    if (error) {
+      logger.error('Failed to disable two-factor authentication', { error, userId });
+      throw new AppError(
+        'Failed to disable two-factor authentication',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    await recordActivity(userId, ActivityAction.TWO_FACTOR_DISABLED, context, undefined, { method });
+
+    logger.info('Two-factor authentication disabled', { userId });
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error disabling two-factor authentication', { userId, error });
+    throw new AppError(
+      'Failed to disable two-factor authentication',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+export default {
+  verifySecondFactor,
+  enrollTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+};
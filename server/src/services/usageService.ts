@@ -0,0 +1,241 @@
+import { getSupabaseClient } from '../config/supabase';
+import logger from '../config/logger';
+import { PLAN_TOKEN_LIMITS, PLAN_USAGE_RESET_PERIODS } from '../config/quotas';
+import { getUserPlan } from './quotaService';
+import { AppError, UsageEvent, UsageResetPeriod, UsageSummary } from '../types';
+
+/**
+ * Usage Service
+ * Token usage periods and the usage_events ledger
+ *
+ * - user_usage.total_tokens_used counts tokens in the current period; the
+ *   usage reset job zeroes it when the period ends (daily or monthly, by plan)
+ * - usage_events records every chat exchange and is never reset, so history
+ *   survives period resets
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EVENT_PAGE_SIZE = 1000;
+
+/**
+ * Start of the period containing `now` (UTC)
+ */
+export const getPeriodStart = (period: UsageResetPeriod, now: Date = new Date()): Date => {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+};
+
+/**
+ * Start of the period after the one containing `now` (UTC)
+ */
+export const getNextResetAt = (period: UsageResetPeriod, now: Date = new Date()): Date => {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+};
+
+/**
+ * Tokens used in the current period of a user_usage row
+ * A period that ended before the reset job ran counts as already reset
+ */
+export const getPeriodTokensUsed = (
+  usage: { total_tokens_used?: number; reset_period: UsageResetPeriod; last_reset_at?: string | null },
+  now: Date = new Date()
+): number => {
+  return usage.last_reset_at && new Date(usage.last_reset_at) < getPeriodStart(usage.reset_period, now)
+    ? 0
+    : usage.total_tokens_used || 0;
+};
+
+/**
+ * Record the tokens of one chat exchange in the ledger
+ * Failures are logged, not thrown: the exchange has already happened
+ */
+export const recordUsageEvent = async (
+  userId: string,
+  event: Pick<UsageEvent, 'chat_id' | 'message_id' | 'model' | 'tokens' | 'details'>
+): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { error } = await (supabase.from('usage_events') as any).insert({
+      user_id: userId,
+      event_type: 'chat_message',
+      ...event,
+    });
+
+    if (error) {
+      logger.error('Failed to record usage event', { error, userId, chatId: event.chat_id });
+    }
+  } catch (error) {
+    logger.error('Error in recordUsageEvent', { error, userId });
+  }
+};
+
+/**
+ * Reset token usage whose period has ended
+ * Sets last_reset_at to the start of the new period, so each row is reset once per period
+ *
+ * @returns Number of usage rows reset
+ */
+export const resetExpiredUsage = async (now: Date = new Date()): Promise<number> => {
+  const supabase = getSupabaseClient();
+  let reset = 0;
+
+  for (const period of ['daily', 'monthly'] as UsageResetPeriod[]) {
+    const periodStart = getPeriodStart(period, now).toISOString();
+
+    const { data, error } = await (supabase.from('user_usage') as any)
+      .update({ total_tokens_used: 0, last_reset_at: periodStart })
+      .eq('reset_period', period)
+      .lt('last_reset_at', periodStart)
+      .select('user_id');
+
+    if (error) {
+      logger.error('Failed to reset token usage', { error, period });
+      throw new AppError(
+        'Failed to reset token usage',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    reset += data?.length || 0;
+  }
+
+  return reset;
+};
+
+/**
+ * Read a user's ledger entries since a point in time, oldest first
+ */
+const getUsageEventsSince = async (
+  userId: string,
+  since: Date
+): Promise<Pick<UsageEvent, 'tokens' | 'created_at'>[]> => {
+  const supabase = getSupabaseClient();
+  const events: Pick<UsageEvent, 'tokens' | 'created_at'>[] = [];
+
+  for (let offset = 0; ; offset += EVENT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('usage_events')
+      .select('tokens, created_at')
+      .eq('user_id', userId)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true })
+      .range(offset, offset + EVENT_PAGE_SIZE - 1);
+
+    if (error) {
+      logger.error('Failed to fetch usage events', { error, userId });
+      throw new AppError(
+        'Failed to fetch usage',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    events.push(...((data as any[]) || []));
+    if (!data || data.length < EVENT_PAGE_SIZE) break;
+  }
+
+  return events;
+};
+
+/**
+ * Current-period totals and a per-day breakdown of the last `days` days
+ * Days without usage are included with zero totals
+ */
+export const getUserUsage = async (userId: string, days: number): Promise<UsageSummary> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const plan = await getUserPlan(userId);
+
+    const { data: usage, error } = await supabase
+      .from('user_usage')
+      .select('total_tokens_used, token_limit, reset_period, last_reset_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to fetch user usage', { error, userId });
+      throw new AppError(
+        'Failed to fetch usage',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    // No usage row yet: the user has not chatted
+    const usageData = (usage as any) || {
+      total_tokens_used: 0,
+      token_limit: PLAN_TOKEN_LIMITS[plan],
+      reset_period: PLAN_USAGE_RESET_PERIODS[plan],
+    };
+    const resetPeriod: UsageResetPeriod = usageData.reset_period;
+
+    const now = new Date();
+    const periodStart = getPeriodStart(resetPeriod, now);
+    const firstDay = new Date(getPeriodStart('daily', now).getTime() - (days - 1) * DAY_MS);
+
+    const events = await getUsageEventsSince(
+      userId,
+      firstDay < periodStart ? firstDay : periodStart
+    );
+
+    const daily = new Map<string, { tokens: number; exchanges: number }>();
+    for (let day = firstDay.getTime(); day <= now.getTime(); day += DAY_MS) {
+      daily.set(new Date(day).toISOString().slice(0, 10), { tokens: 0, exchanges: 0 });
+    }
+
+    let periodExchanges = 0;
+    for (const event of events) {
+      const createdAt = new Date(event.created_at);
+      const bucket = daily.get(createdAt.toISOString().slice(0, 10));
+      if (bucket) {
+        bucket.tokens += event.tokens;
+        bucket.exchanges++;
+      }
+      if (createdAt >= periodStart) {
+        periodExchanges++;
+      }
+    }
+
+    const tokensUsed = getPeriodTokensUsed(usageData, now);
+
+    return {
+      plan,
+      current_period: {
+        reset_period: resetPeriod,
+        started_at: periodStart,
+        resets_at: getNextResetAt(resetPeriod, now),
+        tokens_used: tokensUsed,
+        token_limit: usageData.token_limit,
+        tokens_remaining: Math.max(0, usageData.token_limit - tokensUsed),
+        exchanges: periodExchanges,
+      },
+      daily: Array.from(daily, ([date, totals]) => ({ date, ...totals })),
+    };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error fetching usage', { userId, error });
+    throw new AppError(
+      'Failed to fetch usage',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+export default {
+  getPeriodStart,
+  getNextResetAt,
+  getPeriodTokensUsed,
+  recordUsageEvent,
+  resetExpiredUsage,
+  getUserUsage,
+};
@@ -4,16 +4,26 @@
  * 
  * Services implemented:
  * - getUserProfile
- * 
- * Services to implement:
  * - updateUserProfile
  * - changePassword
+ * - requestEmailChange
+ * - confirmEmailChange
  * - getActivityLog
  */
 
 import { getSupabaseClient } from '../config/supabase';
+import config from '../config/env';
 import logger from '../config/logger';
-import { AppError, UserResponse } from '../types';
+import { hashPassword, comparePassword, getPasswordValidationError } from '../utils/passwordService';
+import { generateOtp, calculateOtpExpiration, isOtpExpired, isValidOtpFormat, hashOtp } from '../utils/otpService';
+import { sendEmailChangeOtpEmail, sendEmailChangeNoticeEmail } from '../utils/emailService';
+import { generateToken, getTokenExpirationMs } from '../utils/jwtService';
+import { revokeToken, revokeAllUserTokens } from './tokenBlacklistService';
+import { revokeAllUserRefreshTokens } from './refreshTokenService';
+import { getPrimaryWalletAddress } from './walletService';
+import { recordActivity } from './activityLogService';
+import { verifyOtpAttempt, otpAttemptsReset } from './otpAttemptService';
+import { AppError, AuthErrorCode, ActivityAction, ActivityContext, ActivityLog, ActivityLogFilters, JWTPayload, UpdateProfileRequest, UserResponse } from '../types';
 
 /**
  * Get user profile by user_id
@@ -26,7 +36,7 @@ export const getUserProfile = async (userId: string): Promise<UserResponse> => {
 
     const { data: user, error } = await supabase
       .from('users')
-      .select('user_id, email, username, full_name, profile_picture_url, bio, user_type, email_verified, is_active, created_at, updated_at, last_login_at')
+      .select('user_id, email, username, full_name, profile_picture_url, bio, user_type, plan, email_verified, is_active, created_at, updated_at, last_login_at')
       .eq('user_id', userId)
       .single();
 
@@ -51,6 +61,7 @@ export const getUserProfile = async (userId: string): Promise<UserResponse> => {
       profile_picture_url: userData.profile_picture_url,
       bio: userData.bio,
       user_type: userData.user_type,
+      plan: userData.plan,
       email_verified: userData.email_verified,
       is_active: userData.is_active,
       created_at: new Date(userData.created_at),
@@ -72,40 +83,534 @@ export const getUserProfile = async (userId: string): Promise<UserResponse> => {
 };
 
 /**
- * Placeholder for updateUserProfile service
+ * Update user profile
+ * Only the provided fields are changed (PATCH semantics)
+ */
+export const updateUserProfile = async (
+  userId: string,
+  profileData: UpdateProfileRequest
+): Promise<UserResponse> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    logger.info('Updating user profile', { userId, fields: Object.keys(profileData) });
+
+    const { username, full_name, bio, profile_picture_url } = profileData;
+
+    // Check username uniqueness against other users
+    if (username !== undefined) {
+      const { data: existingUser } = await (supabase
+        .from('users')
+        .select('user_id')
+        .eq('username', username)
+        .neq('user_id', userId)
+        .maybeSingle() as any);
+
+      if (existingUser) {
+        logger.warn('Profile update with taken username', { userId, username });
+        throw new AppError(
+          'Username already taken. Please choose another.',
+          409,
+          AuthErrorCode.USERNAME_TAKEN,
+          'username'
+        );
+      }
+    }
+
+    const updates: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+    if (username !== undefined) updates.username = username;
+    if (full_name !== undefined) updates.full_name = full_name;
+    if (bio !== undefined) updates.bio = bio;
+    if (profile_picture_url !== undefined) updates.profile_picture_url = profile_picture_url;
+
+    const { error: updateError } = await (supabase.from('users') as any)
+      .update(updates)
+      .eq('user_id', userId);
+
+    if (updateError) {
+      // Unique violation: username claimed between the check and the update
+      if (updateError.code === '23505') {
+        throw new AppError(
+          'Username already taken. Please choose another.',
+          409,
+          AuthErrorCode.USERNAME_TAKEN,
+          'username'
+        );
+      }
+
+      logger.error('Failed to update user profile', { error: updateError, userId });
+      throw new AppError(
+        'Failed to update profile',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    logger.info('User profile updated successfully', { userId });
+
+    return await getUserProfile(userId);
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error updating user profile', { userId, error });
+    throw new AppError(
+      'Failed to update profile',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Change user password
+ * Verifies the current password, then revokes every existing session
+ */
+export const changePassword = async (
+  userId: string,
+  currentPassword: string,
+  newPassword: string
+): Promise<{ user_id: string; email: string }> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    logger.info('Changing user password', { userId });
+
+    const passwordError = getPasswordValidationError(newPassword);
+    if (passwordError) {
+      throw new AppError(
+        passwordError,
+        400,
+        'VALIDATION_ERROR',
+        'new_password'
+      );
+    }
+
+    const { data: user, error: findError } = await supabase
+      .from('users')
+      .select('user_id, email, password_hash')
+      .eq('user_id', userId)
+      .single();
+
+    if (!user || findError) {
+      logger.warn('User not found', { userId, error: findError });
+      throw new AppError(
+        'User profile not found',
+        404,
+        'USER_NOT_FOUND'
+      );
+    }
+
+    const userData = user as any;
+
+    const isPasswordValid = await comparePassword(currentPassword, userData.password_hash);
+    if (!isPasswordValid) {
+      logger.warn('Incorrect current password on password change', { userId });
+      throw new AppError(
+        'Current password is incorrect.',
+        401,
+        AuthErrorCode.INCORRECT_PASSWORD,
+        'current_password'
+      );
+    }
+
+    if (currentPassword === newPassword) {
+      throw new AppError(
+        'New password must be different from the current password.',
+        400,
+        'VALIDATION_ERROR',
+        'new_password'
+      );
+    }
+
+    const passwordHash = await hashPassword(newPassword);
+
+    const { error: updateError } = await (supabase.from('users') as any).update({
+      password_hash: passwordHash,
+      updated_at: new Date().toISOString(),
+    }).eq('user_id', userId);
+
+    if (updateError) {
+      logger.error('Failed to update password', { error: updateError, userId });
+      throw new AppError(
+        'Failed to change password',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    // Force re-authentication everywhere with the new password
+    await revokeAllUserTokens(userId);
+    await revokeAllUserRefreshTokens(userId);
+
+    logger.info('User password changed successfully', { userId });
+
+    return {
+      user_id: userData.user_id,
+      email: userData.email,
+    };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error changing password', { userId, error });
+    throw new AppError(
+      'Failed to change password',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Request an email address change
+ * Verifies the password, stores the new address as pending and sends a
+ * confirmation code to it; the current address receives a notice
  */
-export const updateUserProfile = async (userId: string, profileData: any) => {
+export const requestEmailChange = async (
+  userId: string,
+  newEmail: string,
+  password: string,
+  context: ActivityContext = {}
+): Promise<{ pending_email: string }> => {
+  const supabase = getSupabaseClient();
+
   try {
-    logger.info('Update user profile service - not yet implemented', { userId });
-    throw new Error('updateUserProfile not implemented');
+    logger.info('Requesting email change', { userId });
+
+    const { data: user, error: findError } = await supabase
+      .from('users')
+      .select('user_id, email, full_name, password_hash')
+      .eq('user_id', userId)
+      .single();
+
+    if (!user || findError) {
+      logger.warn('User not found', { userId, error: findError });
+      throw new AppError(
+        'User profile not found',
+        404,
+        'USER_NOT_FOUND'
+      );
+    }
+
+    const userData = user as any;
+
+    const isPasswordValid = await comparePassword(password, userData.password_hash);
+    if (!isPasswordValid) {
+      logger.warn('Incorrect password on email change', { userId });
+      throw new AppError(
+        'Password is incorrect.',
+        401,
+        AuthErrorCode.INCORRECT_PASSWORD,
+        'password'
+      );
+    }
+
+    if (newEmail === userData.email) {
+      throw new AppError(
+        'New email must be different from the current email.',
+        400,
+        'VALIDATION_ERROR',
+        'new_email'
+      );
+    }
+
+    const { data: existingUser } = await (supabase
+      .from('users')
+      .select('user_id')
+      .eq('email', newEmail)
+      .maybeSingle() as any);
+
+    if (existingUser) {
+      throw new AppError(
+        'Email already registered. Please use a different email.',
+        409,
+        AuthErrorCode.EMAIL_EXISTS,
+        'new_email'
+      );
+    }
+
+    // Generate confirmation code (replaces any previously requested change)
+    const otp = generateOtp();
+    const otpExpiresAt = calculateOtpExpiration();
+
+    const { error: updateError } = await (supabase.from('users') as any).update({
+      pending_email: newEmail,
+      email_change_otp: hashOtp(otp, userId),
+      email_change_otp_expires_at: otpExpiresAt.toISOString(),
+      ...otpAttemptsReset('email_change'),
+      updated_at: new Date().toISOString(),
+    }).eq('user_id', userId);
+
+    if (updateError) {
+      logger.error('Failed to store email change request', { error: updateError, userId });
+      throw new AppError(
+        'Failed to start email change. Please try again.',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    try {
+      if (config.enableEmailVerification) {
+        await sendEmailChangeOtpEmail(newEmail, otp, userData.full_name);
+      }
+    } catch (emailError) {
+      logger.error('Failed to send email change code', { error: emailError, userId });
+      throw new AppError(
+        'Failed to send confirmation email. Please try again later.',
+        500,
+        AuthErrorCode.EMAIL_SEND_FAILED
+      );
+    }
+
+    // The notice is informational - the change can still be confirmed without it
+    try {
+      if (config.enableEmailVerification) {
+        await sendEmailChangeNoticeEmail(userData.email, newEmail, userData.full_name);
+      }
+    } catch (emailError) {
+      logger.warn('Failed to send email change notice', { error: emailError, userId });
+    }
+
+    await recordActivity(userId, ActivityAction.EMAIL_CHANGE_REQUESTED, context, undefined, {
+      new_email: newEmail,
+    });
+
+    logger.info('Email change requested', { userId });
+
+    return { pending_email: newEmail };
   } catch (error) {
-    logger.error('Update user profile error', { error });
-    throw error;
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error requesting email change', { userId, error });
+    throw new AppError(
+      'Failed to start email change',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
   }
 };
 
 /**
- * Placeholder for changePassword service
+ * Confirm an email address change with the code sent to the new address
+ * Swaps users.email and reissues the access token, since email is a JWT claim.
+ * The access token that made the request is revoked.
  */
-export const changePassword = async (userId: string, currentPassword: string, newPassword: string) => {
+export const confirmEmailChange = async (
+  currentToken: JWTPayload,
+  otp: string,
+  context: ActivityContext = {}
+): Promise<{ email: string; token: string; expiresIn: number }> => {
+  const supabase = getSupabaseClient();
+  const userId = currentToken.user_id;
+
   try {
-    logger.info('Change password service - not yet implemented', { userId });
-    throw new Error('changePassword not implemented');
+    if (!isValidOtpFormat(otp)) {
+      throw new AppError(
+        'Invalid OTP format. OTP must be 6 digits.',
+        400,
+        AuthErrorCode.INVALID_OTP,
+        'otp'
+      );
+    }
+
+    const { data: user, error: findError } = await supabase
+      .from('users')
+      .select('user_id, email, user_type, email_verified, pending_email, email_change_otp, email_change_otp_expires_at, email_change_otp_attempts')
+      .eq('user_id', userId)
+      .single();
+
+    if (!user || findError) {
+      logger.warn('User not found', { userId, error: findError });
+      throw new AppError(
+        'User profile not found',
+        404,
+        'USER_NOT_FOUND'
+      );
+    }
+
+    const userData = user as any;
+
+    if (!userData.pending_email || !userData.email_change_otp) {
+      throw new AppError(
+        'No email change has been requested.',
+        400,
+        AuthErrorCode.EMAIL_CHANGE_NOT_REQUESTED
+      );
+    }
+
+    if (!userData.email_change_otp_expires_at || isOtpExpired(new Date(userData.email_change_otp_expires_at))) {
+      throw new AppError(
+        'OTP has expired. Please request a new one.',
+        400,
+        AuthErrorCode.OTP_EXPIRED,
+        'otp'
+      );
+    }
+
+    await verifyOtpAttempt(
+      userId,
+      'email_change',
+      otp,
+      userData.email_change_otp,
+      userData.email_change_otp_attempts
+    );
+
+    // Conditional on the code so it can only be used once
+    const { data: updated, error: updateError } = await (supabase.from('users') as any)
+      .update({
+        email: userData.pending_email,
+        pending_email: null,
+        email_change_otp: null,
+        email_change_otp_expires_at: null,
+        ...otpAttemptsReset('email_change'),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId)
+      .eq('email_change_otp', userData.email_change_otp)
+      .select('user_id');
+
+    if (updateError) {
+      // Unique violation: the address was registered after the request
+      if (updateError.code === '23505') {
+        throw new AppError(
+          'Email already registered. Please use a different email.',
+          409,
+          AuthErrorCode.EMAIL_EXISTS,
+          'otp'
+        );
+      }
+
+      logger.error('Failed to change email', { error: updateError, userId });
+      throw new AppError(
+        'Failed to change email',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    if (!updated || updated.length === 0) {
+      throw new AppError(
+        'Invalid OTP. Please check and try again.',
+        400,
+        AuthErrorCode.INVALID_OTP,
+        'otp'
+      );
+    }
+
+    if (currentToken.jti && currentToken.exp) {
+      await revokeToken(currentToken.jti, currentToken.exp);
+    }
+
+    const token = generateToken({
+      email: userData.pending_email,
+      user_id: userId,
+      user_type: userData.user_type,
+      email_verified: userData.email_verified,
+      wallet_address: await getPrimaryWalletAddress(userId),
+      sid: currentToken.sid,
+    });
+
+    await recordActivity(userId, ActivityAction.EMAIL_CHANGED, context, undefined, {
+      previous_email: userData.email,
+      new_email: userData.pending_email,
+    });
+
+    logger.info('User email changed successfully', { userId });
+
+    return {
+      email: userData.pending_email,
+      token,
+      expiresIn: getTokenExpirationMs(),
+    };
   } catch (error) {
-    logger.error('Change password error', { error });
-    throw error;
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error confirming email change', { userId, error });
+    throw new AppError(
+      'Failed to change email',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
   }
 };
 
 /**
- * Placeholder for getActivityLog service
+ * Get user activity log
+ * Returns paginated entries ordered by most recent first,
+ * optionally filtered by action and date range
  */
-export const getActivityLog = async (userId: string, limit: number, offset: number) => {
+export const getActivityLog = async (
+  userId: string,
+  limit: number = 20,
+  offset: number = 0,
+  filters: ActivityLogFilters = {}
+): Promise<{ activities: ActivityLog[]; total: number }> => {
+  const supabase = getSupabaseClient();
+
   try {
-    logger.info('Get activity log service - not yet implemented', { userId });
-    throw new Error('getActivityLog not implemented');
+    logger.debug('Fetching activity log', { userId, limit, offset, filters });
+
+    let query = supabase
+      .from('activity_logs')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId);
+
+    if (filters.actions && filters.actions.length > 0) {
+      query = query.in('action', filters.actions);
+    }
+    if (filters.from) {
+      query = query.gte('created_at', filters.from.toISOString());
+    }
+    if (filters.to) {
+      query = query.lte('created_at', filters.to.toISOString());
+    }
+
+    const { data, count, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      logger.error('Failed to fetch activity log', { error, userId });
+      throw new AppError(
+        'Failed to retrieve activity log',
+        500,
+        'INTERNAL_SERVER_ERROR'
+      );
+    }
+
+    const activities: ActivityLog[] = (data || []).map((activity: any) => ({
+      activity_id: activity.activity_id,
+      user_id: activity.user_id,
+      action: activity.action,
+      resource_type: activity.resource_type,
+      resource_id: activity.resource_id,
+      details: activity.details,
+      ip_address: activity.ip_address ?? undefined,
+      user_agent: activity.user_agent ?? undefined,
+      created_at: new Date(activity.created_at),
+    }));
+
+    return {
+      activities,
+      total: count || 0,
+    };
   } catch (error) {
-    logger.error('Get activity log error', { error });
-    throw error;
+    if (error instanceof AppError) throw error;
+    logger.error('Error in getActivityLog', { error, userId });
+    throw new AppError(
+      'Failed to retrieve activity log',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
   }
 };
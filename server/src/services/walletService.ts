@@ -0,0 +1,471 @@
+import { getSupabaseClient } from '../config/supabase';
+import config from '../config/env';
+import logger from '../config/logger';
+import {
+  generateSiweNonce,
+  normalizeWalletAddress,
+  parseSiweMessage,
+  recoverSiweSigner,
+  SiweMessageFields,
+} from '../utils/siweService';
+import { recordActivity } from './activityLogService';
+import { AppError, AuthErrorCode, ActivityAction, ActivityContext, UserWallet } from '../types';
+
+/**
+ * Wallet Service
+ * Sign-In With Ethereum (EIP-4361) nonces and message verification,
+ * and the wallets linked to each user
+ *
+ * Flow:
+ * - GET /auth/siwe/nonce issues a single-use nonce
+ * - The wallet signs an EIP-4361 message containing that nonce
+ * - The server checks domain, validity window and signature (offline),
+ *   then consumes the nonce
+ */
+
+/**
+ * Issue a new SIWE nonce
+ */
+export const issueSiweNonce = async (): Promise<{ nonce: string; expiresAt: Date }> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const nonce = generateSiweNonce();
+    const expiresAt = new Date(Date.now() + config.siweNonceTtlMinutes * 60 * 1000);
+
+    const { error } = await (supabase.from('siwe_nonces') as any).insert({
+      nonce,
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      logger.error('Failed to store SIWE nonce', { error });
+      throw new AppError(
+        'Failed to issue sign-in nonce',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    return { nonce, expiresAt };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error issuing SIWE nonce', { error });
+    throw new AppError(
+      'Failed to issue sign-in nonce',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Mark a nonce as used
+ * Conditional update so a nonce can only be consumed once, and only before it expires
+ */
+const consumeSiweNonce = async (nonce: string): Promise<boolean> => {
+  const supabase = getSupabaseClient();
+  const now = new Date().toISOString();
+
+  const { data: updated, error } = await (supabase.from('siwe_nonces') as any)
+    .update({ used_at: now })
+    .eq('nonce', nonce)
+    .is('used_at', null)
+    .gt('expires_at', now)
+    .select('nonce');
+
+  if (error) {
+    logger.error('Failed to consume SIWE nonce', { error });
+    throw new AppError(
+      'Failed to verify sign-in message',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  return !!updated && updated.length > 0;
+};
+
+/**
+ * Verify a signed EIP-4361 message
+ * Checks the message fields and signature, then consumes its nonce
+ *
+ * @returns The verified message fields (address is the proven signer)
+ */
+export const verifySiweMessage = async (
+  message: string,
+  signature: string
+): Promise<SiweMessageFields> => {
+  const fields = parseSiweMessage(message);
+
+  if (!fields || fields.version !== '1') {
+    throw new AppError(
+      'Invalid Sign-In With Ethereum message.',
+      400,
+      AuthErrorCode.INVALID_SIWE_MESSAGE,
+      'message'
+    );
+  }
+
+  if (fields.domain !== config.siweDomain) {
+    logger.warn('SIWE message for unexpected domain', { domain: fields.domain });
+    throw new AppError(
+      'Sign-in message was created for a different domain.',
+      400,
+      AuthErrorCode.INVALID_SIWE_MESSAGE,
+      'message'
+    );
+  }
+
+  const now = new Date();
+
+  if ((fields.expirationTime && fields.expirationTime <= now) || (fields.notBefore && fields.notBefore > now)) {
+    throw new AppError(
+      'Sign-in message is expired or not yet valid.',
+      401,
+      AuthErrorCode.INVALID_SIWE_MESSAGE,
+      'message'
+    );
+  }
+
+  // Signature is checked before the nonce is consumed, so a forged
+  // submission cannot burn a nonce issued to someone else
+  const signer = await recoverSiweSigner(message, signature);
+
+  if (!signer || signer !== fields.address) {
+    logger.warn('SIWE signature does not match message address', { address: fields.address });
+    throw new AppError(
+      'Signature does not match the wallet address in the message.',
+      401,
+      AuthErrorCode.INVALID_SIGNATURE,
+      'signature'
+    );
+  }
+
+  if (!(await consumeSiweNonce(fields.nonce))) {
+    logger.warn('SIWE nonce invalid, expired or already used', { address: fields.address });
+    throw new AppError(
+      'Sign-in nonce is invalid or has expired. Please request a new one.',
+      401,
+      AuthErrorCode.INVALID_NONCE,
+      'message'
+    );
+  }
+
+  return fields;
+};
+
+/**
+ * Find the wallet row for an address, if it is linked to any user
+ */
+export const findLinkedWallet = async (address: string): Promise<UserWallet | null> => {
+  const supabase = getSupabaseClient();
+
+  const { data: wallet, error } = await supabase
+    .from('user_wallets')
+    .select('*')
+    .eq('address', address)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to look up wallet', { error, address });
+    throw new AppError(
+      'Failed to look up wallet',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  return (wallet as any) || null;
+};
+
+/**
+ * Record that a wallet was used to sign in
+ */
+export const markWalletUsed = async (walletId: string): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  const { error } = await (supabase.from('user_wallets') as any)
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('wallet_id', walletId);
+
+  if (error) {
+    logger.warn('Failed to update wallet last_used_at', { error, walletId });
+  }
+};
+
+/**
+ * Get the primary wallet address of a user (carried in the JWT)
+ */
+export const getPrimaryWalletAddress = async (userId: string): Promise<string | undefined> => {
+  const supabase = getSupabaseClient();
+
+  const { data: wallet, error } = await supabase
+    .from('user_wallets')
+    .select('address')
+    .eq('user_id', userId)
+    .eq('is_primary', true)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to look up primary wallet', { error, userId });
+    throw new AppError(
+      'Failed to look up primary wallet',
+      500,
+      'DATABASE_ERROR'
+    );
+  }
+
+  return (wallet as any)?.address || undefined;
+};
+
+/**
+ * List the wallets linked to a user, primary first
+ */
+export const getUserWallets = async (userId: string): Promise<UserWallet[]> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const { data: wallets, error } = await supabase
+      .from('user_wallets')
+      .select('*')
+      .eq('user_id', userId)
+      .order('is_primary', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logger.error('Failed to fetch wallets', { error, userId });
+      throw new AppError(
+        'Failed to fetch wallets',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    return (wallets as any) || [];
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error fetching wallets', { userId, error });
+    throw new AppError(
+      'Failed to fetch wallets',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Link a wallet to a user
+ * The user proves ownership by signing a SIWE message; the first wallet becomes primary
+ */
+export const linkWallet = async (
+  userId: string,
+  message: string,
+  signature: string,
+  context: ActivityContext = {}
+): Promise<UserWallet> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const fields = await verifySiweMessage(message, signature);
+
+    const existing = await findLinkedWallet(fields.address);
+    if (existing) {
+      throw new AppError(
+        existing.user_id === userId
+          ? 'This wallet is already linked to your account.'
+          : 'This wallet is already linked to another account.',
+        409,
+        AuthErrorCode.WALLET_ALREADY_LINKED,
+        'message'
+      );
+    }
+
+    const isFirstWallet = !(await getPrimaryWalletAddress(userId));
+
+    const { data: wallet, error } = await (supabase.from('user_wallets') as any)
+      .insert({
+        user_id: userId,
+        address: fields.address,
+        chain_id: fields.chainId,
+        is_primary: isFirstWallet,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Unique violation: linked concurrently
+      if (error.code === '23505') {
+        throw new AppError(
+          'This wallet is already linked to an account.',
+          409,
+          AuthErrorCode.WALLET_ALREADY_LINKED,
+          'message'
+        );
+      }
+
+      logger.error('Failed to link wallet', { error, userId });
+      throw new AppError(
+        'Failed to link wallet',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    await recordActivity(userId, ActivityAction.WALLET_LINKED, context, { type: 'wallet', id: fields.address }, {
+      chain_id: fields.chainId,
+      is_primary: isFirstWallet,
+    });
+
+    logger.info('Wallet linked', { userId, address: fields.address });
+
+    return wallet;
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error linking wallet', { userId, error });
+    throw new AppError(
+      'Failed to link wallet',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Find one of the user's wallets by address, or throw 404
+ */
+const getOwnedWallet = async (userId: string, address: string): Promise<UserWallet> => {
+  const normalized = normalizeWalletAddress(address);
+  const wallet = normalized ? await findLinkedWallet(normalized) : null;
+
+  if (!wallet || wallet.user_id !== userId) {
+    throw new AppError(
+      'Wallet not found',
+      404,
+      AuthErrorCode.WALLET_NOT_FOUND
+    );
+  }
+
+  return wallet;
+};
+
+/**
+ * Make one of the user's wallets the primary wallet
+ */
+export const setPrimaryWallet = async (userId: string, address: string): Promise<UserWallet> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const wallet = await getOwnedWallet(userId, address);
+
+    if (wallet.is_primary) {
+      return wallet;
+    }
+
+    // Clear the current primary first (partial unique index allows only one)
+    const { error: clearError } = await (supabase.from('user_wallets') as any)
+      .update({ is_primary: false })
+      .eq('user_id', userId)
+      .eq('is_primary', true);
+
+    const { error } = await (supabase.from('user_wallets') as any)
+      .update({ is_primary: true })
+      .eq('wallet_id', wallet.wallet_id);
+
+    if (clearError || error) {
+      logger.error('Failed to set primary wallet', { error: clearError || error, userId });
+      throw new AppError(
+        'Failed to set primary wallet',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    logger.info('Primary wallet changed', { userId, address: wallet.address });
+
+    return { ...wallet, is_primary: true };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error setting primary wallet', { userId, error });
+    throw new AppError(
+      'Failed to set primary wallet',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+/**
+ * Unlink a wallet from the user
+ * If it was the primary wallet, the oldest remaining wallet becomes primary
+ */
+export const unlinkWallet = async (
+  userId: string,
+  address: string,
+  context: ActivityContext = {}
+): Promise<void> => {
+  const supabase = getSupabaseClient();
+
+  try {
+    const wallet = await getOwnedWallet(userId, address);
+
+    const { error } = await (supabase.from('user_wallets') as any)
+      .delete()
+      .eq('wallet_id', wallet.wallet_id);
+
+    if (error) {
+      logger.error('Failed to unlink wallet', { error, userId });
+      throw new AppError(
+        'Failed to unlink wallet',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+
+    if (wallet.is_primary) {
+      const [next] = await getUserWallets(userId);
+      if (next) {
+        await setPrimaryWallet(userId, next.address);
+      }
+    }
+
+    await recordActivity(userId, ActivityAction.WALLET_UNLINKED, context, { type: 'wallet', id: wallet.address });
+
+    logger.info('Wallet unlinked', { userId, address: wallet.address });
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    logger.error('Unexpected error unlinking wallet', { userId, error });
+    throw new AppError(
+      'Failed to unlink wallet',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+};
+
+export default {
+  issueSiweNonce,
+  verifySiweMessage,
+  findLinkedWallet,
+  markWalletUsed,
+  getPrimaryWalletAddress,
+  getUserWallets,
+  linkWallet,
+  setPrimaryWallet,
+  unlinkWallet,
+};
@@ -1,5 +1,23 @@
 import { Request } from 'express';
 
+/**
+ * User Roles
+ * merchant and buyer are chosen at registration; admin is assigned manually
+ */
+export type UserRole = 'merchant' | 'buyer' | 'admin';
+
+/**
+ * User Plans
+ * Decide request quotas on chat and image endpoints (see config/quotas.ts)
+ */
+export type UserPlan = 'free' | 'pro' | 'merchant';
+
+/**
+ * Quota Classes
+ * Endpoint groups that share a quota; each plan sets limits per class
+ */
+export type QuotaClass = 'chat' | 'image';
+
 /**
  * User Model Interface - Based on auth.md schema
  */
@@ -11,8 +29,16 @@ export interface User {
   // Authentication
   password_hash: string; // Bcrypt hashed (12 rounds)
   email_verified: boolean; // Default: false
-  email_verification_otp: string | null; // 6-digit OTP
+  email_verification_otp: string | null; // HMAC of the 6-digit OTP
   email_otp_expires_at: Date | null; // OTP expiration
+  email_otp_attempts: number; // Failed guesses of the current OTP
+  password_reset_otp: string | null; // HMAC of the 6-digit password reset code
+  password_reset_otp_expires_at: Date | null; // Reset code expiration
+  password_reset_otp_attempts: number; // Failed guesses of the current reset code
+  pending_email: string | null; // Requested new address, awaiting confirmation
+  email_change_otp: string | null; // HMAC of the 6-digit code sent to pending_email
+  email_change_otp_expires_at: Date | null; // Email change code expiration
+  email_change_otp_attempts: number; // Failed guesses of the current email change code
 
   // User Profile
   username: string | null; // Unique, Optional
@@ -21,7 +47,8 @@ export interface User {
   bio: string | null; // Optional, max 500 chars
 
   // User Type & Permissions
-  user_type: 'merchant' | 'buyer'; // Role type
+  user_type: UserRole; // Role type
+  plan: UserPlan; // Quota plan, default: 'free'
 
   // Status
   is_active: boolean; // Default: true
@@ -34,6 +61,89 @@ export interface User {
   // Security & Sessions
   failed_login_attempts: number; // Default: 0
   account_locked_until: Date | null; // Account lock timestamp
+
+  // Two-Factor Authentication (TOTP)
+  two_factor_enabled: boolean; // Default: false
+  two_factor_secret: string | null; // Base32 TOTP secret
+  two_factor_recovery_codes: string[] | null; // SHA-256 hashes of unused recovery codes
+  two_factor_last_step: number | null; // Last accepted TOTP time step (replay guard)
+  two_factor_enabled_at: Date | null;
+
+  // Account Deletion
+  deletion_requested_at: Date | null;
+  deletion_scheduled_at: Date | null; // Hard delete after this time (grace period)
+}
+
+/**
+ * User Session Interface
+ * One row per sign in; session_id is also the refresh token family
+ */
+export interface UserSession {
+  session_id: string;
+  user_id: string;
+  device: string | null; // e.g. "Chrome on macOS"
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_seen_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+}
+
+/**
+ * Linked Wallet Interface
+ * Ethereum addresses a user has proven ownership of via Sign-In With Ethereum
+ */
+export interface UserWallet {
+  wallet_id: string;
+  user_id: string;
+  address: string; // EIP-55 checksummed
+  chain_id: number; // Chain the linking message was signed for
+  is_primary: boolean;
+  created_at: Date;
+  last_used_at: Date | null;
+}
+
+/**
+ * Linked External Identity Interface
+ * OpenID Connect accounts a user has signed in with
+ */
+export interface UserIdentity {
+  identity_id: string;
+  user_id: string;
+  provider: string; // Provider id from OIDC_PROVIDERS
+  subject: string; // 'sub' claim of the provider's ID token
+  email: string | null; // Email reported by the provider when linked
+  created_at: Date;
+  last_used_at: Date | null;
+}
+
+/**
+ * API Key Scopes
+ * What a personal API key may do; checked by requirePermission (see config/permissions.ts)
+ */
+export enum ApiKeyScope {
+  CHAT_READ = 'chat:read',
+  CHAT_WRITE = 'chat:write',
+  IMAGES_READ = 'images:read',
+  IMAGES_GENERATE = 'images:generate',
+  FILES_READ = 'files:read',
+  FILES_WRITE = 'files:write',
+}
+
+/**
+ * Personal API Key Interface
+ * The key itself is shown once at creation; only its hash is stored
+ */
+export interface ApiKey {
+  key_id: string;
+  user_id: string;
+  name: string;
+  key_prefix: string; // First characters of the key, for display
+  scopes: ApiKeyScope[];
+  expires_at: Date | null; // null = never expires
+  last_used_at: Date | null;
+  created_at: Date;
 }
 
 /**
@@ -42,9 +152,13 @@ export interface User {
 export interface JWTPayload {
   email: string; // Unique identifier
   user_id: string; // UUID reference
-  user_type: 'merchant' | 'buyer';
+  user_type: UserRole;
   email_verified: boolean;
+  wallet_address?: string; // Primary linked wallet (EIP-55 checksummed), if any
+  sid?: string; // Session ID (user_sessions.session_id)
+  jti: string; // Unique token ID (used for revocation)
   iat: number; // Issued At timestamp
+  iat_ms?: number; // Issued At in milliseconds (compared with "sign out everywhere" cut-offs)
   exp: number; // Expiration timestamp
 }
 
@@ -53,6 +167,7 @@ export interface JWTPayload {
  */
 export interface AuthenticatedRequest extends Request {
   user?: JWTPayload;
+  apiKey?: Pick<ApiKey, 'key_id' | 'scopes'>; // Set when authenticated with an API key instead of the auth_token cookie
 }
 
 /**
@@ -86,6 +201,8 @@ export interface Chat {
   user_id: string; // UUID, Foreign Key
   title: string; // Chat title (auto-generated or custom)
   is_active: boolean; // Soft delete flag
+  is_pinned: boolean; // Listed before other chats
+  is_archived: boolean; // Hidden from the default chat list
   created_at: Date;
   updated_at: Date;
 }
@@ -100,21 +217,76 @@ export interface Message {
   content: string; // Message text content
   metadata: Record<string, any>; // JSONB for future image attachments
   tokens_consumed: number; // Tokens used for this message
+  parent_message_id: string | null; // Message this one follows (null for the first)
   created_at: Date;
 }
 
+/**
+ * Chat History Message
+ * A message on the active branch with the versions it can switch to
+ */
+export interface ChatHistoryMessage extends Message {
+  sibling_ids: string[]; // Messages sharing its parent, itself included, oldest first
+  sibling_count: number; // > 1 at a fork (edited message or regenerated reply)
+}
+
 /**
  * User Usage Model Interface
  */
 export interface UserUsage {
   user_id: string; // UUID, Primary Key
-  total_tokens_used: number; // Total tokens consumed
-  token_limit: number; // User's token limit
-  last_reset_at: Date; // Last reset timestamp
+  total_tokens_used: number; // Tokens consumed in the current period
+  token_limit: number; // User's token limit per period
+  reset_period: UsageResetPeriod; // How often total_tokens_used resets
+  last_reset_at: Date; // Start of the current period
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * Usage Reset Period
+ * daily resets at 00:00 UTC, monthly on the 1st at 00:00 UTC
+ */
+export type UsageResetPeriod = 'daily' | 'monthly';
+
+/**
+ * Usage Event Model Interface
+ * Ledger row recording the tokens of one chat exchange
+ */
+export interface UsageEvent {
+  event_id: string; // UUID
+  user_id: string;
+  chat_id: string | null;
+  message_id: string | null; // Assistant message of the exchange
+  event_type: 'chat_message';
+  model: string | null;
+  tokens: number;
+  details: Record<string, any>; // Token breakdown (TokenStats)
+  created_at: Date;
+}
+
+/**
+ * Usage Summary Response
+ * Current-period totals and a per-day breakdown (GET /user/usage)
+ */
+export interface UsageSummary {
+  plan: UserPlan;
+  current_period: {
+    reset_period: UsageResetPeriod;
+    started_at: Date;
+    resets_at: Date;
+    tokens_used: number;
+    token_limit: number;
+    tokens_remaining: number;
+    exchanges: number;
+  };
+  daily: {
+    date: string; // YYYY-MM-DD (UTC)
+    tokens: number;
+    exchanges: number;
+  }[];
+}
+
 /**
  * Chat API Request Types
  */
@@ -122,6 +294,12 @@ export interface CreateChatRequest {
   title?: string; // Optional chat title
 }
 
+export interface UpdateChatRequest {
+  title?: string; // 1-255 characters
+  is_pinned?: boolean;
+  is_archived?: boolean; // Archiving also unpins
+}
+
 export interface SendMessageRequest {
   message: string; // User message content (1-5000 chars)
   attachments?: {
@@ -145,13 +323,169 @@ export interface ChatListResponse {
   active: number; // Count of active chats
 }
 
+/**
+ * Chat Search Result
+ * One ranked hit: a chat title (message_id null) or a message on a chat's
+ * active branch
+ */
+export interface ChatSearchResult {
+  chat_id: string;
+  chat_title: string;
+  is_archived: boolean;
+  message_id: string | null;
+  role: 'user' | 'assistant' | 'system' | null;
+  snippet: string; // Matches wrapped in <mark></mark>; render as text, not HTML
+  rank: number;
+  created_at: Date;
+}
+
+export interface ChatSearchResponse {
+  query: string;
+  results: ChatSearchResult[];
+  limit: number;
+  offset: number;
+}
+
 export interface ChatHistoryResponse {
   chat_id: string;
   title: string;
-  messages: Message[];
+  messages: ChatHistoryMessage[];
   total_messages: number;
 }
 
+/**
+ * Credit Ledger Entry Interface
+ * One change to a user's image generation credits
+ */
+export interface CreditLedgerEntry {
+  entry_id: string; // UUID
+  user_id: string;
+  seq: number; // Per-user sequence; the highest holds the balance
+  entry_type: 'grant' | 'debit' | 'refund';
+  amount: number; // Positive for grants and refunds, negative for debits
+  balance_after: number;
+  reason: string; // e.g. 'plan_grant', 'image_generation'
+  reference_id: string | null; // e.g. the generated image id
+  created_at: Date;
+}
+
+/**
+ * Credits Response
+ * Balance, image generation limits and recent ledger entries (GET /user/credits)
+ */
+export interface CreditsSummary {
+  plan: UserPlan;
+  balance: number;
+  image_generation_cost: number;
+  daily_generations: {
+    used: number;
+    limit: number;
+    resets_at: Date;
+  };
+  entries: CreditLedgerEntry[];
+}
+
+/**
+ * Credit Error Codes
+ */
+export enum CreditErrorCode {
+  INSUFFICIENT_CREDITS = 'INSUFFICIENT_CREDITS',
+  CREDIT_LEDGER_CONFLICT = 'CREDIT_LEDGER_CONFLICT',
+}
+
+/**
+ * Subscription Model Interface
+ * Mirror of a payment provider subscription, kept in sync by webhooks
+ */
+export type SubscriptionStatus =
+  | 'active'
+  | 'trialing'
+  | 'past_due'
+  | 'unpaid'
+  | 'incomplete'
+  | 'incomplete_expired'
+  | 'canceled';
+
+export interface Subscription {
+  subscription_id: string; // UUID
+  user_id: string;
+  provider: string; // BILLING_PROVIDER when created
+  provider_subscription_id: string;
+  plan: UserPlan;
+  status: SubscriptionStatus;
+  current_period_start: Date | null;
+  current_period_end: Date | null;
+  cancel_at_period_end: boolean;
+  canceled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Invoice Model Interface
+ * Amounts are in the smallest currency unit (e.g. cents)
+ */
+export interface Invoice {
+  invoice_id: string; // UUID
+  user_id: string;
+  provider: string;
+  provider_invoice_id: string;
+  provider_subscription_id: string | null;
+  number: string | null;
+  status: string; // draft, open, paid, void, uncollectible
+  amount_due: number;
+  amount_paid: number;
+  currency: string;
+  hosted_invoice_url: string | null;
+  period_start: Date | null;
+  period_end: Date | null;
+  paid_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Billing Plan
+ * A plan as offered in GET /billing/plans
+ */
+export interface BillingPlan {
+  plan: UserPlan;
+  name: string;
+  price: {
+    amount: number; // Smallest currency unit, per month
+    currency: string;
+    interval: 'month';
+  };
+  token_limit: number;
+  usage_reset_period: UsageResetPeriod;
+  credits: number; // Granted when the plan starts and on each renewal
+  quotas: Record<QuotaClass, { requests_per_minute: number; generations_per_day: number }>;
+}
+
+/**
+ * Billing Event
+ * A payment provider webhook event, in Stripe's event format
+ */
+export interface BillingEvent {
+  id: string;
+  type: string;
+  created?: number; // Unix seconds
+  data: {
+    object: Record<string, any>;
+  };
+}
+
+/**
+ * Billing Error Codes
+ */
+export enum BillingErrorCode {
+  PLAN_NOT_PURCHASABLE = 'PLAN_NOT_PURCHASABLE',
+  ALREADY_SUBSCRIBED = 'ALREADY_SUBSCRIBED',
+  SUBSCRIPTION_NOT_FOUND = 'SUBSCRIPTION_NOT_FOUND',
+  CHECKOUT_SESSION_NOT_FOUND = 'CHECKOUT_SESSION_NOT_FOUND',
+  INVALID_WEBHOOK_SIGNATURE = 'INVALID_WEBHOOK_SIGNATURE',
+  BILLING_PROVIDER_ERROR = 'BILLING_PROVIDER_ERROR',
+}
+
 /**
  * Chat Error Codes
  */
@@ -163,6 +497,10 @@ export enum ChatErrorCode {
   CHAT_INACTIVE = 'CHAT_INACTIVE',
   UNAUTHORIZED_CHAT_ACCESS = 'UNAUTHORIZED_CHAT_ACCESS',
   CHAT_DELETION_FAILED = 'CHAT_DELETION_FAILED',
+  MESSAGE_NOT_FOUND = 'MESSAGE_NOT_FOUND',
+  MESSAGE_NOT_EDITABLE = 'MESSAGE_NOT_EDITABLE',
+  NOTHING_TO_REGENERATE = 'NOTHING_TO_REGENERATE',
+  INVALID_SEARCH_QUERY = 'INVALID_SEARCH_QUERY',
 }
 
 /**
@@ -173,6 +511,57 @@ export interface PaginationOptions {
   offset: number;
 }
 
+/**
+ * Activity Log Actions
+ * Security-relevant events recorded in activity_logs
+ */
+export enum ActivityAction {
+  SIGNIN = 'SIGNIN',
+  SIGNIN_FAILED = 'SIGNIN_FAILED',
+  LOGOUT = 'LOGOUT',
+  LOGOUT_ALL = 'LOGOUT_ALL',
+  SESSION_REVOKED = 'SESSION_REVOKED',
+  ACCOUNT_UPDATED_BY_ADMIN = 'ACCOUNT_UPDATED_BY_ADMIN',
+  DATA_EXPORTED = 'DATA_EXPORTED',
+  EMAIL_CHANGE_REQUESTED = 'EMAIL_CHANGE_REQUESTED',
+  EMAIL_CHANGED = 'EMAIL_CHANGED',
+  ACCOUNT_DELETION_REQUESTED = 'ACCOUNT_DELETION_REQUESTED',
+  ACCOUNT_DELETION_CANCELLED = 'ACCOUNT_DELETION_CANCELLED',
+  EMAIL_VERIFIED = 'EMAIL_VERIFIED',
+  PASSWORD_CHANGED = 'PASSWORD_CHANGED',
+  PASSWORD_RESET = 'PASSWORD_RESET',
+  TWO_FACTOR_ENABLED = 'TWO_FACTOR_ENABLED',
+  TWO_FACTOR_DISABLED = 'TWO_FACTOR_DISABLED',
+  WALLET_LINKED = 'WALLET_LINKED',
+  WALLET_UNLINKED = 'WALLET_UNLINKED',
+  IDENTITY_LINKED = 'IDENTITY_LINKED',
+  API_KEY_CREATED = 'API_KEY_CREATED',
+  API_KEY_DELETED = 'API_KEY_DELETED',
+  PROFILE_UPDATED = 'PROFILE_UPDATED',
+  FILE_UPLOADED = 'FILE_UPLOADED',
+  IMAGE_GENERATED = 'IMAGE_GENERATED',
+  CHAT_DELETED = 'CHAT_DELETED',
+  PLAN_CHANGED = 'PLAN_CHANGED',
+  SUBSCRIPTION_CANCELED = 'SUBSCRIPTION_CANCELED',
+}
+
+/**
+ * Request metadata captured with each activity
+ */
+export interface ActivityContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+/**
+ * Activity Log Filters
+ */
+export interface ActivityLogFilters {
+  actions?: ActivityAction[];
+  from?: Date;
+  to?: Date;
+}
+
 /**
  * Activity Log Interface
  */
@@ -180,10 +569,12 @@ export interface ActivityLog {
   activity_id: string;
   user_id: string;
   action: string;
-  description: string;
+  resource_type: string | null;
+  resource_id: string | null;
+  details: Record<string, any> | null;
   ip_address?: string;
   user_agent?: string;
-  timestamp: Date;
+  created_at: Date;
 }
 
 /**
@@ -211,12 +602,81 @@ export interface ResendOtpRequest {
   email: string;
 }
 
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  email: string;
+  otp: string;
+  new_password: string;
+}
+
+export interface TwoFactorSignInRequest {
+  challenge_token: string; // From the body, or the two_factor_challenge cookie after OIDC sign in
+  code?: string; // 6-digit authenticator code
+  recovery_code?: string; // One-time recovery code
+}
+
+export interface TwoFactorConfirmRequest {
+  code: string;
+}
+
+export interface TwoFactorDisableRequest {
+  password: string;
+  code?: string;
+  recovery_code?: string;
+}
+
+export interface MagicLinkRequest {
+  email: string;
+}
+
+export interface MagicLinkSignInRequest {
+  token: string; // Signed token from the emailed link
+}
+
+export interface SiweVerifyRequest {
+  message: string; // EIP-4361 message, exactly as signed
+  signature: string; // 0x-prefixed personal_sign signature
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  expires_in_days?: number; // Omit for a key that never expires
+}
+
 export interface ChangePasswordRequest {
   current_password: string;
   new_password: string;
   confirm_password: string;
 }
 
+export interface EmailChangeRequest {
+  new_email: string;
+  password: string;
+}
+
+export interface ConfirmEmailChangeRequest {
+  otp: string;
+}
+
+export interface DeleteAccountRequest {
+  password: string;
+}
+
+export interface AdminUpdateUserRequest {
+  user_type?: UserRole;
+  is_active?: boolean;
+}
+
+export interface AdminUserFilters {
+  search?: string; // Matches email, username or full name
+  user_type?: UserRole;
+  is_active?: boolean;
+}
+
 export interface UpdateProfileRequest {
   username?: string;
   full_name?: string;
@@ -234,7 +694,8 @@ export interface UserResponse {
   full_name: string | null;
   profile_picture_url: string | null;
   bio: string | null;
-  user_type: 'merchant' | 'buyer';
+  user_type: UserRole;
+  plan: UserPlan;
   email_verified: boolean;
   is_active: boolean;
   created_at: Date;
@@ -283,6 +744,40 @@ export enum AuthErrorCode {
   EMAIL_SEND_FAILED = 'EMAIL_SEND_FAILED',
   NO_SESSION = 'NO_SESSION',
   RESEND_LIMIT_EXCEEDED = 'RESEND_LIMIT_EXCEEDED',
+  REFRESH_TOKEN_REUSED = 'REFRESH_TOKEN_REUSED',
+  INVALID_TWO_FACTOR_CODE = 'INVALID_TWO_FACTOR_CODE',
+  TWO_FACTOR_ALREADY_ENABLED = 'TWO_FACTOR_ALREADY_ENABLED',
+  TWO_FACTOR_NOT_ENABLED = 'TWO_FACTOR_NOT_ENABLED',
+  TWO_FACTOR_NOT_ENROLLED = 'TWO_FACTOR_NOT_ENROLLED',
+  INVALID_SIWE_MESSAGE = 'INVALID_SIWE_MESSAGE',
+  INVALID_SIGNATURE = 'INVALID_SIGNATURE',
+  INVALID_NONCE = 'INVALID_NONCE',
+  WALLET_NOT_LINKED = 'WALLET_NOT_LINKED',
+  WALLET_ALREADY_LINKED = 'WALLET_ALREADY_LINKED',
+  WALLET_NOT_FOUND = 'WALLET_NOT_FOUND',
+  SESSION_NOT_FOUND = 'SESSION_NOT_FOUND',
+  EMAIL_CHANGE_NOT_REQUESTED = 'EMAIL_CHANGE_NOT_REQUESTED',
+  OIDC_PROVIDER_NOT_FOUND = 'OIDC_PROVIDER_NOT_FOUND',
+  INVALID_OIDC_STATE = 'INVALID_OIDC_STATE',
+  OIDC_EXCHANGE_FAILED = 'OIDC_EXCHANGE_FAILED',
+  INVALID_ID_TOKEN = 'INVALID_ID_TOKEN',
+  OIDC_EMAIL_MISSING = 'OIDC_EMAIL_MISSING',
+  API_KEY_NOT_FOUND = 'API_KEY_NOT_FOUND',
+  API_KEY_LIMIT_REACHED = 'API_KEY_LIMIT_REACHED',
+  INSUFFICIENT_SCOPE = 'INSUFFICIENT_SCOPE',
+}
+
+/**
+ * Permissions
+ * Granted to roles in config/permissions.ts and checked by requirePermission
+ */
+export enum Permission {
+  ACCOUNT_MANAGE = 'ACCOUNT_MANAGE', // Own profile, password, 2FA, wallets, sessions
+  FILE_MANAGE = 'FILE_MANAGE', // Upload, list and delete own files
+  CHAT_USE = 'CHAT_USE', // Create and use AI chats
+  IMAGE_GENERATE = 'IMAGE_GENERATE', // Generate AI images
+  COLLECTION_CREATE = 'COLLECTION_CREATE', // Create NFT collections
+  USERS_MANAGE = 'USERS_MANAGE', // List users, change roles, deactivate accounts
 }
 
 /**
@@ -145,6 +145,84 @@ export const sendOtpEmail = async (email: string, otp: string, fullName?: string
   }
 };
 
+/**
+ * Send password reset code email
+ */
+export const sendPasswordResetEmail = async (email: string, otp: string, fullName?: string) => {
+  try {
+    const emailTransporter = getEmailTransporter();
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #6366f1; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+            .content { background-color: #f9fafb; padding: 20px; }
+            .otp-box { background-color: white; padding: 20px; text-align: center; border: 2px solid #6366f1; border-radius: 5px; margin: 20px 0; }
+            .otp-code { font-size: 32px; font-weight: bold; color: #6366f1; letter-spacing: 5px; }
+            .footer { text-align: center; padding: 20px; font-size: 12px; color: #999; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>🔑 Reset Your Password</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${fullName || 'there'},</p>
+              <p>We received a request to reset the password for your AI-NFT Platform account. Use the code below to choose a new password.</p>
+              
+              <div class="otp-box">
+                <p style="margin: 0; font-size: 14px; color: #666;">Your password reset code is:</p>
+                <div class="otp-code">${otp}</div>
+                <p style="margin: 10px 0 0 0; font-size: 12px; color: #999;">This code expires in ${config.otpExpirationMinutes} minutes and can only be used once</p>
+              </div>
+
+              <p style="color: #666; font-size: 14px;">
+                <strong>Security tip:</strong> Never share this code with anyone. Our team will never ask for your reset code.
+              </p>
+
+              <p style="margin-top: 30px; color: #999; font-size: 12px;">
+                If you didn't request a password reset, you can safely ignore this email. Your password will not change.
+              </p>
+            </div>
+            <div class="footer">
+              <p>&copy; 2025 AI-NFT Platform. All rights reserved.</p>
+              <p>If you have questions, contact us at ${config.emailFrom}</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const mailOptions = {
+      from: config.emailFrom,
+      to: email,
+      subject: '🔑 Reset Your Password - AI-NFT Platform',
+      html: htmlContent,
+      text: `Your password reset code is: ${otp}\nThis code expires in ${config.otpExpirationMinutes} minutes.`,
+    };
+
+    const result = await emailTransporter.sendMail(mailOptions);
+
+    logger.info('✅ Password reset email sent successfully', {
+      email,
+      messageId: result.messageId,
+    });
+
+    return true;
+  } catch (error) {
+    logger.error('❌ Failed to send password reset email', {
+      email,
+      error: error instanceof Error ? error.message : error,
+    });
+    throw error;
+  }
+};
+
 /**
  * Send welcome email after successful registration
  */
@@ -211,9 +289,234 @@ export const sendWelcomeEmail = async (email: string, fullName?: string) => {
   }
 };
 
+/**
+ * Send email change verification code to the new address
+ */
+export const sendEmailChangeOtpEmail = async (email: string, otp: string, fullName?: string) => {
+  try {
+    const emailTransporter = getEmailTransporter();
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #6366f1; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+            .content { background-color: #f9fafb; padding: 20px; }
+            .otp-box { background-color: white; padding: 20px; text-align: center; border: 2px solid #6366f1; border-radius: 5px; margin: 20px 0; }
+            .otp-code { font-size: 32px; font-weight: bold; color: #6366f1; letter-spacing: 5px; }
+            .footer { text-align: center; padding: 20px; font-size: 12px; color: #999; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>✉️ Confirm Your New Email</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${fullName || 'there'},</p>
+              <p>You asked to use this address for your AI-NFT Platform account. Enter the code below to confirm the change.</p>
+              
+              <div class="otp-box">
+                <p style="margin: 0; font-size: 14px; color: #666;">Your confirmation code is:</p>
+                <div class="otp-code">${otp}</div>
+                <p style="margin: 10px 0 0 0; font-size: 12px; color: #999;">This code expires in ${config.otpExpirationMinutes} minutes and can only be used once</p>
+              </div>
+
+              <p style="color: #666; font-size: 14px;">
+                <strong>Security tip:</strong> Never share this code with anyone. Our team will never ask for your confirmation code.
+              </p>
+
+              <p style="margin-top: 30px; color: #999; font-size: 12px;">
+                If you didn't request this change, you can safely ignore this email.
+              </p>
+            </div>
+            <div class="footer">
+              <p>&copy; 2025 AI-NFT Platform. All rights reserved.</p>
+              <p>If you have questions, contact us at ${config.emailFrom}</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const mailOptions = {
+      from: config.emailFrom,
+      to: email,
+      subject: '✉️ Confirm Your New Email - AI-NFT Platform',
+      html: htmlContent,
+      text: `Your email change confirmation code is: ${otp}\nThis code expires in ${config.otpExpirationMinutes} minutes.`,
+    };
+
+    const result = await emailTransporter.sendMail(mailOptions);
+
+    logger.info('✅ Email change code sent successfully', {
+      email,
+      messageId: result.messageId,
+    });
+
+    return true;
+  } catch (error) {
+    logger.error('❌ Failed to send email change code', {
+      email,
+      error: error instanceof Error ? error.message : error,
+    });
+    throw error;
+  }
+};
+
+/**
+ * Notify the current address that an email change was requested
+ */
+export const sendEmailChangeNoticeEmail = async (email: string, newEmail: string, fullName?: string) => {
+  try {
+    const emailTransporter = getEmailTransporter();
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #6366f1; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+            .content { background-color: #f9fafb; padding: 20px; }
+            .footer { text-align: center; padding: 20px; font-size: 12px; color: #999; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>⚠️ Email Change Requested</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${fullName || 'there'},</p>
+              <p>Someone signed in to your AI-NFT Platform account asked to change its email address to <strong>${newEmail}</strong>.</p>
+              <p>The change only takes effect once the code sent to the new address is confirmed.</p>
+
+              <p style="color: #666; font-size: 14px;">
+                <strong>Wasn't you?</strong> Change your password and sign out of all devices right away.
+              </p>
+            </div>
+            <div class="footer">
+              <p>&copy; 2025 AI-NFT Platform. All rights reserved.</p>
+              <p>If you have questions, contact us at ${config.emailFrom}</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const mailOptions = {
+      from: config.emailFrom,
+      to: email,
+      subject: '⚠️ Email Change Requested - AI-NFT Platform',
+      html: htmlContent,
+      text: `A change of your account email to ${newEmail} was requested. If this wasn't you, change your password and sign out of all devices.`,
+    };
+
+    const result = await emailTransporter.sendMail(mailOptions);
+
+    logger.info('✅ Email change notice sent successfully', {
+      email,
+      messageId: result.messageId,
+    });
+
+    return true;
+  } catch (error) {
+    logger.error('❌ Failed to send email change notice', {
+      email,
+      error: error instanceof Error ? error.message : error,
+    });
+    throw error;
+  }
+};
+
+/**
+ * Send passwordless sign-in link
+ */
+export const sendMagicLinkEmail = async (email: string, link: string, fullName?: string) => {
+  try {
+    const emailTransporter = getEmailTransporter();
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #6366f1; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+            .content { background-color: #f9fafb; padding: 20px; }
+            .button { display: inline-block; background-color: #6366f1; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; font-weight: bold; }
+            .footer { text-align: center; padding: 20px; font-size: 12px; color: #999; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>🔗 Your Sign-In Link</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${fullName || 'there'},</p>
+              <p>Click the button below to sign in to your AI-NFT Platform account.</p>
+
+              <p style="text-align: center; margin: 30px 0;">
+                <a class="button" href="${link}">Sign In</a>
+              </p>
+
+              <p style="color: #666; font-size: 14px;">
+                This link expires in ${config.magicLinkExpirationMinutes} minutes and can only be used once.
+                Never forward it - anyone with the link can sign in as you.
+              </p>
+
+              <p style="margin-top: 30px; color: #999; font-size: 12px;">
+                If you didn't request this email, you can safely ignore it.
+              </p>
+            </div>
+            <div class="footer">
+              <p>&copy; 2025 AI-NFT Platform. All rights reserved.</p>
+              <p>If you have questions, contact us at ${config.emailFrom}</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const mailOptions = {
+      from: config.emailFrom,
+      to: email,
+      subject: '🔗 Your Sign-In Link - AI-NFT Platform',
+      html: htmlContent,
+      text: `Sign in to AI-NFT Platform: ${link}\nThis link expires in ${config.magicLinkExpirationMinutes} minutes and can only be used once.`,
+    };
+
+    const result = await emailTransporter.sendMail(mailOptions);
+
+    logger.info('✅ Magic link email sent successfully', {
+      email,
+      messageId: result.messageId,
+    });
+
+    return true;
+  } catch (error) {
+    logger.error('❌ Failed to send magic link email', {
+      email,
+      error: error instanceof Error ? error.message : error,
+    });
+    throw error;
+  }
+};
+
 export default {
   initializeEmailService,
   getEmailTransporter,
   sendOtpEmail,
+  sendPasswordResetEmail,
   sendWelcomeEmail,
+  sendEmailChangeOtpEmail,
+  sendEmailChangeNoticeEmail,
+  sendMagicLinkEmail,
 };
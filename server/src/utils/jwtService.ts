@@ -1,4 +1,6 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
 import config from '../config/env';
 import logger from '../config/logger';
 import { JWTPayload, AuthErrorCode, AppError } from '../types';
@@ -10,13 +12,15 @@ import { JWTPayload, AuthErrorCode, AppError } from '../types';
 
 /**
  * Generate JWT token
- * Returns a signed JWT token with user information
+ * Returns a signed JWT token with user information, a unique jti and the
+ * issue time in milliseconds (iat_ms)
  */
-export const generateToken = (payload: Omit<JWTPayload, 'iat' | 'exp'>): string => {
+export const generateToken = (payload: Omit<JWTPayload, 'jti' | 'iat' | 'iat_ms' | 'exp'>): string => {
   try {
-    const signedToken = jwt.sign(payload, config.jwtSecret, {
+    const signedToken = jwt.sign({ ...payload, iat_ms: Date.now() }, config.jwtSecret, {
       expiresIn: config.jwtExpiration,
       algorithm: 'HS256',
+      jwtid: uuidv4(),
     } as any);
 
     logger.info('JWT token generated', { email: payload.email, user_id: payload.user_id });
@@ -84,17 +88,14 @@ export const decodeToken = (token: string): JWTPayload | null => {
 };
 
 /**
- * Get token expiration time from config
- * Returns expiration time in milliseconds
+ * Parse a duration string (e.g., "15m", "7d") into milliseconds
+ * Falls back to the provided default if parsing fails
  */
-export const getTokenExpirationMs = (): number => {
-  // Parse JWT expiration string (e.g., "7d" -> milliseconds)
-  const expiration = config.jwtExpiration;
-  const match = expiration.match(/^(\d+)([smhd])$/);
+const parseDurationMs = (duration: string, fallbackMs: number): number => {
+  const match = duration.match(/^(\d+)([smhd])$/);
 
   if (!match) {
-    // Default to 7 days if parsing fails
-    return 7 * 24 * 60 * 60 * 1000;
+    return fallbackMs;
   }
 
   const value = parseInt(match[1], 10);
@@ -110,7 +111,130 @@ export const getTokenExpirationMs = (): number => {
     case 'd':
       return value * 24 * 60 * 60 * 1000;
     default:
-      return 7 * 24 * 60 * 60 * 1000;
+      return fallbackMs;
+  }
+};
+
+/**
+ * Get token expiration time from config
+ * Returns expiration time in milliseconds
+ */
+export const getTokenExpirationMs = (): number => {
+  // Default to 15 minutes if parsing fails
+  return parseDurationMs(config.jwtExpiration, 15 * 60 * 1000);
+};
+
+/**
+ * Get refresh token expiration time from config
+ * Returns expiration time in milliseconds
+ */
+export const getRefreshTokenExpirationMs = (): number => {
+  // Default to 30 days if parsing fails
+  return parseDurationMs(config.jwtRefreshExpiration, 30 * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Generate an opaque refresh token
+ * Refresh tokens are random values tracked server-side, not JWTs
+ */
+export const generateRefreshToken = (): string => {
+  return crypto.randomBytes(48).toString('base64url');
+};
+
+/**
+ * Hash a refresh token for storage and lookup
+ * Only the SHA-256 hash is persisted in the database
+ */
+export const hashRefreshToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Signing key for two-factor challenge tokens
+ * Derived from JWT_SECRET so a challenge token can never pass as an access token
+ */
+const getChallengeSecret = (): string => {
+  return crypto.createHmac('sha256', config.jwtSecret).update('two-factor-challenge').digest('hex');
+};
+
+/**
+ * Generate a short-lived two-factor challenge token
+ * Issued after a correct password when the user has 2FA enabled
+ */
+export const generateTwoFactorChallengeToken = (userId: string): string => {
+  return jwt.sign({ user_id: userId, purpose: 'two_factor' }, getChallengeSecret(), {
+    expiresIn: `${config.twoFactorChallengeMinutes}m`,
+    algorithm: 'HS256',
+  } as any);
+};
+
+/**
+ * Verify a two-factor challenge token
+ * Returns the user_id it was issued for
+ */
+export const verifyTwoFactorChallengeToken = (token: string): string => {
+  try {
+    const decoded = jwt.verify(token, getChallengeSecret(), {
+      algorithms: ['HS256'],
+    } as any) as unknown as { user_id: string; purpose: string };
+
+    if (decoded.purpose !== 'two_factor' || !decoded.user_id) {
+      throw new jwt.JsonWebTokenError('Invalid challenge token purpose');
+    }
+
+    return decoded.user_id;
+  } catch (error) {
+    // Expired challenges use INVALID_TOKEN too: TOKEN_EXPIRED would prompt a session refresh
+    throw new AppError(
+      'Sign-in challenge is invalid or has expired. Please sign in again.',
+      401,
+      AuthErrorCode.INVALID_TOKEN
+    );
+  }
+};
+
+/**
+ * Magic link tokens are signed with a secret derived from the JWT secret,
+ * so neither can be used in place of the other
+ */
+const getMagicLinkSecret = (): string => {
+  return crypto.createHmac('sha256', config.jwtSecret).update('magic-link').digest('hex');
+};
+
+/**
+ * Generate a signed magic link token
+ * tokenId is the jti and matches the magic_link_tokens row that makes the link single-use
+ */
+export const generateMagicLinkToken = (userId: string, tokenId: string): string => {
+  return jwt.sign({ user_id: userId, purpose: 'magic_link' }, getMagicLinkSecret(), {
+    expiresIn: `${config.magicLinkExpirationMinutes}m`,
+    jwtid: tokenId,
+    algorithm: 'HS256',
+  } as any);
+};
+
+/**
+ * Verify a magic link token's signature, purpose and expiry
+ * Returns the user_id and token_id it was issued for
+ */
+export const verifyMagicLinkToken = (token: string): { user_id: string; token_id: string } => {
+  try {
+    const decoded = jwt.verify(token, getMagicLinkSecret(), {
+      algorithms: ['HS256'],
+    } as any) as unknown as { user_id: string; purpose: string; jti: string };
+
+    if (decoded.purpose !== 'magic_link' || !decoded.user_id || !decoded.jti) {
+      throw new jwt.JsonWebTokenError('Invalid magic link token purpose');
+    }
+
+    return { user_id: decoded.user_id, token_id: decoded.jti };
+  } catch (error) {
+    // Expired links use INVALID_TOKEN too: TOKEN_EXPIRED would prompt a session refresh
+    throw new AppError(
+      'Sign-in link is invalid or has expired. Please request a new one.',
+      401,
+      AuthErrorCode.INVALID_TOKEN
+    );
   }
 };
 
@@ -119,4 +243,11 @@ export default {
   verifyToken,
   decodeToken,
   getTokenExpirationMs,
+  getRefreshTokenExpirationMs,
+  generateRefreshToken,
+  hashRefreshToken,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
+  generateMagicLinkToken,
+  verifyMagicLinkToken,
 };
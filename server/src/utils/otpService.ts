@@ -4,6 +4,9 @@ import config from '../config/env';
 /**
  * OTP (One-Time Password) Utility
  * Generates and validates 6-digit OTPs for email verification
+ *
+ * Codes are stored as an HMAC bound to the user, never in plaintext: a
+ * plain SHA-256 of a 6-digit code could be reversed by trying all 10^6 values.
  */
 
 /**
@@ -37,9 +40,40 @@ export const isValidOtpFormat = (otp: string): boolean => {
   return /^\d{6}$/.test(otp);
 };
 
+/**
+ * OTP hashes are keyed with a secret derived from the JWT secret
+ */
+const getOtpSecret = (): string => {
+  return crypto.createHmac('sha256', config.jwtSecret).update('otp').digest('hex');
+};
+
+/**
+ * Hash an OTP for storage
+ * Bound to the user so equal codes of different users have different hashes
+ */
+export const hashOtp = (otp: string, userId: string): string => {
+  return crypto.createHmac('sha256', getOtpSecret()).update(`${userId}:${otp}`).digest('hex');
+};
+
+/**
+ * Compare an OTP with its stored hash in constant time
+ */
+export const verifyOtpHash = (otp: string, userId: string, storedHash: string | null): boolean => {
+  if (!storedHash) return false;
+
+  const expected = Buffer.from(storedHash, 'hex');
+  const actual = Buffer.from(hashOtp(otp, userId), 'hex');
+
+  if (expected.length !== actual.length) return false;
+
+  return crypto.timingSafeEqual(expected, actual);
+};
+
 export default {
   generateOtp,
   calculateOtpExpiration,
   isOtpExpired,
   isValidOtpFormat,
+  hashOtp,
+  verifyOtpHash,
 };
@@ -0,0 +1,144 @@
+import { Response } from 'express';
+import config from '../config/env';
+import { getRefreshTokenExpirationMs } from './jwtService';
+
+/**
+ * Session Cookie Utility
+ * Sets and clears the auth_token (access JWT) and refresh_token cookies,
+ * and the short-lived cookies of the OIDC sign-in flow
+ */
+
+/**
+ * Refresh token cookie is scoped to the auth routes so it is never sent
+ * alongside ordinary API requests
+ */
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+/**
+ * Sign-in flow cookies are only sent to the routes that read them
+ */
+const OIDC_STATE_COOKIE_PATH = '/api/auth/oidc';
+const TWO_FACTOR_CHALLENGE_COOKIE_PATH = '/api/auth/2fa';
+
+/**
+ * Set access and refresh token cookies
+ * The access cookie lives as long as the refresh token so an expired JWT is
+ * still presented and answered with TOKEN_EXPIRED, prompting a silent refresh
+ */
+export const setSessionCookies = (
+  res: Response,
+  token: string,
+  refreshToken: string,
+  refreshExpiresIn: number
+) => {
+  res.cookie('auth_token', token, {
+    httpOnly: true,
+    secure: config.nodeEnv === 'production',
+    sameSite: 'strict',
+    maxAge: refreshExpiresIn,
+    path: '/',
+  });
+
+  res.cookie('refresh_token', refreshToken, {
+    httpOnly: true,
+    secure: config.nodeEnv === 'production',
+    sameSite: 'strict',
+    maxAge: refreshExpiresIn,
+    path: REFRESH_COOKIE_PATH,
+  });
+};
+
+/**
+ * Replace only the access token cookie (the refresh token is unchanged)
+ * Used when claims change mid-session, e.g. after an email change
+ */
+export const setAccessTokenCookie = (res: Response, token: string) => {
+  res.cookie('auth_token', token, {
+    httpOnly: true,
+    secure: config.nodeEnv === 'production',
+    sameSite: 'strict',
+    maxAge: getRefreshTokenExpirationMs(),
+    path: '/',
+  });
+};
+
+/**
+ * Clear access and refresh token cookies
+ */
+export const clearSessionCookies = (res: Response) => {
+  res.clearCookie('auth_token', {
+    httpOnly: true,
+    secure: config.nodeEnv === 'production',
+    sameSite: 'strict',
+    path: '/',
+  });
+
+  res.clearCookie('refresh_token', {
+    httpOnly: true,
+    secure: config.nodeEnv === 'production',
+    sameSite: 'strict',
+    path: REFRESH_COOKIE_PATH,
+  });
+};
+
+/**
+ * Bind an OIDC authorization request to this browser (hash of its state)
+ * SameSite=Lax: the callback arrives as a top-level redirect from the provider
+ */
+export const setOidcStateCookie = (res: Response, stateHash: string) => {
+  res.cookie('oidc_state', stateHash, {
+    httpOnly: true,
+    secure: config.nodeEnv === 'production',
+    sameSite: 'lax',
+    maxAge: config.oidcStateTtlMinutes * 60 * 1000,
+    path: OIDC_STATE_COOKIE_PATH,
+  });
+};
+
+/**
+ * Clear the OIDC state cookie once the callback has used it
+ */
+export const clearOidcStateCookie = (res: Response) => {
+  res.clearCookie('oidc_state', {
+    httpOnly: true,
+    secure: config.nodeEnv === 'production',
+    sameSite: 'lax',
+    path: OIDC_STATE_COOKIE_PATH,
+  });
+};
+
+/**
+ * Hand a two-factor challenge to the browser without putting it in a URL
+ * Read by POST /auth/2fa/verify when the body has no challenge_token
+ */
+export const setTwoFactorChallengeCookie = (res: Response, challengeToken: string, expiresIn: number) => {
+  res.cookie('two_factor_challenge', challengeToken, {
+    httpOnly: true,
+    secure: config.nodeEnv === 'production',
+    sameSite: 'strict',
+    maxAge: expiresIn,
+    path: TWO_FACTOR_CHALLENGE_COOKIE_PATH,
+  });
+};
+
+/**
+ * Clear the two-factor challenge cookie after sign in
+ */
+export const clearTwoFactorChallengeCookie = (res: Response) => {
+  res.clearCookie('two_factor_challenge', {
+    httpOnly: true,
+    secure: config.nodeEnv === 'production',
+    sameSite: 'strict',
+    path: TWO_FACTOR_CHALLENGE_COOKIE_PATH,
+  });
+};
+
+export default {
+  setSessionCookies,
+  setAccessTokenCookie,
+  clearSessionCookies,
+  setOidcStateCookie,
+  clearOidcStateCookie,
+  setTwoFactorChallengeCookie,
+  clearTwoFactorChallengeCookie,
+};
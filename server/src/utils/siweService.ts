@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import { getAddress, isAddress, recoverMessageAddress } from 'viem';
+import { parseSiweMessage as parseEip4361Message } from 'viem/siwe';
+
+/**
+ * Sign-In With Ethereum (EIP-4361) Utility
+ * Parses SIWE messages and recovers the signing address from personal_sign
+ * (EIP-191) signatures. Runs fully offline - no RPC provider is involved, so
+ * only externally owned accounts (EOAs) are supported, not ERC-1271 contract wallets.
+ */
+
+/**
+ * Fields of an EIP-4361 message used by the server
+ */
+export interface SiweMessageFields {
+  address: string; // EIP-55 checksummed
+  chainId: number;
+  domain: string;
+  uri: string;
+  version: string;
+  nonce: string;
+  issuedAt?: Date;
+  expirationTime?: Date;
+  notBefore?: Date;
+}
+
+/**
+ * Generate a SIWE nonce (EIP-4361 requires at least 8 alphanumeric characters)
+ */
+export const generateSiweNonce = (): string => {
+  return crypto.randomBytes(16).toString('hex');
+};
+
+/**
+ * Normalize an Ethereum address to its EIP-55 checksummed form
+ * Returns null if the value is not a valid address
+ */
+export const normalizeWalletAddress = (address: string): string | null => {
+  if (!isAddress(address, { strict: false })) {
+    return null;
+  }
+
+  return getAddress(address);
+};
+
+/**
+ * Parse an EIP-4361 message
+ * Returns null if any required field is missing or malformed
+ */
+export const parseSiweMessage = (message: string): SiweMessageFields | null => {
+  let parsed: ReturnType<typeof parseEip4361Message>;
+
+  try {
+    parsed = parseEip4361Message(message);
+  } catch (error) {
+    return null;
+  }
+
+  const address = parsed.address ? normalizeWalletAddress(parsed.address) : null;
+
+  if (
+    !address ||
+    !parsed.domain ||
+    !parsed.uri ||
+    !parsed.nonce ||
+    !parsed.version ||
+    !Number.isInteger(parsed.chainId)
+  ) {
+    return null;
+  }
+
+  return {
+    address,
+    chainId: parsed.chainId as number,
+    domain: parsed.domain,
+    uri: parsed.uri,
+    version: parsed.version,
+    nonce: parsed.nonce,
+    issuedAt: parsed.issuedAt,
+    expirationTime: parsed.expirationTime,
+    notBefore: parsed.notBefore,
+  };
+};
+
+/**
+ * Recover the address that signed a message with personal_sign
+ * Returns the EIP-55 checksummed address, or null if the signature is malformed
+ */
+export const recoverSiweSigner = async (message: string, signature: string): Promise<string | null> => {
+  if (!/^0x[0-9a-fA-F]{130}$/.test(signature)) {
+    return null;
+  }
+
+  try {
+    const recovered = await recoverMessageAddress({
+      message,
+      signature: signature as `0x${string}`,
+    });
+
+    return getAddress(recovered);
+  } catch (error) {
+    return null;
+  }
+};
+
+export default {
+  generateSiweNonce,
+  normalizeWalletAddress,
+  parseSiweMessage,
+  recoverSiweSigner,
+};
@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+
+/**
+ * Webhook Signature Utility
+ * Stripe-compatible webhook signatures
+ *
+ * The signature header looks like `t=<unix seconds>,v1=<hex>` where v1 is
+ * HMAC-SHA256(secret, `${t}.${raw body}`). Several v1 entries may be present
+ * while a secret is being rolled; any match is accepted. The timestamp must
+ * be within the tolerance to stop replays.
+ */
+
+const computeSignature = (payload: string, secret: string, timestamp: number): string => {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+};
+
+/**
+ * Build a signature header for a payload (e.g. to send test events to a local webhook)
+ */
+export const signWebhookPayload = (
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string => {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+};
+
+/**
+ * Check a signature header against the raw request body
+ */
+export const verifyWebhookSignature = (
+  payload: Buffer | string,
+  header: string | undefined,
+  secret: string,
+  toleranceSeconds: number
+): boolean => {
+  if (!header || !secret) {
+    return false;
+  }
+
+  const parts = header.split(',').map((part) => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value || '');
+
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    return false;
+  }
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(payload.toString(), secret, timestamp), 'hex');
+
+  return signatures.some((signature) => {
+    const provided = Buffer.from(signature, 'hex');
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  });
+};
+
+export default {
+  signWebhookPayload,
+  verifyWebhookSignature,
+};
@@ -0,0 +1,78 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ChatTitleGenerator,
+  GeminiChatTitleGenerator,
+  cleanTitle,
+  generateChatTitle,
+  setChatTitleGenerator,
+} from '../src/services/chatTitleService';
+
+/**
+ * Title generation with the model replaced by a stub generator
+ */
+
+const stubGenerator = (generateTitle: ChatTitleGenerator['generateTitle']): ChatTitleGenerator => ({ generateTitle });
+
+describe('chatTitleService', () => {
+  afterEach(() => {
+    setChatTitleGenerator(new GeminiChatTitleGenerator());
+  });
+
+  describe('cleanTitle', () => {
+    it('keeps a plain title', () => {
+      assert.equal(cleanTitle('Neon Fox NFT Concept'), 'Neon Fox NFT Concept');
+    });
+
+    it('strips quotes, a "Title:" prefix, markdown and the trailing period', () => {
+      assert.equal(cleanTitle('Title: "Neon Fox NFT Concept".'), 'Neon Fox NFT Concept');
+      assert.equal(cleanTitle('**Neon Fox** NFT Concept'), 'Neon Fox NFT Concept');
+      assert.equal(cleanTitle('“Neon Fox”'), 'Neon Fox');
+    });
+
+    it('keeps only the first non-empty line', () => {
+      assert.equal(cleanTitle('\n\nNeon Fox\nHere is why I chose it'), 'Neon Fox');
+    });
+
+    it('shortens long titles at a word boundary', () => {
+      const title = cleanTitle('A very long title about a digital painter who wants to mint a whole neon fox collection');
+
+      assert.ok(title.length <= 61);
+      assert.ok(title.endsWith('…'));
+      assert.ok(!title.includes(' …'));
+    });
+
+    it('returns an empty string for blank output', () => {
+      assert.equal(cleanTitle('  \n "" \n'), '');
+    });
+  });
+
+  describe('generateChatTitle', () => {
+    it('passes the opening exchange to the generator and cleans its answer', async () => {
+      let received: string[] = [];
+      setChatTitleGenerator(stubGenerator(async (userMessage, assistantReply) => {
+        received = [userMessage, assistantReply];
+        return 'Title: "Digital Painter NFT Concept".';
+      }));
+
+      const title = await generateChatTitle('Help me create an NFT concept', 'Let\'s start with your style');
+
+      assert.equal(title, 'Digital Painter NFT Concept');
+      assert.deepEqual(received, ['Help me create an NFT concept', 'Let\'s start with your style']);
+    });
+
+    it('returns null when the generator fails', async () => {
+      setChatTitleGenerator(stubGenerator(async () => {
+        throw new Error('model unavailable');
+      }));
+
+      assert.equal(await generateChatTitle('Hi', 'Hello!'), null);
+    });
+
+    it('returns null when the generator answers nothing usable', async () => {
+      setChatTitleGenerator(stubGenerator(async () => '"  "'));
+
+      assert.equal(await generateChatTitle('Hi', 'Hello!'), null);
+    });
+  });
+});
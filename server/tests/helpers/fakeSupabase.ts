@@ -0,0 +1,169 @@
+import { setSupabaseClient } from '../../src/config/supabase';
+
+/**
+ * In-memory Supabase client
+ * Supports the query builder calls the services use: insert, update,
+ * delete and select with eq / neq / is / gt / lt filters, .select() after a
+ * write, and single() / maybeSingle(). Rows are plain objects per table.
+ */
+
+type Row = Record<string, any>;
+
+interface QueryResult {
+  data: any;
+  error: { message: string; code?: string } | null;
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private values: Row[] = [];
+  private changes: Row = {};
+  private filters: ((row: Row) => boolean)[] = [];
+  private returning = false;
+  private columns = '*';
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private readonly rows: Row[]) {}
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(changes: Row): this {
+    this.operation = 'update';
+    this.changes = changes;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  select(columns = '*'): this {
+    // After insert / update / delete, select() returns the affected rows
+    this.returning = this.operation !== 'select';
+    this.columns = columns;
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  gt(column: string, value: string | number): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && row[column] > value);
+    return this;
+  }
+
+  lt(column: string, value: string | number): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && row[column] < value);
+    return this;
+  }
+
+  single(): this {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private matches(row: Row): boolean {
+    return this.filters.every((filter) => filter(row));
+  }
+
+  private project(row: Row): Row {
+    if (this.columns.trim() === '*') {
+      return { ...row };
+    }
+
+    const projected: Row = {};
+    for (const column of this.columns.split(',').map((name) => name.trim())) {
+      projected[column] = row[column];
+    }
+    return projected;
+  }
+
+  private execute(): QueryResult {
+    let affected: Row[];
+
+    switch (this.operation) {
+      case 'insert':
+        affected = this.values.map((value) => ({ ...value }));
+        this.rows.push(...affected);
+        if (!this.returning) return { data: null, error: null };
+        break;
+      case 'update':
+        affected = this.rows.filter((row) => this.matches(row));
+        affected.forEach((row) => Object.assign(row, this.changes));
+        if (!this.returning) return { data: null, error: null };
+        break;
+      case 'delete':
+        affected = this.rows.filter((row) => this.matches(row));
+        affected.forEach((row) => this.rows.splice(this.rows.indexOf(row), 1));
+        if (!this.returning) return { data: null, error: null };
+        break;
+      default:
+        affected = this.rows.filter((row) => this.matches(row));
+    }
+
+    const data = affected.map((row) => this.project(row));
+
+    if (this.mode === 'many') {
+      return { data, error: null };
+    }
+
+    if (data.length > 1 || (this.mode === 'single' && data.length === 0)) {
+      return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } };
+    }
+
+    return { data: data[0] ?? null, error: null };
+  }
+}
+
+export class FakeSupabaseClient {
+  readonly tables: Record<string, Row[]> = {};
+
+  table(name: string): Row[] {
+    if (!this.tables[name]) {
+      this.tables[name] = [];
+    }
+    return this.tables[name];
+  }
+
+  from(name: string): FakeQuery {
+    return new FakeQuery(this.table(name));
+  }
+}
+
+/**
+ * Install a fresh in-memory client as the Supabase client
+ */
+export const useFakeSupabase = (): FakeSupabaseClient => {
+  const client = new FakeSupabaseClient();
+  setSupabaseClient(client as any);
+  return client;
+};
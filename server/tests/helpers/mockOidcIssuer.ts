@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Local mock OpenID Connect issuer
+ * Serves discovery, JWKS and a token endpoint on 127.0.0.1 so the OIDC flow
+ * runs end to end without a real provider.
+ *
+ * approve() stands in for the user signing in at the provider: it reads the
+ * authorization URL the server redirected to and returns a code bound to
+ * its code_challenge, nonce and redirect_uri. The token endpoint redeems a
+ * code once, only with the matching PKCE verifier and client credentials.
+ */
+
+export interface MockOidcIssuer {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  approve(authorizationUrl: string, claims?: Record<string, unknown>): { code: string; state: string };
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: Record<string, unknown>;
+}
+
+const readBody = (req: http.IncomingMessage): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const startMockOidcIssuer = async (
+  clientId = 'auramint-test',
+  clientSecret = 'test-client-secret'
+): Promise<MockOidcIssuer> => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = 'mock-key-1';
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' };
+  const codes = new Map<string, PendingCode>();
+  let issuer = '';
+
+  const discoveryFor = (issuerUrl: string) => ({
+    issuer: issuerUrl,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    token_endpoint_auth_methods_supported: ['client_secret_basic'],
+  });
+
+  const handleToken = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const params = new URLSearchParams(await readBody(req));
+    const code = params.get('code') || '';
+    const pending = codes.get(code);
+    codes.delete(code); // Codes are single-use
+
+    const [scheme, credentials] = (req.headers.authorization || '').split(' ');
+    const [id, secret] = Buffer.from(credentials || '', 'base64').toString().split(':').map(decodeURIComponent);
+
+    if (scheme !== 'Basic' || id !== clientId || secret !== clientSecret) {
+      return sendJson(res, 401, { error: 'invalid_client' });
+    }
+
+    const verifier = params.get('code_verifier') || '';
+    const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+
+    if (
+      params.get('grant_type') !== 'authorization_code' ||
+      !pending ||
+      pending.clientId !== id ||
+      pending.redirectUri !== params.get('redirect_uri') ||
+      pending.codeChallenge !== challenge
+    ) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = jwt.sign(
+      {
+        iss: issuer,
+        aud: clientId,
+        sub: 'mock-user-1',
+        email: 'oidc.user@example.com',
+        email_verified: true,
+        name: 'OIDC User',
+        nonce: pending.nonce,
+        iat: now,
+        exp: now + 300,
+        ...pending.claims,
+      },
+      privateKey,
+      { algorithm: 'RS256', keyid: kid }
+    );
+
+    sendJson(res, 200, { access_token: 'mock-access-token', token_type: 'Bearer', id_token: idToken });
+  };
+
+  const server = http.createServer((req, res) => {
+    const path = new URL(req.url || '/', issuer).pathname;
+
+    if (req.method === 'GET' && path === '/.well-known/openid-configuration') {
+      return sendJson(res, 200, discoveryFor(issuer));
+    }
+
+    // A second "issuer" whose discovery document names the first one
+    if (req.method === 'GET' && path === '/impostor/.well-known/openid-configuration') {
+      return sendJson(res, 200, discoveryFor(issuer));
+    }
+
+    if (req.method === 'GET' && path === '/jwks') {
+      return sendJson(res, 200, { keys: [jwk] });
+    }
+
+    if (req.method === 'POST' && path === '/token') {
+      handleToken(req, res).catch(() => sendJson(res, 500, { error: 'server_error' }));
+      return;
+    }
+
+    sendJson(res, 404, { error: 'not_found' });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+    approve(authorizationUrl, claims = {}) {
+      const params = new URL(authorizationUrl).searchParams;
+      const code = crypto.randomBytes(16).toString('hex');
+
+      codes.set(code, {
+        clientId: params.get('client_id') || '',
+        redirectUri: params.get('redirect_uri') || '',
+        codeChallenge: params.get('code_challenge') || '',
+        nonce: params.get('nonce') || '',
+        claims,
+      });
+
+      return { code, state: params.get('state') || '' };
+    },
+    close() {
+      return new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+};
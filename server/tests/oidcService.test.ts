@@ -0,0 +1,204 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import config from '../src/config/env';
+import {
+  createOidcAuthorizationUrl,
+  completeOidcAuthorization,
+  hashOidcState,
+} from '../src/services/oidcService';
+import { AppError, AuthErrorCode } from '../src/types';
+import { FakeSupabaseClient, useFakeSupabase } from './helpers/fakeSupabase';
+import { MockOidcIssuer, startMockOidcIssuer } from './helpers/mockOidcIssuer';
+
+const rejectsWith = (code: string) => (error: unknown) => {
+  assert.ok(error instanceof AppError, `expected an AppError, got ${error}`);
+  assert.equal(error.code, code);
+  return true;
+};
+
+describe('oidcService against a mock issuer', () => {
+  let issuer: MockOidcIssuer;
+  let db: FakeSupabaseClient;
+
+  before(async () => {
+    issuer = await startMockOidcIssuer();
+    config.oidcProviders.push(
+      {
+        id: 'mock',
+        name: 'Mock',
+        issuer: issuer.issuer,
+        clientId: issuer.clientId,
+        clientSecret: issuer.clientSecret,
+        scopes: 'openid email profile',
+      },
+      {
+        id: 'impostor',
+        name: 'Impostor',
+        issuer: `${issuer.issuer}/impostor`,
+        clientId: issuer.clientId,
+        clientSecret: issuer.clientSecret,
+        scopes: 'openid email profile',
+      }
+    );
+  });
+
+  after(async () => {
+    config.oidcProviders.splice(0);
+    await issuer.close();
+  });
+
+  beforeEach(() => {
+    db = useFakeSupabase();
+  });
+
+  /**
+   * Start a sign in and approve it at the provider
+   * @returns What the callback receives: code, state and the browser's state cookie
+   */
+  const signIn = async (claims?: Record<string, unknown>) => {
+    const { url, state } = await createOidcAuthorizationUrl('mock');
+    const approved = issuer.approve(url, claims);
+    assert.equal(approved.state, state);
+    return { code: approved.code, state, stateCookie: hashOidcState(state) };
+  };
+
+  describe('discovery and authorization request', () => {
+    it('redirects to the discovered authorization endpoint with PKCE S256', async () => {
+      const { url, state } = await createOidcAuthorizationUrl('mock');
+      const authorizationUrl = new URL(url);
+      const params = authorizationUrl.searchParams;
+
+      assert.equal(`${authorizationUrl.origin}${authorizationUrl.pathname}`, `${issuer.issuer}/authorize`);
+      assert.equal(params.get('response_type'), 'code');
+      assert.equal(params.get('client_id'), issuer.clientId);
+      assert.equal(params.get('redirect_uri'), `${config.apiUrl}/api/auth/oidc/mock/callback`);
+      assert.equal(params.get('scope'), 'openid email profile');
+      assert.equal(params.get('state'), state);
+      assert.equal(params.get('code_challenge_method'), 'S256');
+
+      const [stored] = db.table('oidc_auth_requests');
+      assert.equal(stored.state, state);
+      assert.equal(stored.nonce, params.get('nonce'));
+      assert.equal(
+        crypto.createHash('sha256').update(stored.code_verifier).digest('base64url'),
+        params.get('code_challenge')
+      );
+    });
+
+    it('rejects a discovery document naming another issuer', async () => {
+      await assert.rejects(
+        createOidcAuthorizationUrl('impostor'),
+        rejectsWith(AuthErrorCode.OIDC_EXCHANGE_FAILED)
+      );
+    });
+
+    it('rejects an unknown provider', async () => {
+      await assert.rejects(
+        createOidcAuthorizationUrl('nope'),
+        rejectsWith(AuthErrorCode.OIDC_PROVIDER_NOT_FOUND)
+      );
+    });
+  });
+
+  describe('code exchange', () => {
+    it('exchanges the code with the PKCE verifier and returns the verified claims', async () => {
+      const { code, state, stateCookie } = await signIn();
+
+      const claims = await completeOidcAuthorization('mock', code, state, stateCookie);
+
+      assert.deepEqual(claims, {
+        provider: 'mock',
+        subject: 'mock-user-1',
+        email: 'oidc.user@example.com',
+        email_verified: true,
+        name: 'OIDC User',
+        picture: null,
+      });
+    });
+
+    it('fails when the stored verifier does not match the code challenge', async () => {
+      const { code, state, stateCookie } = await signIn();
+      db.table('oidc_auth_requests')[0].code_verifier = crypto.randomBytes(48).toString('base64url');
+
+      await assert.rejects(
+        completeOidcAuthorization('mock', code, state, stateCookie),
+        rejectsWith(AuthErrorCode.OIDC_EXCHANGE_FAILED)
+      );
+    });
+  });
+
+  describe('ID token verification', () => {
+    const now = () => Math.floor(Date.now() / 1000);
+
+    const cases: [string, () => Record<string, unknown>][] = [
+      ['another issuer', () => ({ iss: 'https://issuer.example.com' })],
+      ['another audience', () => ({ aud: 'someone-else' })],
+      ['another nonce', () => ({ nonce: 'not-the-stored-nonce' })],
+      ['an expired token', () => ({ iat: now() - 600, exp: now() - 300 })],
+      ['no subject', () => ({ sub: undefined })],
+    ];
+
+    for (const [name, claims] of cases) {
+      it(`rejects ${name}`, async () => {
+        const { code, state, stateCookie } = await signIn(claims());
+
+        await assert.rejects(
+          completeOidcAuthorization('mock', code, state, stateCookie),
+          rejectsWith(AuthErrorCode.INVALID_ID_TOKEN)
+        );
+      });
+    }
+  });
+
+  describe('state', () => {
+    it('rejects a replayed state', async () => {
+      const { code, state, stateCookie } = await signIn();
+      await completeOidcAuthorization('mock', code, state, stateCookie);
+
+      const replay = issuer.approve((await createOidcAuthorizationUrl('mock')).url);
+
+      await assert.rejects(
+        completeOidcAuthorization('mock', replay.code, state, stateCookie),
+        rejectsWith(AuthErrorCode.INVALID_OIDC_STATE)
+      );
+    });
+
+    it('rejects a state started in another browser', async () => {
+      const { code, state } = await signIn();
+      const otherBrowser = await createOidcAuthorizationUrl('mock');
+
+      await assert.rejects(
+        completeOidcAuthorization('mock', code, state, hashOidcState(otherBrowser.state)),
+        rejectsWith(AuthErrorCode.INVALID_OIDC_STATE)
+      );
+      await assert.rejects(
+        completeOidcAuthorization('mock', code, state, undefined),
+        rejectsWith(AuthErrorCode.INVALID_OIDC_STATE)
+      );
+
+      // Neither attempt used up the state
+      assert.equal(db.table('oidc_auth_requests').find((row) => row.state === state)?.used_at, undefined);
+    });
+
+    it('rejects an expired state', async () => {
+      const { code, state, stateCookie } = await signIn();
+      db.table('oidc_auth_requests')[0].expires_at = new Date(Date.now() - 1000).toISOString();
+
+      await assert.rejects(
+        completeOidcAuthorization('mock', code, state, stateCookie),
+        rejectsWith(AuthErrorCode.INVALID_OIDC_STATE)
+      );
+    });
+
+    it('rejects a state issued for another provider', async () => {
+      const { code, state, stateCookie } = await signIn();
+      db.table('oidc_auth_requests')[0].provider = 'impostor';
+
+      await assert.rejects(
+        completeOidcAuthorization('mock', code, state, stateCookie),
+        rejectsWith(AuthErrorCode.INVALID_OIDC_STATE)
+      );
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { Request } from 'express';
+import { getClientKey } from '../src/middleware/rateLimiter';
+import { generateToken } from '../src/utils/jwtService';
+
+const request = (fields: Record<string, unknown>): Request =>
+  ({ headers: {}, cookies: {}, ip: '203.0.113.7', ...fields }) as unknown as Request;
+
+const randomApiKey = () => `amk_${crypto.randomBytes(24).toString('base64url')}`;
+
+describe('rateLimiter getClientKey', () => {
+  it('counts unverified API keys by IP, so random keys share one bucket', () => {
+    const first = getClientKey(request({ headers: { authorization: `Bearer ${randomApiKey()}` } }));
+    const second = getClientKey(request({ headers: { authorization: `Bearer ${randomApiKey()}` } }));
+
+    assert.equal(first, 'ip:203.0.113.7');
+    assert.equal(second, first);
+  });
+
+  it('counts an API key by its user once verifyAuth has resolved it', () => {
+    const key = getClientKey(request({
+      headers: { authorization: `Bearer ${randomApiKey()}` },
+      user: { user_id: 'user-1' },
+    }));
+
+    assert.equal(key, 'user:user-1');
+  });
+
+  it('counts a validly signed auth_token cookie by its user', () => {
+    const token = generateToken({
+      user_id: 'user-2',
+      email: 'user2@example.com',
+      user_type: 'buyer',
+      email_verified: true,
+    });
+
+    assert.equal(getClientKey(request({ cookies: { auth_token: token } })), 'user:user-2');
+    assert.equal(getClientKey(request({ cookies: { auth_token: 'forged' } })), 'ip:203.0.113.7');
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Test environment
+ * Loaded before every test file (see the "test" script) so config/env can
+ * be imported without a .env file. Nothing here reaches a real service:
+ * tests replace Supabase, Redis and model clients with in-memory fakes.
+ */
+
+const testEnv: Record<string, string> = {
+  NODE_ENV: 'test',
+  API_URL: 'http://localhost:3000',
+  FRONTEND_URL: 'http://localhost:5173',
+  SUPABASE_URL: 'http://localhost:54321',
+  SUPABASE_KEY: 'test-supabase-key',
+  SUPABASE_JWT_SECRET: 'test-supabase-jwt-secret',
+  JWT_SECRET: 'test-jwt-secret-at-least-32-characters-long',
+  EMAIL_SERVICE: '',
+  AWS_ACCESS_KEY_ID: 'test',
+  AWS_SECRET_ACCESS_KEY: 'test',
+  AWS_S3_BUCKET: 'test',
+  SIWE_DOMAIN: 'localhost:5173',
+  OIDC_PROVIDERS: '',
+  RATE_LIMIT_STORE: 'memory',
+  LOG_LEVEL: 'error',
+};
+
+for (const [key, value] of Object.entries(testEnv)) {
+  if (process.env[key] === undefined) {
+    process.env[key] = value;
+  }
+}
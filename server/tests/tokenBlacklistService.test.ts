@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import config from '../src/config/env';
+import {
+  InMemoryTokenRevocationStore,
+  TokenRevocationStore,
+  isTokenRevoked,
+  revokeAllUserTokens,
+  revokeSessionTokens,
+  revokeToken,
+  setTokenRevocationStore,
+} from '../src/services/tokenBlacklistService';
+import { generateToken, verifyToken } from '../src/utils/jwtService';
+
+const nowSec = () => Math.floor(Date.now() / 1000);
+
+const accessToken = (overrides: { jti?: string; sid?: string; user_id?: string; iat?: number; iat_ms?: number } = {}) => ({
+  jti: 'jti-1',
+  sid: 'session-1',
+  user_id: 'user-1',
+  iat: nowSec() - 60,
+  ...overrides,
+});
+
+describe('tokenBlacklistService', () => {
+  beforeEach(() => {
+    config.enableTokenBlacklist = true;
+    setTokenRevocationStore(new InMemoryTokenRevocationStore());
+  });
+
+  afterEach(() => {
+    config.enableTokenBlacklist = true;
+  });
+
+  it('rejects a revoked token by jti until it expires', async () => {
+    await revokeToken('jti-1', nowSec() + 900);
+
+    assert.equal(await isTokenRevoked(accessToken()), true);
+    assert.equal(await isTokenRevoked(accessToken({ jti: 'jti-2', sid: 'session-2' })), false);
+  });
+
+  it('ignores tokens that have already expired', async () => {
+    const store = new InMemoryTokenRevocationStore();
+    setTokenRevocationStore(store);
+
+    await revokeToken('jti-1', nowSec() - 1);
+
+    assert.equal(await store.isTokenRevoked('jti-1'), false);
+  });
+
+  it('rejects every token of a revoked session', async () => {
+    await revokeSessionTokens('session-1');
+
+    assert.equal(await isTokenRevoked(accessToken({ jti: 'jti-2' })), true);
+    assert.equal(await isTokenRevoked(accessToken({ jti: 'jti-3', sid: 'session-2' })), false);
+  });
+
+  it('rejects a user\'s tokens issued before "sign out everywhere"', async () => {
+    await revokeAllUserTokens('user-1');
+
+    assert.equal(await isTokenRevoked(accessToken({ sid: 'session-2' })), true);
+    assert.equal(await isTokenRevoked(accessToken({ sid: 'session-2', iat: nowSec() + 5 })), false);
+    assert.equal(await isTokenRevoked(accessToken({ sid: 'session-2', user_id: 'user-2' })), false);
+  });
+
+  it('rejects a token issued earlier in the same second as "sign out everywhere"', async () => {
+    const token = verifyToken(generateToken({
+      user_id: 'user-1',
+      email: 'user1@example.com',
+      user_type: 'buyer',
+      email_verified: true,
+    }));
+
+    await revokeAllUserTokens('user-1');
+
+    assert.equal(await isTokenRevoked(token), true);
+    assert.equal(await isTokenRevoked(accessToken({ iat: nowSec(), iat_ms: Date.now() + 5 })), false);
+  });
+
+  it('expires in-memory entries after their TTL', async () => {
+    const store = new InMemoryTokenRevocationStore();
+
+    await store.revokeToken('jti-1', 5);
+    assert.equal(await store.isTokenRevoked('jti-1'), true);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.equal(await store.isTokenRevoked('jti-1'), false);
+  });
+
+  it('treats a store error as revoked', async () => {
+    const failing = new InMemoryTokenRevocationStore() as TokenRevocationStore;
+    failing.isTokenRevoked = async () => {
+      throw new Error('store unreachable');
+    };
+    setTokenRevocationStore(failing);
+
+    assert.equal(await isTokenRevoked(accessToken()), true);
+  });
+
+  it('does nothing while ENABLE_TOKEN_BLACKLIST is off', async () => {
+    config.enableTokenBlacklist = false;
+
+    await revokeToken('jti-1', nowSec() + 900);
+    await revokeSessionTokens('session-1');
+    await revokeAllUserTokens('user-1');
+
+    config.enableTokenBlacklist = true;
+    assert.equal(await isTokenRevoked(accessToken()), false);
+  });
+});
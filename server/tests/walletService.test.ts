@@ -0,0 +1,119 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { createSiweMessage } from 'viem/siwe';
+import config from '../src/config/env';
+import { issueSiweNonce, verifySiweMessage } from '../src/services/walletService';
+import { AppError, AuthErrorCode } from '../src/types';
+import { FakeSupabaseClient, useFakeSupabase } from './helpers/fakeSupabase';
+
+/**
+ * Sign-In With Ethereum verification runs offline: messages are signed here
+ * with freshly generated keys and checked without any RPC provider
+ */
+
+const rejectsWith = (code: string) => (error: unknown) => {
+  assert.ok(error instanceof AppError, `expected an AppError, got ${error}`);
+  assert.equal(error.code, code);
+  return true;
+};
+
+describe('walletService SIWE verification', () => {
+  const account = privateKeyToAccount(generatePrivateKey());
+  const otherAccount = privateKeyToAccount(generatePrivateKey());
+  let db: FakeSupabaseClient;
+
+  beforeEach(() => {
+    db = useFakeSupabase();
+  });
+
+  const buildMessage = (nonce: string, overrides: Partial<Parameters<typeof createSiweMessage>[0]> = {}) =>
+    createSiweMessage({
+      address: account.address,
+      chainId: 1,
+      domain: config.siweDomain,
+      nonce,
+      uri: config.frontendUrl,
+      version: '1',
+      statement: 'Sign in to AuraMint',
+      ...overrides,
+    });
+
+  it('accepts a message signed by its address and consumes the nonce', async () => {
+    const { nonce } = await issueSiweNonce();
+    const message = buildMessage(nonce);
+    const signature = await account.signMessage({ message });
+
+    const fields = await verifySiweMessage(message, signature);
+
+    assert.equal(fields.address, account.address);
+    assert.equal(fields.nonce, nonce);
+    assert.ok(db.table('siwe_nonces')[0].used_at);
+  });
+
+  it('rejects a replayed nonce', async () => {
+    const { nonce } = await issueSiweNonce();
+    const message = buildMessage(nonce);
+    const signature = await account.signMessage({ message });
+
+    await verifySiweMessage(message, signature);
+
+    await assert.rejects(verifySiweMessage(message, signature), rejectsWith(AuthErrorCode.INVALID_NONCE));
+  });
+
+  it('rejects a nonce the server never issued', async () => {
+    const message = buildMessage('unissuednonce123');
+    const signature = await account.signMessage({ message });
+
+    await assert.rejects(verifySiweMessage(message, signature), rejectsWith(AuthErrorCode.INVALID_NONCE));
+  });
+
+  it('rejects a signature from another key without burning the nonce', async () => {
+    const { nonce } = await issueSiweNonce();
+    const message = buildMessage(nonce);
+
+    await assert.rejects(
+      verifySiweMessage(message, await otherAccount.signMessage({ message })),
+      rejectsWith(AuthErrorCode.INVALID_SIGNATURE)
+    );
+    await assert.rejects(verifySiweMessage(message, '0x1234'), rejectsWith(AuthErrorCode.INVALID_SIGNATURE));
+
+    // The real signer can still use it
+    const fields = await verifySiweMessage(message, await account.signMessage({ message }));
+    assert.equal(fields.address, account.address);
+  });
+
+  it('rejects a message for another domain', async () => {
+    const { nonce } = await issueSiweNonce();
+    const message = buildMessage(nonce, { domain: 'evil.example.com' });
+
+    await assert.rejects(
+      verifySiweMessage(message, await account.signMessage({ message })),
+      rejectsWith(AuthErrorCode.INVALID_SIWE_MESSAGE)
+    );
+  });
+
+  it('rejects an expired or not yet valid message', async () => {
+    const { nonce } = await issueSiweNonce();
+    const expired = buildMessage(nonce, { expirationTime: new Date(Date.now() - 1000) });
+    const early = buildMessage(nonce, { notBefore: new Date(Date.now() + 60 * 1000) });
+
+    await assert.rejects(
+      verifySiweMessage(expired, await account.signMessage({ message: expired })),
+      rejectsWith(AuthErrorCode.INVALID_SIWE_MESSAGE)
+    );
+    await assert.rejects(
+      verifySiweMessage(early, await account.signMessage({ message: early })),
+      rejectsWith(AuthErrorCode.INVALID_SIWE_MESSAGE)
+    );
+  });
+
+  it('rejects text that is not an EIP-4361 message', async () => {
+    const message = 'Please sign in';
+
+    await assert.rejects(
+      verifySiweMessage(message, await account.signMessage({ message })),
+      rejectsWith(AuthErrorCode.INVALID_SIWE_MESSAGE)
+    );
+  });
+});